@@ -0,0 +1,42 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { createServiceClient } from '@/lib/supabaseServer'
+
+// API route for a cron job (Vercel Cron, or a local crontab hitting it with curl)
+// that runs the scheduled event work: status transitions, closing RSVPs at the
+// deadline, and passing on expired waitlist offers.
+// Requires `Authorization: Bearer <CRON_SECRET>`.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST')
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return res.status(500).json({ error: 'CRON_SECRET is not configured' })
+  }
+  if (req.headers.authorization !== `Bearer ${secret}`) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const supabase = createServiceClient()
+  if (!supabase) {
+    return res.status(500).json({ error: 'Scheduled jobs are not configured' })
+  }
+
+  try {
+    const { data: statusChanges, error: statusError } = await supabase.rpc('auto_update_event_status')
+    if (statusError) throw statusError
+
+    const { error: waitlistError } = await supabase.rpc('process_waitlist_offers')
+    if (waitlistError) throw waitlistError
+
+    return res.status(200).json({ statusChanges: statusChanges ?? 0 })
+  } catch (error) {
+    console.error('Error running event status job:', error)
+    return res.status(500).json({ error: 'Failed to run event status job' })
+  }
+}
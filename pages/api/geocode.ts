@@ -0,0 +1,49 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { createServiceClient } from '@/lib/supabaseServer'
+import { getGeocodingProvider } from '@/lib/geocodingServer'
+
+// API route that geocodes an event location: GET /api/geocode?q=<address>
+// Signed-in users only (`Authorization: Bearer <access token>`), so the provider's
+// quota isn't open to the world. Responds with { place } (null when nothing matched).
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET')
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const { q } = req.query
+  if (!q || typeof q !== 'string' || !q.trim()) {
+    return res.status(400).json({ error: 'Missing address' })
+  }
+  if (q.length > 300) {
+    return res.status(400).json({ error: 'Address is too long' })
+  }
+
+  const provider = getGeocodingProvider()
+  if (!provider) {
+    return res.status(503).json({ error: 'Geocoding is not configured' })
+  }
+
+  const supabase = createServiceClient()
+  if (!supabase) {
+    return res.status(500).json({ error: 'Geocoding is not configured' })
+  }
+
+  const token = req.headers.authorization?.replace(/^Bearer /, '')
+  const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } }
+  if (!user) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  try {
+    const place = await provider.geocode(q.trim())
+    res.setHeader('Cache-Control', 'private, max-age=86400')
+    return res.status(200).json({ place })
+  } catch (error) {
+    console.error(`Error geocoding with ${provider.name}:`, error)
+    return res.status(502).json({ error: 'Failed to geocode address' })
+  }
+}
@@ -0,0 +1,65 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { createServiceClient } from '@/lib/supabaseServer'
+import { canUserViewEvent } from '@/lib/eventAccess'
+import { buildICalendar, toICalEvent } from '@/utils/ical'
+import { getBaseUrl } from '@/utils/url'
+
+// API route that serves a single event as an .ics file ("Add to calendar")
+// Private events need ?token=<calendar feed token> of someone allowed to see them
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const { id, token } = req.query
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Missing event ID' })
+  }
+
+  const supabase = createServiceClient()
+  if (!supabase) {
+    return res.status(500).json({ error: 'Calendar export is not configured' })
+  }
+
+  try {
+    const { data: event, error } = await supabase
+      .from('events')
+      .select('id, title, description, date, time, end_time, location, status, updated_at, published, is_private, created_by')
+      .eq('id', id)
+      .single()
+
+    if (error || !event) {
+      return res.status(404).json({ error: 'Event not found' })
+    }
+
+    let userId: string | null = null
+    if (typeof token === 'string' && token) {
+      const { data: feed } = await supabase
+        .from('calendar_feeds')
+        .select('user_id')
+        .eq('token', token)
+        .maybeSingle()
+      userId = feed?.user_id || null
+    }
+
+    if (!(await canUserViewEvent(supabase, event, userId))) {
+      return res.status(404).json({ error: 'Event not found' })
+    }
+
+    const baseUrl = getBaseUrl()
+    const calendar = buildICalendar(
+      [toICalEvent(event, `${baseUrl}/events/${event.id}`)],
+      { name: event.title, domain: new URL(baseUrl).host }
+    )
+
+    const fileName = event.title.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'event'
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8')
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}.ics"`)
+    res.setHeader('Cache-Control', 'private, max-age=300')
+    return res.status(200).send(calendar)
+  } catch (err) {
+    console.error('Error exporting event calendar:', err)
+    return res.status(500).json({ error: 'Failed to export event' })
+  }
+}
@@ -0,0 +1,101 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { createServiceClient } from '@/lib/supabaseServer'
+import { buildICalendar, toICalEvent, type ICalEventSource } from '@/utils/ical'
+import { getBaseUrl } from '@/utils/url'
+
+// How far back the feed reaches, so recent past events stay on the calendar
+const FEED_HISTORY_DAYS = 90
+
+const EVENT_COLUMNS = 'id, title, description, date, time, end_time, location, status, updated_at, is_private'
+
+// API route that serves a user's subscribable calendar feed:
+// events they RSVP'd going/maybe to, plus events in groups they subscribe to.
+// Cancelled events stay in the feed with STATUS:CANCELLED so calendars update.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const { token } = req.query
+
+  if (!token || typeof token !== 'string') {
+    return res.status(400).json({ error: 'Missing feed token' })
+  }
+
+  const supabase = createServiceClient()
+  if (!supabase) {
+    return res.status(500).json({ error: 'Calendar feeds are not configured' })
+  }
+
+  try {
+    const { data: feed } = await supabase
+      .from('calendar_feeds')
+      .select('id, user_id')
+      .eq('token', token)
+      .maybeSingle()
+
+    if (!feed) {
+      return res.status(404).json({ error: 'Calendar feed not found' })
+    }
+
+    const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString()
+    const eventsById = new Map<string, ICalEventSource>()
+
+    // Events the user RSVP'd to (private ones included - they're attending)
+    const { data: rsvps } = await supabase
+      .from('event_rsvps')
+      .select('event_id')
+      .eq('user_id', feed.user_id)
+      .in('status', ['going', 'maybe'])
+
+    const rsvpEventIds = (rsvps || []).map((r: { event_id: string }) => r.event_id)
+    if (rsvpEventIds.length > 0) {
+      const { data: rsvpEvents } = await supabase
+        .from('events')
+        .select(EVENT_COLUMNS)
+        .in('id', rsvpEventIds)
+        .eq('published', true)
+        .gte('date', since)
+
+      rsvpEvents?.forEach((event: ICalEventSource) => eventsById.set(event.id, event))
+    }
+
+    // Public events from subscribed groups
+    const { data: subscriptions } = await supabase
+      .from('event_group_subscriptions')
+      .select('creator_id, group_name')
+      .eq('subscriber_id', feed.user_id)
+
+    for (const subscription of subscriptions || []) {
+      const { data: groupEvents } = await supabase
+        .from('events')
+        .select(EVENT_COLUMNS)
+        .eq('created_by', subscription.creator_id)
+        .eq('group_name', subscription.group_name)
+        .eq('published', true)
+        .gte('date', since)
+
+      groupEvents
+        ?.filter((event: ICalEventSource & { is_private?: boolean }) => !event.is_private)
+        .forEach((event: ICalEventSource) => eventsById.set(event.id, event))
+    }
+
+    await supabase
+      .from('calendar_feeds')
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq('id', feed.id)
+
+    const baseUrl = getBaseUrl()
+    const calendar = buildICalendar(
+      Array.from(eventsById.values()).map(event => toICalEvent(event, `${baseUrl}/events/${event.id}`)),
+      { name: 'Section Events', domain: new URL(baseUrl).host }
+    )
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8')
+    res.setHeader('Content-Disposition', 'inline; filename="section-events.ics"')
+    res.setHeader('Cache-Control', 'private, max-age=900')
+    return res.status(200).send(calendar)
+  } catch (err) {
+    console.error('Error building calendar feed:', err)
+    return res.status(500).json({ error: 'Failed to build calendar feed' })
+  }
+}
@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { createServiceClient } from '@/lib/supabaseServer'
+import { claimInvitation, verifyInviteToken } from '@/lib/eventInvitesServer'
+
+// API route that links an emailed invitation to the signed-in user:
+// POST /api/invitations/claim { token } with `Authorization: Bearer <access token>`.
+// Responds with { eventId } so the client can go straight to the event.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST')
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const { token: inviteToken } = req.body || {}
+  if (!inviteToken || typeof inviteToken !== 'string') {
+    return res.status(400).json({ error: 'Missing invite token' })
+  }
+
+  const invite = verifyInviteToken(inviteToken)
+  if (!invite) {
+    return res.status(410).json({ error: 'This invite link is invalid or has expired' })
+  }
+
+  const supabase = createServiceClient()
+  if (!supabase) {
+    return res.status(500).json({ error: 'Email invitations are not configured' })
+  }
+
+  const token = req.headers.authorization?.replace(/^Bearer /, '')
+  const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } }
+  if (!user) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  try {
+    const eventId = await claimInvitation(supabase, invite, user.id)
+    if (!eventId) {
+      return res.status(410).json({ error: 'This invitation has already been used or the link was replaced' })
+    }
+    return res.status(200).json({ eventId })
+  } catch (error) {
+    console.error('Error claiming invitation:', error)
+    return res.status(500).json({ error: 'Failed to accept invitation' })
+  }
+}
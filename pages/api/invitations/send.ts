@@ -0,0 +1,58 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { createServiceClient } from '@/lib/supabaseServer'
+import { loadInvitationDetails, sendInvitationEmail } from '@/lib/eventInvitesServer'
+
+// API route that emails a signed invite link: POST /api/invitations/send { invitationId }
+// Only the event's host or co-hosts may send (`Authorization: Bearer <access token>`).
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST')
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const { invitationId } = req.body || {}
+  if (!invitationId || typeof invitationId !== 'string') {
+    return res.status(400).json({ error: 'Missing invitation ID' })
+  }
+
+  const supabase = createServiceClient()
+  if (!supabase) {
+    return res.status(500).json({ error: 'Email invitations are not configured' })
+  }
+
+  const token = req.headers.authorization?.replace(/^Bearer /, '')
+  const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } }
+  if (!user) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  try {
+    const details = await loadInvitationDetails(supabase, invitationId)
+    if (!details) {
+      return res.status(404).json({ error: 'Invitation not found' })
+    }
+
+    const { data: cohost } = await supabase
+      .from('event_cohosts')
+      .select('id')
+      .eq('event_id', details.event.id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+    if (details.event.created_by !== user.id && !cohost) {
+      return res.status(403).json({ error: 'Only hosts can send invitations' })
+    }
+
+    if (!details.email || details.user_id) {
+      return res.status(400).json({ error: 'Only email invitations for people without an account can be sent' })
+    }
+
+    await sendInvitationEmail(supabase, details)
+    return res.status(200).json({ sent: true })
+  } catch (error) {
+    console.error('Error sending invitation email:', error)
+    return res.status(500).json({ error: 'Failed to send invitation email' })
+  }
+}
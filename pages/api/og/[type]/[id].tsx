@@ -0,0 +1,154 @@
+import { ImageResponse } from 'next/og'
+import type { NextRequest } from 'next/server'
+import { createOgClient, isOgEntityType, loadOgSubject, type OgEntityType, type OgSubject } from '@/lib/ogPreviewServer'
+import { getBaseUrl } from '@/utils/url'
+
+export const config = { runtime: 'edge' }
+
+const CARD_SIZE = { width: 1200, height: 630 }
+
+// Previews include live counts, so don't let crawlers and CDNs hold them for long
+const CACHE_CONTROL = 'public, max-age=3600, s-maxage=3600'
+
+const EYEBROWS: Record<OgEntityType, string> = {
+  event: 'EVENT',
+  section: 'SECTION',
+  project: 'PROJECT',
+}
+
+const truncate = (text: string, maxLength: number) =>
+  text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text
+
+// Only public files in our own Supabase storage; anything else a host typed in
+// as the image URL gets the generated card
+const isStorageUrl = (coverUrl: string): boolean => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  if (!supabaseUrl) return false
+
+  try {
+    const url = new URL(coverUrl)
+    return url.origin === new URL(supabaseUrl).origin && url.pathname.startsWith('/storage/v1/object/public/')
+  } catch {
+    return false
+  }
+}
+
+// SVGs can carry scripts, so they're not served from our domain
+const isRasterImage = (contentType: string | null): contentType is string =>
+  !!contentType && contentType.startsWith('image/') && !contentType.startsWith('image/svg')
+
+// Serve the uploaded cover from our own domain (iMessage may not follow redirects)
+const proxyCover = async (coverUrl: string): Promise<Response | null> => {
+  if (!isStorageUrl(coverUrl)) return null
+
+  try {
+    const response = await fetch(coverUrl, { redirect: 'error' })
+    const contentType = response.headers.get('content-type')
+    if (!response.ok || !response.body || !isRasterImage(contentType)) return null
+
+    return new Response(response.body, {
+      headers: {
+        'Content-Type': contentType,
+        'Cache-Control': CACHE_CONTROL,
+        'X-Content-Type-Options': 'nosniff',
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching cover image:', error)
+    return null
+  }
+}
+
+// Link preview image for an event, section or project: its cover when it has one,
+// otherwise a generated card. Private subjects get a generic card (see ogPreviewServer).
+export default async function handler(req: NextRequest) {
+  const { searchParams } = new URL(req.url)
+  const type = searchParams.get('type')
+  const id = searchParams.get('id')
+
+  if (!isOgEntityType(type) || !id) {
+    return new Response('Not found', { status: 404 })
+  }
+
+  let subject: OgSubject | null = null
+  const client = createOgClient()
+  if (client) {
+    try {
+      subject = await loadOgSubject(client, type, id)
+    } catch (error) {
+      console.error(`Error loading ${type} ${id} for preview card:`, error)
+    }
+  }
+
+  if (subject?.coverUrl) {
+    const cover = await proxyCover(subject.coverUrl)
+    if (cover) return cover
+  }
+
+  const title = truncate(subject?.title || 'Section', 90)
+  const details = (subject?.details || []).slice(0, 4).map(line => truncate(line, 70))
+  const siteHost = new URL(getBaseUrl()).host
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: '64px 72px',
+          background: 'linear-gradient(135deg, #0b1220 0%, #1a1340 60%, #2e1a5e 100%)',
+          color: '#e6f0ff',
+          fontFamily: 'sans-serif',
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
+          <div
+            style={{
+              display: 'flex',
+              padding: '8px 20px',
+              borderRadius: '999px',
+              background: 'rgba(139, 92, 246, 0.25)',
+              border: '2px solid #8b5cf6',
+              color: '#c4b5fd',
+              fontSize: 24,
+              letterSpacing: '4px',
+            }}
+          >
+            {EYEBROWS[type]}
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '28px' }}>
+          <div style={{ display: 'flex', fontSize: title.length > 50 ? 60 : 76, fontWeight: 700, lineHeight: 1.1 }}>
+            {title}
+          </div>
+          {subject?.isPrivate ? (
+            <div style={{ display: 'flex', fontSize: 32, color: '#b3c1d1' }}>
+              Invite only. Sign in to see the details.
+            </div>
+          ) : (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+              {details.map(line => (
+                <div key={line} style={{ display: 'flex', fontSize: 32, color: '#b3c1d1' }}>
+                  {line}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: 26 }}>
+          <div style={{ display: 'flex', fontWeight: 700, color: '#8b5cf6' }}>Section</div>
+          <div style={{ display: 'flex', color: '#60a5fa' }}>{siteHost}</div>
+        </div>
+      </div>
+    ),
+    {
+      ...CARD_SIZE,
+      headers: { 'Cache-Control': CACHE_CONTROL },
+    }
+  )
+}
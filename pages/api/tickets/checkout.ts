@@ -0,0 +1,70 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { createServiceClient } from '@/lib/supabaseServer'
+import { canUserViewEvent } from '@/lib/eventAccess'
+import { getPaymentProvider } from '@/lib/payments'
+import { purchaseTicket } from '@/lib/ticketsServer'
+
+// API route that buys a ticket for the signed-in user:
+// POST /api/tickets/checkout { eventId, ticketTypeId, quantity, amountCents? }
+// with `Authorization: Bearer <access token>`. quantity covers the buyer and their
+// guests; amountCents is only read for donation tickets. Responds with { orderId }.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST')
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const { eventId, ticketTypeId, quantity, amountCents } = req.body || {}
+  if (!eventId || typeof eventId !== 'string' || !ticketTypeId || typeof ticketTypeId !== 'string') {
+    return res.status(400).json({ error: 'Missing event or ticket type' })
+  }
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    return res.status(400).json({ error: 'Invalid quantity' })
+  }
+  if (amountCents != null && (!Number.isInteger(amountCents) || amountCents < 0)) {
+    return res.status(400).json({ error: 'Invalid amount' })
+  }
+
+  const supabase = createServiceClient()
+  if (!supabase) {
+    return res.status(500).json({ error: 'Ticketing is not configured' })
+  }
+
+  const token = req.headers.authorization?.replace(/^Bearer /, '')
+  const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } }
+  if (!user) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  try {
+    const { data: event } = await supabase
+      .from('events')
+      .select('id, created_by, published, is_private')
+      .eq('id', eventId)
+      .maybeSingle()
+
+    if (!event || !(await canUserViewEvent(supabase, event, user.id))) {
+      return res.status(404).json({ error: 'Event not found' })
+    }
+
+    const result = await purchaseTicket(supabase, getPaymentProvider(), {
+      eventId,
+      ticketTypeId,
+      userId: user.id,
+      userEmail: user.email,
+      quantity,
+      amountCents,
+    })
+
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error })
+    }
+    return res.status(200).json({ orderId: result.orderId })
+  } catch (error) {
+    console.error('Error buying ticket:', error)
+    return res.status(500).json({ error: 'Checkout failed' })
+  }
+}
@@ -0,0 +1,94 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { createServiceClient } from '@/lib/supabaseServer'
+import { getPaymentProvider } from '@/lib/payments'
+import { loadTicketOrder, refundEventTicketOrders, refundTicketOrder } from '@/lib/ticketsServer'
+
+// API route that refunds tickets, with `Authorization: Bearer <access token>`:
+// - POST /api/tickets/refund { orderId }: the buyer cancelling before the event
+//   starts, or a host refunding anyone's order
+// - POST /api/tickets/refund { eventId }: a host refunding every order of a
+//   cancelled event; responds with { refunded: <count> }
+// Refunded RSVPs drop to "not going", which promotes the waitlist.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST')
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const { orderId, eventId } = req.body || {}
+  if ((!orderId || typeof orderId !== 'string') && (!eventId || typeof eventId !== 'string')) {
+    return res.status(400).json({ error: 'Missing order or event ID' })
+  }
+
+  const supabase = createServiceClient()
+  if (!supabase) {
+    return res.status(500).json({ error: 'Ticketing is not configured' })
+  }
+
+  const token = req.headers.authorization?.replace(/^Bearer /, '')
+  const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } }
+  if (!user) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
+
+  const isHost = async (id: string, createdBy: string) => {
+    if (createdBy === user.id) return true
+    const { data: cohost } = await supabase
+      .from('event_cohosts')
+      .select('id')
+      .eq('event_id', id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+    return !!cohost
+  }
+
+  try {
+    const order = typeof orderId === 'string' ? await loadTicketOrder(supabase, orderId) : null
+    const { data: event } = await supabase
+      .from('events')
+      .select('id, created_by, date, status')
+      .eq('id', order ? order.event_id : eventId)
+      .maybeSingle()
+
+    if (!event || (typeof orderId === 'string' && !order)) {
+      return res.status(404).json({ error: 'Order not found' })
+    }
+
+    const host = await isHost(event.id, event.created_by)
+
+    if (!order) {
+      if (!host) {
+        return res.status(403).json({ error: 'Only hosts can refund an event' })
+      }
+      if (event.status !== 'cancelled') {
+        return res.status(400).json({ error: 'Only cancelled events can be refunded in full' })
+      }
+      const refunded = await refundEventTicketOrders(supabase, getPaymentProvider(), event.id, user.id)
+      return res.status(200).json({ refunded })
+    }
+
+    if (!host) {
+      if (order.user_id !== user.id) {
+        return res.status(403).json({ error: 'Not your order' })
+      }
+      if (new Date(event.date) <= new Date() || ['live', 'completed'].includes(event.status)) {
+        return res.status(400).json({ error: 'Tickets can only be cancelled before the event starts' })
+      }
+    }
+
+    if (order.status !== 'paid') {
+      return res.status(409).json({ error: 'This order has already been refunded or was never paid' })
+    }
+
+    if (!(await refundTicketOrder(supabase, getPaymentProvider(), order, user.id))) {
+      return res.status(409).json({ error: 'This order has already been refunded or was never paid' })
+    }
+    return res.status(200).json({ refunded: 1 })
+  } catch (error) {
+    console.error('Error refunding tickets:', error)
+    return res.status(500).json({ error: 'Refund failed' })
+  }
+}
@@ -43,6 +43,24 @@ const Auth: React.FC = () => {
     }
   }, [router.query])
 
+  // Invite links send people here with ?tab=signup&email=...&redirect=/invite/...
+  React.useEffect(() => {
+    const { tab, email } = router.query
+    if (tab === 'signup' || tab === 'login') setActiveTab(tab)
+    if (typeof email === 'string') {
+      setSignupEmail(email)
+      setLoginEmail(prev => prev || email)
+    }
+  }, [router.query.tab, router.query.email])
+
+  // Only same-site paths, so the redirect can't be used to bounce people elsewhere
+  const getRedirectPath = () => {
+    const { redirect } = router.query
+    return typeof redirect === 'string' && redirect.startsWith('/') && !redirect.startsWith('//')
+      ? redirect
+      : '/events'
+  }
+
   const showError = (message: string) => {
     setError(message)
     setSuccess(null)
@@ -75,9 +93,9 @@ const Auth: React.FC = () => {
         } else {
           localStorage.removeItem('tmw-ppl-remembered-email')
         }
-        console.log('Sign in successful, redirecting to events...')
+        console.log('Sign in successful, redirecting...')
         setTimeout(() => {
-          router.push('/events')
+          router.push(getRedirectPath())
         }, 500)
       }
     } catch (err) {
@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react'
 import { useRouter } from 'next/router'
 import { useAuth } from '@/contexts/AuthContext'
 import { useToast } from '@/contexts/ToastContext'
-import { supabase, type Channel, type ChannelMessage } from '@/lib/supabase'
+import { supabase, type Channel, type ChannelMessage, type MessageReaction } from '@/lib/supabase'
 import Card from '@/components/ui/Card'
 import Button from '@/components/ui/Button'
 import Loading from '@/components/ui/Loading'
@@ -10,9 +10,33 @@ import MessageItem from '@/components/channels/MessageItem'
 import MessageInput from '@/components/channels/MessageInput'
 import TypingIndicator from '@/components/channels/TypingIndicator'
 import Avatar from '@/components/ui/Avatar'
+import NewMessageModal from '@/components/channels/NewMessageModal'
+import ThreadPanel from '@/components/channels/ThreadPanel'
 import Link from 'next/link'
+import {
+  getDmAvatarUrl,
+  getDmTitle,
+  isDirectMessage,
+  loadDmParticipants,
+  type DmParticipant,
+} from '@/lib/directMessages'
+import {
+  isInChannelTimeline,
+  loadMessage,
+  loadReplyAuthors,
+  type ThreadReplyAuthor,
+} from '@/lib/threads'
+import { createProfileLoader, loadChannelPage } from '@/lib/chatMessages'
+import {
+  findFirstUnreadId,
+  loadLastReadAt,
+  markChannelRead,
+  markThreadRead,
+  NO_UNREAD,
+} from '@/lib/unread'
+import { useUnreadCounts } from '@/hooks/useUnreadCounts'
 
-type ChatFilter = 'all' | 'sections' | 'events'
+type ChatFilter = 'all' | 'dms' | 'sections' | 'events'
 
 const Chats: React.FC = () => {
   const { user } = useAuth()
@@ -27,8 +51,30 @@ const Chats: React.FC = () => {
   const [filter, setFilter] = useState<ChatFilter>('all')
   const [subscription, setSubscription] = useState<any>(null)
   const messagesEndRef = React.useRef<HTMLDivElement>(null)
+  const messagesContainerRef = React.useRef<HTMLDivElement>(null)
+  const unreadDividerRef = React.useRef<HTMLDivElement>(null)
+  // The read marker as last sent, and whether to open at the first unread
+  const readMarkerRef = React.useRef<string | null>(null)
+  const scrollToUnreadRef = React.useRef(false)
+  // Scroll bookkeeping: where the list ended, whether we're following the
+  // bottom, and the height to restore after older history goes in above
+  const lastMessageIdRef = React.useRef<string | null>(null)
+  const atBottomRef = React.useRef(true)
+  const olderScrollHeightRef = React.useRef<number | null>(null)
+  // Results for a chat the user has since left are dropped
+  const activeChannelIdRef = React.useRef<string | null>(null)
+  const profileLoader = React.useRef(createProfileLoader()).current
+  const [hasOlderMessages, setHasOlderMessages] = useState(false)
+  const [loadingOlder, setLoadingOlder] = useState(false)
   const [sectionInvitations, setSectionInvitations] = useState<any[]>([])
   const [invitationsLoading, setInvitationsLoading] = useState(true)
+  const [dmParticipants, setDmParticipants] = useState<Record<string, DmParticipant[]>>({})
+  const [showNewMessage, setShowNewMessage] = useState(false)
+  const [threadParent, setThreadParent] = useState<ChannelMessage | null>(null)
+  const [replyAuthors, setReplyAuthors] = useState<Record<string, ThreadReplyAuthor>>({})
+  const [firstUnreadId, setFirstUnreadId] = useState<string | null>(null)
+  const { counts: unreadCounts, totals: unreadTotals, refresh: refreshUnread } = useUnreadCounts()
+  const openedThreadRef = React.useRef<string | null>(null)
 
   useEffect(() => {
     if (!user) {
@@ -40,6 +86,8 @@ const Chats: React.FC = () => {
   }, [user, filter])
 
   useEffect(() => {
+    setThreadParent(null)
+    activeChannelIdRef.current = selectedChannel?.id || null
     if (selectedChannel) {
       loadMessages(selectedChannel.id)
       const sub = subscribeToMessages(selectedChannel.id)
@@ -52,9 +100,93 @@ const Chats: React.FC = () => {
     }
   }, [selectedChannel])
 
+  React.useLayoutEffect(() => {
+    // Wait until the list is on screen
+    if (messagesLoading) return
+    const container = messagesContainerRef.current
+    const lastId = messages.length > 0 ? messages[messages.length - 1].id : null
+    const appended = lastId !== lastMessageIdRef.current
+    lastMessageIdRef.current = lastId
+
+    // Older history went in above: keep the same messages on screen
+    if (olderScrollHeightRef.current !== null && container) {
+      container.scrollTop += container.scrollHeight - olderScrollHeightRef.current
+      olderScrollHeightRef.current = null
+      return
+    }
+
+    // Open at the "new messages" divider, then follow new messages at the bottom
+    if (scrollToUnreadRef.current && unreadDividerRef.current) {
+      scrollToUnreadRef.current = false
+      unreadDividerRef.current.scrollIntoView({ block: 'center' })
+      return
+    }
+
+    // Edits and reactions don't move the list, nor do new messages while reading history
+    const ownMessage = messages.length > 0 && messages[messages.length - 1].user_id === user?.id
+    if (appended && (atBottomRef.current || ownMessage)) {
+      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
+    }
+  }, [messages, messagesLoading])
+
+  // Move the read marker as messages scroll into view. The end of the list
+  // counts as reading everything up to now.
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages])
+    const container = messagesContainerRef.current
+    if (!selectedChannel || !container || messagesLoading) return
+    const channelId = selectedChannel.id
+
+    const observer = new IntersectionObserver((entries) => {
+      if (document.visibilityState !== 'visible') return
+      const seen = entries
+        .filter(entry => entry.isIntersecting)
+        .map(entry => (entry.target as HTMLElement).dataset.readAt!)
+      if (seen.length === 0) return
+
+      const readAt = seen.includes('now')
+        ? new Date().toISOString()
+        : seen.reduce((latest, at) => new Date(at).getTime() > new Date(latest).getTime() ? at : latest)
+      markReadUpTo(channelId, readAt)
+    }, { root: container, threshold: 0.5 })
+
+    const observeAll = () => {
+      observer.disconnect()
+      container.querySelectorAll('[data-read-at]').forEach(el => observer.observe(el))
+    }
+    observeAll()
+
+    // Coming back to the tab re-checks what's on screen
+    document.addEventListener('visibilitychange', observeAll)
+    return () => {
+      document.removeEventListener('visibilitychange', observeAll)
+      observer.disconnect()
+    }
+  }, [messages, selectedChannel, messagesLoading])
+
+  // Open the conversation from ?channel= (e.g. after "Message" on a profile)
+  useEffect(() => {
+    const channelId = router.query.channel as string
+    if (channelId && channels.length > 0 && selectedChannel?.id !== channelId) {
+      const targetChannel = channels.find(c => c.id === channelId)
+      if (targetChannel) {
+        setSelectedChannel(targetChannel)
+      }
+    }
+  }, [router.query.channel, channels])
+
+  // Open the thread from ?thread= (e.g. a mention in a reply) once its chat has loaded
+  useEffect(() => {
+    const threadId = router.query.thread as string
+    if (
+      threadId &&
+      openedThreadRef.current !== threadId &&
+      selectedChannel?.id === router.query.channel &&
+      !messagesLoading
+    ) {
+      openedThreadRef.current = threadId
+      handleOpenThread(threadId)
+    }
+  }, [router.query.thread, selectedChannel, messagesLoading])
 
   const loadChannels = async () => {
     try {
@@ -77,6 +209,8 @@ const Chats: React.FC = () => {
         query = query.eq('type', 'section')
       } else if (filter === 'events') {
         query = query.eq('type', 'event')
+      } else if (filter === 'dms') {
+        query = query.eq('type', 'dm')
       } else {
         // For 'all', get channels user is a member of
         const { data: memberChannels } = await supabase
@@ -134,12 +268,21 @@ const Chats: React.FC = () => {
         filteredChannels = allChannels.filter((c: any) => c.type === 'section')
       } else if (filter === 'events') {
         filteredChannels = allChannels.filter((c: any) => c.type === 'event')
+      } else if (filter === 'dms') {
+        filteredChannels = allChannels.filter(isDirectMessage)
       }
 
+      // DM titles and avatars come from the other people in them
+      const dmIds = filteredChannels.filter(isDirectMessage).map(c => c.id)
+      setDmParticipants(await loadDmParticipants(dmIds, user!.id))
+
       setChannels(filteredChannels)
       
-      // Select first channel if available and none selected
-      if (filteredChannels.length > 0 && !selectedChannel) {
+      // Select the linked channel, or the first one if none is selected
+      const linkedChannel = filteredChannels.find(c => c.id === router.query.channel)
+      if (linkedChannel && !selectedChannel) {
+        setSelectedChannel(linkedChannel)
+      } else if (filteredChannels.length > 0 && !selectedChannel) {
         setSelectedChannel(filteredChannels[0])
       } else if (filteredChannels.length === 0) {
         setSelectedChannel(null)
@@ -155,26 +298,64 @@ const Chats: React.FC = () => {
   const loadMessages = async (channelId: string) => {
     try {
       setMessagesLoading(true)
-      
-      const { data, error } = await supabase
-        .from('channel_messages')
-        .select(`
-          *,
-          user:profiles!user_id(id, full_name, email, profile_picture_url)
-        `)
-        .eq('channel_id', channelId)
-        .is('deleted_at', null)
-        .order('created_at', { ascending: true })
-        .limit(100)
+      setFirstUnreadId(null)
+      setHasOlderMessages(false)
+      atBottomRef.current = true
+      olderScrollHeightRef.current = null
 
-      if (error) throw error
+      const [page, lastReadAt] = await Promise.all([
+        loadChannelPage(channelId),
+        loadLastReadAt(channelId, user!.id)
+      ])
+      if (activeChannelIdRef.current !== channelId) return
 
-      setMessages((data || []) as ChannelMessage[])
+      const firstUnread = findFirstUnreadId(page.messages, lastReadAt, user!.id)
+      profileLoader.prime(page.messages)
+      readMarkerRef.current = lastReadAt
+      scrollToUnreadRef.current = !!firstUnread
+      setFirstUnreadId(firstUnread)
+      setHasOlderMessages(page.hasMore)
+      setMessages(page.messages)
+      setReplyAuthors(await loadReplyAuthors(page.messages))
     } catch (err: any) {
       console.error('Error loading messages:', err)
       setError(err.message || 'Failed to load messages')
     } finally {
-      setMessagesLoading(false)
+      if (activeChannelIdRef.current === channelId) {
+        setMessagesLoading(false)
+      }
+    }
+  }
+
+  // The page before the oldest message loaded, for scrolling back through history
+  const loadOlderMessages = async () => {
+    if (!selectedChannel || loadingOlder || !hasOlderMessages || messages.length === 0) return
+    const channelId = selectedChannel.id
+
+    try {
+      setLoadingOlder(true)
+      const page = await loadChannelPage(channelId, messages[0])
+      if (activeChannelIdRef.current !== channelId) return
+
+      const older = await loadReplyAuthors(page.messages)
+      profileLoader.prime(page.messages)
+      olderScrollHeightRef.current = messagesContainerRef.current?.scrollHeight ?? null
+      setHasOlderMessages(page.hasMore)
+      setMessages(prev => [...page.messages.filter(m => !prev.some(p => p.id === m.id)), ...prev])
+      setReplyAuthors(prev => ({ ...older, ...prev }))
+    } catch (err: any) {
+      console.error('Error loading older messages:', err)
+      showError('Failed to load earlier messages')
+    } finally {
+      setLoadingOlder(false)
+    }
+  }
+
+  const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const container = e.currentTarget
+    atBottomRef.current = container.scrollHeight - container.scrollTop - container.clientHeight < 150
+    if (container.scrollTop < 200) {
+      loadOlderMessages()
     }
   }
 
@@ -187,19 +368,71 @@ const Chats: React.FC = () => {
         table: 'channel_messages',
         filter: `channel_id=eq.${channelId}`
       }, (payload: any) => {
-        // Load user profile for new message
-        supabase
-          .from('profiles')
-          .select('id, full_name, email, profile_picture_url')
-          .eq('id', payload.new.user_id)
-          .single()
-          .then(({ data: userData }) => {
-            const newMessage = {
-              ...payload.new,
-              user: userData
-            } as ChannelMessage
-            setMessages(prev => [...prev, newMessage])
-          })
+        if (!isInChannelTimeline(payload.new)) return
+
+        profileLoader.load(payload.new.user_id).then(profile => {
+          const newMessage = { ...payload.new, profile, reactions: [] } as ChannelMessage
+          setMessages(prev => prev.some(m => m.id === newMessage.id) ? prev : [...prev, newMessage])
+        })
+      })
+      // Edits, soft deletes and thread summaries (a new reply updates its parent)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'channel_messages',
+        filter: `channel_id=eq.${channelId}`
+      }, (payload: any) => {
+        const updated = payload.new as ChannelMessage
+        if (updated.deleted_at) {
+          setMessages(prev => prev.filter(m => m.id !== updated.id))
+          return
+        }
+
+        const merge = (m: ChannelMessage) => ({ ...m, ...updated, profile: m.profile, reactions: m.reactions })
+        setMessages(prev => prev.map(m => m.id === updated.id ? merge(m) : m))
+        setThreadParent(prev => prev && prev.id === updated.id ? merge(prev) : prev)
+
+        const replierIds = updated.last_reply_user_ids || []
+        Promise.all(replierIds.map(profileLoader.load)).then(profiles => {
+          const authors = profiles.filter(Boolean) as ThreadReplyAuthor[]
+          if (authors.length > 0) {
+            setReplyAuthors(prev => ({ ...prev, ...Object.fromEntries(authors.map(a => [a.id, a])) }))
+          }
+        })
+      })
+      // Hard deletes can't be filtered by channel; only the id comes through
+      .on('postgres_changes', {
+        event: 'DELETE',
+        schema: 'public',
+        table: 'channel_messages'
+      }, (payload: any) => {
+        setMessages(prev => prev.filter(m => m.id !== payload.old.id))
+      })
+      // Reactions have no channel column, so match them to loaded messages
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'message_reactions'
+      }, (payload: any) => {
+        profileLoader.load(payload.new.user_id).then(profile => {
+          const reaction = { ...payload.new, profile } as MessageReaction
+          setMessages(prev => prev.map(m =>
+            m.id === reaction.message_id && !(m.reactions || []).some(r => r.id === reaction.id)
+              ? { ...m, reactions: [...(m.reactions || []), reaction] }
+              : m
+          ))
+        })
+      })
+      .on('postgres_changes', {
+        event: 'DELETE',
+        schema: 'public',
+        table: 'message_reactions'
+      }, (payload: any) => {
+        setMessages(prev => prev.map(m =>
+          (m.reactions || []).some(r => r.id === payload.old.id)
+            ? { ...m, reactions: (m.reactions || []).filter(r => r.id !== payload.old.id) }
+            : m
+        ))
       })
       .subscribe()
   }
@@ -233,8 +466,44 @@ const Chats: React.FC = () => {
     }
   }
 
+  // Read markers only move forward, so skip anything already covered
+  const markReadUpTo = async (channelId: string, readAt: string) => {
+    const previous = readMarkerRef.current
+    if (previous && new Date(readAt).getTime() <= new Date(previous).getTime()) return
+    readMarkerRef.current = readAt
+
+    try {
+      await markChannelRead(channelId, readAt)
+      refreshUnread()
+    } catch (err) {
+      console.error('Error marking chat as read:', err)
+    }
+  }
+
+  const handleOpenThread = async (parentMessageId: string) => {
+    markThreadRead(parentMessageId)
+      .then(refreshUnread)
+      .catch(err => console.error('Error marking thread as read:', err))
+
+    const parent = messages.find(m => m.id === parentMessageId)
+    if (parent) {
+      setThreadParent(parent)
+      return
+    }
+
+    try {
+      setThreadParent(await loadMessage(parentMessageId))
+    } catch (err: any) {
+      console.error('Error opening thread:', err)
+      showError('Failed to open thread')
+    }
+  }
+
   const getChannelDisplayName = (channel: Channel) => {
     const ch = channel as any
+    if (isDirectMessage(channel)) {
+      return getDmTitle(dmParticipants[channel.id])
+    }
     if (ch.type === 'section' && ch.section) {
       return ch.section.name
     }
@@ -246,6 +515,9 @@ const Chats: React.FC = () => {
 
   const getChannelImage = (channel: Channel) => {
     const ch = channel as any
+    if (isDirectMessage(channel)) {
+      return getDmAvatarUrl(dmParticipants[channel.id])
+    }
     if (ch.type === 'section' && ch.section) {
       return ch.section.image_url
     }
@@ -257,6 +529,10 @@ const Chats: React.FC = () => {
 
   const getChannelLink = (channel: Channel) => {
     const ch = channel as any
+    if (isDirectMessage(channel)) {
+      const participants = dmParticipants[channel.id]
+      return participants?.length === 1 ? `/profiles/${participants[0].id}` : null
+    }
     if (ch.type === 'section' && ch.section) {
       return `/sections/${ch.section.id}`
     }
@@ -266,6 +542,28 @@ const Chats: React.FC = () => {
     return null
   }
 
+  const getChannelIcon = (channel: Channel) => {
+    if (isDirectMessage(channel)) {
+      return (dmParticipants[channel.id]?.length || 0) > 1 ? '👥' : '💬'
+    }
+    return channel.type === 'section' ? '📁' : channel.type === 'event' ? '🎪' : '💬'
+  }
+
+  const getChannelLinkLabel = (channel: Channel) => {
+    if (isDirectMessage(channel)) return 'Profile'
+    return channel.type === 'section' ? 'Section' : 'Event'
+  }
+
+  const handleConversationStarted = (channelId: string) => {
+    setSelectedChannel(null)
+    router.replace(`/chats?channel=${channelId}`, undefined, { shallow: true })
+    if (filter === 'all' || filter === 'dms') {
+      loadChannels()
+    } else {
+      setFilter('dms')
+    }
+  }
+
   const loadSectionInvitations = async () => {
     if (!user) return
 
@@ -345,6 +643,116 @@ const Chats: React.FC = () => {
     }
   }
 
+  const dmChannels = channels.filter(isDirectMessage)
+  const otherChannels = channels.filter(c => !isDirectMessage(c))
+
+  const renderChannelItem = (channel: Channel) => {
+    const displayName = getChannelDisplayName(channel)
+    const imageUrl = getChannelImage(channel)
+    const link = getChannelLink(channel)
+    const isSelected = selectedChannel?.id === channel.id
+    // The open chat is being read, so it doesn't show a count
+    const unread = isSelected ? NO_UNREAD : unreadCounts[channel.id] || NO_UNREAD
+    const hasUnread = unread.unread_count > 0 || unread.mention_count > 0
+
+    return (
+      <div
+        key={channel.id}
+        onClick={() => setSelectedChannel(channel)}
+        style={{
+          padding: '0.75rem',
+          borderRadius: '8px',
+          cursor: 'pointer',
+          marginBottom: '0.5rem',
+          background: isSelected ? 'var(--primary)' : 'transparent',
+          color: isSelected ? 'white' : 'var(--text)',
+          transition: 'all 0.2s',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '0.75rem'
+        }}
+        onMouseEnter={(e) => {
+          if (!isSelected) {
+            e.currentTarget.style.background = 'var(--bg-2)'
+          }
+        }}
+        onMouseLeave={(e) => {
+          if (!isSelected) {
+            e.currentTarget.style.background = 'transparent'
+          }
+        }}
+      >
+        {imageUrl ? (
+          <img
+            src={imageUrl}
+            alt={displayName}
+            style={{
+              width: '40px',
+              height: '40px',
+              borderRadius: '8px',
+              objectFit: 'cover'
+            }}
+          />
+        ) : (
+          <div style={{
+            width: '40px',
+            height: '40px',
+            borderRadius: '8px',
+            background: isSelected ? 'rgba(255,255,255,0.2)' : 'var(--bg-2)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            fontSize: '1.25rem'
+          }}>
+            {getChannelIcon(channel)}
+          </div>
+        )}
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <div style={{ 
+            fontWeight: hasUnread ? 700 : 600, 
+            fontSize: '0.9rem',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap'
+          }}>
+            {displayName}
+          </div>
+          {link && (
+            <Link
+              href={link}
+              onClick={(e) => e.stopPropagation()}
+              style={{
+                fontSize: '0.75rem',
+                color: isSelected ? 'rgba(255,255,255,0.8)' : 'var(--muted)',
+                textDecoration: 'none'
+              }}
+            >
+              View {getChannelLinkLabel(channel)} →
+            </Link>
+          )}
+        </div>
+        {hasUnread && (
+          <span style={{
+            flexShrink: 0,
+            minWidth: '1.25rem',
+            padding: '0 0.4rem',
+            borderRadius: '999px',
+            textAlign: 'center',
+            fontSize: '0.75rem',
+            fontWeight: 700,
+            lineHeight: '1.25rem',
+            background: unread.mention_count > 0 ? '#ef4444' : 'var(--primary)',
+            color: 'white'
+          }}>
+            {unread.mention_count > 0
+              ? `@${unread.mention_count}`
+              : unread.unread_count > 99 ? '99+' : unread.unread_count}
+          </span>
+        )}
+      </div>
+    )
+  }
+
   if (loading) {
     return (
       <div style={{ padding: '2rem', textAlign: 'center' }}>
@@ -365,7 +773,42 @@ const Chats: React.FC = () => {
         paddingRight: '1rem'
       }}>
         <div style={{ marginBottom: '1rem' }}>
-          <h2 style={{ margin: '0 0 1rem 0' }}>Chats</h2>
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '1rem' }}>
+            <h2 style={{ margin: 0 }}>Chats</h2>
+            <Button variant="secondary" size="small" onClick={() => setShowNewMessage(true)}>
+              ✏️ New Message
+            </Button>
+          </div>
+
+          <Link
+            href="/mentions"
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              padding: '0.5rem 0.75rem',
+              marginBottom: '1rem',
+              borderRadius: '8px',
+              background: 'var(--bg-2)',
+              color: 'var(--text)',
+              textDecoration: 'none',
+              fontSize: '0.9rem'
+            }}
+          >
+            <span>@ Mentions</span>
+            {unreadTotals.mention_count > 0 && (
+              <span style={{
+                background: 'var(--primary)',
+                color: 'white',
+                borderRadius: '999px',
+                padding: '0 0.5rem',
+                fontSize: '0.75rem',
+                fontWeight: 600
+              }}>
+                {unreadTotals.mention_count}
+              </span>
+            )}
+          </Link>
           
           {/* Filters */}
           <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem' }}>
@@ -376,6 +819,13 @@ const Chats: React.FC = () => {
             >
               All
             </Button>
+            <Button
+              variant={filter === 'dms' ? 'primary' : 'secondary'}
+              size="small"
+              onClick={() => setFilter('dms')}
+            >
+              DMs
+            </Button>
             <Button
               variant={filter === 'sections' ? 'primary' : 'secondary'}
               size="small"
@@ -469,93 +919,27 @@ const Chats: React.FC = () => {
                   RSVP to events to see their chats
                 </p>
               )}
+              {filter === 'dms' && (
+                <p style={{ fontSize: '0.875rem', marginTop: '0.5rem' }}>
+                  Start one with New Message
+                </p>
+              )}
             </div>
           ) : (
-            channels.map((channel) => {
-              const displayName = getChannelDisplayName(channel)
-              const imageUrl = getChannelImage(channel)
-              const link = getChannelLink(channel)
-              const isSelected = selectedChannel?.id === channel.id
-
-              return (
-                <div
-                  key={channel.id}
-                  onClick={() => setSelectedChannel(channel)}
-                  style={{
-                    padding: '0.75rem',
-                    borderRadius: '8px',
-                    cursor: 'pointer',
-                    marginBottom: '0.5rem',
-                    background: isSelected ? 'var(--primary)' : 'transparent',
-                    color: isSelected ? 'white' : 'var(--text)',
-                    transition: 'all 0.2s',
-                    display: 'flex',
-                    alignItems: 'center',
-                    gap: '0.75rem'
-                  }}
-                  onMouseEnter={(e) => {
-                    if (!isSelected) {
-                      e.currentTarget.style.background = 'var(--bg-2)'
-                    }
-                  }}
-                  onMouseLeave={(e) => {
-                    if (!isSelected) {
-                      e.currentTarget.style.background = 'transparent'
-                    }
-                  }}
-                >
-                  {imageUrl ? (
-                    <img
-                      src={imageUrl}
-                      alt={displayName}
-                      style={{
-                        width: '40px',
-                        height: '40px',
-                        borderRadius: '8px',
-                        objectFit: 'cover'
-                      }}
-                    />
-                  ) : (
-                    <div style={{
-                      width: '40px',
-                      height: '40px',
-                      borderRadius: '8px',
-                      background: isSelected ? 'rgba(255,255,255,0.2)' : 'var(--bg-2)',
-                      display: 'flex',
-                      alignItems: 'center',
-                      justifyContent: 'center',
-                      fontSize: '1.25rem'
-                    }}>
-                      {(channel as any).type === 'section' ? '📁' : (channel as any).type === 'event' ? '🎪' : '💬'}
-                    </div>
-                  )}
-                  <div style={{ flex: 1, minWidth: 0 }}>
-                    <div style={{ 
-                      fontWeight: 600, 
-                      fontSize: '0.9rem',
-                      overflow: 'hidden',
-                      textOverflow: 'ellipsis',
-                      whiteSpace: 'nowrap'
-                    }}>
-                      {displayName}
-                    </div>
-                    {link && (
-                      <Link
-                        href={link}
-                        onClick={(e) => e.stopPropagation()}
-                        style={{
-                          fontSize: '0.75rem',
-                          color: isSelected ? 'rgba(255,255,255,0.8)' : 'var(--muted)',
-                          textDecoration: 'none'
-                        }}
-                      >
-                        View {(channel as any).type === 'section' ? 'Section' : 'Event'} →
-                      </Link>
-                    )}
-                  </div>
-                </div>
-              )
-            })
+            <>
+              {dmChannels.length > 0 && (
+                <>
+                  <h3 style={{ margin: '0.5rem 0 0.75rem 0', fontSize: '0.9rem', color: 'var(--muted)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>💬 Direct Messages</h3>
+                  {dmChannels.map(renderChannelItem)}
+                </>
+              )}
+              {otherChannels.length > 0 && (
+                <>
+                  {dmChannels.length > 0 && <h3 style={{ margin: '0.5rem 0 0.75rem 0', fontSize: '0.9rem', color: 'var(--muted)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>Channels</h3>}
+                  {otherChannels.map(renderChannelItem)}
+                </>
+              )}
+            </>
           )}
         </div>
       </div>
@@ -595,7 +979,7 @@ const Chats: React.FC = () => {
                   justifyContent: 'center',
                   fontSize: '1.5rem'
                 }}>
-                  {(selectedChannel as any).type === 'section' ? '📁' : (selectedChannel as any).type === 'event' ? '🎪' : '💬'}
+                  {getChannelIcon(selectedChannel)}
                 </div>
               )}
               <div style={{ flex: 1 }}>
@@ -608,17 +992,26 @@ const Chats: React.FC = () => {
                   </p>
                 )}
               </div>
+              {firstUnreadId && (
+                <Button
+                  variant="secondary"
+                  size="small"
+                  onClick={() => unreadDividerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' })}
+                >
+                  ↑ First unread
+                </Button>
+              )}
               {getChannelLink(selectedChannel) && (
                 <Link href={getChannelLink(selectedChannel)!}>
                   <Button variant="secondary" size="small">
-                    View {(selectedChannel as any).type === 'section' ? 'Section' : 'Event'}
+                    View {getChannelLinkLabel(selectedChannel)}
                   </Button>
                 </Link>
               )}
             </div>
 
             {/* Messages */}
-            <div style={{
+            <div ref={messagesContainerRef} onScroll={handleMessagesScroll} style={{
               flex: 1,
               overflowY: 'auto',
               padding: '1rem',
@@ -635,14 +1028,50 @@ const Chats: React.FC = () => {
                   <p>No messages yet. Start the conversation!</p>
                 </div>
               ) : (
-                messages.map((message) => (
-                  <MessageItem
-                    key={message.id}
-                    message={message}
-                  />
-                ))
+                <>
+                  <div style={{ textAlign: 'center', fontSize: '0.8rem', color: 'var(--muted)' }}>
+                    {loadingOlder
+                      ? 'Loading earlier messages...'
+                      : hasOlderMessages
+                        ? <button
+                            onClick={loadOlderMessages}
+                            style={{ background: 'none', border: 'none', color: 'var(--primary)', cursor: 'pointer', fontSize: '0.8rem' }}
+                          >
+                            Load earlier messages
+                          </button>
+                        : 'This is the beginning of the chat'}
+                  </div>
+                  {messages.map((message) => (
+                    <React.Fragment key={message.id}>
+                      {message.id === firstUnreadId && (
+                        <div
+                          ref={unreadDividerRef}
+                          style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: '0.5rem',
+                            color: '#ef4444',
+                            fontSize: '0.75rem',
+                            fontWeight: 600
+                          }}
+                        >
+                          <div style={{ flex: 1, height: '1px', background: '#ef4444' }} />
+                          New messages
+                          <div style={{ flex: 1, height: '1px', background: '#ef4444' }} />
+                        </div>
+                      )}
+                      <div data-read-at={message.created_at}>
+                        <MessageItem
+                          message={message}
+                          onOpenThread={handleOpenThread}
+                          replyAuthors={replyAuthors}
+                        />
+                      </div>
+                    </React.Fragment>
+                  ))}
+                </>
               )}
-              <div ref={messagesEndRef} />
+              <div ref={messagesEndRef} data-read-at="now" />
             </div>
 
             {/* Message Input */}
@@ -672,6 +1101,21 @@ const Chats: React.FC = () => {
           </div>
         )}
       </div>
+
+      {/* Thread Panel */}
+      {selectedChannel && threadParent && (
+        <ThreadPanel
+          parentMessage={threadParent}
+          channelName={getChannelDisplayName(selectedChannel)}
+          onClose={() => setThreadParent(null)}
+        />
+      )}
+
+      <NewMessageModal
+        isOpen={showNewMessage}
+        onClose={() => setShowNewMessage(false)}
+        onConversationStarted={handleConversationStarted}
+      />
     </div>
   )
 }
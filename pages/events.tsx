@@ -2,15 +2,22 @@ import React, { useState, useEffect, useCallback, useMemo } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/router'
 import { useAuth } from '@/contexts/AuthContext'
+import { useToast } from '@/contexts/ToastContext'
 import { supabase, type Event } from '@/lib/supabase'
 import Button from '@/components/ui/Button'
 import Chip from '@/components/ui/Chip'
 import Card from '@/components/ui/Card'
 import AnimatedSection from '@/components/AnimatedSection'
 import EventCalendar from '@/components/EventCalendar'
+import EventMap from '@/components/EventMap'
 import { isEventUpcoming, formatEventDateTime, migrateLegacyDateTime } from '@/utils/dateTime'
-
-type EventStatus = 'draft' | 'scheduled' | 'pending' | 'active' | 'live' | 'completed' | 'cancelled' | 'postponed'
+import { getCalendarFeedToken, getCalendarFeedUrl } from '@/lib/calendarFeed'
+import { joinWaitlist, leaveWaitlist } from '@/lib/waitlist'
+import { joinShareLink, loadMyShareLinkEventIds } from '@/lib/shareLinks'
+import { loadMyRsvpAnswers, loadRsvpQuestions } from '@/lib/rsvpQuestions'
+import { getHeadcount } from '@/utils/headcount'
+import { areRsvpsClosed, type EventStatus } from '@/utils/eventStatus'
+import { DISTANCE_OPTIONS_KM, formatDistance, getEventDistanceKm, getViewerLocation, type LatLng } from '@/utils/geo'
 
 interface EventWithRSVP extends Event {
   rsvp_count?: number
@@ -36,14 +43,15 @@ interface FeaturedGroup {
   is_subscribed: boolean
 }
 
-type ViewMode = 'list' | 'calendar'
-type SortOption = 'date' | 'popularity' | 'recently_added'
+type ViewMode = 'list' | 'calendar' | 'map'
+type SortOption = 'date' | 'popularity' | 'recently_added' | 'distance'
 type DateRange = 'all' | 'this_week' | 'this_month' | 'next_3_months'
 type PaginationMode = 'pagination' | 'infinite_scroll'
 
 const Events: React.FC = () => {
   const { user, loading: authLoading } = useAuth()
   const router = useRouter()
+  const { showSuccess, showError } = useToast()
   const [events, setEvents] = useState<EventWithRSVP[]>([])
   const [filteredEvents, setFilteredEvents] = useState<EventWithRSVP[]>([])
   const [popularEvents, setPopularEvents] = useState<EventWithRSVP[]>([])
@@ -57,7 +65,8 @@ const Events: React.FC = () => {
   // Require authentication
   useEffect(() => {
     if (!authLoading && !user) {
-      router.push('/auth')
+      // Come back here (with any ?share= link) after signing in
+      router.push(`/auth?redirect=${encodeURIComponent(router.asPath)}`)
     }
   }, [user, authLoading, router])
   
@@ -68,6 +77,9 @@ const Events: React.FC = () => {
   const [paginationMode, setPaginationMode] = useState<PaginationMode>('infinite_scroll')
   const [currentPage, setCurrentPage] = useState(1)
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null)
+  const [viewerLocation, setViewerLocation] = useState<LatLng | null>(null)
+  const [maxDistanceKm, setMaxDistanceKm] = useState<number | null>(null)
+  const [locating, setLocating] = useState(false)
   const itemsPerPage = 12
 
   const filters = [
@@ -113,32 +125,15 @@ const Events: React.FC = () => {
     return rsvpCount * recencyFactor
   }
 
-  // Utility functions for event status
-  const getStatusInfo = (status: EventStatus) => {
-    const statusConfig = {
-      draft: { label: 'Draft', color: 'var(--text-muted)', emoji: '📝' },
-      scheduled: { label: 'Scheduled', color: 'var(--primary)', emoji: '📅' },
-      pending: { label: 'Pending', color: 'var(--warning)', emoji: '⏳' },
-      active: { label: 'Open for RSVP', color: 'var(--success)', emoji: '✅' },
-      live: { label: 'Live Now', color: 'var(--danger)', emoji: '🔴' },
-      completed: { label: 'Completed', color: 'var(--text-muted)', emoji: '✓' },
-      cancelled: { label: 'Cancelled', color: 'var(--danger)', emoji: '❌' },
-      postponed: { label: 'Postponed', color: 'var(--warning)', emoji: '⏸️' }
-    }
-    return statusConfig[status] || statusConfig.scheduled
-  }
-
+  // Status transitions run server-side; the deadline check covers the gap until the next run
   const canRSVP = (event: EventWithRSVP): boolean => {
-    if (!event.status) return true
-    if (['draft', 'completed', 'cancelled', 'postponed'].includes(event.status)) return false
-    if (event.status === 'pending') return false
-    if (event.status === 'live') return false
-    return true
+    if (event.status && ['draft', 'postponed', 'live'].includes(event.status)) return false
+    return !areRsvpsClosed(event)
   }
 
   const isAtCapacity = (event: EventWithRSVP): boolean => {
     if (!event.max_capacity) return false
-    return (event.rsvp_count || 0) >= event.max_capacity
+    return getHeadcount(event) >= event.max_capacity
   }
 
   const getRSVPDeadlineInfo = (event: EventWithRSVP): string | null => {
@@ -158,16 +153,19 @@ const Events: React.FC = () => {
     if (eventIds.length === 0) return new Map()
     const { data: rsvpData } = await supabase
       .from('event_rsvps')
-      .select('event_id, status')
+      .select('event_id, status, guest_count')
       .in('event_id', eventIds)
     
-    const counts = new Map<string, { going: number; maybe: number; not_going: number }>()
+    const counts = new Map<string, { going: number; guests: number; maybe: number; not_going: number }>()
     rsvpData?.forEach((rsvp: any) => {
       if (!counts.has(rsvp.event_id)) {
-        counts.set(rsvp.event_id, { going: 0, maybe: 0, not_going: 0 })
+        counts.set(rsvp.event_id, { going: 0, guests: 0, maybe: 0, not_going: 0 })
       }
       const count = counts.get(rsvp.event_id)!
-      if (rsvp.status === 'going') count.going++
+      if (rsvp.status === 'going') {
+        count.going++
+        count.guests += rsvp.guest_count || 0
+      }
       else if (rsvp.status === 'maybe') count.maybe++
       else if (rsvp.status === 'not_going') count.not_going++
     })
@@ -250,10 +248,12 @@ const Events: React.FC = () => {
     }
   }
 
+  // Wait for the session and query string: private events and ?share= links depend on both
   useEffect(() => {
+    if (authLoading || !router.isReady) return
     loadEvents()
     loadFeaturedGroups()
-  }, [])
+  }, [authLoading, user?.id, router.isReady])
 
   const loadEvents = async () => {
     try {
@@ -270,25 +270,11 @@ const Events: React.FC = () => {
         return
       }
 
-      // Filter out private events unless user is invited or is the creator
-      let visibleEvents = (eventsData || []).filter((event: any) => {
-        const isPrivate = event.is_private || false
-        if (!isPrivate) return true // Public events are always visible
-        
-        // Private events: only visible if user is creator or invited
-        if (!user) return false // Not logged in, can't see private events
-        
-        // Creator can always see their own events
-        if (event.created_by === user.id) return true
-        
-        // Check if user is invited (will check below)
-        return false // Will be filtered after checking invitations
-      })
+      // Private events are only visible to their creator, invitees and people who
+      // joined through a share link. Logged-out users never see them.
+      let visibleEvents = (eventsData || []).filter((event: any) => !event.is_private || !!user)
 
-      const eventIds = visibleEvents.map((e: any) => e.id)
-      const rsvpCounts = await loadRSVPCounts(eventIds)
-
-      // Check invitations for private events if user is logged in
+      // Check invitations and share links for private events if user is logged in
       let invitedEventIds = new Set<string>()
       if (user && visibleEvents.some((e: any) => e.is_private)) {
         const privateEventIds = visibleEvents
@@ -296,13 +282,23 @@ const Events: React.FC = () => {
           .map((e: any) => e.id)
         
         if (privateEventIds.length > 0) {
-          const { data: invitations } = await supabase
-            .from('event_invitations')
-            .select('event_id')
-            .eq('user_id', user.id)
-            .in('event_id', privateEventIds)
+          // Opening /events?share=<token> joins through that link first
+          const shareToken = typeof router.query.share === 'string' ? router.query.share : null
+          if (shareToken) {
+            await joinShareLink(shareToken).catch(err => console.error('Error joining share link:', err))
+          }
+
+          const [{ data: invitations }, shareLinkEventIds] = await Promise.all([
+            supabase
+              .from('event_invitations')
+              .select('event_id')
+              .eq('user_id', user.id)
+              .in('event_id', privateEventIds),
+            loadMyShareLinkEventIds().catch(() => new Set<string>())
+          ])
           
           invitations?.forEach((inv: any) => invitedEventIds.add(inv.event_id))
+          shareLinkEventIds.forEach(id => invitedEventIds.add(id))
         }
       }
 
@@ -311,14 +307,18 @@ const Events: React.FC = () => {
         const isPrivate = event.is_private || false
         if (!isPrivate) return true
         if (event.created_by === user?.id) return true // Creator can see
-        return invitedEventIds.has(event.id) // Only if invited
+        return invitedEventIds.has(event.id) // Only if invited or joined via a share link
       })
 
+      const eventIds = visibleEvents.map((e: any) => e.id)
+      const rsvpCounts = await loadRSVPCounts(eventIds)
+
       let eventsWithRSVP = visibleEvents.map((event: any) => {
-        const counts = rsvpCounts.get(event.id) || { going: 0, maybe: 0, not_going: 0 }
+        const counts = rsvpCounts.get(event.id) || { going: 0, guests: 0, maybe: 0, not_going: 0 }
         return { 
           ...event, 
           rsvp_count: counts.going, 
+          guest_count: counts.guests, 
           maybe_count: counts.maybe, 
           not_going_count: counts.not_going,
           is_private: event.is_private || false // Handle case where column doesn't exist yet
@@ -411,9 +411,24 @@ const Events: React.FC = () => {
     )
   }
 
+  // Events without coordinates can't be measured, so a distance limit hides them
+  const applyDistanceFilter = (eventsToFilter: EventWithRSVP[]): EventWithRSVP[] => {
+    if (!maxDistanceKm || !viewerLocation) return eventsToFilter
+    return eventsToFilter.filter(event => {
+      const distance = getEventDistanceKm(event, viewerLocation)
+      return distance !== null && distance <= maxDistanceKm
+    })
+  }
+
   const applySorting = (eventsToSort: EventWithRSVP[]): EventWithRSVP[] => {
     const sorted = [...eventsToSort]
     switch (sortOption) {
+      case 'distance':
+        if (viewerLocation) {
+          return sorted.sort((a, b) =>
+            (getEventDistanceKm(a, viewerLocation) ?? Infinity) - (getEventDistanceKm(b, viewerLocation) ?? Infinity))
+        }
+        return sorted
       case 'popularity': return sorted.sort((a, b) => (b.popularity_score || 0) - (a.popularity_score || 0))
       case 'recently_added': return sorted.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
       case 'date':
@@ -447,7 +462,7 @@ const Events: React.FC = () => {
         })
         break
       case 'active':
-        filtered = filtered.filter((event) => event.status === 'active' || (event.status === 'scheduled' && canRSVP(event)))
+        filtered = filtered.filter((event) => (event.status === 'active' || event.status === 'scheduled') && canRSVP(event))
         break
       case 'live':
         filtered = filtered.filter((event) => event.status === 'live')
@@ -464,6 +479,7 @@ const Events: React.FC = () => {
     if (selectedCategory) filtered = filtered.filter((event) => event.tags && event.tags.includes(selectedCategory))
     const dateRangeFilter = getDateRangeFilter()
     filtered = filtered.filter(dateRangeFilter)
+    filtered = applyDistanceFilter(filtered)
     filtered = applySearchFilter(filtered)
     filtered = applySorting(filtered)
 
@@ -473,7 +489,36 @@ const Events: React.FC = () => {
 
   useEffect(() => {
     if (events.length > 0) filterEventsDirectly(events, activeFilter)
-  }, [searchQuery, sortOption, dateRange, selectedCategory, events.length])
+  }, [searchQuery, sortOption, dateRange, selectedCategory, maxDistanceKm, viewerLocation, events.length])
+
+  const locateViewer = async (): Promise<LatLng | null> => {
+    if (viewerLocation) return viewerLocation
+    setLocating(true)
+    try {
+      const location = await getViewerLocation()
+      setViewerLocation(location)
+      return location
+    } catch (err: any) {
+      console.error('Error getting location:', err)
+      showError(err.message || 'Could not get your location')
+      return null
+    } finally {
+      setLocating(false)
+    }
+  }
+
+  const handleDistanceChange = async (value: string) => {
+    if (!value) {
+      setMaxDistanceKm(null)
+      return
+    }
+    if (await locateViewer()) setMaxDistanceKm(Number(value))
+  }
+
+  const handleSortChange = async (value: SortOption) => {
+    if (value === 'distance' && !(await locateViewer())) return
+    setSortOption(value)
+  }
 
   const filterEvents = (filter: string) => {
     setActiveFilter(filter)
@@ -506,12 +551,38 @@ const Events: React.FC = () => {
     }
   }
 
+  // Copy the user's calendar feed URL and hand the webcal:// link to the OS calendar
+  const handleSubscribeCalendar = async () => {
+    if (!user) return
+    try {
+      const token = await getCalendarFeedToken(user.id)
+      await navigator.clipboard?.writeText(getCalendarFeedUrl(token, 'https'))
+      showSuccess('Calendar feed link copied! Paste it into Google Calendar, or open it to subscribe.')
+      window.location.href = getCalendarFeedUrl(token)
+    } catch (err) {
+      console.error('Error creating calendar feed:', err)
+      showError('Failed to create calendar feed. Please try again.')
+    }
+  }
+
   const handleRSVP = async (eventId: string, status: 'going' | 'maybe' | 'not_going') => {
     if (!user) { window.location.href = '/auth'; return }
     const event = events.find(e => e.id === eventId)
     if (!event) return
+    if (status !== 'not_going' && !canRSVP(event)) {
+      setError('RSVPs are closed for this event.')
+      return
+    }
     try {
       setRsvpLoading(eventId)
+      // Events with RSVP questions are answered on the event page
+      if (status !== 'not_going' && !event.user_rsvp_status) {
+        const questions = await loadRsvpQuestions(eventId)
+        if (questions.length > 0 && Object.keys(await loadMyRsvpAnswers(eventId, user.id)).length === 0) {
+          router.push(`/events/${eventId}`)
+          return
+        }
+      }
       if (status === 'going' && isAtCapacity(event) && !event.user_rsvp_status) {
         await handleJoinWaitlist(eventId)
         return
@@ -533,9 +604,7 @@ const Events: React.FC = () => {
     if (!user) return
     try {
       setRsvpLoading(eventId)
-      const { data, error } = await (supabase as any).rpc('add_to_waitlist', { p_event_id: eventId, p_user_id: user.id })
-      if (error) throw error
-      const position = data?.[0]?.waitlist_position || 1
+      const position = await joinWaitlist(eventId, user.id)
       setEvents(prev => prev.map(e => e.id === eventId ? { ...e, user_waitlist_position: position } : e))
       loadEvents()
     } catch (error) {
@@ -549,8 +618,7 @@ const Events: React.FC = () => {
     if (!user) return
     try {
       setRsvpLoading(eventId)
-      const { error } = await supabase.from('event_waitlist').delete().eq('event_id', eventId).eq('user_id', user.id)
-      if (error) throw error
+      await leaveWaitlist(eventId)
       setEvents(prev => prev.map(e => e.id === eventId ? { ...e, user_waitlist_position: null } : e))
       loadEvents()
     } catch (error) {
@@ -737,6 +805,7 @@ const Events: React.FC = () => {
     const creator = event.creator as any
     const creatorName = creator?.full_name || 'Unknown'
     const creatorPicture = creator?.profile_picture_url
+    const distance = getEventDistanceKm(event, viewerLocation)
     
     // Get RSVP status text and emoji (only if user has RSVP'd)
     let rsvpStatus = ''
@@ -843,6 +912,12 @@ const Events: React.FC = () => {
               {event.title}
             </h3>
 
+            {distance !== null && (
+              <div style={{ fontSize: '0.8rem', color: 'var(--muted)' }}>
+                📍 {formatDistance(distance)} away
+              </div>
+            )}
+
             {/* Host/RSVP Status */}
             <div style={{
               display: 'flex',
@@ -1010,6 +1085,15 @@ const Events: React.FC = () => {
                     + Create
                   </Link>
                 )}
+                {user && (
+                  <button
+                    onClick={handleSubscribeCalendar}
+                    style={styles.toggleBtn}
+                    title="Subscribe to your RSVPs and followed groups in your calendar app"
+                  >
+                    📆 Subscribe
+                  </button>
+                )}
                 <div style={styles.viewToggle}>
                   <button
                     style={{ ...styles.toggleBtn, ...(viewMode === 'list' ? styles.toggleBtnActive : {}) }}
@@ -1023,11 +1107,17 @@ const Events: React.FC = () => {
                   >
                     Calendar
                   </button>
+                  <button
+                    style={{ ...styles.toggleBtn, ...(viewMode === 'map' ? styles.toggleBtnActive : {}) }}
+                    onClick={() => setViewMode('map')}
+                  >
+                    Map
+                  </button>
                 </div>
               </div>
             </div>
 
-            {viewMode === 'list' && (
+            {(viewMode === 'list' || viewMode === 'map') && (
               <>
                 {/* Search Bar */}
                 <div style={styles.searchBar}>
@@ -1038,10 +1128,11 @@ const Events: React.FC = () => {
                     onChange={(e) => setSearchQuery(e.target.value)}
                     style={styles.searchInput}
                   />
-                  <select value={sortOption} onChange={(e) => setSortOption(e.target.value as SortOption)} style={styles.select}>
+                  <select value={sortOption} onChange={(e) => handleSortChange(e.target.value as SortOption)} style={styles.select}>
                     <option value="date">Date</option>
                     <option value="popularity">Popular</option>
                     <option value="recently_added">New</option>
+                    <option value="distance">Nearest</option>
                   </select>
                   <select value={dateRange} onChange={(e) => setDateRange(e.target.value as DateRange)} style={styles.select}>
                     <option value="all">All</option>
@@ -1049,6 +1140,18 @@ const Events: React.FC = () => {
                     <option value="this_month">This Month</option>
                     <option value="next_3_months">3 Months</option>
                   </select>
+                  <select
+                    value={maxDistanceKm ?? ''}
+                    onChange={(e) => handleDistanceChange(e.target.value)}
+                    disabled={locating}
+                    style={styles.select}
+                    title="Only show events near you"
+                  >
+                    <option value="">{locating ? 'Locating...' : 'Any Distance'}</option>
+                    {DISTANCE_OPTIONS_KM.map(km => (
+                      <option key={km} value={km}>Within {km} km</option>
+                    ))}
+                  </select>
                 </div>
 
                 {/* Filter Chips */}
@@ -1060,8 +1163,16 @@ const Events: React.FC = () => {
                   ))}
                 </div>
 
+                {viewMode === 'map' && (
+                  <EventMap
+                    events={filteredEvents}
+                    viewerLocation={viewerLocation}
+                    onEventClick={(event) => router.push(`/events/${event.id}`)}
+                  />
+                )}
+
                 {/* Events List */}
-                {paginatedEvents.length === 0 ? (
+                {viewMode === 'list' && (paginatedEvents.length === 0 ? (
                   <div style={{ textAlign: 'center', padding: '3rem', color: 'var(--muted)' }}>
                     <p>No events found. Try adjusting your filters.</p>
                   </div>
@@ -1092,7 +1203,7 @@ const Events: React.FC = () => {
                       </div>
                     )}
                   </>
-                )}
+                ))}
               </>
             )}
 
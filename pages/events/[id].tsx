@@ -1,29 +1,75 @@
 import React, { useState, useEffect } from 'react'
 import { useRouter } from 'next/router'
 import Link from 'next/link'
-import Head from 'next/head'
-import { GetServerSideProps } from 'next'
 import { useAuth } from '@/contexts/AuthContext'
 import { useToast } from '@/contexts/ToastContext'
-import { supabase, type Event, type Profile, type EventInvitation } from '@/lib/supabase'
-import { createClient } from '@supabase/supabase-js'
+import { supabase, type Event, type Profile, type EventInvitation, type EventWaitlistEntry } from '@/lib/supabase'
 import Button from '@/components/ui/Button'
 import Chip from '@/components/ui/Chip'
 import Avatar from '@/components/ui/Avatar'
 import EventComments from '@/components/events/EventComments'
-import { formatEventDateTime, isEventUpcoming, migrateLegacyDateTime } from '@/utils/dateTime'
-
-// Server-side data for Open Graph meta tags
-interface EventMetaData {
-  id: string
-  title: string
-  description: string | null
-  image_url: string | null
-}
-
-interface EventDetailProps {
-  eventMeta: EventMetaData | null
-}
+import CheckInQRCode from '@/components/events/CheckInQRCode'
+import RsvpQuestionsModal from '@/components/events/RsvpQuestionsModal'
+import AnnouncementModal from '@/components/events/AnnouncementModal'
+import SaveTemplateModal from '@/components/events/SaveTemplateModal'
+import FeedbackSurveyModal from '@/components/events/FeedbackSurveyModal'
+import EventAlbum from '@/components/events/EventAlbum'
+import OgMeta from '@/components/OgMeta'
+import ShareLinksPanel from '@/components/events/ShareLinksPanel'
+import TicketTypesPanel from '@/components/events/TicketTypesPanel'
+import TicketCheckoutModal, { type TicketCheckoutSelection } from '@/components/events/TicketCheckoutModal'
+import { canUserCheckIn, getCheckInCode, getCheckInUrl, isCheckInOpen } from '@/lib/checkIn'
+import { loadMyRsvpAnswers, loadRsvpQuestions, saveRsvpAnswers, type EventRsvpQuestion } from '@/lib/rsvpQuestions'
+import { getCalendarFeedToken, getEventIcsUrl } from '@/lib/calendarFeed'
+import { sendInvitationEmail } from '@/lib/eventInvites'
+import { getConversationUrl, startConversation } from '@/lib/directMessages'
+import { canViewPrivateEvent, joinShareLink } from '@/lib/shareLinks'
+import {
+  ANNOUNCEMENT_SEGMENTS,
+  loadEventAnnouncements,
+  loadMyAnnouncements,
+  markAnnouncementsSeen,
+  sendAnnouncement,
+  type AnnouncementSegment,
+  type EventAnnouncement,
+} from '@/lib/announcements'
+import {
+  claimWaitlistSpot,
+  hasActiveOffer,
+  joinWaitlist,
+  leaveWaitlist,
+  loadEventWaitlist,
+  promoteWaitlistEntry,
+  reorderWaitlistEntry,
+} from '@/lib/waitlist'
+import { formatEventDateTime, formatEventTimeForViewer, isEventUpcoming, migrateLegacyDateTime } from '@/utils/dateTime'
+import { formatHeadcount, getHeadcount, getSpotsLeft } from '@/utils/headcount'
+import { areRsvpsClosed, getEventStatusInfo } from '@/utils/eventStatus'
+import { loadEventStatusChanges, STATUS_CHANGE_REASONS, type EventStatusChange } from '@/lib/eventStatus'
+import { loadEventAsTemplateData, saveEventTemplate } from '@/lib/eventTemplates'
+import { createOgServerSideProps, type OgPageProps } from '@/lib/ogPreviewServer'
+import {
+  formatRating,
+  loadEventFeedback,
+  loadFeedbackQuestions,
+  loadMyFeedback,
+  submitFeedback,
+  summarizeFeedback,
+  type EventFeedback,
+  type EventFeedbackQuestion,
+  type FeedbackInput,
+  type FeedbackSummary,
+} from '@/lib/eventFeedback'
+import {
+  checkoutTickets,
+  describeTicketPrice,
+  formatPrice,
+  loadMyTicketOrder,
+  loadTicketTypes,
+  refundTicketOrder,
+  type EventTicketOrder,
+  type EventTicketType,
+} from '@/lib/tickets'
 
 interface EventWithRSVP extends Event {
   rsvp_count?: number
@@ -31,15 +77,22 @@ interface EventWithRSVP extends Event {
   user_rsvp_status?: 'going' | 'maybe' | 'not_going' | null
   guest_list_visibility?: 'public' | 'rsvp_only' | 'hidden'
   group_name?: string
+  status?: string
+  max_capacity?: number | null
+  waitlist_enabled?: boolean
+  auto_confirm_waitlist?: boolean
+  waitlist_claim_hours?: number | null
 }
 
 interface RSVPUser {
   user_id: string
   status: 'going' | 'maybe' | 'not_going'
+  guest_count?: number
+  attended?: boolean
   profile?: Profile & { profile_picture_url?: string }
 }
 
-const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
+const EventDetail: React.FC<OgPageProps> = ({ ogPreview }) => {
   const router = useRouter()
   const { id } = router.query
   const { user, loading: authLoading } = useAuth()
@@ -61,18 +114,48 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
   const [invitations, setInvitations] = useState<EventInvitation[]>([])
   const [showInviteModal, setShowInviteModal] = useState(false)
   const [inviteEmail, setInviteEmail] = useState('')
+  const [resendingInvitationId, setResendingInvitationId] = useState<string | null>(null)
   const [inviteLoading, setInviteLoading] = useState(false)
   const [linkCopied, setLinkCopied] = useState(false)
   const [showInviteUserModal, setShowInviteUserModal] = useState(false)
   const [inviteUserSearch, setInviteUserSearch] = useState('')
   const [inviteUserResults, setInviteUserResults] = useState<Profile[]>([])
   const [inviteUserLoading, setInviteUserLoading] = useState(false)
+  const [waitlist, setWaitlist] = useState<EventWaitlistEntry[]>([])
+  const [waitlistActionLoading, setWaitlistActionLoading] = useState<string | null>(null)
+  const [checkInCode, setCheckInCode] = useState<string | null>(null)
+  const [canCheckIn, setCanCheckIn] = useState(false)
+  const [rsvpQuestions, setRsvpQuestions] = useState<EventRsvpQuestion[]>([])
+  const [myRsvpAnswers, setMyRsvpAnswers] = useState<Record<string, string>>({})
+  const [showRsvpQuestions, setShowRsvpQuestions] = useState(false)
+  const [pendingRsvpStatus, setPendingRsvpStatus] = useState<'going' | 'maybe' | null>(null)
+  const [savingRsvpAnswers, setSavingRsvpAnswers] = useState(false)
+  const [guestCount, setGuestCount] = useState(0)
+  const [announcements, setAnnouncements] = useState<EventAnnouncement[]>([])
+  const [myAnnouncements, setMyAnnouncements] = useState<(EventAnnouncement & { seen_at: string | null })[]>([])
+  const [showAnnouncementModal, setShowAnnouncementModal] = useState(false)
+  const [sendingAnnouncement, setSendingAnnouncement] = useState(false)
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false)
+  const [savingTemplate, setSavingTemplate] = useState(false)
+  const [expandedAnnouncementId, setExpandedAnnouncementId] = useState<string | null>(null)
+  const [statusChanges, setStatusChanges] = useState<EventStatusChange[]>([])
+  const [accessDenied, setAccessDenied] = useState(false)
+  const [feedbackQuestions, setFeedbackQuestions] = useState<EventFeedbackQuestion[]>([])
+  const [myFeedback, setMyFeedback] = useState<EventFeedback | null>(null)
+  const [feedbackSummary, setFeedbackSummary] = useState<FeedbackSummary | null>(null)
+  const [showFeedbackSurvey, setShowFeedbackSurvey] = useState(false)
+  const [savingFeedback, setSavingFeedback] = useState(false)
+  const [ticketTypes, setTicketTypes] = useState<EventTicketType[]>([])
+  const [myTicketOrder, setMyTicketOrder] = useState<EventTicketOrder | null>(null)
+  const [showCheckout, setShowCheckout] = useState(false)
+  const [checkingOut, setCheckingOut] = useState(false)
   const coverFileInputRef = React.useRef<HTMLInputElement>(null)
 
   // Require authentication
   useEffect(() => {
     if (!authLoading && !user) {
-      router.push('/auth')
+      // Come back here (with any ?share= link) after signing in
+      router.push(`/auth?redirect=${encodeURIComponent(router.asPath)}`)
     }
   }, [user, authLoading, router])
 
@@ -84,6 +167,17 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
     }
   }, [id, user])
 
+  // Attendees get a check-in pass once they've RSVP'd
+  useEffect(() => {
+    if (event && user && (event.user_rsvp_status === 'going' || event.user_rsvp_status === 'maybe')) {
+      getCheckInCode(event.id)
+        .then(setCheckInCode)
+        .catch(err => console.error('Error loading check-in code:', err))
+    } else {
+      setCheckInCode(null)
+    }
+  }, [event?.id, event?.user_rsvp_status, user])
+
   const loadEvent = async () => {
     try {
       setLoading(true)
@@ -118,11 +212,31 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
         is_private: (data as any).is_private || false // Handle case where column doesn't exist yet
       } as EventWithRSVP
 
+      // Private events: hosts, invitees, invited sections, RSVPs and people with a secret link
+      setAccessDenied(false)
+      if (eventWithRSVP.is_private && user && eventWithRSVP.created_by !== user.id) {
+        const shareToken = typeof router.query.share === 'string' ? router.query.share : null
+        if (shareToken) {
+          try {
+            await joinShareLink(shareToken)
+          } catch (shareError) {
+            console.error('Error joining share link:', shareError)
+          }
+          // Keep the token out of the address bar so it isn't passed on by accident
+          router.replace(`/events/${id}`, undefined, { shallow: true })
+        }
+
+        if (!(await canViewPrivateEvent(eventWithRSVP.id))) {
+          setAccessDenied(true)
+          return
+        }
+      }
+
       // Get user's RSVP status if logged in
       if (user) {
         const { data: rsvpData } = await supabase
           .from('event_rsvps')
-          .select('status')
+          .select('status, guest_count')
           .eq('event_id', id as string)
           .eq('user_id', user.id)
           .single()
@@ -131,12 +245,13 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
           ...eventWithRSVP,
           user_rsvp_status: (rsvpData as any)?.status || null
         }
+        setGuestCount((rsvpData as any)?.guest_count || 0)
       }
 
       // Get RSVP counts
       const { data: rsvpCounts } = await supabase
         .from('event_rsvps')
-        .select('status')
+        .select('status, guest_count')
         .eq('event_id', id as string)
 
       if (rsvpCounts) {
@@ -147,6 +262,9 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
 
         eventWithRSVP.rsvp_count = counts.going || 0
         eventWithRSVP.maybe_count = counts.maybe || 0
+        eventWithRSVP.guest_count = (rsvpCounts as any[])
+          .filter(rsvp => rsvp.status === 'going')
+          .reduce((sum, rsvp) => sum + (rsvp.guest_count || 0), 0)
       }
 
       // Fetch co-hosts
@@ -170,6 +288,58 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
 
       setEvent(eventWithRSVP)
 
+      if (user) {
+        setCanCheckIn(await canUserCheckIn(eventWithRSVP, user.id))
+      }
+
+      // Load RSVP questions and the user's answers
+      try {
+        setRsvpQuestions(await loadRsvpQuestions(id as string))
+        if (user) {
+          setMyRsvpAnswers(await loadMyRsvpAnswers(id as string, user.id))
+        }
+      } catch (questionsError) {
+        console.error('Error loading RSVP questions:', questionsError)
+      }
+
+      // Load announcements: delivery status for hosts, the user's own copies otherwise
+      if (user) {
+        try {
+          const isEventHost = user.id === eventWithRSVP.created_by ||
+            ((cohostData as any[]) || []).some(c => c.user_id === user.id)
+          if (isEventHost) {
+            setAnnouncements(await loadEventAnnouncements(id as string))
+            setStatusChanges(await loadEventStatusChanges(id as string, 5))
+          } else {
+            const received = await loadMyAnnouncements(id as string, user.id)
+            setMyAnnouncements(received)
+            await markAnnouncementsSeen(received.filter(a => !a.seen_at).map(a => a.id))
+          }
+        } catch (announcementsError) {
+          console.error('Error loading announcements:', announcementsError)
+        }
+      }
+
+      // Feedback: results for hosts, the survey for attendees once the event is completed
+      if (user) {
+        try {
+          const isEventHost = user.id === eventWithRSVP.created_by ||
+            ((cohostData as any[]) || []).some(c => c.user_id === user.id)
+          if (isEventHost) {
+            setFeedbackSummary(summarizeFeedback(await loadEventFeedback(id as string)))
+          } else if (eventWithRSVP.status === 'completed') {
+            const [questions, feedback] = await Promise.all([
+              loadFeedbackQuestions(id as string),
+              loadMyFeedback(id as string, user.id)
+            ])
+            setFeedbackQuestions(questions)
+            setMyFeedback(feedback)
+          }
+        } catch (feedbackError) {
+          console.error('Error loading feedback:', feedbackError)
+        }
+      }
+
       // Load RSVP list - include all statuses
       console.log('Loading RSVP list for event:', id)
       const { data: rsvpListData, error: rsvpListError } = await supabase
@@ -177,7 +347,9 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
         .select(`
           user_id,
           status,
-          created_at
+          guest_count,
+          created_at,
+          attended
         `)
         .eq('event_id', id as string)
         .in('status', ['going', 'maybe', 'not_going'])
@@ -211,6 +383,25 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
         setRsvpList([])
       }
 
+      // Load the waitlist (held spots count against capacity for everyone)
+      if (eventWithRSVP.waitlist_enabled) {
+        try {
+          setWaitlist(await loadEventWaitlist(id as string))
+        } catch (waitlistError) {
+          console.error('Error loading waitlist:', waitlistError)
+        }
+      } else {
+        setWaitlist([])
+      }
+
+      // Load ticket types (any at all make this a ticketed event) and the user's ticket
+      try {
+        setTicketTypes(await loadTicketTypes(id as string))
+        setMyTicketOrder(user ? await loadMyTicketOrder(id as string, user.id) : null)
+      } catch (ticketError) {
+        console.error('Error loading tickets:', ticketError)
+      }
+
       // Load invited sections and their members
       await loadInvitedSections(id as string)
 
@@ -301,16 +492,30 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
         inviteData.user_id = profile.id
       }
 
-      const { error } = await supabase
-        .from('event_invitations' as any)
+      const { data: createdInvitation, error } = await (supabase
+        .from('event_invitations' as any) as any)
         .insert(inviteData)
+        .select('id')
+        .single()
 
       if (error) throw error
 
       setInviteEmail('')
-      setShowInviteModal(false)
+
+      // No account yet: email them a link that claims the invitation when they sign up
+      if (!inviteData.user_id) {
+        try {
+          await sendInvitationEmail(createdInvitation.id)
+          showSuccess('Invitation emailed!')
+        } catch (mailError) {
+          console.error('Error emailing invitation:', mailError)
+          showError('Invitation saved, but the email could not be sent')
+        }
+      } else {
+        setShowInviteModal(false)
+        showSuccess('Invitation sent!')
+      }
       await loadInvitations()
-      showSuccess('Invitation sent!')
     } catch (err: any) {
       console.error('Error inviting user:', err)
       showError(err.message?.includes('duplicate') ? 'User is already invited' : 'Failed to send invitation')
@@ -319,6 +524,20 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
     }
   }
 
+  const handleResendInvitation = async (invitationId: string) => {
+    try {
+      setResendingInvitationId(invitationId)
+      await sendInvitationEmail(invitationId)
+      await loadInvitations()
+      showSuccess('Invitation email sent again')
+    } catch (err) {
+      console.error('Error resending invitation:', err)
+      showError('Failed to send invitation email')
+    } finally {
+      setResendingInvitationId(null)
+    }
+  }
+
   const handleRemoveInvitation = async (invitationId: string) => {
     if (!confirm('Remove this invitation?')) return
 
@@ -404,7 +623,7 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
     }
   }
 
-  const handleRSVP = async (status: 'going' | 'maybe' | 'not_going') => {
+  const handleRSVP = async (status: 'going' | 'maybe' | 'not_going', answeredQuestions = false) => {
     if (!user) {
       router.push('/auth')
       return
@@ -412,9 +631,63 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
 
     if (!event) return
 
+    // Dropping out (or down to maybe) is always allowed; hosts can still RSVP after the deadline
+    if (
+      status !== 'not_going' &&
+      status !== event.user_rsvp_status &&
+      event.user_rsvp_status !== 'going' &&
+      areRsvpsClosed(event) &&
+      !isHostOrCohost()
+    ) {
+      showError('RSVPs are closed for this event')
+      return
+    }
+
+    // Ask the host's questions the first time someone says they're coming
+    if (
+      status !== 'not_going' &&
+      event.user_rsvp_status !== status &&
+      rsvpQuestions.length > 0 &&
+      Object.keys(myRsvpAnswers).length === 0 &&
+      !answeredQuestions
+    ) {
+      setPendingRsvpStatus(status)
+      setShowRsvpQuestions(true)
+      return
+    }
+
     // For private events, if user can view the page, they can RSVP (they have the link)
     // The RLS policy ensures only invited users can view private events
 
+    // Ticketed events: going means buying a ticket, and leaving means refunding it
+    if (isTicketed) {
+      if (status === 'going' && !myTicketOrder) {
+        setShowCheckout(true)
+        return
+      }
+      if (myTicketOrder && status !== 'going') {
+        await handleRefundTicket(status === 'maybe' ? 'maybe' : null)
+        return
+      }
+    }
+
+    if (status === 'going' && myWaitlistEntry && hasActiveOffer(myWaitlistEntry)) {
+      await handleClaimSpot()
+      return
+    }
+
+    // Full events send new "going" RSVPs (and their guests) to the waitlist
+    if (status === 'going' && event.user_rsvp_status !== 'going' && getOpenSpots() < 1 + guestCount) {
+      if (event.waitlist_enabled) {
+        await handleJoinWaitlist()
+      } else if (isEventFull()) {
+        showError('This event is full.')
+      } else {
+        showError(`Only ${getOpenSpots()} spot${getOpenSpots() === 1 ? '' : 's'} left. Bring fewer guests to RSVP.`)
+      }
+      return
+    }
+
     try {
       setRsvpLoading(true)
 
@@ -449,6 +722,7 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
             event_id: event.id,
             user_id: user.id,
             status: status,
+            guest_count: status === 'not_going' ? 0 : guestCount,
             updated_at: new Date().toISOString()
           } as any, {
             onConflict: 'event_id,user_id'
@@ -467,6 +741,81 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
     }
   }
 
+  const handleSubmitRsvpAnswers = async (answers: Record<string, string>) => {
+    if (!user || !event) return
+
+    try {
+      setSavingRsvpAnswers(true)
+      await saveRsvpAnswers(event.id, user.id, answers)
+      setMyRsvpAnswers(answers)
+      setShowRsvpQuestions(false)
+
+      if (pendingRsvpStatus) {
+        const status = pendingRsvpStatus
+        setPendingRsvpStatus(null)
+        await handleRSVP(status, true)
+      } else {
+        showSuccess('Your answers were updated')
+      }
+    } catch (err) {
+      console.error('Error saving RSVP answers:', err)
+      showError('Failed to save your answers.')
+    } finally {
+      setSavingRsvpAnswers(false)
+    }
+  }
+
+  const handleSubmitFeedback = async (feedback: FeedbackInput) => {
+    if (!user || !event) return
+
+    try {
+      setSavingFeedback(true)
+      const wasUpdate = !!myFeedback
+      setMyFeedback(await submitFeedback(event.id, user.id, feedback))
+      setShowFeedbackSurvey(false)
+      showSuccess(wasUpdate ? 'Your feedback was updated' : 'Thanks for your feedback!')
+    } catch (err) {
+      console.error('Error saving feedback:', err)
+      showError('Failed to send your feedback.')
+    } finally {
+      setSavingFeedback(false)
+    }
+  }
+
+  const handleSendAnnouncement = async (content: string, segments: AnnouncementSegment[]) => {
+    if (!event) return
+
+    try {
+      setSendingAnnouncement(true)
+      await sendAnnouncement(event.id, content, segments)
+      setShowAnnouncementModal(false)
+      setAnnouncements(await loadEventAnnouncements(event.id))
+      showSuccess('Announcement sent')
+    } catch (err) {
+      console.error('Error sending announcement:', err)
+      showError('Failed to send announcement')
+    } finally {
+      setSendingAnnouncement(false)
+    }
+  }
+
+  const handleSaveTemplate = async (name: string, sectionId: string | null) => {
+    if (!event || !user) return
+
+    try {
+      setSavingTemplate(true)
+      const data = await loadEventAsTemplateData(event.id)
+      await saveEventTemplate(user.id, name, data, sectionId)
+      setShowSaveTemplate(false)
+      showSuccess(`Saved template "${name}"`)
+    } catch (err) {
+      console.error('Error saving event template:', err)
+      showError('Failed to save template')
+    } finally {
+      setSavingTemplate(false)
+    }
+  }
+
   const handleCoverUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (!file || !event) return
@@ -516,31 +865,40 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
     }
   }
 
-  const handleCoverUrlSave = async () => {
-    if (!coverUrl.trim() || !event) return
+  const updateCoverImage = async (imageUrl: string): Promise<boolean> => {
+    if (!event) return false
 
     setCoverUploading(true)
     try {
       const { error: updateError } = await supabase
         .from('events')
         // @ts-expect-error - Supabase types don't include updated_at
-        .update({ image_url: coverUrl.trim(), updated_at: new Date().toISOString() })
+        .update({ image_url: imageUrl, updated_at: new Date().toISOString() })
         .eq('id', event.id)
 
       if (updateError) throw updateError
 
-      setEvent(prev => prev ? { ...prev, image_url: coverUrl.trim() } : null)
-      setShowCoverEditor(false)
-      setCoverUrl('')
+      setEvent(prev => prev ? { ...prev, image_url: imageUrl } : null)
       showSuccess('Cover image updated!')
+      return true
     } catch (err) {
       console.error('Error updating cover URL:', err)
       showError('Failed to update cover image')
+      return false
     } finally {
       setCoverUploading(false)
     }
   }
 
+  const handleCoverUrlSave = async () => {
+    if (!coverUrl.trim()) return
+
+    if (await updateCoverImage(coverUrl.trim())) {
+      setShowCoverEditor(false)
+      setCoverUrl('')
+    }
+  }
+
   const handleRemoveCover = async () => {
     if (!event || !confirm('Remove the cover image?')) return
 
@@ -565,21 +923,15 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
     }
   }
 
-  const formatDateTime = (dateString: string, timeString?: string) => {
-    if (dateString.includes('T')) {
-      return formatEventDateTime(dateString, undefined, {
-        showTimezone: true,
-        dateStyle: 'long',
-        timeStyle: 'short'
-      })
-    } else {
-      const isoDateTime = migrateLegacyDateTime(dateString, timeString)
-      return formatEventDateTime(isoDateTime, undefined, {
-        showTimezone: true,
-        dateStyle: 'long',
-        timeStyle: 'short'
-      })
-    }
+  // Event's own local time, plus the viewer's time when their timezone differs
+  const formatDateTime = (dateString: string, timeString?: string, timezone?: string | null) => {
+    const isoDateTime = dateString.includes('T')
+      ? dateString
+      : migrateLegacyDateTime(dateString, timeString)
+    return formatEventTimeForViewer(isoDateTime, timezone, {
+      dateStyle: 'long',
+      timeStyle: 'short'
+    })
   }
 
   const formatDateBadge = (dateString: string) => {
@@ -591,6 +943,210 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
     }
   }
 
+  // Capacity left after going members, their guests, and spots held for people on the waitlist
+  const getOpenSpots = () => {
+    if (!event?.max_capacity) return Infinity
+    const heldSpots = waitlist
+      .filter(entry => hasActiveOffer(entry) && entry.user_id !== user?.id)
+      .reduce((sum, entry) => sum + 1 + (entry.guest_count || 0), 0)
+    return event.max_capacity - getHeadcount(event) - heldSpots
+  }
+
+  const isEventFull = () => getOpenSpots() <= 0
+
+  const myWaitlistEntry = user ? waitlist.find(entry => entry.user_id === user.id) : undefined
+
+  const isTicketed = ticketTypes.length > 0
+
+  const handleCheckout = async (selection: TicketCheckoutSelection) => {
+    if (!user || !event) return
+
+    try {
+      setCheckingOut(true)
+      await checkoutTickets({ eventId: event.id, ...selection })
+      showSuccess(selection.quantity > 1 ? "You've got your tickets. See you there!" : "You've got your ticket. See you there!")
+      setShowCheckout(false)
+      loadEvent()
+    } catch (err) {
+      console.error('Error buying tickets:', err)
+      showError(err instanceof Error ? err.message : 'Checkout failed. Please try again.')
+    } finally {
+      setCheckingOut(false)
+    }
+  }
+
+  const handleCheckoutWaitlist = async (guests: number) => {
+    if (!user || !event) return
+
+    try {
+      setCheckingOut(true)
+      const position = await joinWaitlist(event.id, user.id, guests)
+      showSuccess(`You're #${position} on the waitlist. We'll hold a spot for you to buy if one opens up.`)
+      setShowCheckout(false)
+      loadEvent()
+    } catch (err) {
+      console.error('Error joining waitlist:', err)
+      showError('Failed to join waitlist. Please try again.')
+    } finally {
+      setCheckingOut(false)
+    }
+  }
+
+  // Refunding frees the spots (server-side the RSVP becomes not going); nextStatus re-RSVPs as maybe
+  const handleRefundTicket = async (nextStatus: 'maybe' | null = null) => {
+    if (!user || !event || !myTicketOrder) return
+
+    const amount = myTicketOrder.amount_cents > 0
+      ? ` You'll be refunded ${formatPrice(myTicketOrder.amount_cents, myTicketOrder.currency)}.`
+      : ''
+    if (!confirm(`Cancel your ticket${myTicketOrder.quantity > 1 ? 's' : ''}?${amount}`)) return
+
+    try {
+      setRsvpLoading(true)
+      await refundTicketOrder(myTicketOrder.id)
+
+      if (nextStatus) {
+        const { error } = await supabase
+          .from('event_rsvps')
+          .upsert({
+            event_id: event.id,
+            user_id: user.id,
+            status: nextStatus,
+            guest_count: 0,
+            updated_at: new Date().toISOString()
+          } as any, {
+            onConflict: 'event_id,user_id'
+          })
+        if (error) throw error
+      }
+
+      showSuccess(myTicketOrder.amount_cents > 0 ? 'Your ticket was cancelled and refunded.' : 'Your ticket was cancelled.')
+      loadEvent()
+    } catch (err) {
+      console.error('Error refunding ticket:', err)
+      showError(err instanceof Error ? err.message : 'Failed to cancel your ticket.')
+    } finally {
+      setRsvpLoading(false)
+    }
+  }
+
+  const handleJoinWaitlist = async () => {
+    if (!user || !event) return
+
+    try {
+      setRsvpLoading(true)
+      const position = await joinWaitlist(event.id, user.id, guestCount)
+      showSuccess(`You're #${position} on the waitlist. We'll notify you if a spot opens up.`)
+      loadEvent()
+    } catch (err) {
+      console.error('Error joining waitlist:', err)
+      showError('Failed to join waitlist. Please try again.')
+    } finally {
+      setRsvpLoading(false)
+    }
+  }
+
+  // Saved right away for existing RSVPs and waitlist entries, otherwise used on the next RSVP
+  const handleGuestCountChange = async (next: number) => {
+    if (!user || !event) return
+    const maxGuests = event.max_guests_per_rsvp || 0
+    if (next < 0 || next > maxGuests) return
+
+    const isGoing = event.user_rsvp_status === 'going'
+    if (isGoing && next > guestCount && getOpenSpots() < next - guestCount) {
+      showError(event.waitlist_enabled ? 'Not enough spots left for more guests.' : 'This event is full.')
+      return
+    }
+
+    const previous = guestCount
+    setGuestCount(next)
+
+    try {
+      if (event.user_rsvp_status === 'going' || event.user_rsvp_status === 'maybe') {
+        const { error } = await (supabase.from('event_rsvps') as any)
+          .update({ guest_count: next, updated_at: new Date().toISOString() })
+          .eq('event_id', event.id)
+          .eq('user_id', user.id)
+        if (error) throw error
+        loadEvent()
+      } else if (myWaitlistEntry) {
+        await joinWaitlist(event.id, user.id, next)
+        loadEvent()
+      }
+    } catch (err) {
+      console.error('Error updating guest count:', err)
+      setGuestCount(previous)
+      showError('Failed to update your guests.')
+    }
+  }
+
+  const handleLeaveWaitlist = async () => {
+    if (!event) return
+
+    try {
+      setRsvpLoading(true)
+      await leaveWaitlist(event.id)
+      showSuccess('You left the waitlist.')
+      loadEvent()
+    } catch (err) {
+      console.error('Error leaving waitlist:', err)
+      showError('Failed to leave waitlist. Please try again.')
+    } finally {
+      setRsvpLoading(false)
+    }
+  }
+
+  const handleClaimSpot = async () => {
+    if (!event) return
+
+    try {
+      setRsvpLoading(true)
+      const claimed = await claimWaitlistSpot(event.id)
+      if (claimed) {
+        showSuccess("You're in! See you there.")
+      } else {
+        showError('Sorry, the time to claim this spot has passed.')
+      }
+      loadEvent()
+    } catch (err) {
+      console.error('Error claiming waitlist spot:', err)
+      showError('Failed to claim spot. Please try again.')
+    } finally {
+      setRsvpLoading(false)
+    }
+  }
+
+  const handlePromoteFromWaitlist = async (entry: EventWaitlistEntry) => {
+    if (!event) return
+
+    try {
+      setWaitlistActionLoading(entry.user_id)
+      await promoteWaitlistEntry(event.id, entry.user_id)
+      showSuccess(`${entry.profile?.full_name || 'Guest'} is now going.`)
+      loadEvent()
+    } catch (err) {
+      console.error('Error promoting from waitlist:', err)
+      showError('Failed to promote from waitlist.')
+    } finally {
+      setWaitlistActionLoading(null)
+    }
+  }
+
+  const handleMoveWaitlistEntry = async (entry: EventWaitlistEntry, direction: -1 | 1) => {
+    if (!event) return
+
+    try {
+      setWaitlistActionLoading(entry.user_id)
+      await reorderWaitlistEntry(event.id, entry.user_id, entry.position + direction)
+      setWaitlist(await loadEventWaitlist(event.id))
+    } catch (err) {
+      console.error('Error reordering waitlist:', err)
+      showError('Failed to reorder waitlist.')
+    } finally {
+      setWaitlistActionLoading(null)
+    }
+  }
+
   // Check if user can see guest list
   const canSeeGuestList = () => {
     if (!event) return false
@@ -651,6 +1207,19 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
     }
   }
 
+  const handleAddToCalendar = async () => {
+    if (!event) return
+
+    try {
+      // Private events are only exported to people who can see them, identified by their feed token
+      const token = event.is_private && user ? await getCalendarFeedToken(user.id) : null
+      window.location.href = getEventIcsUrl(event.id, token)
+    } catch (err) {
+      console.error('Error exporting to calendar:', err)
+      showError('Failed to export event to your calendar')
+    }
+  }
+
   const searchUsers = async (query: string) => {
     if (query.length < 2) {
       setInviteUserResults([])
@@ -675,112 +1244,17 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
     }
   }
 
-  const findOrCreateDMChannel = async (otherUserId: string) => {
-    if (!user) return null
-
-    // First, try to find an existing private channel between these two users
-    const { data: existingChannels } = await supabase
-      .from('channels')
-      .select('id, name')
-      .eq('type', 'private')
-      .eq('is_archived', false)
-
-    if (existingChannels && existingChannels.length > 0) {
-      // Check if any of these channels has both users as members
-      for (const channel of existingChannels as any[]) {
-        const { data: members } = await supabase
-          .from('channel_members')
-          .select('user_id')
-          .eq('channel_id', (channel as any).id)
-          .in('user_id', [user.id, otherUserId])
-
-        if (members && members.length === 2) {
-          // Found existing DM channel
-          return (channel as any).id
-        }
-      }
-    }
-
-    // Create a new private channel for DM
-    const { data: otherUser } = await supabase
-      .from('profiles')
-      .select('full_name, email')
-      .eq('id', otherUserId)
-      .single()
-
-    const channelName = (otherUser as any)?.full_name || (otherUser as any)?.email || 'User'
-
-    const { data: newChannel, error: channelError } = await supabase
-      .from('channels')
-      .insert({
-        name: `DM: ${channelName}`,
-        type: 'private',
-        created_by: user.id
-      } as any)
-      .select('id')
-      .single()
-
-    if (channelError || !newChannel) {
-      console.error('Error creating DM channel:', channelError)
-      return null
-    }
-
-    // Add both users as members
-    const { error: memberError } = await supabase
-      .from('channel_members')
-      .insert([
-        { channel_id: (newChannel as any).id, user_id: user.id, role: 'member' },
-        { channel_id: (newChannel as any).id, user_id: otherUserId, role: 'member' }
-      ] as any)
-
-    if (memberError) {
-      console.error('Error adding members to channel:', memberError)
-      // Don't fail completely - the check in handleInviteUserViaMessage will handle this
-    }
-
-    return (newChannel as any).id
-  }
-
   const handleInviteUserViaMessage = async (invitedUserId: string) => {
     if (!event || !user) return
 
     try {
       setInviteUserLoading(true)
 
-      // Find or create DM channel
-      const channelId = await findOrCreateDMChannel(invitedUserId)
-      if (!channelId) {
-        showError('Failed to create message channel. Please try again.')
-        return
-      }
-
-      // Ensure the current user is a member of the channel
-      const { data: existingMember, error: checkError } = await supabase
-        .from('channel_members')
-        .select('id')
-        .eq('channel_id', channelId)
-        .eq('user_id', user.id)
-        .maybeSingle()
-
-      if (!existingMember && !checkError) {
-        // User is not a member, add them
-        const { error: memberError } = await supabase
-          .from('channel_members')
-          .insert({
-            channel_id: channelId,
-            user_id: user.id,
-            role: 'member'
-          } as any)
-
-        if (memberError) {
-          console.error('Error adding user to channel members:', memberError)
-          // Continue anyway - might already exist or RLS might prevent it
-        }
-      }
+      const channelId = await startConversation([invitedUserId])
 
       // Format event date/time
       const eventDateTime = event.date.includes('T')
-        ? formatEventDateTime(event.date, undefined, { dateStyle: 'long', timeStyle: 'short' })
+        ? formatEventDateTime(event.date, event.timezone || undefined, { showTimezone: true, dateStyle: 'long', timeStyle: 'short' })
         : formatEventDateTime(migrateLegacyDateTime(event.date, event.time), undefined, { dateStyle: 'long', timeStyle: 'short' })
 
       // Create message content with event info
@@ -805,13 +1279,12 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
         .update({ last_message_at: new Date().toISOString() })
         .eq('id', channelId)
 
-      // Close modal and navigate to section with the channel
+      // Close modal and open the conversation
       setShowInviteUserModal(false)
       setInviteUserSearch('')
       setInviteUserResults([])
       
-      // Navigate to section with the channel
-      router.push(`/section?channel=${channelId}`)
+      router.push(getConversationUrl(channelId))
     } catch (err) {
       console.error('Error inviting user:', err)
       showError('Failed to send invitation. Please try again.')
@@ -827,69 +1300,16 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
     // Public events: anyone can RSVP
     if (!event.is_private) return true
     
-    // Private events: anyone with the link can RSVP (if they can view the page, they have the link)
-    // This allows sharing private events via link while still restricting discovery
-    // Hosts and co-hosts can always RSVP
-    if (isHostOrCohost()) return true
-    
-    // For private events, if user can view the page (has the link), they can RSVP
-    // The RLS policy ensures only invited users or those with direct link can view
+    // Private events: the page only loads for hosts, invitees, invited sections and
+    // people who joined through a secret link (see loadEvent), so they can all RSVP
     return true
   }
 
-  // Base URL for Open Graph - use dynamic URL based on environment
-  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 
-                  (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 
-                  (process.env.NODE_ENV === 'development' ? 'http://localhost:3000' : 
-                  'https://mysection.vercel.app'))
-  const defaultLogoUrl = `${baseUrl}/assets/section-logo-20260115.png`
-  
-  // Render Open Graph meta tags even when not authenticated (for crawlers)
-  // This uses server-side fetched eventMeta data
-  const renderOGHead = () => {
-    if (!eventMeta) return null
-    
-    // Use our own domain for the image URL (helps with iMessage previews)
-    // The /api/og-image/[id] route redirects to the actual image
-    const ogImageUrl = eventMeta.image_url 
-      ? `${baseUrl}/api/og-image/${eventMeta.id}`
-      : defaultLogoUrl
-    const ogTitle = eventMeta.title
-    const ogDescription = eventMeta.description || `Join us for ${eventMeta.title}`
-    
-    return (
-      <Head>
-        <title>{ogTitle}</title>
-        <meta key="description" name="description" content={ogDescription} />
-        
-        {/* Generic image meta (some crawlers look for this) */}
-        <meta key="image" name="image" content={ogImageUrl} />
-        
-        {/* Open Graph / Facebook / iMessage */}
-        <meta key="og:type" property="og:type" content="website" />
-        <meta key="og:url" property="og:url" content={`${baseUrl}/events/${eventMeta.id}`} />
-        <meta key="og:title" property="og:title" content={ogTitle} />
-        <meta key="og:description" property="og:description" content={ogDescription} />
-        <meta key="og:image" property="og:image" content={ogImageUrl} />
-        <meta key="og:image:secure_url" property="og:image:secure_url" content={ogImageUrl} />
-        <meta key="og:image:alt" property="og:image:alt" content={ogTitle} />
-        
-        {/* Twitter - use summary_large_image for big preview */}
-        <meta key="twitter:card" name="twitter:card" content="summary_large_image" />
-        <meta key="twitter:site" name="twitter:site" content="@mysection" />
-        <meta key="twitter:title" name="twitter:title" content={ogTitle} />
-        <meta key="twitter:description" name="twitter:description" content={ogDescription} />
-        <meta key="twitter:image" name="twitter:image" content={ogImageUrl} />
-        <meta key="twitter:image:alt" name="twitter:image:alt" content={ogTitle} />
-      </Head>
-    )
-  }
-
   // Show meta tags + loading while checking auth or redirecting
   if (authLoading || !user) {
     return (
       <>
-        {renderOGHead()}
+        <OgMeta preview={ogPreview} />
         <div style={{ padding: '2rem', textAlign: 'center' }}>
           <p>Loading...</p>
         </div>
@@ -906,6 +1326,18 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
     )
   }
 
+  if (accessDenied) {
+    return (
+      <div style={styles.errorContainer}>
+        <h2>🔒 This event is private</h2>
+        <p>Only invited guests can see it. If someone shared a link with you, it may have been turned off or expired.</p>
+        <Link href="/events">
+          <Button variant="primary">← Back to Events</Button>
+        </Link>
+      </div>
+    )
+  }
+
   if (error || !event) {
     return (
       <div style={styles.errorContainer}>
@@ -922,8 +1354,18 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
     ? event.date
     : migrateLegacyDateTime(event.date, event.time)
   const isPast = !isEventUpcoming(eventDateTime)
+  const rsvpsClosed = !isPast && areRsvpsClosed(event) && !isHostOrCohost()
+  const pendingEmailInvitations = invitations.filter(invitation => !invitation.user_id && invitation.email)
+  const statusInfo = getEventStatusInfo(event.status)
   const dateBadge = formatDateBadge(eventDateTime)
+  const displayDateTime = formatDateTime(event.date, event.time, event.timezone)
   const goingGuests = rsvpList.filter(r => r.status === 'going')
+  // Mirrors can_leave_event_feedback(): people who went (or checked in), not the hosts
+  const canLeaveFeedback = event.status === 'completed' && !isHostOrCohost() &&
+    (event.user_rsvp_status === 'going' || rsvpList.some(r => r.user_id === user.id && r.attended))
+  // Mirrors can_add_event_photo(): hosts and people who went, once the event is under way
+  const canAddPhotos = (event.status === 'live' || event.status === 'completed') && (isHostOrCohost() ||
+    event.user_rsvp_status === 'going' || rsvpList.some(r => r.user_id === user.id && r.attended))
   const maybeGuests = rsvpList.filter(r => r.status === 'maybe')
 
   // Debug logging
@@ -938,12 +1380,10 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
     userRsvpStatus: event.user_rsvp_status
   })
 
-  // OG meta tags are rendered via renderOGHead() using server-side data
-  // This ensures crawlers see the tags even before client-side auth
-  
+  // OG meta tags come from server-side data so crawlers see them before client-side auth
   return (
     <>
-      {renderOGHead()}
+      <OgMeta preview={ogPreview} />
       <div style={styles.container}>
       {/* Hero Section with Cover Image */}
       <div style={styles.heroSection}>
@@ -1084,10 +1524,24 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
         <div style={styles.eventHeader}>
           <h1 style={styles.eventTitle}>{event.title}</h1>
 
+          {/* Status (only the ones guests need to know about) */}
+          {event.status && ['live', 'pending', 'cancelled', 'postponed'].includes(event.status) && (
+            <div style={{ ...styles.statusBadge, color: statusInfo.color, borderColor: statusInfo.color }}>
+              {statusInfo.emoji} {statusInfo.label}
+            </div>
+          )}
+
           {/* Date & Time */}
           <div style={styles.eventMeta}>
             <span style={styles.metaIcon}>📅</span>
-            <span>{formatDateTime(event.date, event.time)}</span>
+            <span>
+              {displayDateTime.eventTime}
+              {displayDateTime.viewerTime && (
+                <span style={{ display: 'block', fontSize: '0.85rem', color: 'var(--muted)' }}>
+                  {displayDateTime.viewerTime} your time
+                </span>
+              )}
+            </span>
           </div>
 
           {/* Location */}
@@ -1270,12 +1724,24 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
                       e.currentTarget.style.transform = 'translateY(0)'
                     }
                   }}
-                  title="Copy event link"
+                  title={event.is_private ? 'Copy event link (only works for invited guests)' : 'Copy event link'}
                 >
                   {linkCopied ? '✓ Copied!' : '🔗 Invite w/ Link'}
                 </button>
                 <InviteSectionsSection eventId={id as string} onInvite={() => loadInvitedSections(id as string)} />
               </div>
+              {event.is_private && user && (
+                <ShareLinksPanel eventId={event.id} userId={user.id} />
+              )}
+              {user && (
+                <TicketTypesPanel
+                  eventId={event.id}
+                  userId={user.id}
+                  eventStatus={event.status}
+                  ticketTypes={ticketTypes}
+                  onTicketTypesChange={setTicketTypes}
+                />
+              )}
             </div>
           )}
 
@@ -1426,19 +1892,19 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
           <div style={styles.rsvpButtons}>
             <button
               onClick={() => handleRSVP('going')}
-              disabled={rsvpLoading || isPast}
+              disabled={rsvpLoading || isPast || (rsvpsClosed && event.user_rsvp_status !== 'going')}
               style={{
                 ...styles.rsvpButton,
                 ...(event.user_rsvp_status === 'going' ? styles.rsvpButtonActive : {}),
                 ...(event.user_rsvp_status === 'going' ? { background: 'rgba(16, 185, 129, 0.2)', borderColor: '#10b981' } : {})
               }}
             >
-              <span style={styles.rsvpEmoji}>👍</span>
-              <span>Going</span>
+              <span style={styles.rsvpEmoji}>{isTicketed && !myTicketOrder ? '🎟️' : '👍'}</span>
+              <span>{isTicketed && !myTicketOrder && event.user_rsvp_status !== 'going' ? 'Get tickets' : 'Going'}</span>
             </button>
             <button
               onClick={() => handleRSVP('maybe')}
-              disabled={rsvpLoading || isPast}
+              disabled={rsvpLoading || isPast || (rsvpsClosed && !['going', 'maybe'].includes(event.user_rsvp_status || ''))}
               style={{
                 ...styles.rsvpButton,
                 ...(event.user_rsvp_status === 'maybe' ? styles.rsvpButtonActive : {}),
@@ -1462,6 +1928,115 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
             </button>
           </div>
 
+          {isTicketed && !myTicketOrder && !isPast && (
+            <p style={styles.signInPrompt}>
+              🎟️ {ticketTypes.map(ticket => `${ticket.name} · ${describeTicketPrice(ticket)}`).join('  |  ')}
+            </p>
+          )}
+
+          {myTicketOrder && (
+            <div style={styles.waitlistBanner}>
+              <p style={{ margin: '0 0 0.75rem' }}>
+                🎟️ Your ticket: <strong>{myTicketOrder.quantity} × {myTicketOrder.ticket_type?.name || 'Ticket'}</strong>
+                {myTicketOrder.amount_cents > 0 && ` · ${formatPrice(myTicketOrder.amount_cents, myTicketOrder.currency)}`}
+              </p>
+              {!isPast && (
+                <Button variant="secondary" size="small" onClick={() => handleRefundTicket()} disabled={rsvpLoading}>
+                  {myTicketOrder.amount_cents > 0 ? 'Cancel & refund' : 'Cancel ticket'}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {rsvpsClosed && (
+            <p style={styles.signInPrompt}>
+              🔒 RSVPs closed{event.rsvp_deadline && ` ${formatEventDateTime(event.rsvp_deadline, event.timezone || undefined)}`}
+            </p>
+          )}
+
+          {/* Plus-ones (on ticketed events guests get their own tickets at checkout) */}
+          {(event.max_guests_per_rsvp || 0) > 0 && user && !isPast && !isTicketed && event.user_rsvp_status !== 'not_going' && (
+            <div style={styles.guestStepper}>
+              <span style={{ color: 'var(--muted)', fontSize: '0.9rem' }}>Bringing guests</span>
+              <button
+                onClick={() => handleGuestCountChange(guestCount - 1)}
+                disabled={rsvpLoading || guestCount <= 0}
+                style={styles.waitlistIconButton}
+                aria-label="Fewer guests"
+              >
+                −
+              </button>
+              <strong style={{ minWidth: '1.5rem', textAlign: 'center' }}>{guestCount}</strong>
+              <button
+                onClick={() => handleGuestCountChange(guestCount + 1)}
+                disabled={rsvpLoading || guestCount >= (event.max_guests_per_rsvp || 0)}
+                style={styles.waitlistIconButton}
+                aria-label="More guests"
+              >
+                +
+              </button>
+              <span style={{ color: 'var(--muted)', fontSize: '0.8rem' }}>up to {event.max_guests_per_rsvp}</span>
+            </div>
+          )}
+
+          {rsvpQuestions.length > 0 && (event.user_rsvp_status === 'going' || event.user_rsvp_status === 'maybe') && !isPast && (
+            <button onClick={() => setShowRsvpQuestions(true)} style={styles.editAnswersLink}>
+              📝 Edit my answers
+            </button>
+          )}
+
+          {/* Waitlist status / held spot */}
+          {myWaitlistEntry && !isPast && (
+            <div style={{
+              ...styles.waitlistBanner,
+              ...(hasActiveOffer(myWaitlistEntry) ? styles.waitlistBannerOffer : {})
+            }}>
+              {hasActiveOffer(myWaitlistEntry) ? (
+                <>
+                  <p style={{ margin: 0, fontWeight: 600 }}>🎉 A spot opened up and it's being held for you</p>
+                  <p style={{ margin: '0.25rem 0 0.75rem', color: 'var(--muted)', fontSize: '0.875rem' }}>
+                    Claim it by {formatEventDateTime(myWaitlistEntry.offer_expires_at!, undefined, { showTimezone: false, dateStyle: 'medium', timeStyle: 'short' })} or it goes to the next person in line.
+                  </p>
+                  <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'center' }}>
+                    <Button onClick={isTicketed ? () => setShowCheckout(true) : handleClaimSpot} disabled={rsvpLoading}>
+                      {isTicketed ? 'Buy my ticket' : 'Claim my spot'}
+                    </Button>
+                    <Button variant="secondary" onClick={handleLeaveWaitlist} disabled={rsvpLoading}>No thanks</Button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <p style={{ margin: '0 0 0.75rem' }}>
+                    ⏳ You're <strong>#{myWaitlistEntry.position}</strong> on the waitlist. We'll notify you if a spot opens up.
+                  </p>
+                  <Button variant="secondary" size="small" onClick={handleLeaveWaitlist} disabled={rsvpLoading}>
+                    Leave waitlist
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+
+          {!myWaitlistEntry && !isPast && event.user_rsvp_status !== 'going' && isEventFull() && (
+            <p style={styles.signInPrompt}>
+              {event.waitlist_enabled
+                ? `This event is full — ${isTicketed ? 'get tickets' : 'RSVP "Going"'} to join the waitlist`
+                : 'This event is full'}
+            </p>
+          )}
+
+          {/* Check-in pass */}
+          {checkInCode && isCheckInOpen(eventDateTime) && (
+            <div style={styles.checkInPass}>
+              <p style={{ margin: '0 0 0.75rem', fontWeight: 600 }}>🎟️ Your check-in pass</p>
+              <CheckInQRCode value={getCheckInUrl(event.id, checkInCode)} size={180} />
+              <p style={styles.checkInCode}>{checkInCode}</p>
+              <p style={{ margin: 0, color: 'var(--muted)', fontSize: '0.8rem' }}>
+                Show this at the door to get checked in
+              </p>
+            </div>
+          )}
+
           {!user && !isPast && (
             <p style={styles.signInPrompt}>
               <Link href="/auth" style={{ color: 'var(--primary)' }}>Sign in</Link> to RSVP
@@ -1473,6 +2048,24 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
           )}
         </div>
 
+        {/* Announcements received from the hosts */}
+        {myAnnouncements.length > 0 && (
+          <div style={styles.section}>
+            <h3 style={{ ...styles.sectionTitle, marginBottom: '1rem' }}>📣 From the hosts</h3>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+              {myAnnouncements.map(announcement => (
+                <div key={announcement.id} style={styles.announcementCard}>
+                  <div style={styles.announcementMeta}>
+                    {formatEventDateTime(announcement.created_at)}
+                    {!announcement.seen_at && <span style={styles.newBadge}>New</span>}
+                  </div>
+                  <p style={styles.announcementContent}>{announcement.content}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Guest List */}
         <div style={styles.section}>
           <div style={styles.sectionHeader}>
@@ -1588,18 +2181,24 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
             </div>
           </div>
 
+          <p style={styles.headcount}>
+            👥 {formatHeadcount(event.rsvp_count || 0, event.guest_count || 0)} going
+            {getSpotsLeft(event) !== null && ` • ${getSpotsLeft(event)} of ${event.max_capacity} spots left`}
+          </p>
+
           {canSeeGuestList() ? (
             <div style={styles.guestList}>
               {(() => {
                 // Create a map to ensure each user appears only once with their highest priority status
                 // Priority: going > maybe > not_going > invited
-                const guestMap = new Map<string, { user_id: string; status: 'going' | 'maybe' | 'not_going' | 'invited'; profile: any }>()
+                const guestMap = new Map<string, { user_id: string; status: 'going' | 'maybe' | 'not_going' | 'invited'; guest_count?: number; profile: any }>()
                 
                 // First, add all RSVP'd users (they have highest priority)
                 rsvpList.forEach(rsvp => {
                   guestMap.set(rsvp.user_id, {
                     user_id: rsvp.user_id,
                     status: rsvp.status,
+                    guest_count: rsvp.guest_count,
                     profile: rsvp.profile
                   })
                 })
@@ -1741,6 +2340,7 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
                                       size={32}
                                     />
                                     <span>{guest.profile?.full_name}</span>
+                                    {!!guest.guest_count && <span style={styles.plusOnes}>+{guest.guest_count}</span>}
                                   </div>
                                 </Link>
                               ))}
@@ -1778,6 +2378,7 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
                                       size={32}
                                     />
                                     <span>{guest.profile?.full_name}</span>
+                                    {!!guest.guest_count && <span style={styles.plusOnes}>+{guest.guest_count}</span>}
                                   </div>
                                 </Link>
                               ))}
@@ -1881,6 +2482,16 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
           />
         </div>
 
+        {/* Add to Calendar */}
+        <div style={styles.section}>
+          <button
+            onClick={handleAddToCalendar}
+            style={{ ...styles.externalLink, width: '100%', cursor: 'pointer', font: 'inherit' }}
+          >
+            📆 Add to Calendar (.ics)
+          </button>
+        </div>
+
         {/* External RSVP Link */}
         {event.rsvp_url && (
           <div style={styles.section}>
@@ -1895,6 +2506,261 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
           </div>
         )}
 
+        {/* Waitlist management for Host/Co-host */}
+        {isHostOrCohost() && event.waitlist_enabled && (
+          <div style={styles.section}>
+            <div style={styles.sectionHeader}>
+              <h3 style={styles.sectionTitle}>Waitlist ({waitlist.length})</h3>
+              <span style={{ fontSize: '0.8rem', color: 'var(--muted)' }}>
+                {event.auto_confirm_waitlist !== false
+                  ? 'Auto-confirming in order'
+                  : `Spots held for ${event.waitlist_claim_hours || 24}h`}
+              </span>
+            </div>
+            <div style={styles.guestList}>
+              {waitlist.length === 0 ? (
+                <p style={styles.emptyGuests}>No one is on the waitlist</p>
+              ) : (
+                waitlist.map((entry, idx) => (
+                  <div key={entry.id} style={styles.waitlistRow}>
+                    <span style={styles.waitlistPosition}>#{entry.position}</span>
+                    <Avatar
+                      src={entry.profile?.profile_picture_url}
+                      name={entry.profile?.full_name || 'Guest'}
+                      size={32}
+                    />
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <div style={{ fontWeight: 500 }}>{entry.profile?.full_name || 'Guest'}</div>
+                      {hasActiveOffer(entry) && (
+                        <div style={{ fontSize: '0.75rem', color: '#f59e0b' }}>
+                          Spot held until {formatEventDateTime(entry.offer_expires_at!, undefined, { showTimezone: false, dateStyle: 'short', timeStyle: 'short' })}
+                        </div>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => handleMoveWaitlistEntry(entry, -1)}
+                      disabled={idx === 0 || waitlistActionLoading !== null}
+                      style={styles.waitlistIconButton}
+                      title="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => handleMoveWaitlistEntry(entry, 1)}
+                      disabled={idx === waitlist.length - 1 || waitlistActionLoading !== null}
+                      style={styles.waitlistIconButton}
+                      title="Move down"
+                    >
+                      ↓
+                    </button>
+                    <Button
+                      size="small"
+                      onClick={() => handlePromoteFromWaitlist(entry)}
+                      disabled={waitlistActionLoading !== null}
+                    >
+                      {waitlistActionLoading === entry.user_id ? '...' : 'Promote'}
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Announcements for Host/Co-host */}
+        {isHostOrCohost() && (
+          <div style={styles.section}>
+            <div style={styles.sectionHeader}>
+              <h3 style={styles.sectionTitle}>Announcements ({announcements.length})</h3>
+              <Button size="small" onClick={() => setShowAnnouncementModal(true)}>
+                📣 Announce
+              </Button>
+            </div>
+            {announcements.length === 0 ? (
+              <p style={{ margin: 0, color: 'var(--muted)', fontSize: '0.9rem' }}>
+                Message everyone who's going, maybe, waitlisted or hasn't responded yet
+              </p>
+            ) : (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+                {announcements.map(announcement => {
+                  const recipients = announcement.recipients || []
+                  const seenCount = recipients.filter(r => r.seen_at).length
+                  const isExpanded = expandedAnnouncementId === announcement.id
+
+                  return (
+                    <div key={announcement.id} style={styles.announcementCard}>
+                      <div style={styles.announcementMeta}>
+                        {formatEventDateTime(announcement.created_at)}
+                        {' • '}
+                        {announcement.segments
+                          .map(segment => ANNOUNCEMENT_SEGMENTS.find(s => s.value === segment)?.label || segment)
+                          .join(', ')}
+                      </div>
+                      <p style={styles.announcementContent}>{announcement.content}</p>
+                      <button
+                        onClick={() => setExpandedAnnouncementId(isExpanded ? null : announcement.id)}
+                        style={styles.announcementSeenToggle}
+                        disabled={recipients.length === 0}
+                      >
+                        👁 Seen by {seenCount} of {recipients.length}
+                        {recipients.length > 0 && (isExpanded ? ' ▲' : ' ▼')}
+                      </button>
+                      {isExpanded && (
+                        <div style={{ marginTop: '0.5rem', display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                          {recipients.map(recipient => (
+                            <div key={recipient.user_id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.85rem' }}>
+                              <Avatar
+                                src={recipient.profile?.profile_picture_url || undefined}
+                                name={recipient.profile?.full_name || 'Guest'}
+                                size={24}
+                              />
+                              <span style={{ flex: 1 }}>{recipient.profile?.full_name || recipient.profile?.email || 'Guest'}</span>
+                              <span style={{ color: recipient.seen_at ? 'var(--success)' : 'var(--muted)' }}>
+                                {recipient.seen_at ? '✓ Seen' : 'Delivered'}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Attendance for hosts and organizers */}
+        {canCheckIn && (
+          <div style={styles.section}>
+            <div style={styles.sectionHeader}>
+              <h3 style={styles.sectionTitle}>Attendance</h3>
+              <Link href={`/events/${event.id}/check-in`} style={{ textDecoration: 'none' }}>
+                <Button size="small">🎟️ Check-in</Button>
+              </Link>
+            </div>
+            <p style={{ margin: 0, color: 'var(--muted)', fontSize: '0.9rem' }}>
+              <strong style={{ color: 'var(--text)' }}>{goingGuests.filter(r => r.attended).length}</strong> of{' '}
+              <strong style={{ color: 'var(--text)' }}>{goingGuests.length}</strong> going checked in
+              {maybeGuests.some(r => r.attended) && ` (+${maybeGuests.filter(r => r.attended).length} from maybe)`}
+            </p>
+          </div>
+        )}
+
+        {/* Analytics for Host/Co-host */}
+        {isHostOrCohost() && (
+          <div style={styles.section}>
+            <div style={styles.sectionHeader}>
+              <h3 style={styles.sectionTitle}>Analytics</h3>
+              <Link href={`/events/${event.id}/analytics`} style={{ textDecoration: 'none' }}>
+                <Button variant="secondary" size="small">📊 View analytics</Button>
+              </Link>
+            </div>
+            <p style={{ margin: 0, color: 'var(--muted)', fontSize: '0.9rem' }}>
+              RSVPs over time, invitation and secret link conversion, waitlist, check-ins and regulars.
+            </p>
+          </div>
+        )}
+
+        {/* Status history for Host/Co-host */}
+        {isHostOrCohost() && statusChanges.length > 0 && (
+          <div style={styles.section}>
+            <div style={styles.sectionHeader}>
+              <h3 style={styles.sectionTitle}>Status</h3>
+              <span style={{ color: statusInfo.color, fontSize: '0.9rem', fontWeight: 600 }}>
+                {statusInfo.emoji} {statusInfo.label}
+              </span>
+            </div>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+              {statusChanges.map(change => (
+                <div key={change.id} style={{ display: 'flex', gap: '0.5rem', fontSize: '0.85rem', color: 'var(--muted)' }}>
+                  <span style={{ color: 'var(--text)' }}>
+                    {change.from_status ? `${getEventStatusInfo(change.from_status).label} → ` : ''}
+                    {getEventStatusInfo(change.to_status).label}
+                  </span>
+                  <span>• {STATUS_CHANGE_REASONS[change.reason]}</span>
+                  <span style={{ marginLeft: 'auto' }}>{formatEventDateTime(change.created_at)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Photo album */}
+        <EventAlbum
+          eventId={event.id}
+          userId={user.id}
+          isHost={isHostOrCohost()}
+          canContribute={canAddPhotos}
+          onUseAsCover={updateCoverImage}
+        />
+
+        {/* Feedback survey for attendees */}
+        {canLeaveFeedback && (
+          <div style={styles.section}>
+            <div style={styles.sectionHeader}>
+              <h3 style={styles.sectionTitle}>{myFeedback ? 'Your feedback' : 'How was it?'}</h3>
+              <Button size="small" variant={myFeedback ? 'secondary' : 'primary'} onClick={() => setShowFeedbackSurvey(true)}>
+                {myFeedback ? 'Edit' : '⭐ Rate this event'}
+              </Button>
+            </div>
+            <p style={{ margin: 0, color: 'var(--muted)', fontSize: '0.9rem' }}>
+              {myFeedback
+                ? `You rated it ${'★'.repeat(myFeedback.rating)}. Thanks for letting the hosts know!`
+                : 'Let the hosts know how it went. It only takes a minute.'}
+            </p>
+          </div>
+        )}
+
+        {/* Feedback results for Host/Co-host */}
+        {isHostOrCohost() && feedbackSummary && (
+          <div style={styles.section}>
+            <div style={styles.sectionHeader}>
+              <h3 style={styles.sectionTitle}>Feedback ({feedbackSummary.responseCount})</h3>
+              <Link href={`/events/${event.id}/feedback`} style={{ textDecoration: 'none' }}>
+                <Button variant="secondary" size="small">
+                  {feedbackSummary.responseCount > 0 ? 'View responses' : 'Edit survey'}
+                </Button>
+              </Link>
+            </div>
+            <p style={{ margin: 0, color: 'var(--muted)', fontSize: '0.9rem' }}>
+              {feedbackSummary.responseCount > 0 ? (
+                <>
+                  <strong style={{ color: '#f59e0b' }}>{formatRating(feedbackSummary.averageRating)}</strong>
+                  {' '}average from {feedbackSummary.responseCount} {feedbackSummary.responseCount === 1 ? 'attendee' : 'attendees'}
+                </>
+              ) : event.status === 'completed' ? (
+                'Attendees have been asked for feedback. Responses will show up here.'
+              ) : (
+                'Attendees get a short survey once the event is over. Add your own questions to it.'
+              )}
+            </p>
+          </div>
+        )}
+
+        {/* RSVP questions for Host/Co-host */}
+        {isHostOrCohost() && (
+          <div style={styles.section}>
+            <div style={styles.sectionHeader}>
+              <h3 style={styles.sectionTitle}>RSVP Questions ({rsvpQuestions.length})</h3>
+              <Link href={`/events/${event.id}/questions`} style={{ textDecoration: 'none' }}>
+                <Button variant="secondary" size="small">
+                  {rsvpQuestions.length > 0 ? 'Manage & view answers' : '+ Add questions'}
+                </Button>
+              </Link>
+            </div>
+            {rsvpQuestions.length > 0 ? (
+              <p style={{ margin: 0, color: 'var(--muted)', fontSize: '0.9rem' }}>
+                Guests are asked: {rsvpQuestions.map(q => q.field_label).join(', ')}
+              </p>
+            ) : (
+              <p style={{ margin: 0, color: 'var(--muted)', fontSize: '0.9rem' }}>
+                Ask guests about dietary needs, t-shirt sizes or anything else when they RSVP
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Edit Button for Host/Co-host */}
         {isHostOrCohost() && (
           <div style={styles.section}>
@@ -1931,11 +2797,83 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
                 ✏️ Edit Event
               </button>
             </Link>
+            <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+              <Link
+                href={`/create-event?duplicate=${event.id}`}
+                style={{ ...styles.hostActionButton, textDecoration: 'none' }}
+              >
+                📋 Duplicate
+              </Link>
+              <button
+                onClick={() => setShowSaveTemplate(true)}
+                style={styles.hostActionButton}
+              >
+                💾 Save as Template
+              </button>
+            </div>
           </div>
         )}
 
       </div>
 
+      <RsvpQuestionsModal
+        isOpen={showRsvpQuestions}
+        eventTitle={event.title}
+        questions={rsvpQuestions}
+        initialAnswers={myRsvpAnswers}
+        submitLabel={pendingRsvpStatus ? 'RSVP' : 'Save answers'}
+        isSaving={savingRsvpAnswers}
+        onSubmit={handleSubmitRsvpAnswers}
+        onClose={() => {
+          setShowRsvpQuestions(false)
+          setPendingRsvpStatus(null)
+        }}
+      />
+
+      <TicketCheckoutModal
+        isOpen={showCheckout}
+        eventTitle={event.title}
+        ticketTypes={ticketTypes}
+        maxGuests={event.max_guests_per_rsvp || 0}
+        openSpots={getOpenSpots() === Infinity ? null : Math.max(getOpenSpots(), 0)}
+        hasHeldSpot={!!myWaitlistEntry && hasActiveOffer(myWaitlistEntry)}
+        waitlistEnabled={!!event.waitlist_enabled && !myWaitlistEntry}
+        isSubmitting={checkingOut}
+        onCheckout={handleCheckout}
+        onJoinWaitlist={handleCheckoutWaitlist}
+        onClose={() => setShowCheckout(false)}
+      />
+
+      <FeedbackSurveyModal
+        isOpen={showFeedbackSurvey}
+        eventTitle={event.title}
+        questions={feedbackQuestions}
+        existingFeedback={myFeedback}
+        isSaving={savingFeedback}
+        onSubmit={handleSubmitFeedback}
+        onClose={() => setShowFeedbackSurvey(false)}
+      />
+
+      <AnnouncementModal
+        isOpen={showAnnouncementModal}
+        eventId={event.id}
+        eventTitle={event.title}
+        isSending={sendingAnnouncement}
+        onSubmit={handleSendAnnouncement}
+        onClose={() => setShowAnnouncementModal(false)}
+      />
+
+      {user && (
+        <SaveTemplateModal
+          isOpen={showSaveTemplate}
+          userId={user.id}
+          defaultName={event.title}
+          isSaving={savingTemplate}
+          onSubmit={handleSaveTemplate}
+          onClose={() => setShowSaveTemplate(false)}
+        />
+      )}
+
       {/* Invite User via Message Modal */}
       {showInviteUserModal && (
         <div style={styles.modalOverlay} onClick={() => setShowInviteUserModal(false)}>
@@ -2085,6 +3023,39 @@ const EventDetail: React.FC<EventDetailProps> = ({ eventMeta }) => {
               >
                 {inviteLoading ? '⏳ Sending...' : '📧 Send Invitation'}
               </button>
+
+              {pendingEmailInvitations.length > 0 && (
+                <div style={{ marginTop: '1.5rem' }}>
+                  <label style={styles.inputLabel}>Waiting to sign up</label>
+                  {pendingEmailInvitations.map(invitation => (
+                    <div key={invitation.id} style={styles.pendingInviteRow}>
+                      <div style={{ flex: 1, minWidth: 0 }}>
+                        <div style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>{invitation.email}</div>
+                        <div style={{ fontSize: '0.75rem', color: 'var(--muted)' }}>
+                          {invitation.email_sent_at
+                            ? `Emailed ${new Date(invitation.email_sent_at).toLocaleDateString()}`
+                            : 'Not emailed yet'}
+                          {invitation.expires_at && new Date(invitation.expires_at) < new Date() && ' · link expired'}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleResendInvitation(invitation.id)}
+                        disabled={resendingInvitationId === invitation.id}
+                        style={styles.pendingInviteAction}
+                      >
+                        {resendingInvitationId === invitation.id ? 'Sending...' : invitation.email_sent_at ? 'Resend' : 'Send'}
+                      </button>
+                      <button
+                        onClick={() => handleRemoveInvitation(invitation.id)}
+                        style={{ ...styles.pendingInviteAction, color: 'var(--muted)' }}
+                        title="Remove invitation"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -2548,6 +3519,160 @@ const styles: { [key: string]: React.CSSProperties } = {
     color: 'var(--muted)',
     fontSize: '0.9rem',
   },
+  waitlistBanner: {
+    marginTop: '1rem',
+    padding: '1rem',
+    background: 'var(--bg-2)',
+    borderRadius: '12px',
+    border: '1px solid var(--border)',
+    textAlign: 'center',
+    fontSize: '0.9rem',
+  },
+  waitlistBannerOffer: {
+    background: 'rgba(16, 185, 129, 0.1)',
+    borderColor: '#10b981',
+  },
+  waitlistRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.75rem',
+    padding: '0.5rem 0',
+    fontSize: '0.9rem',
+  },
+  waitlistPosition: {
+    width: '2rem',
+    color: 'var(--muted)',
+    fontWeight: 600,
+  },
+  waitlistIconButton: {
+    width: '28px',
+    height: '28px',
+    background: 'var(--bg)',
+    border: '1px solid var(--border)',
+    borderRadius: '6px',
+    color: 'var(--text)',
+    cursor: 'pointer',
+  },
+  guestStepper: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: '0.5rem',
+    marginTop: '0.75rem',
+  },
+  headcount: {
+    margin: '0 0 1rem',
+    color: 'var(--muted)',
+    fontSize: '0.9rem',
+  },
+  plusOnes: {
+    marginLeft: 'auto',
+    color: 'var(--muted)',
+    fontSize: '0.8rem',
+  },
+  editAnswersLink: {
+    display: 'block',
+    margin: '0.75rem auto 0',
+    background: 'none',
+    border: 'none',
+    color: 'var(--primary)',
+    cursor: 'pointer',
+    fontSize: '0.875rem',
+  },
+  statusBadge: {
+    display: 'inline-block',
+    marginBottom: '0.75rem',
+    padding: '0.25rem 0.75rem',
+    border: '1px solid',
+    borderRadius: '999px',
+    fontSize: '0.85rem',
+    fontWeight: 600,
+  },
+  announcementCard: {
+    padding: '1rem',
+    background: 'var(--bg-2)',
+    border: '1px solid var(--border)',
+    borderRadius: '12px',
+  },
+  announcementMeta: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.5rem',
+    marginBottom: '0.5rem',
+    color: 'var(--muted)',
+    fontSize: '0.8rem',
+  },
+  announcementContent: {
+    margin: 0,
+    color: 'var(--text)',
+    whiteSpace: 'pre-wrap',
+    lineHeight: 1.5,
+  },
+  announcementSeenToggle: {
+    marginTop: '0.75rem',
+    padding: 0,
+    background: 'none',
+    border: 'none',
+    color: 'var(--primary)',
+    cursor: 'pointer',
+    fontSize: '0.85rem',
+  },
+  pendingInviteRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.5rem',
+    padding: '0.5rem 0',
+    borderBottom: '1px solid var(--border)',
+    fontSize: '0.875rem',
+  },
+  pendingInviteAction: {
+    padding: '0.25rem 0.5rem',
+    background: 'none',
+    border: 'none',
+    color: 'var(--primary)',
+    cursor: 'pointer',
+    fontSize: '0.8rem',
+    fontWeight: 600,
+  },
+  hostActionButton: {
+    flex: 1,
+    padding: '0.6rem 1rem',
+    background: 'var(--bg-2)',
+    color: 'var(--text)',
+    border: '1px solid var(--border)',
+    borderRadius: '8px',
+    cursor: 'pointer',
+    fontSize: '0.85rem',
+    fontWeight: 600,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: '0.5rem',
+  },
+  newBadge: {
+    padding: '0.1rem 0.5rem',
+    background: 'var(--primary)',
+    color: 'white',
+    borderRadius: '999px',
+    fontSize: '0.7rem',
+    fontWeight: 600,
+  },
+  checkInPass: {
+    marginTop: '1rem',
+    padding: '1.25rem',
+    background: 'var(--bg-2)',
+    border: '1px solid var(--border)',
+    borderRadius: '12px',
+    textAlign: 'center',
+  },
+  checkInCode: {
+    margin: '0.75rem 0 0.25rem',
+    fontFamily: 'monospace',
+    fontSize: '1.25rem',
+    fontWeight: 700,
+    letterSpacing: '0.2em',
+    color: 'var(--text)',
+  },
   pastEventNote: {
     textAlign: 'center',
     marginTop: '0.75rem',
@@ -2835,74 +3960,7 @@ const styles: { [key: string]: React.CSSProperties } = {
   },
 }
 
-// Server-side data fetching for Open Graph meta tags
-// This runs on the server before the page is rendered
-export const getServerSideProps: GetServerSideProps<EventDetailProps> = async (context) => {
-  const { id } = context.params || {}
-  
-  if (!id || typeof id !== 'string') {
-    console.log('[OG Meta] No event ID provided')
-    return { props: { eventMeta: null } }
-  }
-
-  try {
-    // Create a server-side Supabase client
-    // Use service role key to bypass RLS (safe in getServerSideProps - server only)
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-    // Prefer service role key (bypasses RLS), fall back to anon key
-    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
-    
-    if (!supabaseUrl || !supabaseKey) {
-      console.error('[OG Meta] Missing Supabase environment variables:', { 
-        hasUrl: !!supabaseUrl, 
-        hasServiceKey: !!process.env.SUPABASE_SERVICE_ROLE_KEY,
-        hasAnonKey: !!process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY 
-      })
-      return { props: { eventMeta: null } }
-    }
-
-    console.log('[OG Meta] Using key type:', process.env.SUPABASE_SERVICE_ROLE_KEY ? 'service_role' : 'anon')
-    const serverSupabase = createClient(supabaseUrl, supabaseKey)
-
-    // Fetch only the data needed for meta tags
-    // Note: This query may fail if RLS is enabled on events table without a public SELECT policy
-    const { data: eventData, error } = await serverSupabase
-      .from('events')
-      .select('id, title, description, image_url')
-      .eq('id', id)
-      .single()
-
-    console.log('[OG Meta] Query result:', { 
-      eventId: id, 
-      hasData: !!eventData, 
-      error: error?.message,
-      title: eventData?.title 
-    })
-
-    if (error) {
-      console.error('[OG Meta] Supabase error:', error)
-      return { props: { eventMeta: null } }
-    }
-
-    if (!eventData) {
-      console.log('[OG Meta] No event data found for ID:', id)
-      return { props: { eventMeta: null } }
-    }
-
-    return {
-      props: {
-        eventMeta: {
-          id: eventData.id,
-          title: eventData.title,
-          description: eventData.description,
-          image_url: eventData.image_url,
-        }
-      }
-    }
-  } catch (error) {
-    console.error('[OG Meta] Exception:', error)
-    return { props: { eventMeta: null } }
-  }
-}
+// Server-side data for Open Graph meta tags (private events get a generic preview)
+export const getServerSideProps = createOgServerSideProps('event')
 
 export default EventDetail
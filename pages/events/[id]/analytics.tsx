@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react'
+import { useRouter } from 'next/router'
+import Link from 'next/link'
+import { useAuth } from '@/contexts/AuthContext'
+import { supabase } from '@/lib/supabase'
+import Button from '@/components/ui/Button'
+import EventAnalyticsPanel from '@/components/events/EventAnalyticsPanel'
+import {
+  ANALYTICS_EVENT_COLUMNS,
+  loadEventAnalytics,
+  type AnalyticsEvent,
+  type EventAnalytics,
+} from '@/lib/eventAnalytics'
+
+const EventAnalyticsPage: React.FC = () => {
+  const router = useRouter()
+  const { id } = router.query
+  const { user, loading: authLoading } = useAuth()
+
+  const [event, setEvent] = useState<AnalyticsEvent | null>(null)
+  const [analytics, setAnalytics] = useState<EventAnalytics | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/auth')
+    }
+  }, [user, authLoading, router])
+
+  useEffect(() => {
+    if (id && user) {
+      loadEvent()
+    }
+  }, [id, user])
+
+  const loadEvent = async () => {
+    if (!id || typeof id !== 'string' || !user) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data: eventData, error: eventError } = await supabase
+        .from('events')
+        .select(ANALYTICS_EVENT_COLUMNS)
+        .eq('id', id)
+        .single()
+
+      if (eventError || !eventData) {
+        setError('Event not found')
+        return
+      }
+
+      const loadedEvent = eventData as AnalyticsEvent
+
+      const { data: cohostData } = await supabase
+        .from('event_cohosts')
+        .select('id')
+        .eq('event_id', id)
+        .eq('user_id', user.id)
+        .maybeSingle()
+
+      if (loadedEvent.created_by !== user.id && !cohostData) {
+        setError('Only hosts can see analytics')
+        return
+      }
+
+      setEvent(loadedEvent)
+      setAnalytics(await loadEventAnalytics(loadedEvent))
+    } catch (err) {
+      console.error('Error loading analytics:', err)
+      setError('Failed to load analytics')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <section className="profile-section">
+        <div className="container" style={{ maxWidth: '900px' }}>
+          <div style={{ textAlign: 'center', padding: '4rem 2rem' }}>
+            <div style={{ fontSize: '2rem', marginBottom: '1rem' }}>📊</div>
+            <p style={{ color: 'var(--text-muted)' }}>Loading...</p>
+          </div>
+        </div>
+      </section>
+    )
+  }
+
+  if (error || !event || !analytics) {
+    return (
+      <section className="profile-section">
+        <div className="container" style={{ maxWidth: '900px' }}>
+          <div style={{ textAlign: 'center', padding: '4rem 2rem' }}>
+            <div style={{ fontSize: '3rem', marginBottom: '1rem' }}>🔒</div>
+            <h2 style={{ marginBottom: '1rem', color: 'var(--text)' }}>
+              {error || 'Event not found'}
+            </h2>
+            <Button onClick={() => router.push(id ? `/events/${id}` : '/events')}>
+              ← Back to Event
+            </Button>
+          </div>
+        </div>
+      </section>
+    )
+  }
+
+  return (
+    <section className="profile-section">
+      <div className="container" style={{ maxWidth: '900px' }}>
+        {/* Back Button */}
+        <button
+          onClick={() => router.push(`/events/${event.id}`)}
+          style={{
+            display: 'inline-flex',
+            alignItems: 'center',
+            gap: '0.5rem',
+            background: 'none',
+            border: 'none',
+            color: 'var(--muted)',
+            cursor: 'pointer',
+            fontSize: '0.9rem',
+            padding: '0.5rem 0',
+            marginBottom: '1.5rem'
+          }}
+        >
+          ← Back to {event.title}
+        </button>
+
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: '1rem', flexWrap: 'wrap', marginBottom: '1.5rem' }}>
+          <h1 style={{ margin: 0, fontSize: '1.75rem', color: 'var(--text)' }}>📊 Analytics</h1>
+          {event.group_name && (
+            <Link
+              href={`/groups/${event.created_by}/${encodeURIComponent(event.group_name)}`}
+              style={{ color: 'var(--primary)', textDecoration: 'none', fontSize: '0.9rem' }}
+            >
+              All of {event.group_name} →
+            </Link>
+          )}
+        </div>
+
+        <EventAnalyticsPanel analytics={analytics} />
+      </div>
+    </section>
+  )
+}
+
+export default EventAnalyticsPage
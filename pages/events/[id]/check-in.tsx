@@ -0,0 +1,509 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/router'
+import { useAuth } from '@/contexts/AuthContext'
+import { useToast } from '@/contexts/ToastContext'
+import { supabase } from '@/lib/supabase'
+import Button from '@/components/ui/Button'
+import Avatar from '@/components/ui/Avatar'
+import { canUserCheckIn, checkInAttendee, setAttendance, type CheckInResult } from '@/lib/checkIn'
+import { formatEventDateTime } from '@/utils/dateTime'
+
+interface CheckInEvent {
+  id: string
+  title: string
+  date: string
+  timezone?: string | null
+  created_by: string
+}
+
+interface Attendee {
+  user_id: string
+  status: 'going' | 'maybe' | 'not_going'
+  attended: boolean
+  checked_in_at?: string | null
+  profile?: {
+    full_name: string
+    profile_picture_url?: string
+  } | null
+}
+
+type ScanOutcome =
+  | { kind: 'checked_in' | 'already'; result: CheckInResult }
+  | { kind: 'not_found'; code: string }
+
+// Ignore repeat reads of the same code while it's still in front of the camera
+const RESCAN_DELAY_MS = 3000
+
+const EventCheckInPage: React.FC = () => {
+  const router = useRouter()
+  const { id, code: codeParam } = router.query
+  const { user, loading: authLoading } = useAuth()
+  const { showError } = useToast()
+
+  const [event, setEvent] = useState<CheckInEvent | null>(null)
+  const [attendees, setAttendees] = useState<Attendee[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [manualCode, setManualCode] = useState('')
+  const [checkingIn, setCheckingIn] = useState(false)
+  const [lastScan, setLastScan] = useState<ScanOutcome | null>(null)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [scanning, setScanning] = useState(false)
+  const [scannerSupported, setScannerSupported] = useState(true)
+
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const lastCodeRef = useRef<{ code: string; at: number } | null>(null)
+  const handledCodeParamRef = useRef(false)
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/auth')
+    }
+  }, [user, authLoading, router])
+
+  useEffect(() => {
+    if (id && user) {
+      loadEvent()
+    }
+  }, [id, user])
+
+  // Opening an attendee's QR code with the phone camera lands here with ?code=
+  useEffect(() => {
+    if (event && typeof codeParam === 'string' && !handledCodeParamRef.current) {
+      handledCodeParamRef.current = true
+      handleCheckIn(codeParam)
+    }
+  }, [event, codeParam])
+
+  useEffect(() => {
+    setScannerSupported(typeof window !== 'undefined' && 'BarcodeDetector' in window)
+    return () => stopScanner()
+  }, [])
+
+  const loadEvent = async () => {
+    if (!id || typeof id !== 'string' || !user) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data: eventData, error: eventError } = await supabase
+        .from('events')
+        .select('id, title, date, timezone, created_by')
+        .eq('id', id)
+        .single()
+
+      if (eventError || !eventData) {
+        setError('Event not found')
+        return
+      }
+
+      const loadedEvent = eventData as CheckInEvent
+      if (!(await canUserCheckIn(loadedEvent, user.id))) {
+        setError('Only hosts and organizers can run check-in for this event')
+        return
+      }
+
+      setEvent(loadedEvent)
+      await loadAttendees(loadedEvent.id)
+    } catch (err) {
+      console.error('Error loading check-in:', err)
+      setError('Failed to load check-in')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadAttendees = async (eventId: string) => {
+    const { data: rsvpData, error: rsvpError } = await supabase
+      .from('event_rsvps')
+      .select('user_id, status, attended, checked_in_at')
+      .eq('event_id', eventId)
+      .in('status', ['going', 'maybe'])
+      .order('created_at', { ascending: true })
+
+    if (rsvpError) {
+      console.error('Error loading attendees:', rsvpError)
+      return
+    }
+
+    const rsvps = (rsvpData as Attendee[]) || []
+    if (rsvps.length === 0) {
+      setAttendees([])
+      return
+    }
+
+    const { data: profilesData } = await supabase
+      .from('profiles')
+      .select('id, full_name, profile_picture_url')
+      .in('id', rsvps.map(r => r.user_id))
+
+    setAttendees(rsvps.map(rsvp => ({
+      ...rsvp,
+      attended: !!rsvp.attended,
+      profile: (profilesData as any[])?.find(p => p.id === rsvp.user_id) || null
+    })))
+  }
+
+  const handleCheckIn = async (code: string) => {
+    if (!event || !code.trim()) return
+
+    try {
+      setCheckingIn(true)
+      const result = await checkInAttendee(event.id, code)
+
+      if (!result) {
+        setLastScan({ kind: 'not_found', code: code.trim() })
+      } else {
+        setLastScan({ kind: result.already_checked_in ? 'already' : 'checked_in', result })
+        setAttendees(prev => prev.map(a => a.user_id === result.user_id
+          ? { ...a, attended: true, checked_in_at: result.checked_in_at }
+          : a
+        ))
+      }
+      setManualCode('')
+    } catch (err) {
+      console.error('Error checking in:', err)
+      showError('Failed to check in. Please try again.')
+    } finally {
+      setCheckingIn(false)
+    }
+  }
+
+  const handleToggleAttendance = async (attendee: Attendee) => {
+    if (!event) return
+
+    try {
+      await setAttendance(event.id, attendee.user_id, !attendee.attended)
+      setAttendees(prev => prev.map(a => a.user_id === attendee.user_id
+        ? { ...a, attended: !attendee.attended, checked_in_at: attendee.attended ? null : new Date().toISOString() }
+        : a
+      ))
+    } catch (err) {
+      console.error('Error updating attendance:', err)
+      showError('Failed to update attendance.')
+    }
+  }
+
+  const startScanner = async () => {
+    if (!scannerSupported) return
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      streamRef.current = stream
+      setScanning(true)
+
+      // The video element mounts once scanning is true
+      requestAnimationFrame(() => {
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream
+          videoRef.current.play()
+          scanFrames()
+        }
+      })
+    } catch (err) {
+      console.error('Error starting camera:', err)
+      showError('Could not access the camera. Enter codes by hand instead.')
+    }
+  }
+
+  const stopScanner = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop())
+    streamRef.current = null
+    setScanning(false)
+  }
+
+  // BarcodeDetector isn't in the TypeScript DOM types yet
+  const scanFrames = () => {
+    const detector = new (window as any).BarcodeDetector({ formats: ['qr_code'] })
+
+    const tick = async () => {
+      if (!streamRef.current || !videoRef.current) return
+
+      try {
+        const codes = await detector.detect(videoRef.current)
+        const raw: string | undefined = codes[0]?.rawValue
+        const now = Date.now()
+        if (raw && !(lastCodeRef.current?.code === raw && now - lastCodeRef.current.at < RESCAN_DELAY_MS)) {
+          lastCodeRef.current = { code: raw, at: now }
+          await handleCheckIn(raw)
+        }
+      } catch {
+        // Frame not ready yet
+      }
+
+      setTimeout(tick, 300)
+    }
+
+    tick()
+  }
+
+  const goingCount = attendees.filter(a => a.status === 'going').length
+  const attendedCount = attendees.filter(a => a.attended).length
+
+  const filteredAttendees = attendees.filter(attendee => {
+    if (!searchTerm.trim()) return true
+    return (attendee.profile?.full_name || '').toLowerCase().includes(searchTerm.toLowerCase())
+  })
+
+  if (loading) {
+    return (
+      <section className="profile-section">
+        <div className="container" style={{ maxWidth: '700px' }}>
+          <div style={{ textAlign: 'center', padding: '4rem 2rem' }}>
+            <div style={{ fontSize: '2rem', marginBottom: '1rem' }}>🎟️</div>
+            <p style={{ color: 'var(--text-muted)' }}>Loading check-in...</p>
+          </div>
+        </div>
+      </section>
+    )
+  }
+
+  if (error || !event) {
+    return (
+      <section className="profile-section">
+        <div className="container" style={{ maxWidth: '700px' }}>
+          <div style={{ textAlign: 'center', padding: '4rem 2rem' }}>
+            <div style={{ fontSize: '3rem', marginBottom: '1rem' }}>🔒</div>
+            <h2 style={{ marginBottom: '1rem', color: 'var(--text)' }}>
+              {error || 'Event not found'}
+            </h2>
+            <Button onClick={() => router.push(id ? `/events/${id}` : '/events')}>
+              ← Back to Event
+            </Button>
+          </div>
+        </div>
+      </section>
+    )
+  }
+
+  return (
+    <section className="profile-section">
+      <div className="container" style={{ maxWidth: '700px' }}>
+        {/* Back Button */}
+        <button
+          onClick={() => router.push(`/events/${event.id}`)}
+          style={{
+            display: 'inline-flex',
+            alignItems: 'center',
+            gap: '0.5rem',
+            background: 'none',
+            border: 'none',
+            color: 'var(--muted)',
+            cursor: 'pointer',
+            fontSize: '0.9rem',
+            padding: '0.5rem 0',
+            marginBottom: '1.5rem'
+          }}
+        >
+          ← Back to {event.title}
+        </button>
+
+        {/* Header */}
+        <div style={styles.card}>
+          <h1 style={{ margin: '0 0 0.25rem', fontSize: '1.5rem', color: 'var(--text)' }}>🎟️ Check-in</h1>
+          <p style={{ margin: 0, color: 'var(--muted)' }}>
+            {event.title} • {formatEventDateTime(event.date, event.timezone || undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+          </p>
+
+          <div style={styles.statsRow}>
+            <div style={styles.stat}>
+              <div style={styles.statValue}>{goingCount}</div>
+              <div style={styles.statLabel}>Going</div>
+            </div>
+            <div style={styles.stat}>
+              <div style={{ ...styles.statValue, color: '#10b981' }}>{attendedCount}</div>
+              <div style={styles.statLabel}>Checked in</div>
+            </div>
+            <div style={styles.stat}>
+              <div style={styles.statValue}>
+                {goingCount > 0 ? Math.round((attendedCount / goingCount) * 100) : 0}%
+              </div>
+              <div style={styles.statLabel}>Turnout</div>
+            </div>
+          </div>
+        </div>
+
+        {/* Scanner */}
+        <div style={styles.card}>
+          {scanning ? (
+            <>
+              <video
+                ref={videoRef}
+                muted
+                playsInline
+                style={{ width: '100%', borderRadius: '12px', background: '#000', marginBottom: '1rem' }}
+              />
+              <Button variant="secondary" fullWidth onClick={stopScanner}>Stop camera</Button>
+            </>
+          ) : scannerSupported ? (
+            <Button fullWidth onClick={startScanner}>📷 Scan QR codes</Button>
+          ) : (
+            <p style={{ margin: 0, color: 'var(--muted)', fontSize: '0.9rem', textAlign: 'center' }}>
+              This browser can&apos;t scan QR codes. Open attendees&apos; codes with your phone camera, or enter them below.
+            </p>
+          )}
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleCheckIn(manualCode)
+            }}
+            style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}
+          >
+            <input
+              type="text"
+              value={manualCode}
+              onChange={(e) => setManualCode(e.target.value.toUpperCase())}
+              placeholder="Enter check-in code"
+              autoCapitalize="characters"
+              style={styles.input}
+            />
+            <Button type="submit" disabled={checkingIn || !manualCode.trim()}>
+              {checkingIn ? '...' : 'Check in'}
+            </Button>
+          </form>
+
+          {lastScan && (
+            <div style={{
+              ...styles.scanResult,
+              ...(lastScan.kind === 'checked_in' ? styles.scanSuccess : {}),
+              ...(lastScan.kind === 'already' ? styles.scanWarning : {}),
+              ...(lastScan.kind === 'not_found' ? styles.scanError : {}),
+            }}>
+              {lastScan.kind === 'not_found' ? (
+                <>❌ No RSVP matches code <strong>{lastScan.code}</strong></>
+              ) : (
+                <>
+                  {lastScan.kind === 'checked_in' ? '✅' : '⚠️'}{' '}
+                  <strong>{lastScan.result.full_name || 'Guest'}</strong>
+                  {lastScan.kind === 'checked_in'
+                    ? ' is checked in'
+                    : ` was already checked in at ${new Date(lastScan.result.checked_in_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`}
+                  {lastScan.result.rsvp_status !== 'going' && (
+                    <div style={{ fontSize: '0.8rem', marginTop: '0.25rem' }}>
+                      RSVP&apos;d {lastScan.result.rsvp_status === 'maybe' ? 'maybe' : "can't go"}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Guest list */}
+        <div style={styles.card}>
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search guests..."
+            style={{ ...styles.input, marginBottom: '1rem' }}
+          />
+
+          {filteredAttendees.length === 0 ? (
+            <p style={{ margin: 0, color: 'var(--muted)', textAlign: 'center' }}>No guests found</p>
+          ) : (
+            filteredAttendees.map(attendee => (
+              <label key={attendee.user_id} style={styles.attendeeRow}>
+                <input
+                  type="checkbox"
+                  checked={attendee.attended}
+                  onChange={() => handleToggleAttendance(attendee)}
+                  style={{ width: '20px', height: '20px' }}
+                />
+                <Avatar
+                  src={attendee.profile?.profile_picture_url}
+                  name={attendee.profile?.full_name || 'Guest'}
+                  size={32}
+                />
+                <span style={{ flex: 1, color: 'var(--text)' }}>
+                  {attendee.profile?.full_name || 'Guest'}
+                  {attendee.status === 'maybe' && (
+                    <span style={{ color: 'var(--muted)', fontSize: '0.8rem' }}> • maybe</span>
+                  )}
+                </span>
+                {attendee.attended && attendee.checked_in_at && (
+                  <span style={{ color: 'var(--muted)', fontSize: '0.8rem' }}>
+                    {new Date(attendee.checked_in_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                  </span>
+                )}
+              </label>
+            ))
+          )}
+        </div>
+      </div>
+    </section>
+  )
+}
+
+const styles: { [key: string]: React.CSSProperties } = {
+  card: {
+    background: 'var(--card)',
+    border: '1px solid var(--border)',
+    borderRadius: '16px',
+    padding: '1.5rem',
+    marginBottom: '1.5rem',
+  },
+  statsRow: {
+    display: 'flex',
+    gap: '1rem',
+    marginTop: '1.25rem',
+  },
+  stat: {
+    flex: 1,
+    textAlign: 'center',
+    padding: '0.75rem',
+    background: 'var(--bg-2)',
+    borderRadius: '12px',
+  },
+  statValue: {
+    fontSize: '1.75rem',
+    fontWeight: 700,
+    color: 'var(--text)',
+  },
+  statLabel: {
+    fontSize: '0.8rem',
+    color: 'var(--muted)',
+  },
+  input: {
+    flex: 1,
+    width: '100%',
+    padding: '0.75rem',
+    borderRadius: '8px',
+    border: '1px solid var(--border)',
+    fontSize: '1rem',
+    background: 'var(--bg)',
+    color: 'var(--text)',
+  },
+  scanResult: {
+    marginTop: '1rem',
+    padding: '1rem',
+    borderRadius: '12px',
+    border: '1px solid var(--border)',
+    textAlign: 'center',
+  },
+  scanSuccess: {
+    background: 'rgba(16, 185, 129, 0.1)',
+    borderColor: '#10b981',
+  },
+  scanWarning: {
+    background: 'rgba(245, 158, 11, 0.1)',
+    borderColor: '#f59e0b',
+  },
+  scanError: {
+    background: 'rgba(239, 68, 68, 0.1)',
+    borderColor: '#ef4444',
+  },
+  attendeeRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.75rem',
+    padding: '0.5rem 0',
+    borderBottom: '1px solid var(--border)',
+    cursor: 'pointer',
+  },
+}
+
+export default EventCheckInPage
@@ -0,0 +1,284 @@
+import React, { useEffect, useState } from 'react'
+import { useRouter } from 'next/router'
+import { useAuth } from '@/contexts/AuthContext'
+import { useToast } from '@/contexts/ToastContext'
+import { supabase } from '@/lib/supabase'
+import Button from '@/components/ui/Button'
+import FieldBuilder from '@/components/sections/FieldBuilder'
+import { ConfigurableField } from '@/types/sections'
+import { formatRsvpAnswer } from '@/lib/rsvpQuestions'
+import {
+  FEEDBACK_RATINGS,
+  formatRating,
+  loadEventFeedback,
+  loadFeedbackQuestions,
+  saveFeedbackQuestions,
+  summarizeFeedback,
+  type EventFeedback,
+  type EventFeedbackQuestion,
+} from '@/lib/eventFeedback'
+import { getEventStatusInfo, type EventStatus } from '@/utils/eventStatus'
+
+interface FeedbackEvent {
+  id: string
+  title: string
+  created_by: string
+  status: EventStatus | null
+}
+
+const EventFeedbackPage: React.FC = () => {
+  const router = useRouter()
+  const { id } = router.query
+  const { user } = useAuth()
+  const { showSuccess, showError } = useToast()
+
+  const [event, setEvent] = useState<FeedbackEvent | null>(null)
+  const [questions, setQuestions] = useState<EventFeedbackQuestion[]>([])
+  const [feedback, setFeedback] = useState<EventFeedback[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (id && user) {
+      loadEvent()
+    }
+  }, [id, user])
+
+  const loadEvent = async () => {
+    if (!id || typeof id !== 'string' || !user) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data: eventData, error: eventError } = await supabase
+        .from('events')
+        .select('id, title, created_by, status')
+        .eq('id', id)
+        .single()
+
+      if (eventError || !eventData) {
+        setError('Event not found')
+        return
+      }
+
+      const loadedEvent = eventData as FeedbackEvent
+
+      const { data: cohostData } = await supabase
+        .from('event_cohosts')
+        .select('id')
+        .eq('event_id', id)
+        .eq('user_id', user.id)
+        .maybeSingle()
+
+      if (loadedEvent.created_by !== user.id && !cohostData) {
+        setError('Only hosts can see feedback')
+        return
+      }
+
+      setEvent(loadedEvent)
+
+      const [loadedQuestions, loadedFeedback] = await Promise.all([
+        loadFeedbackQuestions(id),
+        loadEventFeedback(id)
+      ])
+      setQuestions(loadedQuestions)
+      setFeedback(loadedFeedback)
+    } catch (err) {
+      console.error('Error loading feedback:', err)
+      setError('Failed to load feedback')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSave = async (updatedFields: Partial<ConfigurableField>[]) => {
+    if (!event || !user) return
+
+    try {
+      setSaving(true)
+      await saveFeedbackQuestions(event.id, user.id, updatedFields)
+      setQuestions(await loadFeedbackQuestions(event.id))
+      showSuccess('Survey questions saved')
+    } catch (err) {
+      console.error('Error saving feedback questions:', err)
+      showError('Failed to save questions')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <section className="profile-section">
+        <div className="container" style={{ maxWidth: '800px' }}>
+          <div style={{ textAlign: 'center', padding: '4rem 2rem' }}>
+            <div style={{ fontSize: '2rem', marginBottom: '1rem' }}>⭐</div>
+            <p style={{ color: 'var(--text-muted)' }}>Loading...</p>
+          </div>
+        </div>
+      </section>
+    )
+  }
+
+  if (error || !event) {
+    return (
+      <section className="profile-section">
+        <div className="container" style={{ maxWidth: '800px' }}>
+          <div style={{ textAlign: 'center', padding: '4rem 2rem' }}>
+            <div style={{ fontSize: '3rem', marginBottom: '1rem' }}>🔒</div>
+            <h2 style={{ marginBottom: '1rem', color: 'var(--text)' }}>
+              {error || 'Event not found'}
+            </h2>
+            <Button onClick={() => router.push(id ? `/events/${id}` : '/events')}>
+              ← Back to Event
+            </Button>
+          </div>
+        </div>
+      </section>
+    )
+  }
+
+  const summary = summarizeFeedback(feedback)
+  const maxBucket = Math.max(1, ...summary.distribution)
+  const isCompleted = event.status === 'completed'
+
+  return (
+    <section className="profile-section">
+      <div className="container" style={{ maxWidth: '800px' }}>
+        {/* Back Button */}
+        <button
+          onClick={() => router.push(`/events/${event.id}`)}
+          style={{
+            display: 'inline-flex',
+            alignItems: 'center',
+            gap: '0.5rem',
+            background: 'none',
+            border: 'none',
+            color: 'var(--muted)',
+            cursor: 'pointer',
+            fontSize: '0.9rem',
+            padding: '0.5rem 0',
+            marginBottom: '1.5rem'
+          }}
+        >
+          ← Back to {event.title}
+        </button>
+
+        {/* Summary */}
+        <div style={styles.card}>
+          <div style={styles.cardHeader}>
+            <h2 style={{ margin: 0, fontSize: '1.25rem', color: 'var(--text)' }}>
+              Feedback ({summary.responseCount})
+            </h2>
+            <span style={{ fontSize: '1.5rem', fontWeight: 700, color: '#f59e0b' }}>
+              {formatRating(summary.averageRating)}
+            </span>
+          </div>
+
+          {!isCompleted && (
+            <p style={{ margin: 0, padding: '1rem 1.5rem 0', color: 'var(--muted)', fontSize: '0.9rem' }}>
+              The survey goes out to attendees once the event is completed
+              (currently {getEventStatusInfo(event.status).label.toLowerCase()}).
+            </p>
+          )}
+
+          <div style={{ padding: '1.5rem', display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+            {[...FEEDBACK_RATINGS].reverse().map(stars => {
+              const count = summary.distribution[stars - 1]
+              return (
+                <div key={stars} style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', fontSize: '0.9rem' }}>
+                  <span style={{ width: '3rem', color: 'var(--muted)' }}>{stars} ★</span>
+                  <div style={{ flex: 1, height: '10px', background: 'var(--bg-2)', borderRadius: '999px', overflow: 'hidden' }}>
+                    <div style={{ width: `${(count / maxBucket) * 100}%`, height: '100%', background: '#f59e0b' }} />
+                  </div>
+                  <span style={{ width: '2rem', textAlign: 'right', color: 'var(--text)' }}>{count}</span>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+
+        {/* Survey questions. Remount after saving so new fields lose their unsaved state */}
+        <div style={{ marginTop: '2rem' }}>
+          <FieldBuilder
+            key={questions.map(q => `${q.id}:${q.updated_at}`).join(',')}
+            sectionName={event.title}
+            title="Survey Questions"
+            description="Attendees always rate the event and say what went well. Add anything else you'd like to ask."
+            fields={questions}
+            onSave={handleSave}
+            onCancel={() => router.push(`/events/${event.id}`)}
+            isSaving={saving}
+          />
+        </div>
+
+        {/* Responses */}
+        <div style={{ ...styles.card, marginTop: '2rem' }}>
+          <div style={styles.cardHeader}>
+            <h2 style={{ margin: 0, fontSize: '1.25rem', color: 'var(--text)' }}>Responses</h2>
+          </div>
+
+          {feedback.length === 0 ? (
+            <p style={{ margin: 0, padding: '2rem', textAlign: 'center', color: 'var(--muted)' }}>
+              No feedback yet
+            </p>
+          ) : (
+            feedback.map(response => (
+              <div key={response.id} style={styles.response}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem', marginBottom: '0.5rem' }}>
+                  <span style={{ color: '#f59e0b', letterSpacing: '2px' }}>
+                    {'★'.repeat(response.rating)}
+                    <span style={{ color: 'var(--border)' }}>{'★'.repeat(5 - response.rating)}</span>
+                  </span>
+                  <span style={{ color: 'var(--muted)', fontSize: '0.8rem' }}>
+                    {new Date(response.created_at).toLocaleDateString()}
+                  </span>
+                </div>
+                {response.went_well && (
+                  <p style={{ margin: '0 0 0.5rem', color: 'var(--text)', whiteSpace: 'pre-wrap' }}>
+                    {response.went_well}
+                  </p>
+                )}
+                {questions.map(question => {
+                  const answer = formatRsvpAnswer(question, response.answers?.[question.id])
+                  if (!answer) return null
+                  return (
+                    <div key={question.id} style={{ fontSize: '0.85rem', color: 'var(--muted)' }}>
+                      <strong style={{ color: 'var(--text)' }}>{question.field_label}:</strong> {answer}
+                    </div>
+                  )
+                })}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </section>
+  )
+}
+
+const styles: { [key: string]: React.CSSProperties } = {
+  card: {
+    background: 'var(--card)',
+    border: '1px solid var(--border)',
+    borderRadius: '16px',
+    overflow: 'hidden',
+  },
+  cardHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '1rem',
+    padding: '1.5rem',
+    background: 'var(--bg-2)',
+    borderBottom: '1px solid var(--border)',
+  },
+  response: {
+    padding: '1rem 1.5rem',
+    borderBottom: '1px solid var(--border)',
+  },
+}
+
+export default EventFeedbackPage
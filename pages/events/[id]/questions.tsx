@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from 'react'
+import { useRouter } from 'next/router'
+import { useAuth } from '@/contexts/AuthContext'
+import { useToast } from '@/contexts/ToastContext'
+import { supabase } from '@/lib/supabase'
+import Button from '@/components/ui/Button'
+import FieldBuilder from '@/components/sections/FieldBuilder'
+import { ConfigurableField } from '@/types/sections'
+import {
+  buildRsvpResponsesCsv,
+  formatRsvpAnswer,
+  loadRsvpQuestions,
+  loadRsvpResponses,
+  saveRsvpQuestions,
+  type EventRsvpQuestion,
+  type RsvpResponse,
+} from '@/lib/rsvpQuestions'
+import { downloadCsv } from '@/utils/csv'
+
+const STATUS_LABELS: Record<RsvpResponse['status'], string> = {
+  going: 'Going',
+  maybe: 'Maybe',
+  not_going: "Can't go",
+}
+
+const EventQuestionsPage: React.FC = () => {
+  const router = useRouter()
+  const { id } = router.query
+  const { user } = useAuth()
+  const { showSuccess, showError } = useToast()
+
+  const [event, setEvent] = useState<{ id: string; title: string; created_by: string } | null>(null)
+  const [questions, setQuestions] = useState<EventRsvpQuestion[]>([])
+  const [responses, setResponses] = useState<RsvpResponse[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (id && user) {
+      loadEvent()
+    }
+  }, [id, user])
+
+  const loadEvent = async () => {
+    if (!id || typeof id !== 'string' || !user) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data: eventData, error: eventError } = await supabase
+        .from('events')
+        .select('id, title, created_by')
+        .eq('id', id)
+        .single()
+
+      if (eventError || !eventData) {
+        setError('Event not found')
+        return
+      }
+
+      const loadedEvent = eventData as { id: string; title: string; created_by: string }
+
+      const { data: cohostData } = await supabase
+        .from('event_cohosts')
+        .select('id')
+        .eq('event_id', id)
+        .eq('user_id', user.id)
+        .maybeSingle()
+
+      if (loadedEvent.created_by !== user.id && !cohostData) {
+        setError('Only hosts can manage RSVP questions')
+        return
+      }
+
+      setEvent(loadedEvent)
+
+      const [loadedQuestions, loadedResponses] = await Promise.all([
+        loadRsvpQuestions(id),
+        loadRsvpResponses(id)
+      ])
+      setQuestions(loadedQuestions)
+      setResponses(loadedResponses)
+    } catch (err) {
+      console.error('Error loading RSVP questions:', err)
+      setError('Failed to load RSVP questions')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSave = async (updatedFields: Partial<ConfigurableField>[]) => {
+    if (!event || !user) return
+
+    try {
+      setSaving(true)
+      await saveRsvpQuestions(event.id, user.id, updatedFields)
+      setQuestions(await loadRsvpQuestions(event.id))
+      showSuccess('Questions saved')
+    } catch (err) {
+      console.error('Error saving RSVP questions:', err)
+      showError('Failed to save questions')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleExport = () => {
+    if (!event) return
+    const filename = `${event.title.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-rsvps.csv`
+    downloadCsv(filename, buildRsvpResponsesCsv(questions, responses))
+  }
+
+  if (loading) {
+    return (
+      <section className="profile-section">
+        <div className="container" style={{ maxWidth: '800px' }}>
+          <div style={{ textAlign: 'center', padding: '4rem 2rem' }}>
+            <div style={{ fontSize: '2rem', marginBottom: '1rem' }}>📋</div>
+            <p style={{ color: 'var(--text-muted)' }}>Loading...</p>
+          </div>
+        </div>
+      </section>
+    )
+  }
+
+  if (error || !event) {
+    return (
+      <section className="profile-section">
+        <div className="container" style={{ maxWidth: '800px' }}>
+          <div style={{ textAlign: 'center', padding: '4rem 2rem' }}>
+            <div style={{ fontSize: '3rem', marginBottom: '1rem' }}>🔒</div>
+            <h2 style={{ marginBottom: '1rem', color: 'var(--text)' }}>
+              {error || 'Event not found'}
+            </h2>
+            <Button onClick={() => router.push(id ? `/events/${id}` : '/events')}>
+              ← Back to Event
+            </Button>
+          </div>
+        </div>
+      </section>
+    )
+  }
+
+  return (
+    <section className="profile-section">
+      <div className="container" style={{ maxWidth: '800px' }}>
+        {/* Back Button */}
+        <button
+          onClick={() => router.push(`/events/${event.id}`)}
+          style={{
+            display: 'inline-flex',
+            alignItems: 'center',
+            gap: '0.5rem',
+            background: 'none',
+            border: 'none',
+            color: 'var(--muted)',
+            cursor: 'pointer',
+            fontSize: '0.9rem',
+            padding: '0.5rem 0',
+            marginBottom: '1.5rem'
+          }}
+        >
+          ← Back to {event.title}
+        </button>
+
+        {/* Remount after saving so new fields lose their unsaved state */}
+        <FieldBuilder
+          key={questions.map(q => `${q.id}:${q.updated_at}`).join(',')}
+          sectionName={event.title}
+          title={`RSVP Questions for ${event.title}`}
+          description="Ask guests for anything you need to know when they RSVP, like dietary needs or t-shirt sizes."
+          fields={questions}
+          onSave={handleSave}
+          onCancel={() => router.push(`/events/${event.id}`)}
+          isSaving={saving}
+        />
+
+        {/* Responses */}
+        <div style={{
+          marginTop: '2rem',
+          background: 'var(--card)',
+          border: '1px solid var(--border)',
+          borderRadius: '16px',
+          overflow: 'hidden'
+        }}>
+          <div style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: '1rem',
+            padding: '1.5rem',
+            background: 'var(--bg-2)',
+            borderBottom: '1px solid var(--border)'
+          }}>
+            <h2 style={{ margin: 0, fontSize: '1.25rem', color: 'var(--text)' }}>
+              Responses ({responses.length})
+            </h2>
+            <Button variant="secondary" size="small" onClick={handleExport} disabled={responses.length === 0}>
+              ⬇️ Export CSV
+            </Button>
+          </div>
+
+          {responses.length === 0 ? (
+            <p style={{ margin: 0, padding: '2rem', textAlign: 'center', color: 'var(--muted)' }}>
+              No one has RSVP'd yet
+            </p>
+          ) : (
+            <div style={{ overflowX: 'auto' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+                <thead>
+                  <tr>
+                    <th style={styles.th}>Guest</th>
+                    <th style={styles.th}>RSVP</th>
+                    {questions.map(q => (
+                      <th key={q.id} style={styles.th}>{q.field_label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {responses.map(response => (
+                    <tr key={response.user_id}>
+                      <td style={styles.td}>{response.full_name || response.email || 'Guest'}</td>
+                      <td style={styles.td}>{STATUS_LABELS[response.status]}</td>
+                      {questions.map(q => (
+                        <td key={q.id} style={styles.td}>
+                          {formatRsvpAnswer(q, response.answers[q.id]) || (
+                            <span style={{ color: 'var(--muted)' }}>—</span>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </section>
+  )
+}
+
+const styles: { [key: string]: React.CSSProperties } = {
+  th: {
+    textAlign: 'left',
+    padding: '0.75rem 1rem',
+    borderBottom: '1px solid var(--border)',
+    color: 'var(--muted)',
+    fontWeight: 600,
+    whiteSpace: 'nowrap',
+  },
+  td: {
+    padding: '0.75rem 1rem',
+    borderBottom: '1px solid var(--border)',
+    color: 'var(--text)',
+    verticalAlign: 'top',
+  },
+}
+
+export default EventQuestionsPage
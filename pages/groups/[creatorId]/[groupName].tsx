@@ -6,6 +6,9 @@ import { supabase } from '@/lib/supabase'
 import Button from '@/components/ui/Button'
 import Card from '@/components/ui/Card'
 import EventCalendar from '@/components/EventCalendar'
+import EventAnalyticsPanel from '@/components/events/EventAnalyticsPanel'
+import { formatHeadcount, getSpotsLeft } from '@/utils/headcount'
+import { loadGroupAnalytics, type EventAnalytics } from '@/lib/eventAnalytics'
 
 interface Creator {
   id: string
@@ -23,6 +26,7 @@ interface GroupEvent {
   image_url?: string
   max_capacity?: number
   rsvp_count?: number
+  guest_count?: number | null
   maybe_count?: number
 }
 
@@ -46,6 +50,9 @@ export default function GroupPage() {
   const [showEditModal, setShowEditModal] = useState(false)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [showAdminModal, setShowAdminModal] = useState(false)
+  const [showAnalytics, setShowAnalytics] = useState(false)
+  const [analytics, setAnalytics] = useState<EventAnalytics | null>(null)
+  const [analyticsLoading, setAnalyticsLoading] = useState(false)
 
   const decodedGroupName = useMemo(() => {
     return groupName ? decodeURIComponent(groupName as string) : ''
@@ -154,7 +161,7 @@ export default function GroupPage() {
       // Fetch upcoming events for this group
       const { data: upcomingEvents, error: upcomingError } = await (supabase
         .from('events')
-        .select('id, title, description, date, time, location, image_url, max_capacity, rsvp_count, maybe_count')
+        .select('id, title, description, date, time, location, image_url, max_capacity, rsvp_count, guest_count, maybe_count')
         .eq('created_by', creatorId as string)
         .eq('group_name', decodedGroupName)
         .eq('published', true)
@@ -168,7 +175,7 @@ export default function GroupPage() {
       // Fetch past events
       const { data: pastEventsData, error: pastError } = await (supabase
         .from('events')
-        .select('id, title, description, date, time, location, image_url, max_capacity, rsvp_count, maybe_count')
+        .select('id, title, description, date, time, location, image_url, max_capacity, rsvp_count, guest_count, maybe_count')
         .eq('created_by', creatorId as string)
         .eq('group_name', decodedGroupName)
         .eq('published', true)
@@ -189,6 +196,22 @@ export default function GroupPage() {
   }
 
 
+  // Analytics across the whole group, loaded the first time the creator opens them
+  const toggleAnalytics = async () => {
+    const opening = !showAnalytics
+    setShowAnalytics(opening)
+    if (!opening || analytics || !creatorId) return
+
+    setAnalyticsLoading(true)
+    try {
+      setAnalytics(await loadGroupAnalytics(creatorId as string, decodedGroupName))
+    } catch (err) {
+      console.error('Error loading group analytics:', err)
+    } finally {
+      setAnalyticsLoading(false)
+    }
+  }
+
   const calendarEvents = useMemo(() => {
     return events.map(event => ({
       id: event.id,
@@ -197,6 +220,7 @@ export default function GroupPage() {
       time: event.time,
       location: event.location,
       rsvp_count: event.rsvp_count,
+      guest_count: event.guest_count,
       maybe_count: event.maybe_count,
       max_capacity: event.max_capacity
     }))
@@ -433,6 +457,33 @@ export default function GroupPage() {
         </div>
       </div>
 
+      {/* Analytics (creator only: RSVPs, invitations and waitlists are visible to the host) */}
+      {isCreator && (
+        <div style={{ marginBottom: '2rem' }}>
+          <div style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            marginBottom: showAnalytics ? '1rem' : 0
+          }}>
+            <h2 style={{ margin: 0, fontSize: '1.25rem' }}>📊 Analytics</h2>
+            <Button variant="secondary" size="small" onClick={toggleAnalytics}>
+              {showAnalytics ? 'Hide' : 'Show'}
+            </Button>
+          </div>
+
+          {showAnalytics && (
+            analyticsLoading ? (
+              <p style={{ color: 'var(--muted)', textAlign: 'center', padding: '2rem' }}>Loading analytics...</p>
+            ) : analytics ? (
+              <EventAnalyticsPanel analytics={analytics} showEventBreakdown />
+            ) : (
+              <p style={{ color: 'var(--danger)', textAlign: 'center', padding: '2rem' }}>Failed to load analytics</p>
+            )
+          )}
+        </div>
+      )}
+
       {/* Upcoming Events */}
       <div style={{ marginBottom: '2rem' }}>
         <div style={{
@@ -512,7 +563,7 @@ export default function GroupPage() {
                         marginTop: '0.5rem'
                       }}>
                         <span style={{ color: (event.rsvp_count || 0) > 0 ? 'var(--success)' : 'var(--muted)' }}>
-                          ✅ {event.rsvp_count || 0} going
+                          ✅ {formatHeadcount(event.rsvp_count || 0, event.guest_count || 0)} going
                         </span>
                         {(event.maybe_count || 0) > 0 && (
                           <span style={{ color: 'var(--warning)' }}>
@@ -521,11 +572,11 @@ export default function GroupPage() {
                         )}
                         {event.max_capacity && (
                           <span style={{
-                            color: (event.rsvp_count || 0) >= event.max_capacity ? 'var(--danger)' : 'var(--muted)'
+                            color: getSpotsLeft(event) === 0 ? 'var(--danger)' : 'var(--muted)'
                           }}>
-                            👥 {(event.rsvp_count || 0) >= event.max_capacity
+                            👥 {getSpotsLeft(event) === 0
                               ? 'FULL'
-                              : `${event.max_capacity - (event.rsvp_count || 0)} spots left`}
+                              : `${getSpotsLeft(event)} spots left`}
                           </span>
                         )}
                       </div>
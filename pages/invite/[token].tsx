@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react'
+import { useRouter } from 'next/router'
+import Head from 'next/head'
+import { GetServerSideProps } from 'next'
+import { useAuth } from '@/contexts/AuthContext'
+import Button from '@/components/ui/Button'
+import { claimInviteToken, rememberInviteToken } from '@/lib/eventInvites'
+import { createServiceClient } from '@/lib/supabaseServer'
+import { isCurrentInviteLink, loadInvitationDetails, verifyInviteToken } from '@/lib/eventInvitesServer'
+import { formatEventDateTime, migrateLegacyDateTime } from '@/utils/dateTime'
+
+interface InvitePreview {
+  eventTitle: string
+  when: string
+  location: string | null
+  inviterName: string | null
+  email: string | null
+}
+
+interface InvitePageProps {
+  token: string
+  invite: InvitePreview | null
+}
+
+// Landing page for emailed invite links (/invite/<signed token>)
+const InvitePage: React.FC<InvitePageProps> = ({ token, invite }) => {
+  const router = useRouter()
+  const { user, loading: authLoading } = useAuth()
+  const [claiming, setClaiming] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!invite || authLoading) return
+
+    if (!user) {
+      // Claimed after sign-up or sign-in (see AuthContext)
+      rememberInviteToken(token)
+      return
+    }
+
+    const claim = async () => {
+      setClaiming(true)
+      try {
+        const eventId = await claimInviteToken(token)
+        if (eventId) {
+          router.replace(`/events/${eventId}`)
+        } else {
+          setError('This invitation has already been used by another account.')
+        }
+      } catch (err: any) {
+        console.error('Error accepting invitation:', err)
+        setError(err.message || 'Failed to accept invitation')
+      } finally {
+        setClaiming(false)
+      }
+    }
+    claim()
+  }, [invite, user, authLoading, token])
+
+  const authLink = (tab: 'signup' | 'login') => {
+    const params = new URLSearchParams({ tab, redirect: `/invite/${token}` })
+    if (invite?.email) params.set('email', invite.email)
+    return `/auth?${params.toString()}`
+  }
+
+  return (
+    <section className="auth-section">
+      <Head>
+        <title>{invite ? `You're invited to ${invite.eventTitle}` : 'Invitation'} | TMW</title>
+      </Head>
+      <div className="container">
+        <div className="auth-container">
+          {!invite ? (
+            <div className="auth-header">
+              <div style={{ fontSize: '3rem', marginBottom: '1rem' }}>⚠️</div>
+              <h1>Invitation not found</h1>
+              <p>This invite link is invalid or has expired. Ask the host to send you a new one.</p>
+            </div>
+          ) : (
+            <>
+              <div className="auth-header">
+                <div style={{ fontSize: '3rem', marginBottom: '1rem' }}>💌</div>
+                <h1>You're invited!</h1>
+                <p>{invite.inviterName || 'Someone'} invited you to <strong>{invite.eventTitle}</strong></p>
+              </div>
+
+              <div style={{
+                background: 'var(--bg-2)',
+                borderRadius: '12px',
+                padding: '1.25rem',
+                marginBottom: '1.5rem',
+                fontSize: '0.9375rem',
+                lineHeight: '1.6'
+              }}>
+                <div>📅 {invite.when}</div>
+                {invite.location && <div>📍 {invite.location}</div>}
+              </div>
+
+              {error && (
+                <p style={{ color: 'var(--danger)', textAlign: 'center', marginBottom: '1rem' }}>{error}</p>
+              )}
+
+              {user ? (
+                <Button variant="primary" fullWidth disabled>
+                  {claiming ? 'Accepting invitation...' : 'Opening event...'}
+                </Button>
+              ) : (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+                  <Button variant="primary" fullWidth onClick={() => router.push(authLink('signup'))} disabled={authLoading}>
+                    Sign up to RSVP
+                  </Button>
+                  <Button variant="secondary" fullWidth onClick={() => router.push(authLink('login'))} disabled={authLoading}>
+                    I already have an account
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </section>
+  )
+}
+
+export const getServerSideProps: GetServerSideProps<InvitePageProps> = async (context) => {
+  const token = typeof context.params?.token === 'string' ? context.params.token : ''
+  const inviteToken = verifyInviteToken(token)
+  const supabase = createServiceClient()
+
+  if (!inviteToken || !supabase) {
+    return { props: { token, invite: null } }
+  }
+
+  const details = await loadInvitationDetails(supabase, inviteToken.invitationId)
+  if (!details || !isCurrentInviteLink(details, inviteToken)) {
+    return { props: { token, invite: null } }
+  }
+
+  const { event } = details
+  const when = formatEventDateTime(
+    event.date.includes('T') ? event.date : migrateLegacyDateTime(event.date, event.time || undefined),
+    event.timezone || undefined
+  )
+
+  return {
+    props: {
+      token,
+      invite: {
+        eventTitle: event.title,
+        when,
+        location: event.location || null,
+        inviterName: details.inviter_name,
+        email: details.email,
+      }
+    }
+  }
+}
+
+export default InvitePage
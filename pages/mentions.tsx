@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react'
+import { useRouter } from 'next/router'
+import Link from 'next/link'
+import { useAuth } from '@/contexts/AuthContext'
+import { useToast } from '@/contexts/ToastContext'
+import Button from '@/components/ui/Button'
+import Avatar from '@/components/ui/Avatar'
+import Loading from '@/components/ui/Loading'
+import {
+  getMentionUrl,
+  loadMyMentions,
+  markMentionsRead,
+  toPlainText,
+  type MessageMention,
+} from '@/lib/mentions'
+
+const KIND_LABELS: Record<MessageMention['kind'], string> = {
+  user: 'mentioned you',
+  channel: 'mentioned @channel',
+  here: 'mentioned @here',
+}
+
+const Mentions: React.FC = () => {
+  const { user, loading: authLoading } = useAuth()
+  const router = useRouter()
+  const { showError } = useToast()
+  const [mentions, setMentions] = useState<MessageMention[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showUnreadOnly, setShowUnreadOnly] = useState(false)
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/auth')
+      return
+    }
+    if (user) {
+      loadMentions()
+    }
+  }, [user, authLoading])
+
+  const loadMentions = async () => {
+    if (!user) return
+
+    try {
+      setLoading(true)
+      setMentions(await loadMyMentions(user.id))
+    } catch (err) {
+      console.error('Error loading mentions:', err)
+      showError('Failed to load your mentions')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const markRead = async (ids: string[]) => {
+    try {
+      await markMentionsRead(ids)
+      const now = new Date().toISOString()
+      setMentions(prev => prev.map(m => ids.includes(m.id) && !m.read_at ? { ...m, read_at: now } : m))
+    } catch (err) {
+      console.error('Error marking mentions read:', err)
+      showError('Failed to mark mentions as read')
+    }
+  }
+
+  const handleOpen = async (mention: MessageMention) => {
+    if (!mention.read_at) {
+      await markRead([mention.id])
+    }
+    router.push(getMentionUrl(mention))
+  }
+
+  const unread = mentions.filter(m => !m.read_at)
+  const visible = showUnreadOnly ? unread : mentions
+
+  if (authLoading || loading) {
+    return (
+      <div style={{ padding: '2rem', textAlign: 'center' }}>
+        <Loading />
+      </div>
+    )
+  }
+
+  return (
+    <div style={{ maxWidth: '800px', margin: '0 auto', padding: '2rem 1rem' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '1rem', marginBottom: '1.5rem', flexWrap: 'wrap' }}>
+        <div>
+          <h1 style={{ margin: 0 }}>@ Mentions</h1>
+          <p style={{ margin: '0.25rem 0 0', color: 'var(--muted)', fontSize: '0.9rem' }}>
+            Messages where someone called you out. <Link href="/chats" style={{ color: 'var(--primary)' }}>Back to chats</Link>
+          </p>
+        </div>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <Button
+            variant={showUnreadOnly ? 'primary' : 'secondary'}
+            size="small"
+            onClick={() => setShowUnreadOnly(!showUnreadOnly)}
+          >
+            Unread ({unread.length})
+          </Button>
+          <Button
+            variant="secondary"
+            size="small"
+            onClick={() => markRead(unread.map(m => m.id))}
+            disabled={unread.length === 0}
+          >
+            Mark all read
+          </Button>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <div style={{ textAlign: 'center', padding: '3rem 1rem', color: 'var(--muted)' }}>
+          <div style={{ fontSize: '2.5rem', marginBottom: '0.5rem' }}>📭</div>
+          <p>{showUnreadOnly ? "You're all caught up" : 'No one has mentioned you yet'}</p>
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+          {visible.map(mention => (
+            <div
+              key={mention.id}
+              onClick={() => handleOpen(mention)}
+              style={{
+                display: 'flex',
+                gap: '0.75rem',
+                padding: '0.75rem 1rem',
+                borderRadius: '8px',
+                border: `1px solid ${mention.read_at ? 'var(--border)' : 'var(--primary)'}`,
+                background: mention.read_at ? 'transparent' : 'var(--bg-2)',
+                cursor: 'pointer'
+              }}
+            >
+              <Avatar
+                src={mention.author?.profile_picture_url || undefined}
+                name={mention.author?.full_name || ''}
+                size={36}
+              />
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontSize: '0.85rem', marginBottom: '0.25rem' }}>
+                  <strong>{mention.author?.full_name || 'Someone'}</strong>{' '}
+                  <span style={{ color: 'var(--muted)' }}>
+                    {KIND_LABELS[mention.kind]}
+                    {mention.channel?.type !== 'dm' && mention.channel?.name && ` in #${mention.channel.name}`}
+                    {mention.message?.parent_message_id && ' (thread)'}
+                    {' · '}
+                    {new Date(mention.created_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                  </span>
+                </div>
+                <div style={{
+                  fontSize: '0.9rem',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  display: '-webkit-box',
+                  WebkitLineClamp: 2,
+                  WebkitBoxOrient: 'vertical'
+                }}>
+                  {toPlainText(mention.message?.content || '')}
+                </div>
+              </div>
+              {!mention.read_at && (
+                <span style={{ width: '8px', height: '8px', borderRadius: '50%', background: 'var(--primary)', flexShrink: 0, marginTop: '0.5rem' }} />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default Mentions
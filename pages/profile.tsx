@@ -66,7 +66,7 @@ interface Badge {
 
 interface Notification {
   id: string
-  type: 'rsvp' | 'comment' | 'event_update' | 'subscription'
+  type: 'rsvp' | 'comment' | 'event_update' | 'subscription' | 'waitlist'
   title: string
   message: string
   event_id?: string
@@ -764,6 +764,28 @@ const Profile: React.FC = () => {
         })
       }
 
+      // Notifications addressed to the user (e.g. waitlist promotions)
+      const { data: storedNotifications } = await supabase
+        .from('notifications')
+        .select('id, type, title, message, event_id, read_at, created_at')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(20)
+
+      if (storedNotifications) {
+        storedNotifications.forEach((notification: any) => {
+          notificationsList.push({
+            id: notification.id,
+            type: notification.type.startsWith('waitlist') ? 'waitlist' : 'event_update',
+            title: notification.title,
+            message: notification.message || '',
+            event_id: notification.event_id || undefined,
+            read: !!notification.read_at,
+            created_at: notification.created_at,
+          })
+        })
+      }
+
       // Sort by date and limit
       notificationsList.sort((a, b) => 
         new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
@@ -2479,7 +2501,13 @@ const Profile: React.FC = () => {
                       cursor: 'pointer',
                       transition: 'all 0.2s',
                     }}
-                    onClick={() => {
+                    onClick={async () => {
+                      if (notification.type === 'waitlist' && !notification.read) {
+                        await (supabase
+                          .from('notifications') as any)
+                          .update({ read_at: new Date().toISOString() })
+                          .eq('id', notification.id)
+                      }
                       if (notification.event_id) {
                         router.push(`/events/${notification.event_id}`)
                       }
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react'
 import { useRouter } from 'next/router'
 import { useAuth } from '@/contexts/AuthContext'
 import { supabase } from '@/lib/supabase'
+import { getConversationUrl, startConversation } from '@/lib/directMessages'
 import Button from '@/components/ui/Button'
 import Chip from '@/components/ui/Chip'
 import Card from '@/components/ui/Card'
@@ -28,36 +29,6 @@ interface UserSection {
   member_count: number
 }
 
-// Fun word lists for generating chat names
-const adjectives = [
-  'cosmic', 'sunny', 'swift', 'cozy', 'bright', 'gentle', 'happy', 'wild',
-  'calm', 'brave', 'clever', 'dreamy', 'eager', 'fancy', 'golden', 'jazzy',
-  'lucky', 'mellow', 'noble', 'quirky', 'radiant', 'stellar', 'vibrant', 'witty',
-  'zesty', 'serene', 'vivid', 'mystic', 'cosmic', 'electric', 'groovy', 'retro'
-]
-
-const nouns = [
-  'butterfly', 'meadow', 'falcon', 'river', 'mountain', 'forest', 'sunset',
-  'moonlight', 'thunder', 'whisper', 'voyage', 'garden', 'crystal', 'phoenix',
-  'nebula', 'aurora', 'horizon', 'oasis', 'cascade', 'echo', 'spark', 'wave',
-  'breeze', 'comet', 'prism', 'twilight', 'ember', 'velvet', 'zephyr', 'bloom'
-]
-
-const generateFunChatName = (id1: string, id2: string): string => {
-  const sortedIds = [id1, id2].sort()
-  const combined = sortedIds.join('')
-  let hash = 0
-  for (let i = 0; i < combined.length; i++) {
-    const char = combined.charCodeAt(i)
-    hash = ((hash << 5) - hash) + char
-    hash = hash & hash
-  }
-  hash = Math.abs(hash)
-  const adjective = adjectives[hash % adjectives.length]
-  const noun = nouns[(hash >> 8) % nouns.length]
-  return `${adjective}-${noun}`
-}
-
 const ProfilesV2: React.FC = () => {
   const { user, loading: authLoading } = useAuth()
   const router = useRouter()
@@ -285,64 +256,8 @@ const ProfilesV2: React.FC = () => {
     setMessagingUserId(profileId)
 
     try {
-      const dmChannelName = generateFunChatName(user.id, profileId)
-
-      const { data: existingChannel } = await supabase
-        .from('channels')
-        .select('id')
-        .eq('name', dmChannelName)
-        .eq('type', 'private')
-        .single()
-
-      if (existingChannel) {
-        router.push(`/section?channel=${(existingChannel as any).id}`)
-        return
-      }
-
-      const { data: newChannel, error: createError } = await (supabase
-        .from('channels') as any)
-        .insert({
-          name: dmChannelName,
-          description: `Direct message with ${profileName}`,
-          type: 'private',
-          created_by: user.id,
-          is_archived: false,
-          is_read_only: false
-        })
-        .select()
-        .single()
-
-      if (createError) {
-        console.error('Error creating DM channel:', createError)
-        alert('Failed to create message channel. Please try again.')
-        return
-      }
-
-      const channelId = (newChannel as any)?.id
-      await (supabase.from('channel_members') as any).insert([
-        {
-          channel_id: channelId,
-          user_id: user.id,
-          role: 'owner',
-          is_muted: false,
-          is_banned: false,
-          notifications_enabled: true,
-          joined_at: new Date().toISOString(),
-          last_read_at: new Date().toISOString()
-        },
-        {
-          channel_id: channelId,
-          user_id: profileId,
-          role: 'member',
-          is_muted: false,
-          is_banned: false,
-          notifications_enabled: true,
-          joined_at: new Date().toISOString(),
-          last_read_at: new Date().toISOString()
-        }
-      ])
-
-      router.push(`/section?channel=${channelId}`)
+      const channelId = await startConversation([profileId])
+      router.push(getConversationUrl(channelId))
     } catch (err) {
       console.error('Error setting up DM:', err)
       alert('Failed to set up messaging. Please try again.')
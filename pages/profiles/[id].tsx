@@ -3,9 +3,12 @@ import { useRouter } from 'next/router'
 import Link from 'next/link'
 import { useAuth } from '@/contexts/AuthContext'
 import { supabase } from '@/lib/supabase'
+import { getConversationUrl, startConversation } from '@/lib/directMessages'
 import Button from '@/components/ui/Button'
 import Avatar from '@/components/ui/Avatar'
 import EventCalendar from '@/components/EventCalendar'
+import { formatHeadcount, getSpotsLeft } from '@/utils/headcount'
+import { formatRating, loadHostGroupRatings, type GroupRating } from '@/lib/eventFeedback'
 
 interface PublicProfile {
   id: string
@@ -27,44 +30,11 @@ interface PublicEvent {
   image_url?: string
   rsvp_count?: number
   maybe_count?: number
+  guest_count?: number
   max_capacity?: number
   group_name?: string
 }
 
-// Fun word lists for generating chat names
-const adjectives = [
-  'cosmic', 'sunny', 'swift', 'cozy', 'bright', 'gentle', 'happy', 'wild',
-  'calm', 'brave', 'clever', 'dreamy', 'eager', 'fancy', 'golden', 'jazzy',
-  'lucky', 'mellow', 'noble', 'quirky', 'radiant', 'stellar', 'vibrant', 'witty',
-  'zesty', 'serene', 'vivid', 'mystic', 'cosmic', 'electric', 'groovy', 'retro'
-]
-
-const nouns = [
-  'butterfly', 'meadow', 'falcon', 'river', 'mountain', 'forest', 'sunset',
-  'moonlight', 'thunder', 'whisper', 'voyage', 'garden', 'crystal', 'phoenix',
-  'nebula', 'aurora', 'horizon', 'oasis', 'cascade', 'echo', 'spark', 'wave',
-  'breeze', 'comet', 'prism', 'twilight', 'ember', 'velvet', 'zephyr', 'bloom'
-]
-
-// Generate a deterministic fun name based on two user IDs
-const generateFunChatName = (id1: string, id2: string): string => {
-  const sortedIds = [id1, id2].sort()
-  const combined = sortedIds.join('')
-  
-  let hash = 0
-  for (let i = 0; i < combined.length; i++) {
-    const char = combined.charCodeAt(i)
-    hash = ((hash << 5) - hash) + char
-    hash = hash & hash
-  }
-  hash = Math.abs(hash)
-  
-  const adjective = adjectives[hash % adjectives.length]
-  const noun = nouns[(hash >> 8) % nouns.length]
-  
-  return `${adjective}-${noun}`
-}
-
 const PublicProfilePage: React.FC = () => {
   const router = useRouter()
   const { id } = router.query
@@ -81,6 +51,7 @@ const PublicProfilePage: React.FC = () => {
   const [showUngrouped, setShowUngrouped] = useState(true)
   const [subscribedGroups, setSubscribedGroups] = useState<Set<string>>(new Set())
   const [subscribingGroup, setSubscribingGroup] = useState<string | null>(null)
+  const [groupRatings, setGroupRatings] = useState<GroupRating[]>([])
 
   // Require authentication
   useEffect(() => {
@@ -94,6 +65,7 @@ const PublicProfilePage: React.FC = () => {
       loadProfile(id)
       loadUserEvents(id)
       loadSubscriptions(id)
+      loadGroupRatings(id)
     }
   }, [id, user])
 
@@ -128,6 +100,16 @@ const PublicProfilePage: React.FC = () => {
     }
   }
 
+  // Average feedback rating per event group, from attendees' post-event surveys
+  const loadGroupRatings = async (userId: string) => {
+    try {
+      setGroupRatings(await loadHostGroupRatings(userId))
+    } catch (err) {
+      console.error('Error loading host ratings:', err)
+      setGroupRatings([])
+    }
+  }
+
   const loadUserEvents = async (userId: string) => {
     try {
       setEventsLoading(true)
@@ -193,18 +175,22 @@ const PublicProfilePage: React.FC = () => {
         (visibleEvents || []).map(async (event: any) => {
           const { data: rsvpData } = await supabase
             .from('event_rsvps')
-            .select('status')
+            .select('status, guest_count')
             .eq('event_id', event.id)
 
           const counts = (rsvpData || []).reduce((acc: any, rsvp: any) => {
             acc[rsvp.status] = (acc[rsvp.status] || 0) + 1
+            if (rsvp.status === 'going') {
+              acc.guests = (acc.guests || 0) + (rsvp.guest_count || 0)
+            }
             return acc
           }, {})
 
           return {
             ...event,
             rsvp_count: counts.going || 0,
-            maybe_count: counts.maybe || 0
+            maybe_count: counts.maybe || 0,
+            guest_count: counts.guests || 0
           }
         })
       )
@@ -321,68 +307,8 @@ const PublicProfilePage: React.FC = () => {
     setMessagingUser(true)
 
     try {
-      const dmChannelName = generateFunChatName(user.id, profile.id)
-
-      // Check if DM channel already exists
-      const { data: existingChannel } = await supabase
-        .from('channels' as any)
-        .select('id')
-        .eq('name', dmChannelName)
-        .eq('type', 'private')
-        .single()
-
-      if (existingChannel) {
-        router.push(`/section?channel=${(existingChannel as any).id}`)
-        return
-      }
-
-      // Create new DM channel
-      const { data: newChannel, error: createError } = await supabase
-        .from('channels' as any)
-        .insert({
-          name: dmChannelName,
-          description: `Direct message with ${profile.full_name}`,
-          type: 'private',
-          created_by: user.id,
-          is_archived: false,
-          is_read_only: false
-        } as any)
-        .select()
-        .single()
-
-      if (createError) {
-        console.error('Error creating DM channel:', createError)
-        alert('Failed to create message channel. Please try again.')
-        return
-      }
-
-      // Add both users as members
-      await supabase
-        .from('channel_members' as any)
-        .insert([
-          {
-            channel_id: (newChannel as any).id,
-            user_id: user.id,
-            role: 'owner',
-            is_muted: false,
-            is_banned: false,
-            notifications_enabled: true,
-            joined_at: new Date().toISOString(),
-            last_read_at: new Date().toISOString()
-          },
-          {
-            channel_id: (newChannel as any).id,
-            user_id: profile.id,
-            role: 'member',
-            is_muted: false,
-            is_banned: false,
-            notifications_enabled: true,
-            joined_at: new Date().toISOString(),
-            last_read_at: new Date().toISOString()
-          }
-        ] as any)
-
-      router.push(`/section?channel=${(newChannel as any).id}`)
+      const channelId = await startConversation([profile.id])
+      router.push(getConversationUrl(channelId))
     } catch (err) {
       console.error('Error setting up DM:', err)
       alert('Failed to set up messaging. Please try again.')
@@ -417,6 +343,7 @@ const PublicProfilePage: React.FC = () => {
     location: e.location,
     rsvp_count: e.rsvp_count,
     maybe_count: e.maybe_count,
+    guest_count: e.guest_count,
     max_capacity: e.max_capacity
   }))
 
@@ -614,6 +541,58 @@ const PublicProfilePage: React.FC = () => {
           </div>
         </div>
 
+        {/* Host Ratings */}
+        {groupRatings.length > 0 && (
+          <div style={{
+            background: 'var(--card)',
+            border: '1px solid var(--border)',
+            borderRadius: '16px',
+            padding: '2rem',
+            marginBottom: '2rem'
+          }}>
+            <div style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'baseline',
+              marginBottom: '1rem',
+              gap: '1rem'
+            }}>
+              <h2 style={{ margin: 0, color: 'var(--text)' }}>
+                ⭐ Host Ratings
+              </h2>
+              <span style={{ color: 'var(--muted)', fontSize: '0.875rem' }}>
+                From {groupRatings.reduce((sum, g) => sum + g.response_count, 0)} attendee surveys
+              </span>
+            </div>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+              {groupRatings.map(rating => (
+                <div
+                  key={rating.group_name || 'ungrouped'}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '1rem',
+                    padding: '0.75rem 1rem',
+                    background: 'var(--bg-2)',
+                    borderRadius: '8px',
+                    border: '1px solid var(--border)'
+                  }}
+                >
+                  <span style={{ flex: 1, color: 'var(--text)', fontWeight: 500 }}>
+                    {rating.group_name || 'Other events'}
+                  </span>
+                  <span style={{ color: 'var(--muted)', fontSize: '0.8rem' }}>
+                    {rating.event_count} {rating.event_count === 1 ? 'event' : 'events'} · {rating.response_count} {rating.response_count === 1 ? 'rating' : 'ratings'}
+                  </span>
+                  <span style={{ color: '#f59e0b', fontWeight: 700, minWidth: '3.5rem', textAlign: 'right' }}>
+                    {formatRating(rating.average_rating)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Events Section */}
         <div style={{
           background: 'var(--card)',
@@ -999,7 +978,7 @@ const PublicProfilePage: React.FC = () => {
                     fontSize: '0.875rem'
                   }}>
                     <span style={{ color: 'var(--success)' }}>
-                      ✅ {event.rsvp_count || 0} going
+                      ✅ {formatHeadcount(event.rsvp_count || 0, event.guest_count || 0)} going
                     </span>
                     {(event.maybe_count || 0) > 0 && (
                       <span style={{ color: 'var(--warning)' }}>
@@ -1008,14 +987,14 @@ const PublicProfilePage: React.FC = () => {
                     )}
                     {event.max_capacity && (
                       <span style={{ 
-                        color: (event.rsvp_count || 0) >= event.max_capacity 
+                        color: getSpotsLeft(event) === 0 
                           ? 'var(--danger)' 
                           : 'var(--muted)',
                         marginLeft: 'auto'
                       }}>
-                        👥 {(event.rsvp_count || 0) >= event.max_capacity 
+                        👥 {getSpotsLeft(event) === 0 
                           ? 'FULL' 
-                          : `${event.max_capacity - (event.rsvp_count || 0)} left`}
+                          : `${getSpotsLeft(event)} left`}
                       </span>
                     )}
                   </div>
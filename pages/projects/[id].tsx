@@ -6,6 +6,8 @@ import Button from '@/components/ui/Button'
 import Chip from '@/components/ui/Chip'
 import Avatar from '@/components/ui/Avatar'
 import Loading from '@/components/ui/Loading'
+import OgMeta from '@/components/OgMeta'
+import { createOgServerSideProps, type OgPageProps } from '@/lib/ogPreviewServer'
 
 interface Project {
   id: string
@@ -422,4 +424,14 @@ const ProjectDetail: React.FC = () => {
   )
 }
 
-export default ProjectDetail
+// Open Graph tags come from the server so shared links preview without a session
+const ProjectPage: React.FC<OgPageProps> = ({ ogPreview }) => (
+  <>
+    <OgMeta preview={ogPreview} />
+    <ProjectDetail />
+  </>
+)
+
+export const getServerSideProps = createOgServerSideProps('project')
+
+export default ProjectPage
@@ -182,10 +182,11 @@ const Section: React.FC = () => {
         .map((m: any) => m.channel)
         .filter((c: Channel) => c && !c.is_archived) as Channel[]
 
+      // Direct messages live in /chats
       const allChannels = [
         ...publicChannels,
         ...privateChannels.filter(pc => !publicChannels.find(pbc => pbc.id === pc.id))
-      ]
+      ].filter(c => c.type !== 'dm')
 
       setChannels(allChannels)
       
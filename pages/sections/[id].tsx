@@ -2,6 +2,7 @@ import React, { useState, useEffect, useMemo, useRef } from 'react'
 import { useRouter } from 'next/router'
 import Link from 'next/link'
 import Head from 'next/head'
+import OgMeta from '@/components/OgMeta'
 import { useAuth } from '@/contexts/AuthContext'
 import { useToast } from '@/contexts/ToastContext'
 import { supabase, type Channel, type ChannelMessage } from '@/lib/supabase'
@@ -12,6 +13,8 @@ import Avatar from '@/components/ui/Avatar'
 import MessageItem from '@/components/channels/MessageItem'
 import MessageInput from '@/components/channels/MessageInput'
 import { FIELD_TYPE_ICONS } from '@/types/sections'
+import { formatHeadcount, getSpotsLeft } from '@/utils/headcount'
+import { createOgServerSideProps, type OgPageProps } from '@/lib/ogPreviewServer'
 
 interface Creator {
   id: string
@@ -29,10 +32,11 @@ interface GroupEvent {
   image_url?: string
   max_capacity?: number
   rsvp_count?: number
+  guest_count?: number | null
   maybe_count?: number
 }
 
-export default function SectionPage() {
+function SectionPageContent() {
   const router = useRouter()
   const { id } = router.query
   const { user, loading: authLoading } = useAuth()
@@ -209,7 +213,7 @@ export default function SectionPage() {
       if (eventIds.length > 0) {
         const { data: upcomingEvents, error: upcomingError } = await (supabase
           .from('events')
-          .select('id, title, description, date, time, location, image_url, max_capacity, rsvp_count, maybe_count')
+          .select('id, title, description, date, time, location, image_url, max_capacity, rsvp_count, guest_count, maybe_count')
           .in('id', eventIds)
           .eq('published', true)
           .gte('date', today)
@@ -222,7 +226,7 @@ export default function SectionPage() {
         // Fetch past events
         const { data: pastEventsData, error: pastError } = await (supabase
           .from('events')
-          .select('id, title, description, date, time, location, image_url, max_capacity, rsvp_count, maybe_count')
+          .select('id, title, description, date, time, location, image_url, max_capacity, rsvp_count, guest_count, maybe_count')
           .in('id', eventIds)
           .eq('published', true)
           .lt('date', today)
@@ -502,6 +506,7 @@ export default function SectionPage() {
       time: event.time,
       location: event.location,
       rsvp_count: event.rsvp_count,
+      guest_count: event.guest_count,
       maybe_count: event.maybe_count,
       max_capacity: event.max_capacity
     }))
@@ -802,7 +807,7 @@ export default function SectionPage() {
                           marginTop: '0.5rem'
                         }}>
                           <span style={{ color: (event.rsvp_count || 0) > 0 ? 'var(--success)' : 'var(--muted)' }}>
-                            ✅ {event.rsvp_count || 0} going
+                            ✅ {formatHeadcount(event.rsvp_count || 0, event.guest_count || 0)} going
                           </span>
                           {(event.maybe_count || 0) > 0 && (
                             <span style={{ color: 'var(--warning)' }}>
@@ -811,11 +816,11 @@ export default function SectionPage() {
                           )}
                           {event.max_capacity && (
                             <span style={{
-                              color: (event.rsvp_count || 0) >= event.max_capacity ? 'var(--danger)' : 'var(--muted)'
+                              color: getSpotsLeft(event) === 0 ? 'var(--danger)' : 'var(--muted)'
                             }}>
-                              👥 {(event.rsvp_count || 0) >= event.max_capacity
+                              👥 {getSpotsLeft(event) === 0
                                 ? 'FULL'
-                                : `${event.max_capacity - (event.rsvp_count || 0)} spots left`}
+                                : `${getSpotsLeft(event)} spots left`}
                             </span>
                           )}
                         </div>
@@ -1964,3 +1969,14 @@ function InviteMembersModal({ section, onInvite, onClose }: {
   )
 }
 
+// Open Graph tags come from the server so shared links preview without a session
+export default function SectionPage({ ogPreview }: OgPageProps) {
+  return (
+    <>
+      <OgMeta preview={ogPreview} />
+      <SectionPageContent />
+    </>
+  )
+}
+
+export const getServerSideProps = createOgServerSideProps('section')
@@ -1,22 +1,39 @@
-import React, { useState, useMemo } from 'react'
+import React, { useState, useMemo, useEffect, useRef } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { formatHeadcount, getSpotsLeft } from '@/utils/headcount'
+import {
+  addDays,
+  findScheduleConflicts,
+  getEventEnd,
+  getEventStart,
+  startOfDay,
+  startOfWeek,
+  toDateKey,
+} from '@/utils/schedule'
+import { loadMySchedule, SCHEDULE_ROLE_LABELS, type MyScheduleEvent } from '@/lib/mySchedule'
 
 interface CalendarEvent {
   id: string
   title: string
   date: string
   time?: string
+  end_time?: string | null
   location?: string
   tags?: string[]
   status?: string
   rsvp_count?: number
+  guest_count?: number | null
   maybe_count?: number
   max_capacity?: number
 }
 
+export type CalendarView = 'month' | 'week' | 'day' | 'agenda'
+
 interface EventCalendarProps {
   events: CalendarEvent[]
   onEventClick?: (event: CalendarEvent) => void
   onDayClick?: (date: Date, events: CalendarEvent[]) => void
+  defaultView?: CalendarView
 }
 
 const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
@@ -25,13 +42,91 @@ const MONTHS = [
   'July', 'August', 'September', 'October', 'November', 'December'
 ]
 
+const VIEWS: { key: CalendarView; label: string }[] = [
+  { key: 'month', label: 'Month' },
+  { key: 'week', label: 'Week' },
+  { key: 'day', label: 'Day' },
+  { key: 'agenda', label: 'Agenda' },
+]
+
+// Time grid sizing for the week and day views
+const HOUR_HEIGHT = 48
+const SCROLL_TO_HOUR = 8
+const AGENDA_DAYS = 30
+
+const MY_EVENT_COLOR = 'var(--accent)'
+const CONFLICT_COLOR = 'var(--danger)'
+
+// An event's block in a day column of the time grid
+interface TimeGridBlock {
+  event: CalendarEvent
+  top: number
+  height: number
+  column: number
+  columns: number
+}
+
+// Place a day's events in the time grid, side by side where they overlap
+const layoutDayEvents = (dayEvents: CalendarEvent[], day: Date): TimeGridBlock[] => {
+  const dayStart = startOfDay(day).getTime()
+  const dayEnd = addDays(day, 1).getTime()
+  const minuteHeight = HOUR_HEIGHT / 60
+
+  const items = dayEvents
+    .map(event => {
+      const start = Math.max(getEventStart(event).getTime(), dayStart)
+      const end = Math.min(getEventEnd(event).getTime(), dayEnd)
+      return { event, start, end }
+    })
+    .filter(item => item.end > item.start)
+    .sort((a, b) => a.start - b.start || b.end - a.end)
+
+  const blocks: TimeGridBlock[] = []
+  let cluster: (TimeGridBlock & { end: number })[] = []
+  let clusterEnd = 0
+
+  const closeCluster = () => {
+    const columns = Math.max(1, ...cluster.map(b => b.column + 1))
+    cluster.forEach(({ event, top, height, column }) => blocks.push({ event, top, height, column, columns }))
+    cluster = []
+  }
+
+  items.forEach(({ event, start, end }) => {
+    if (cluster.length > 0 && start >= clusterEnd) closeCluster()
+
+    // First column whose last block has finished
+    let column = 0
+    while (cluster.some(b => b.column === column && b.end > start)) column++
+
+    cluster.push({
+      event,
+      top: ((start - dayStart) / 60000) * minuteHeight,
+      height: Math.max(((end - start) / 60000) * minuteHeight, 18),
+      column,
+      columns: 1,
+      end,
+    })
+    clusterEnd = Math.max(clusterEnd, end)
+  })
+  if (cluster.length > 0) closeCluster()
+
+  return blocks
+}
+
 const EventCalendar: React.FC<EventCalendarProps> = ({ 
   events, 
   onEventClick,
-  onDayClick 
+  onDayClick,
+  defaultView = 'month'
 }) => {
+  const { user } = useAuth()
+  const [view, setView] = useState<CalendarView>(defaultView)
   const [currentDate, setCurrentDate] = useState(new Date())
   const [selectedDate, setSelectedDate] = useState<Date | null>(null)
+  const [showMyEvents, setShowMyEvents] = useState(false)
+  const [mySchedule, setMySchedule] = useState<MyScheduleEvent[] | null>(null)
+  const [loadingMySchedule, setLoadingMySchedule] = useState(false)
+  const timeGridRef = useRef<HTMLDivElement>(null)
 
   // Get the first day of the month and total days
   const firstDayOfMonth = useMemo(() => {
@@ -45,42 +140,81 @@ const EventCalendar: React.FC<EventCalendarProps> = ({
   const daysInMonth = lastDayOfMonth.getDate()
   const startingDayOfWeek = firstDayOfMonth.getDay()
 
-  // Create a map of events by date string (YYYY-MM-DD)
+  // The personal schedule is only fetched once someone turns the overlay on
+  useEffect(() => {
+    if (!showMyEvents || !user || mySchedule) return
+
+    setLoadingMySchedule(true)
+    loadMySchedule(user.id)
+      .then(setMySchedule)
+      .catch(err => console.error('Error loading my schedule:', err))
+      .finally(() => setLoadingMySchedule(false))
+  }, [showMyEvents, user?.id])
+
+  const myEventsById = useMemo(() => {
+    return new Map((showMyEvents ? mySchedule || [] : []).map(event => [event.id, event]))
+  }, [showMyEvents, mySchedule])
+
+  // Overlapping going RSVPs, by event id
+  const conflicts = useMemo(() => {
+    return findScheduleConflicts((mySchedule || []).filter(event => event.is_going))
+  }, [mySchedule])
+
+  // With the overlay on, the user's own events are added to whatever the page passed in
+  const visibleEvents = useMemo(() => {
+    if (myEventsById.size === 0) return events
+
+    const eventIds = new Set(events.map(event => event.id))
+    return [...events, ...Array.from(myEventsById.values()).filter(event => !eventIds.has(event.id))]
+  }, [events, myEventsById])
+
+  // Create a map of events by local date (YYYY-MM-DD)
   const eventsByDate = useMemo(() => {
     const map = new Map<string, CalendarEvent[]>()
     
-    events.forEach(event => {
-      // Extract date from ISO string or legacy format
-      let dateStr: string
-      if (event.date.includes('T')) {
-        dateStr = event.date.split('T')[0]
-      } else {
-        dateStr = event.date
-      }
-      
+    visibleEvents.forEach(event => {
+      const dateStr = toDateKey(getEventStart(event))
       const existing = map.get(dateStr) || []
       map.set(dateStr, [...existing, event])
     })
     
     return map
-  }, [events])
+  }, [visibleEvents])
+
+  const visibleConflictCount = useMemo(() => {
+    return Array.from(myEventsById.keys()).filter(id => conflicts.has(id)).length
+  }, [myEventsById, conflicts])
+
+  // Start the time grid at the morning rather than midnight
+  useEffect(() => {
+    if ((view === 'week' || view === 'day') && timeGridRef.current) {
+      timeGridRef.current.scrollTop = SCROLL_TO_HOUR * HOUR_HEIGHT
+    }
+  }, [view])
 
   // Get events for selected date
   const selectedDateEvents = useMemo(() => {
     if (!selectedDate) return []
     
-    const dateStr = selectedDate.toISOString().split('T')[0]
-    return eventsByDate.get(dateStr) || []
+    return sortEventsByTime(eventsByDate.get(toDateKey(selectedDate)) || [])
   }, [selectedDate, eventsByDate])
 
-  // Navigation handlers
-  const goToPreviousMonth = () => {
-    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() - 1, 1))
+  // Navigation handlers: a month, week, day or agenda page at a time
+  const goToPrevious = () => {
+    if (view === 'month') {
+      setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() - 1, 1))
+    } else {
+      setCurrentDate(addDays(currentDate, view === 'week' ? -7 : view === 'day' ? -1 : -AGENDA_DAYS))
+    }
     setSelectedDate(null)
   }
 
-  const goToNextMonth = () => {
-    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 1))
+  const goToNext = () => {
+    if (view === 'month') {
+      setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 1))
+    } else {
+      setCurrentDate(addDays(currentDate, view === 'week' ? 7 : view === 'day' ? 1 : AGENDA_DAYS))
+    }
     setSelectedDate(null)
   }
 
@@ -113,8 +247,7 @@ const EventCalendar: React.FC<EventCalendarProps> = ({
     const clickedDate = new Date(currentDate.getFullYear(), currentDate.getMonth(), day)
     setSelectedDate(clickedDate)
     
-    const dateStr = clickedDate.toISOString().split('T')[0]
-    const dayEvents = eventsByDate.get(dateStr) || []
+    const dayEvents = eventsByDate.get(toDateKey(clickedDate)) || []
     
     if (onDayClick) {
       onDayClick(clickedDate, dayEvents)
@@ -134,13 +267,61 @@ const EventCalendar: React.FC<EventCalendarProps> = ({
     return event.time || ''
   }
 
+  const formatEventTimeRange = (event: CalendarEvent) => {
+    if (!event.end_time) return formatEventTime(event)
+
+    const end = getEventEnd(event).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true })
+    return `${formatEventTime(event)} – ${end}`
+  }
+
   // Sort events by time for a given day
-  const sortEventsByTime = (events: CalendarEvent[]): CalendarEvent[] => {
-    return [...events].sort((a, b) => {
-      const timeA = a.time || '00:00'
-      const timeB = b.time || '00:00'
-      return timeA.localeCompare(timeB)
-    })
+  function sortEventsByTime(events: CalendarEvent[]): CalendarEvent[] {
+    return [...events].sort((a, b) => getEventStart(a).getTime() - getEventStart(b).getTime())
+  }
+
+  // Titles of the going RSVPs an event clashes with, when the overlay is on
+  const getConflictTitles = (event: CalendarEvent): string[] => {
+    if (!myEventsById.has(event.id)) return []
+    return (conflicts.get(event.id) || []).map(id => mySchedule?.find(e => e.id === id)?.title || 'another event')
+  }
+
+  // Chip colours: the user's own events stand out, clashes in red
+  const getEventColor = (event: CalendarEvent) => {
+    if (getConflictTitles(event).length > 0) return CONFLICT_COLOR
+    if (myEventsById.has(event.id)) return MY_EVENT_COLOR
+    return 'var(--primary)'
+  }
+
+  const getEventTooltip = (event: CalendarEvent) => {
+    const myEvent = myEventsById.get(event.id)
+    const conflictTitles = getConflictTitles(event)
+    return [
+      `${formatEventTimeRange(event)} - ${event.title}`,
+      myEvent ? SCHEDULE_ROLE_LABELS[myEvent.role] : null,
+      conflictTitles.length > 0 ? `⚠️ Overlaps with ${conflictTitles.join(', ')}` : null,
+    ].filter(Boolean).join('\n')
+  }
+
+  const renderEventBadges = (event: CalendarEvent) => {
+    const myEvent = myEventsById.get(event.id)
+    if (!myEvent) return null
+
+    const conflictTitles = getConflictTitles(event)
+    return (
+      <span style={{ display: 'inline-flex', gap: '0.25rem', marginLeft: '0.5rem', verticalAlign: 'middle' }}>
+        <span style={{ ...badgeStyle, color: MY_EVENT_COLOR, borderColor: MY_EVENT_COLOR }}>
+          {SCHEDULE_ROLE_LABELS[myEvent.role]}
+        </span>
+        {conflictTitles.length > 0 && (
+          <span
+            style={{ ...badgeStyle, color: CONFLICT_COLOR, borderColor: CONFLICT_COLOR }}
+            title={`Overlaps with ${conflictTitles.join(', ')}`}
+          >
+            ⚠️ Conflict
+          </span>
+        )}
+      </span>
+    )
   }
 
   // Render calendar days
@@ -157,8 +338,7 @@ const EventCalendar: React.FC<EventCalendarProps> = ({
     // Days of the month
     for (let day = 1; day <= daysInMonth; day++) {
       const date = new Date(currentDate.getFullYear(), currentDate.getMonth(), day)
-      const dateStr = date.toISOString().split('T')[0]
-      const dayEvents = sortEventsByTime(eventsByDate.get(dateStr) || [])
+      const dayEvents = sortEventsByTime(eventsByDate.get(toDateKey(date)) || [])
       const hasEvents = dayEvents.length > 0
       const eventsToShow = dayEvents.slice(0, 3)
       const hasMore = dayEvents.length > 3
@@ -194,7 +374,7 @@ const EventCalendar: React.FC<EventCalendarProps> = ({
               flex: 1,
               minHeight: 0
             }}>
-              {eventsToShow.map((event, idx) => {
+              {eventsToShow.map(event => {
                 const eventTime = formatEventTime(event)
                 return (
                   <div
@@ -209,7 +389,7 @@ const EventCalendar: React.FC<EventCalendarProps> = ({
                       fontSize: '0.65rem',
                       lineHeight: '1.3',
                       padding: '0.25rem 0.4rem',
-                      background: 'var(--primary)',
+                      background: getEventColor(event),
                       color: 'white',
                       borderRadius: '4px',
                       cursor: 'pointer',
@@ -228,8 +408,9 @@ const EventCalendar: React.FC<EventCalendarProps> = ({
                       e.currentTarget.style.opacity = '1'
                       e.currentTarget.style.transform = 'scale(1)'
                     }}
-                    title={`${eventTime} - ${event.title}`}
+                    title={getEventTooltip(event)}
                   >
+                    {getConflictTitles(event).length > 0 && <span style={{ marginRight: '0.2rem' }}>⚠️</span>}
                     <span style={{ fontWeight: '600', marginRight: '0.25rem' }}>
                       {eventTime}
                     </span>
@@ -256,38 +437,286 @@ const EventCalendar: React.FC<EventCalendarProps> = ({
     return days
   }
 
+  // Days shown by the week and day views
+  const timeGridDays = view === 'week'
+    ? Array.from({ length: 7 }, (_, i) => addDays(startOfWeek(currentDate), i))
+    : [startOfDay(currentDate)]
+
+  const getTitle = () => {
+    if (view === 'month') return `${MONTHS[currentDate.getMonth()]} ${currentDate.getFullYear()}`
+    if (view === 'day') {
+      return currentDate.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })
+    }
+    const first = view === 'week' ? timeGridDays[0] : startOfDay(currentDate)
+    const last = view === 'week' ? timeGridDays[6] : addDays(first, AGENDA_DAYS - 1)
+    const sameMonth = first.getMonth() === last.getMonth()
+    return `${MONTHS[first.getMonth()].slice(0, 3)} ${first.getDate()} – ${sameMonth ? '' : `${MONTHS[last.getMonth()].slice(0, 3)} `}${last.getDate()}, ${last.getFullYear()}`
+  }
+
+  // Week and day views: hours down the side, one column per day
+  const renderTimeGrid = () => (
+    <div style={{ border: '1px solid var(--border)', borderRadius: '8px', overflow: 'hidden' }}>
+      <div style={{ display: 'flex', borderBottom: '1px solid var(--border)', background: 'var(--bg-2)' }}>
+        <div style={{ width: '56px', flexShrink: 0 }} />
+        {timeGridDays.map(day => (
+          <button
+            key={day.toDateString()}
+            className="weekday"
+            onClick={() => {
+              setCurrentDate(day)
+              setView('day')
+            }}
+            style={{
+              flex: 1,
+              border: 'none',
+              background: 'none',
+              cursor: view === 'week' ? 'pointer' : 'default',
+              color: isToday(day) ? 'var(--primary)' : undefined
+            }}
+          >
+            {WEEKDAYS[day.getDay()]} {day.getDate()}
+          </button>
+        ))}
+      </div>
+
+      <div ref={timeGridRef} style={{ maxHeight: `${HOUR_HEIGHT * 12}px`, overflowY: 'auto' }}>
+        <div style={{ display: 'flex', position: 'relative', height: `${HOUR_HEIGHT * 24}px` }}>
+          {/* Hour labels */}
+          <div style={{ width: '56px', flexShrink: 0 }}>
+            {Array.from({ length: 24 }, (_, hour) => (
+              <div
+                key={hour}
+                style={{
+                  height: `${HOUR_HEIGHT}px`,
+                  fontSize: '0.7rem',
+                  color: 'var(--muted)',
+                  textAlign: 'right',
+                  paddingRight: '0.5rem',
+                  transform: 'translateY(-0.45rem)'
+                }}
+              >
+                {hour === 0 ? '' : new Date(2000, 0, 1, hour).toLocaleTimeString('en-US', { hour: 'numeric', hour12: true })}
+              </div>
+            ))}
+          </div>
+
+          {timeGridDays.map(day => (
+            <div
+              key={day.toDateString()}
+              style={{
+                flex: 1,
+                minWidth: 0,
+                position: 'relative',
+                borderLeft: '1px solid var(--border)',
+                background: isToday(day) ? 'rgba(139, 92, 246, 0.06)' : undefined,
+                backgroundImage: `repeating-linear-gradient(to bottom, var(--border) 0, var(--border) 1px, transparent 1px, transparent ${HOUR_HEIGHT}px)`
+              }}
+            >
+              {layoutDayEvents(eventsForDay(day), day).map(block => (
+                <div
+                  key={block.event.id}
+                  onClick={() => onEventClick?.(block.event)}
+                  title={getEventTooltip(block.event)}
+                  style={{
+                    position: 'absolute',
+                    top: `${block.top}px`,
+                    height: `${block.height}px`,
+                    left: `calc(${(block.column / block.columns) * 100}% + 2px)`,
+                    width: `calc(${100 / block.columns}% - 4px)`,
+                    background: getEventColor(block.event),
+                    color: 'white',
+                    borderRadius: '4px',
+                    padding: '0.2rem 0.35rem',
+                    fontSize: '0.7rem',
+                    lineHeight: 1.3,
+                    overflow: 'hidden',
+                    cursor: 'pointer',
+                    boxSizing: 'border-box',
+                    opacity: block.event.status === 'cancelled' ? 0.5 : 1
+                  }}
+                >
+                  <div style={{ fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {getConflictTitles(block.event).length > 0 && '⚠️ '}{block.event.title}
+                  </div>
+                  {block.height > 30 && <div style={{ opacity: 0.85 }}>{formatEventTimeRange(block.event)}</div>}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+
+  // Events starting on a day, plus ones that began earlier and run into it
+  function eventsForDay(day: Date): CalendarEvent[] {
+    const dayStart = startOfDay(day)
+    const dayEnd = addDays(day, 1)
+    return visibleEvents.filter(event => getEventStart(event) < dayEnd && getEventEnd(event) > dayStart)
+  }
+
+  const renderPanelEvent = (event: CalendarEvent) => (
+    <button
+      key={event.id}
+      className="panel-event"
+      onClick={() => onEventClick?.(event)}
+      style={getConflictTitles(event).length > 0 ? { borderColor: CONFLICT_COLOR } : undefined}
+      title={getEventTooltip(event)}
+    >
+      <div className="event-time">{formatEventTime(event)}</div>
+      <div className="event-info">
+        <div className="event-title">
+          {event.title}
+          {renderEventBadges(event)}
+        </div>
+        {event.location && (
+          <div className="event-location">📍 {event.location}</div>
+        )}
+        <div className="event-rsvp-stats">
+          <span className="rsvp-going">✅ {formatHeadcount(event.rsvp_count || 0, event.guest_count || 0)}</span>
+          {(event.maybe_count || 0) > 0 && (
+            <span className="rsvp-maybe">🤔 {event.maybe_count}</span>
+          )}
+          {event.max_capacity && (
+            <span className={`rsvp-capacity ${getSpotsLeft(event) === 0 ? 'full' : ''}`}>
+              👥 {getSpotsLeft(event) === 0
+                ? 'FULL' 
+                : `${getSpotsLeft(event)} left`}
+            </span>
+          )}
+        </div>
+      </div>
+      <div className="event-arrow">→</div>
+    </button>
+  )
+
+  // Agenda view: the next AGENDA_DAYS days that have something on
+  const renderAgenda = () => {
+    const agendaDays = Array.from({ length: AGENDA_DAYS }, (_, i) => addDays(startOfDay(currentDate), i))
+      .map(day => ({ day, dayEvents: sortEventsByTime(eventsByDate.get(toDateKey(day)) || []) }))
+      .filter(({ dayEvents }) => dayEvents.length > 0)
+
+    if (agendaDays.length === 0) {
+      return (
+        <div className="no-events-message">
+          <p>No events in the next {AGENDA_DAYS} days</p>
+        </div>
+      )
+    }
+
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+        {agendaDays.map(({ day, dayEvents }) => (
+          <div key={day.toDateString()}>
+            <div className="panel-header" style={{ marginBottom: '0.5rem' }}>
+              <h4 style={{ color: isToday(day) ? 'var(--primary)' : undefined }}>
+                {day.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+              </h4>
+              <span className="event-count">
+                {dayEvents.length} event{dayEvents.length !== 1 ? 's' : ''}
+              </span>
+            </div>
+            <div className="panel-events">
+              {dayEvents.map(renderPanelEvent)}
+            </div>
+          </div>
+        ))}
+      </div>
+    )
+  }
+
   return (
     <div className="event-calendar">
       {/* Calendar Header */}
       <div className="calendar-header">
-        <button className="calendar-nav" onClick={goToPreviousMonth}>
+        <button className="calendar-nav" onClick={goToPrevious}>
           ←
         </button>
         <div className="calendar-title">
-          <h3>{MONTHS[currentDate.getMonth()]} {currentDate.getFullYear()}</h3>
+          <h3>{getTitle()}</h3>
           <button className="today-btn" onClick={goToToday}>
             Today
           </button>
         </div>
-        <button className="calendar-nav" onClick={goToNextMonth}>
+        <button className="calendar-nav" onClick={goToNext}>
           →
         </button>
       </div>
 
-      {/* Weekday Headers */}
-      <div className="calendar-weekdays">
-        {WEEKDAYS.map(day => (
-          <div key={day} className="weekday">{day}</div>
-        ))}
-      </div>
+      {/* View switcher and personal schedule overlay */}
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        flexWrap: 'wrap',
+        gap: '0.75rem',
+        marginBottom: '1rem'
+      }}>
+        <div className="view-toggle">
+          {VIEWS.map(({ key, label }) => (
+            <button
+              key={key}
+              className={view === key ? 'active' : ''}
+              onClick={() => {
+                // Open the other views on the day picked in the month grid
+                if (selectedDate) setCurrentDate(selectedDate)
+                setView(key)
+                setSelectedDate(null)
+              }}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
 
-      {/* Calendar Grid */}
-      <div className="calendar-grid">
-        {renderCalendarDays()}
+        {user && (
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.875rem', color: 'var(--muted)', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={showMyEvents}
+              onChange={e => setShowMyEvents(e.target.checked)}
+            />
+            <span style={{ width: '10px', height: '10px', borderRadius: '3px', background: MY_EVENT_COLOR }} />
+            {loadingMySchedule ? 'Loading my events...' : 'My events'}
+          </label>
+        )}
       </div>
 
+      {visibleConflictCount > 0 && (
+        <div style={{
+          marginBottom: '1rem',
+          padding: '0.6rem 0.9rem',
+          borderRadius: '8px',
+          border: `1px solid ${CONFLICT_COLOR}`,
+          color: CONFLICT_COLOR,
+          fontSize: '0.85rem'
+        }}>
+          ⚠️ {visibleConflictCount} of your going RSVPs overlap with another. Look for the red events.
+        </div>
+      )}
+
+      {view === 'month' && (
+        <>
+          {/* Weekday Headers */}
+          <div className="calendar-weekdays">
+            {WEEKDAYS.map(day => (
+              <div key={day} className="weekday">{day}</div>
+            ))}
+          </div>
+
+          {/* Calendar Grid */}
+          <div className="calendar-grid">
+            {renderCalendarDays()}
+          </div>
+        </>
+      )}
+
+      {(view === 'week' || view === 'day') && renderTimeGrid()}
+
+      {view === 'agenda' && renderAgenda()}
+
       {/* Selected Day Events Panel */}
-      {selectedDate && (
+      {view === 'month' && selectedDate && (
         <div className="calendar-events-panel">
           <div className="panel-header">
             <h4>
@@ -308,35 +737,7 @@ const EventCalendar: React.FC<EventCalendarProps> = ({
             </div>
           ) : (
             <div className="panel-events">
-              {selectedDateEvents.map(event => (
-                <button
-                  key={event.id}
-                  className="panel-event"
-                  onClick={() => onEventClick?.(event)}
-                >
-                  <div className="event-time">{formatEventTime(event)}</div>
-                  <div className="event-info">
-                    <div className="event-title">{event.title}</div>
-                    {event.location && (
-                      <div className="event-location">📍 {event.location}</div>
-                    )}
-                    <div className="event-rsvp-stats">
-                      <span className="rsvp-going">✅ {event.rsvp_count || 0}</span>
-                      {(event.maybe_count || 0) > 0 && (
-                        <span className="rsvp-maybe">🤔 {event.maybe_count}</span>
-                      )}
-                      {event.max_capacity && (
-                        <span className={`rsvp-capacity ${(event.rsvp_count || 0) >= event.max_capacity ? 'full' : ''}`}>
-                          👥 {(event.rsvp_count || 0) >= event.max_capacity 
-                            ? 'FULL' 
-                            : `${event.max_capacity - (event.rsvp_count || 0)} left`}
-                        </span>
-                      )}
-                    </div>
-                  </div>
-                  <div className="event-arrow">→</div>
-                </button>
-              ))}
+              {selectedDateEvents.map(renderPanelEvent)}
             </div>
           )}
         </div>
@@ -345,4 +746,13 @@ const EventCalendar: React.FC<EventCalendarProps> = ({
   )
 }
 
+const badgeStyle: React.CSSProperties = {
+  padding: '0.05rem 0.4rem',
+  border: '1px solid',
+  borderRadius: '999px',
+  fontSize: '0.65rem',
+  fontWeight: 600,
+  whiteSpace: 'nowrap',
+}
+
 export default EventCalendar
@@ -0,0 +1,220 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { Loader } from '@googlemaps/js-api-loader'
+import { formatDistance, getEventCoordinates, getEventDistanceKm, type LatLng } from '@/utils/geo'
+import { formatEventDateTime, migrateLegacyDateTime } from '@/utils/dateTime'
+
+interface MapEvent {
+  id: string
+  title: string
+  date: string
+  time?: string
+  location?: string
+  location_lat?: number | null
+  location_lng?: number | null
+}
+
+interface EventMapProps {
+  events: MapEvent[]
+  viewerLocation?: LatLng | null
+  onEventClick?: (event: MapEvent) => void
+}
+
+const getApiKey = () => {
+  const apiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY
+  return apiKey && apiKey !== 'your_google_maps_api_key_here' ? apiKey : null
+}
+
+// Events on a Google map. Without a Maps key (e.g. local development) the
+// located events are listed by distance instead.
+const EventMap: React.FC<EventMapProps> = ({
+  events,
+  viewerLocation = null,
+  onEventClick
+}) => {
+  const mapRef = useRef<HTMLDivElement>(null)
+  const [mapError, setMapError] = useState(false)
+  // Marker listeners outlive renders, so read the latest click handler through a ref
+  const onEventClickRef = useRef(onEventClick)
+  onEventClickRef.current = onEventClick
+  const apiKey = getApiKey()
+
+  const locatedEvents = useMemo(() => {
+    return events
+      .filter(event => getEventCoordinates(event))
+      .map(event => ({ event, distance: getEventDistanceKm(event, viewerLocation) }))
+      .sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity))
+  }, [events, viewerLocation])
+
+  const unlocatedCount = events.length - locatedEvents.length
+
+  useEffect(() => {
+    if (!apiKey || !mapRef.current) return
+    let cancelled = false
+    const markers: any[] = []
+
+    const drawMap = async () => {
+      try {
+        await new Loader({ apiKey, version: 'weekly' }).load()
+        if (cancelled || !mapRef.current) return
+
+        const google = (window as any).google
+        const map = new google.maps.Map(mapRef.current, {
+          center: viewerLocation || { lat: 40.7128, lng: -74.006 },
+          zoom: 11,
+          mapTypeControl: false,
+          streetViewControl: false
+        })
+        const bounds = new google.maps.LatLngBounds()
+        const infoWindow = new google.maps.InfoWindow()
+
+        locatedEvents.forEach(({ event, distance }) => {
+          const position = getEventCoordinates(event)!
+          const marker = new google.maps.Marker({ position, map, title: event.title })
+          marker.addListener('click', () => {
+            const content = document.createElement('div')
+            const title = document.createElement('strong')
+            title.textContent = event.title
+            const details = document.createElement('div')
+            details.textContent = [
+              formatMapEventDate(event),
+              distance !== null ? `${formatDistance(distance)} away` : null
+            ].filter(Boolean).join(' · ')
+            content.append(title, details)
+            if (onEventClickRef.current) {
+              const link = document.createElement('button')
+              link.textContent = 'View event →'
+              link.style.cssText = 'margin-top:0.5rem;padding:0;border:none;background:none;color:#6366f1;cursor:pointer'
+              link.onclick = () => onEventClickRef.current?.(event)
+              content.append(link)
+            }
+            infoWindow.setContent(content)
+            infoWindow.open({ map, anchor: marker })
+          })
+          markers.push(marker)
+          bounds.extend(position)
+        })
+
+        if (viewerLocation) {
+          markers.push(new google.maps.Marker({
+            position: viewerLocation,
+            map,
+            title: 'You are here',
+            icon: {
+              path: google.maps.SymbolPath.CIRCLE,
+              scale: 7,
+              fillColor: '#3b82f6',
+              fillOpacity: 1,
+              strokeColor: 'white',
+              strokeWeight: 2
+            }
+          }))
+          bounds.extend(viewerLocation)
+        }
+
+        if (!bounds.isEmpty()) {
+          map.fitBounds(bounds)
+          if (markers.length === 1) map.setZoom(14)
+        }
+      } catch (error) {
+        console.error('Error loading Google Maps:', error)
+        setMapError(true)
+      }
+    }
+
+    drawMap()
+
+    return () => {
+      cancelled = true
+      markers.forEach(marker => marker.setMap(null))
+    }
+  }, [apiKey, locatedEvents, viewerLocation])
+
+  const showMap = !!apiKey && !mapError
+
+  return (
+    <div>
+      {showMap ? (
+        <div ref={mapRef} style={styles.map} />
+      ) : (
+        <div style={styles.notice}>
+          🗺️ Add a Google Maps API key to see events on a map. Here they are by distance instead.
+        </div>
+      )}
+
+      {!showMap && (
+        locatedEvents.length === 0 ? (
+          <div style={{ textAlign: 'center', padding: '3rem', color: 'var(--muted)' }}>
+            <p>No events with a mapped location.</p>
+          </div>
+        ) : (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+            {locatedEvents.map(({ event, distance }) => (
+              <button
+                key={event.id}
+                onClick={() => onEventClick?.(event)}
+                style={styles.listItem}
+              >
+                <span style={{ flex: 1, minWidth: 0 }}>
+                  <strong style={{ display: 'block' }}>{event.title}</strong>
+                  <span style={{ color: 'var(--muted)', fontSize: '0.8rem' }}>
+                    {formatMapEventDate(event)}{event.location ? ` · ${event.location}` : ''}
+                  </span>
+                </span>
+                {distance !== null && (
+                  <span style={{ color: 'var(--muted)', fontSize: '0.85rem', whiteSpace: 'nowrap' }}>
+                    {formatDistance(distance)}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+        )
+      )}
+
+      {unlocatedCount > 0 && (
+        <p style={{ marginTop: '0.75rem', color: 'var(--muted)', fontSize: '0.8rem' }}>
+          {unlocatedCount} {unlocatedCount === 1 ? 'event isn\'t' : 'events aren\'t'} shown because {unlocatedCount === 1 ? 'it has' : 'they have'} no mapped location (virtual, or not geocoded yet).
+        </p>
+      )}
+    </div>
+  )
+}
+
+const formatMapEventDate = (event: MapEvent) => {
+  const dateTime = event.date.includes('T') ? event.date : migrateLegacyDateTime(event.date, event.time)
+  return formatEventDateTime(dateTime)
+}
+
+const styles: { [key: string]: React.CSSProperties } = {
+  map: {
+    width: '100%',
+    height: '480px',
+    borderRadius: '12px',
+    border: '1px solid var(--border)',
+    overflow: 'hidden',
+  },
+  notice: {
+    padding: '0.75rem 1rem',
+    marginBottom: '1rem',
+    background: 'var(--bg-2)',
+    border: '1px solid var(--border)',
+    borderRadius: '8px',
+    color: 'var(--muted)',
+    fontSize: '0.875rem',
+  },
+  listItem: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '1rem',
+    width: '100%',
+    padding: '0.75rem 1rem',
+    background: 'var(--card)',
+    border: '1px solid var(--border)',
+    borderRadius: '8px',
+    color: 'var(--text)',
+    textAlign: 'left',
+    cursor: 'pointer',
+  },
+}
+
+export default EventMap
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useRef } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/router'
 import { useAuth } from '../contexts/AuthContext'
+import { useUnreadCounts } from '../hooks/useUnreadCounts'
 import Button from './ui/Button'
 
 const Header: React.FC = () => {
@@ -12,6 +13,7 @@ const Header: React.FC = () => {
   const [betaDropdownOpen, setBetaDropdownOpen] = useState(false)
   const [isLightTheme, setIsLightTheme] = useState(false)
   const betaDropdownRef = useRef<HTMLDivElement>(null)
+  const { totals: unreadTotals } = useUnreadCounts()
 
   useEffect(() => {
     const checkMobile = () => {
@@ -168,6 +170,23 @@ const Header: React.FC = () => {
     display: 'block',
   })
 
+  // Unread chat messages, highlighted when someone mentioned you
+  const unreadBadge = unreadTotals.unread_count > 0 || unreadTotals.mention_count > 0 ? (
+    <span style={{
+      marginLeft: '0.4rem',
+      padding: '0 0.4rem',
+      borderRadius: '999px',
+      fontSize: '0.7rem',
+      fontWeight: 700,
+      lineHeight: '1.2rem',
+      display: 'inline-block',
+      background: unreadTotals.mention_count > 0 ? '#ef4444' : 'var(--primary, #8b5cf6)',
+      color: '#fff',
+    }}>
+      {unreadTotals.mention_count > 0 ? `@${unreadTotals.mention_count}` : unreadTotals.unread_count > 99 ? '99+' : unreadTotals.unread_count}
+    </span>
+  ) : null
+
   return (
     <>
       <header style={headerStyles}>
@@ -203,7 +222,7 @@ const Header: React.FC = () => {
                   gap: '0.25rem'
                 }}
               >
-                Beta {betaDropdownOpen ? '▴' : '▾'}
+                Beta {!betaDropdownOpen && unreadBadge} {betaDropdownOpen ? '▴' : '▾'}
               </button>
               {betaDropdownOpen && (
                 <div style={{
@@ -220,7 +239,7 @@ const Header: React.FC = () => {
                   flexDirection: 'column',
                   gap: '0.25rem'
                 }}>
-                  <Link href="/chats" style={navLinkStyle('/chats')} onClick={() => setBetaDropdownOpen(false)}>Chats</Link>
+                  <Link href="/chats" style={navLinkStyle('/chats')} onClick={() => setBetaDropdownOpen(false)}>Chats{unreadBadge}</Link>
                   <Link href="/projects" style={navLinkStyle('/projects')} onClick={() => setBetaDropdownOpen(false)}>Projects</Link>
                   <Link href="/ideas" style={navLinkStyle('/ideas')} onClick={() => setBetaDropdownOpen(false)}>Ideas</Link>
                   <Link href="/section" style={navLinkStyle('/section')} onClick={() => setBetaDropdownOpen(false)}>Section</Link>
@@ -259,7 +278,7 @@ const Header: React.FC = () => {
         
         <div style={{ borderTop: '1px solid var(--border)', paddingTop: '1rem', marginTop: '0.5rem' }}>
           <p style={{ color: 'var(--muted)', fontSize: '0.8rem', padding: '0 1rem 0.5rem' }}>BETA FEATURES</p>
-          <Link href="/chats" style={navLinkStyle('/chats')} onClick={handleLinkClick}>Chats</Link>
+          <Link href="/chats" style={navLinkStyle('/chats')} onClick={handleLinkClick}>Chats{unreadBadge}</Link>
           <Link href="/projects" style={navLinkStyle('/projects')} onClick={handleLinkClick}>Projects</Link>
           <Link href="/ideas" style={navLinkStyle('/ideas')} onClick={handleLinkClick}>Ideas</Link>
           <Link href="/section" style={navLinkStyle('/section')} onClick={handleLinkClick}>Section</Link>
@@ -0,0 +1,44 @@
+import React from 'react'
+import Head from 'next/head'
+import type { OgPreview } from '@/lib/ogPreviewServer'
+
+interface OgMetaProps {
+  preview: OgPreview | null
+}
+
+// Open Graph / Twitter tags from server-side preview data (see src/lib/ogPreviewServer.ts).
+// Rendered even before client-side auth so crawlers see them.
+const OgMeta: React.FC<OgMetaProps> = ({ preview }) => {
+  if (!preview) return null
+
+  const { url, title, description, image } = preview
+
+  return (
+    <Head>
+      <title>{title}</title>
+      <meta key="description" name="description" content={description} />
+
+      {/* Generic image meta (some crawlers look for this) */}
+      <meta key="image" name="image" content={image} />
+
+      {/* Open Graph / Facebook / iMessage */}
+      <meta key="og:type" property="og:type" content="website" />
+      <meta key="og:url" property="og:url" content={url} />
+      <meta key="og:title" property="og:title" content={title} />
+      <meta key="og:description" property="og:description" content={description} />
+      <meta key="og:image" property="og:image" content={image} />
+      <meta key="og:image:secure_url" property="og:image:secure_url" content={image} />
+      <meta key="og:image:alt" property="og:image:alt" content={title} />
+
+      {/* Twitter - use summary_large_image for big preview */}
+      <meta key="twitter:card" name="twitter:card" content="summary_large_image" />
+      <meta key="twitter:site" name="twitter:site" content="@mysection" />
+      <meta key="twitter:title" name="twitter:title" content={title} />
+      <meta key="twitter:description" name="twitter:description" content={description} />
+      <meta key="twitter:image" name="twitter:image" content={image} />
+      <meta key="twitter:image:alt" name="twitter:image:alt" content={title} />
+    </Head>
+  )
+}
+
+export default OgMeta
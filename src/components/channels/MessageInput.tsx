@@ -2,13 +2,32 @@ import React, { useState, useRef, useEffect } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
 import { supabase } from '@/lib/supabase'
 import Button from '@/components/ui/Button'
+import Avatar from '@/components/ui/Avatar'
 import EventShareButton from './EventShareButton'
+import {
+  MENTION_SCOPES,
+  encodeMentions,
+  extractMentions,
+  getMentionName,
+  loadMentionCandidates,
+  type MentionCandidate,
+  type MentionScope,
+} from '@/lib/mentions'
+
+type MentionOption =
+  | { type: 'user'; candidate: MentionCandidate }
+  | { type: 'scope'; scope: MentionScope; description: string }
+
+// "@ann" right before the cursor, at the start or after a space
+const MENTION_QUERY_PATTERN = /(^|\s)@([^\s@]*)$/
 
 interface MessageInputProps {
   channelId: string
   onMessageSent: () => void
   onTyping?: () => void
   parentMessageId?: string
+  // Thread replies only: also show the reply in the channel
+  alsoSendToChannel?: boolean
   placeholder?: string
 }
 
@@ -17,6 +36,7 @@ const MessageInput: React.FC<MessageInputProps> = ({
   onMessageSent,
   onTyping,
   parentMessageId,
+  alsoSendToChannel = false,
   placeholder = 'Type a message...'
 }) => {
   const { user } = useAuth()
@@ -30,9 +50,74 @@ const MessageInput: React.FC<MessageInputProps> = ({
     thumbnail?: string
   }>>([])
   const [typingTimeout, setTypingTimeout] = useState<NodeJS.Timeout | null>(null)
+  const [mentionCandidates, setMentionCandidates] = useState<MentionCandidate[]>([])
+  const [pickedMentions, setPickedMentions] = useState<MentionCandidate[]>([])
+  const [mentionQuery, setMentionQuery] = useState<{ text: string; start: number } | null>(null)
+  const [highlightedMention, setHighlightedMention] = useState(0)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
+  useEffect(() => {
+    setPickedMentions([])
+    setMentionQuery(null)
+    loadMentionCandidates(channelId)
+      .then(setMentionCandidates)
+      .catch(err => console.error('Error loading people to mention:', err))
+  }, [channelId])
+
+  const mentionOptions: MentionOption[] = mentionQuery
+    ? [
+        ...mentionCandidates
+          .filter(c => c.id !== user?.id)
+          .filter(c => {
+            const query = mentionQuery.text.toLowerCase()
+            return getMentionName(c).toLowerCase().includes(query) || !!c.email?.toLowerCase().startsWith(query)
+          })
+          .slice(0, 6)
+          .map(candidate => ({ type: 'user' as const, candidate })),
+        ...MENTION_SCOPES
+          .filter(s => s.scope.startsWith(mentionQuery.text.toLowerCase()))
+          .map(s => ({ type: 'scope' as const, ...s })),
+      ]
+    : []
+
+  const updateMentionQuery = (text: string, cursor: number) => {
+    const match = text.slice(0, cursor).match(MENTION_QUERY_PATTERN)
+    if (match) {
+      setMentionQuery({ text: match[2], start: cursor - match[2].length - 1 })
+      setHighlightedMention(0)
+    } else {
+      setMentionQuery(null)
+    }
+  }
+
+  const selectMention = (option: MentionOption) => {
+    if (!mentionQuery) return
+
+    const label = option.type === 'user' ? getMentionName(option.candidate) : option.scope
+    const cursor = mentionQuery.start + 1 + mentionQuery.text.length
+    const next = `${content.slice(0, mentionQuery.start)}@${label} ${content.slice(cursor)}`
+    setContent(next)
+    setMentionQuery(null)
+
+    if (option.type === 'user' && !pickedMentions.some(p => p.id === option.candidate.id)) {
+      setPickedMentions([...pickedMentions, option.candidate])
+    }
+
+    const nextCursor = mentionQuery.start + label.length + 2
+    setTimeout(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(nextCursor, nextCursor)
+    }, 0)
+  }
+
+  // Content to store, with picked people turned into mention tokens
+  const buildMessage = (text: string) => {
+    const encoded = encodeMentions(text, pickedMentions)
+    const { userIds, scope } = extractMentions(encoded)
+    return { content: encoded, mentioned_user_ids: userIds, mention_scope: scope }
+  }
+
   // Auto-resize textarea
   useEffect(() => {
     if (textareaRef.current) {
@@ -135,16 +220,19 @@ const MessageInput: React.FC<MessageInputProps> = ({
         .insert({
           channel_id: channelId,
           user_id: user.id,
-          content: content.trim() || `Shared ${attachments.length} ${attachments.length === 1 ? 'file' : 'files'}`,
+          ...buildMessage(content.trim() || `Shared ${attachments.length} ${attachments.length === 1 ? 'file' : 'files'}`),
           message_type: messageType,
           attachments: attachments.length > 0 ? attachments : null,
-          parent_message_id: parentMessageId || null
+          parent_message_id: parentMessageId || null,
+          also_sent_to_channel: !!parentMessageId && alsoSendToChannel
         }))
 
       if (error) throw error
 
       setContent('')
       setAttachments([])
+      setPickedMentions([])
+      setMentionQuery(null)
       onMessageSent()
 
       // Clear typing indicator
@@ -160,7 +248,27 @@ const MessageInput: React.FC<MessageInputProps> = ({
     }
   }
 
+  // Arrow keys, Enter/Tab and Escape drive the mention list while it's open
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!mentionQuery || mentionOptions.length === 0) return
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setHighlightedMention((highlightedMention + 1) % mentionOptions.length)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setHighlightedMention((highlightedMention - 1 + mentionOptions.length) % mentionOptions.length)
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault()
+      selectMention(mentionOptions[Math.min(highlightedMention, mentionOptions.length - 1)])
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      setMentionQuery(null)
+    }
+  }
+
   const handleKeyPress = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (mentionQuery && mentionOptions.length > 0) return
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
       handleSend()
@@ -192,7 +300,8 @@ const MessageInput: React.FC<MessageInputProps> = ({
           user_id: user.id,
           content: eventMessage,
           message_type: 'text',
-          parent_message_id: parentMessageId || null
+          parent_message_id: parentMessageId || null,
+          also_sent_to_channel: !!parentMessageId && alsoSendToChannel
         }))
 
       if (error) {
@@ -310,8 +419,62 @@ const MessageInput: React.FC<MessageInputProps> = ({
       <div style={{
         display: 'flex',
         gap: '0.5rem',
-        alignItems: 'flex-end'
+        alignItems: 'flex-end',
+        position: 'relative'
       }}>
+        {/* Mention autocomplete */}
+        {mentionQuery && mentionOptions.length > 0 && (
+          <div style={{
+            position: 'absolute',
+            bottom: 'calc(100% + 0.5rem)',
+            left: 0,
+            right: 0,
+            maxWidth: '360px',
+            background: 'var(--card)',
+            border: '1px solid var(--border)',
+            borderRadius: '8px',
+            boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)',
+            overflow: 'hidden',
+            zIndex: 10
+          }}>
+            {mentionOptions.map((option, idx) => (
+              <div
+                key={option.type === 'user' ? option.candidate.id : option.scope}
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  selectMention(option)
+                }}
+                onMouseEnter={() => setHighlightedMention(idx)}
+                style={{
+                  padding: '0.5rem 0.75rem',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '0.5rem',
+                  cursor: 'pointer',
+                  background: idx === highlightedMention ? 'var(--bg-2)' : 'transparent',
+                  fontSize: '0.85rem'
+                }}
+              >
+                {option.type === 'user' ? (
+                  <>
+                    <Avatar
+                      src={option.candidate.profile_picture_url || undefined}
+                      name={getMentionName(option.candidate)}
+                      size={24}
+                    />
+                    <span style={{ fontWeight: '500' }}>{getMentionName(option.candidate)}</span>
+                  </>
+                ) : (
+                  <>
+                    <span style={{ fontWeight: '600' }}>@{option.scope}</span>
+                    <span style={{ color: 'var(--muted)', fontSize: '0.8rem' }}>{option.description}</span>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
         <button
           onClick={() => fileInputRef.current?.click()}
           disabled={uploading}
@@ -352,9 +515,12 @@ const MessageInput: React.FC<MessageInputProps> = ({
           value={content}
           onChange={(e) => {
             setContent(e.target.value)
+            updateMentionQuery(e.target.value, e.target.selectionStart)
             handleTyping()
           }}
+          onKeyDown={handleKeyDown}
           onKeyPress={handleKeyPress}
+          onBlur={() => setMentionQuery(null)}
           disabled={uploading}
           placeholder={placeholder}
           style={{
@@ -388,7 +554,7 @@ const MessageInput: React.FC<MessageInputProps> = ({
         color: 'var(--muted)',
         marginTop: '0.5rem'
       }}>
-        Press Enter to send, Shift+Enter for new line
+        Press Enter to send, Shift+Enter for new line, @ to mention someone
       </div>
     </div>
   )
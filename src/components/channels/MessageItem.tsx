@@ -1,21 +1,40 @@
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
+import Link from 'next/link'
 import { useAuth } from '@/contexts/AuthContext'
 import { supabase, type ChannelMessage, type MessageReaction } from '@/lib/supabase'
 import Button from '@/components/ui/Button'
+import Avatar from '@/components/ui/Avatar'
 import EventMessageCard from './EventMessageCard'
+import { markAnnouncementMessageSeen } from '@/lib/announcements'
+import type { ThreadReplyAuthor } from '@/lib/threads'
+import { splitMentions } from '@/lib/mentions'
 
 interface MessageItemProps {
   message: ChannelMessage
   onReply?: (message: ChannelMessage) => void
   onEdit?: (message: ChannelMessage) => void
+  // Opens the thread with this parent message id
+  onOpenThread?: (parentMessageId: string) => void
+  // Profiles for message.last_reply_user_ids
+  replyAuthors?: Record<string, ThreadReplyAuthor>
   showThread?: boolean
   isThreadReply?: boolean
 }
 
+const formatLastReply = (timestamp: string) => {
+  const date = new Date(timestamp)
+  const isToday = date.toDateString() === new Date().toDateString()
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' })
+}
+
 const MessageItem: React.FC<MessageItemProps> = ({
   message,
   onReply,
   onEdit,
+  onOpenThread,
+  replyAuthors = {},
   showThread = true,
   isThreadReply = false
 }) => {
@@ -30,6 +49,26 @@ const MessageItem: React.FC<MessageItemProps> = ({
   const canEdit = isOwnMessage && !message.deleted_at
   const canDelete = isOwnMessage || true // TODO: Check if user is admin/moderator
   const isEdited = message.edited_at && message.edited_at !== message.created_at
+  const isSystemMessage = message.message_type === 'system'
+
+  // Reactions from other people arrive through the parent's realtime updates
+  useEffect(() => {
+    setReactions(message.reactions || [])
+  }, [message.reactions])
+
+  // Keep the edit box in step with edits made elsewhere
+  useEffect(() => {
+    if (!editing) setEditContent(message.content)
+  }, [message.content])
+
+  // System messages are event announcements; record that the recipient saw this one
+  useEffect(() => {
+    if (isSystemMessage && user && !isOwnMessage && !message.deleted_at) {
+      markAnnouncementMessageSeen(message.id).catch(err => {
+        console.error('Error marking announcement seen:', err)
+      })
+    }
+  }, [message.id, user?.id])
 
   const handleReaction = async (emoji: string) => {
     if (!user) return
@@ -107,17 +146,29 @@ const MessageItem: React.FC<MessageItemProps> = ({
     }
   }
 
+  // Mentions link to the person's profile; ones that include the viewer stand out
   const parseMentions = (content: string) => {
-    // Replace @mentions with highlighted text
-    return content.split(/(@\w+)/g).map((part, i) => {
-      if (part.startsWith('@')) {
-        return (
-          <span key={i} style={{ color: 'var(--primary)', fontWeight: '600' }}>
-            {part}
-          </span>
-        )
+    return splitMentions(content).map((segment, i) => {
+      if (segment.type === 'text') return segment.text
+
+      const mentionsMe = segment.type === 'scope' || segment.userId === user?.id
+      const style: React.CSSProperties = {
+        color: 'var(--primary)',
+        fontWeight: '600',
+        textDecoration: 'none',
+        borderRadius: '4px',
+        padding: mentionsMe ? '0 0.2rem' : 0,
+        background: mentionsMe ? 'rgba(139, 92, 246, 0.2)' : 'transparent'
+      }
+
+      if (segment.type === 'scope') {
+        return <span key={i} style={style}>@{segment.scope}</span>
       }
-      return part
+      return (
+        <Link key={i} href={`/profiles/${segment.userId}`} style={style}>
+          @{segment.name}
+        </Link>
+      )
     })
   }
 
@@ -143,6 +194,45 @@ const MessageItem: React.FC<MessageItemProps> = ({
     )
   }
 
+  if (isSystemMessage) {
+    return (
+      <div style={{
+        margin: '0.5rem 0',
+        padding: '0.75rem 1rem',
+        background: 'var(--bg-2)',
+        border: '1px solid var(--primary)',
+        borderRadius: '8px'
+      }}>
+        <div style={{
+          display: 'flex',
+          alignItems: 'baseline',
+          gap: '0.5rem',
+          marginBottom: '0.25rem',
+          fontSize: '0.8rem',
+          color: 'var(--muted)'
+        }}>
+          <span style={{ fontWeight: '600', color: 'var(--primary)' }}>
+            📣 Announcement from {message.profile?.full_name || 'the hosts'}
+          </span>
+          <span>
+            {new Date(message.created_at).toLocaleTimeString([], {
+              hour: '2-digit',
+              minute: '2-digit'
+            })}
+          </span>
+        </div>
+        <div style={{
+          color: 'var(--text)',
+          wordBreak: 'break-word',
+          lineHeight: '1.5',
+          whiteSpace: 'pre-wrap'
+        }}>
+          {message.content}
+        </div>
+      </div>
+    )
+  }
+
   // Group reactions by emoji
   const reactionGroups = reactions.reduce((acc, reaction) => {
     if (!acc[reaction.emoji]) {
@@ -400,6 +490,24 @@ const MessageItem: React.FC<MessageItemProps> = ({
                 💬 Reply
               </button>
             )}
+            {showThread && onOpenThread && !message.parent_message_id && (
+              <button
+                onClick={() => onOpenThread(message.id)}
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  color: 'var(--muted)',
+                  cursor: 'pointer',
+                  padding: '0.25rem 0.5rem',
+                  borderRadius: '4px',
+                  transition: 'background 0.2s'
+                }}
+                onMouseEnter={(e) => e.currentTarget.style.background = 'var(--bg)'}
+                onMouseLeave={(e) => e.currentTarget.style.background = 'transparent'}
+              >
+                🧵 Reply in thread
+              </button>
+            )}
             {canEdit && onEdit && (
               <button
                 onClick={() => {
@@ -445,19 +553,62 @@ const MessageItem: React.FC<MessageItemProps> = ({
         {/* Thread indicator */}
         {showThread && (message.thread_count ?? 0) > 0 && (
           <button
-            onClick={() => {/* TODO: Open thread view */}}
+            onClick={() => onOpenThread?.(message.id)}
+            disabled={!onOpenThread}
             style={{
               marginTop: '0.5rem',
               background: 'none',
               border: 'none',
               color: 'var(--primary)',
-              cursor: 'pointer',
+              cursor: onOpenThread ? 'pointer' : 'default',
               fontSize: '0.85rem',
               padding: '0.25rem 0',
+              textAlign: 'left',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '0.5rem'
+            }}
+          >
+            {(message.last_reply_user_ids || []).length > 0 && (
+              <span style={{ display: 'flex', gap: '2px' }}>
+                {(message.last_reply_user_ids || []).map(id => (
+                  <Avatar
+                    key={id}
+                    src={replyAuthors[id]?.profile_picture_url || undefined}
+                    name={replyAuthors[id]?.full_name || ''}
+                    size={20}
+                  />
+                ))}
+              </span>
+            )}
+            <span style={{ fontWeight: '600' }}>
+              {message.thread_count} {message.thread_count === 1 ? 'reply' : 'replies'}
+            </span>
+            {message.last_reply_at && (
+              <span style={{ color: 'var(--muted)', fontSize: '0.75rem' }}>
+                Last reply {formatLastReply(message.last_reply_at)}
+              </span>
+            )}
+          </button>
+        )}
+
+        {/* Reply that was also sent to the channel */}
+        {showThread && message.parent_message_id && message.also_sent_to_channel && (
+          <button
+            onClick={() => onOpenThread?.(message.parent_message_id!)}
+            disabled={!onOpenThread}
+            style={{
+              marginTop: '0.25rem',
+              background: 'none',
+              border: 'none',
+              color: 'var(--muted)',
+              cursor: onOpenThread ? 'pointer' : 'default',
+              fontSize: '0.75rem',
+              padding: 0,
               textAlign: 'left'
             }}
           >
-            💬 {message.thread_count} {message.thread_count === 1 ? 'reply' : 'replies'}
+            ↳ Replied to a thread
           </button>
         )}
       </div>
@@ -0,0 +1,312 @@
+import React, { useState, useEffect } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { supabase } from '@/lib/supabase'
+import { MAX_DM_PARTICIPANTS, startConversation, type DmParticipant } from '@/lib/directMessages'
+import Button from '@/components/ui/Button'
+import Avatar from '@/components/ui/Avatar'
+
+interface NewMessageModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onConversationStarted: (channelId: string) => void
+}
+
+const NewMessageModal: React.FC<NewMessageModalProps> = ({
+  isOpen,
+  onClose,
+  onConversationStarted
+}) => {
+  const { user } = useAuth()
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchResults, setSearchResults] = useState<DmParticipant[]>([])
+  const [selectedUsers, setSelectedUsers] = useState<DmParticipant[]>([])
+  const [loading, setLoading] = useState(false)
+  const [searching, setSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Everyone but the sender
+  const maxSelected = MAX_DM_PARTICIPANTS - 1
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedUsers([])
+      setSearchQuery('')
+      setSearchResults([])
+      setError(null)
+    }
+  }, [isOpen])
+
+  const searchUsers = async (query: string) => {
+    if (query.length < 2) {
+      setSearchResults([])
+      return
+    }
+
+    try {
+      setSearching(true)
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name, email, profile_picture_url')
+        .or(`full_name.ilike.%${query}%,email.ilike.%${query}%`)
+        .limit(10)
+
+      if (error) throw error
+
+      setSearchResults(((data || []) as DmParticipant[]).filter(p =>
+        p.id !== user?.id &&
+        !selectedUsers.some(s => s.id === p.id)
+      ))
+    } catch (err) {
+      console.error('Error searching users:', err)
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  useEffect(() => {
+    const debounce = setTimeout(() => {
+      searchUsers(searchQuery)
+    }, 300)
+    return () => clearTimeout(debounce)
+  }, [searchQuery, selectedUsers])
+
+  const addToSelection = (profile: DmParticipant) => {
+    if (selectedUsers.length >= maxSelected) return
+    setSelectedUsers([...selectedUsers, profile])
+    setSearchResults(searchResults.filter(p => p.id !== profile.id))
+    setSearchQuery('')
+  }
+
+  const removeFromSelection = (profileId: string) => {
+    setSelectedUsers(selectedUsers.filter(p => p.id !== profileId))
+  }
+
+  const handleStart = async () => {
+    if (selectedUsers.length === 0) return
+
+    try {
+      setLoading(true)
+      setError(null)
+      const channelId = await startConversation(selectedUsers.map(p => p.id))
+      onConversationStarted(channelId)
+      onClose()
+    } catch (err: any) {
+      console.error('Error starting conversation:', err)
+      setError(err.message || 'Failed to start the conversation')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: 'rgba(0, 0, 0, 0.7)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000,
+      padding: '1rem'
+    }}
+    onClick={onClose}
+    >
+      <div
+        style={{
+          background: 'var(--card)',
+          borderRadius: 'var(--radius)',
+          padding: '2rem',
+          maxWidth: '500px',
+          width: '100%',
+          maxHeight: '80vh',
+          overflowY: 'auto',
+          border: '1px solid var(--border)'
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0, marginBottom: '0.5rem' }}>
+          New Message
+        </h2>
+        <p style={{ marginTop: 0, marginBottom: '1.5rem', color: 'var(--muted)', fontSize: '0.9rem' }}>
+          Message one person, or up to {maxSelected} for a group conversation
+        </p>
+
+        {/* Search Input */}
+        <div style={{ marginBottom: '1rem', position: 'relative' }}>
+          <input
+            type="text"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search by name or email..."
+            disabled={selectedUsers.length >= maxSelected}
+            style={{
+              width: '100%',
+              padding: '0.75rem',
+              paddingRight: '2.5rem',
+              borderRadius: '8px',
+              border: '1px solid var(--border)',
+              background: 'var(--bg)',
+              color: 'var(--text)',
+              fontSize: '0.9rem'
+            }}
+          />
+          {searching && (
+            <span style={{
+              position: 'absolute',
+              right: '0.75rem',
+              top: '50%',
+              transform: 'translateY(-50%)',
+              color: 'var(--muted)'
+            }}>
+              🔍
+            </span>
+          )}
+        </div>
+
+        {/* Search Results */}
+        {searchResults.length > 0 && (
+          <div style={{
+            marginBottom: '1rem',
+            border: '1px solid var(--border)',
+            borderRadius: '8px',
+            overflow: 'hidden'
+          }}>
+            {searchResults.map(profile => (
+              <div
+                key={profile.id}
+                onClick={() => addToSelection(profile)}
+                style={{
+                  padding: '0.75rem 1rem',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '0.75rem',
+                  cursor: 'pointer',
+                  borderBottom: '1px solid var(--border)',
+                  background: 'var(--bg)',
+                  transition: 'background 0.2s'
+                }}
+                onMouseEnter={(e) => e.currentTarget.style.background = 'var(--card)'}
+                onMouseLeave={(e) => e.currentTarget.style.background = 'var(--bg)'}
+              >
+                <Avatar
+                  src={profile.profile_picture_url || undefined}
+                  name={profile.full_name || ''}
+                  size={36}
+                />
+                <div>
+                  <div style={{ fontWeight: '500' }}>{profile.full_name}</div>
+                  <div style={{ fontSize: '0.85rem', color: 'var(--muted)' }}>
+                    {profile.email}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {searchQuery.length >= 2 && searchResults.length === 0 && !searching && (
+          <p style={{
+            color: 'var(--muted)',
+            fontSize: '0.9rem',
+            textAlign: 'center',
+            marginBottom: '1rem'
+          }}>
+            No users found matching "{searchQuery}"
+          </p>
+        )}
+
+        {/* Selected Users */}
+        {selectedUsers.length > 0 && (
+          <div style={{ marginBottom: '1.5rem' }}>
+            <label style={{
+              display: 'block',
+              marginBottom: '0.5rem',
+              fontWeight: '600',
+              fontSize: '0.9rem'
+            }}>
+              To ({selectedUsers.length}/{maxSelected})
+            </label>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+              {selectedUsers.map(profile => (
+                <div
+                  key={profile.id}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '0.5rem',
+                    padding: '0.5rem 0.75rem',
+                    background: 'rgba(139, 92, 246, 0.15)',
+                    border: '1px solid var(--primary)',
+                    borderRadius: '20px',
+                    fontSize: '0.85rem'
+                  }}
+                >
+                  <Avatar
+                    src={profile.profile_picture_url || undefined}
+                    name={profile.full_name || ''}
+                    size={24}
+                  />
+                  <span>{profile.full_name}</span>
+                  <button
+                    onClick={() => removeFromSelection(profile.id)}
+                    style={{
+                      background: 'none',
+                      border: 'none',
+                      color: 'var(--muted)',
+                      cursor: 'pointer',
+                      padding: 0,
+                      fontSize: '1rem',
+                      lineHeight: 1
+                    }}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div style={{
+            padding: '0.75rem',
+            background: 'rgba(239, 68, 68, 0.1)',
+            border: '1px solid var(--danger)',
+            borderRadius: '8px',
+            color: 'var(--danger)',
+            marginBottom: '1rem',
+            fontSize: '0.85rem'
+          }}>
+            {error}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end' }}>
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={onClose}
+            disabled={loading}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="primary"
+            onClick={handleStart}
+            disabled={loading || selectedUsers.length === 0}
+          >
+            {loading ? 'Opening...' : 'Start Conversation'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default NewMessageModal
@@ -0,0 +1,169 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { supabase, type ChannelMessage } from '@/lib/supabase'
+import { loadThreadReplies } from '@/lib/threads'
+import { createProfileLoader } from '@/lib/chatMessages'
+import MessageItem from './MessageItem'
+import MessageInput from './MessageInput'
+import Loading from '@/components/ui/Loading'
+
+interface ThreadPanelProps {
+  parentMessage: ChannelMessage
+  channelName: string
+  onClose: () => void
+}
+
+const ThreadPanel: React.FC<ThreadPanelProps> = ({
+  parentMessage,
+  channelName,
+  onClose
+}) => {
+  const [replies, setReplies] = useState<ChannelMessage[]>([])
+  const [loading, setLoading] = useState(true)
+  const [alsoSendToChannel, setAlsoSendToChannel] = useState(false)
+  const repliesEndRef = useRef<HTMLDivElement>(null)
+  const profileLoader = useRef(createProfileLoader()).current
+
+  const loadReplies = async () => {
+    try {
+      const loaded = await loadThreadReplies(parentMessage.id)
+      profileLoader.prime(loaded)
+      setReplies(loaded)
+    } catch (err) {
+      console.error('Error loading thread:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setLoading(true)
+    setReplies([])
+    setAlsoSendToChannel(false)
+    loadReplies()
+
+    // The thread's own subscription, separate from the channel's
+    const sub = supabase
+      .channel(`thread:${parentMessage.id}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'channel_messages',
+        filter: `parent_message_id=eq.${parentMessage.id}`
+      }, (payload: any) => {
+        profileLoader.load(payload.new.user_id).then(profile => {
+          const reply = { ...payload.new, profile, reactions: [] } as ChannelMessage
+          setReplies(prev => prev.some(r => r.id === reply.id) ? prev : [...prev, reply])
+        })
+      })
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'channel_messages',
+        filter: `parent_message_id=eq.${parentMessage.id}`
+      }, (payload: any) => {
+        const updated = payload.new as ChannelMessage
+        setReplies(prev => updated.deleted_at
+          ? prev.filter(r => r.id !== updated.id)
+          : prev.map(r => r.id === updated.id ? { ...r, ...updated, profile: r.profile, reactions: r.reactions } : r))
+      })
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(sub)
+    }
+  }, [parentMessage.id])
+
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [replies])
+
+  return (
+    <div style={{
+      width: '360px',
+      flexShrink: 0,
+      display: 'flex',
+      flexDirection: 'column',
+      borderLeft: '1px solid var(--border)',
+      minHeight: 0
+    }}>
+      <div style={{
+        padding: '1rem',
+        borderBottom: '1px solid var(--border)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between'
+      }}>
+        <div>
+          <h3 style={{ margin: 0, fontSize: '1rem' }}>🧵 Thread</h3>
+          <div style={{ fontSize: '0.8rem', color: 'var(--muted)' }}>{channelName}</div>
+        </div>
+        <button
+          onClick={onClose}
+          style={{
+            background: 'none',
+            border: 'none',
+            color: 'var(--muted)',
+            cursor: 'pointer',
+            fontSize: '1.25rem'
+          }}
+          aria-label="Close thread"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div style={{ flex: 1, overflowY: 'auto', padding: '0.5rem' }}>
+        <MessageItem message={parentMessage} showThread={false} />
+
+        <div style={{
+          margin: '0.5rem 0',
+          padding: '0 0.5rem',
+          fontSize: '0.8rem',
+          color: 'var(--muted)',
+          borderBottom: '1px solid var(--border)',
+          paddingBottom: '0.5rem'
+        }}>
+          {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+        </div>
+
+        {loading ? (
+          <div style={{ textAlign: 'center', padding: '1rem' }}>
+            <Loading />
+          </div>
+        ) : (
+          replies.map(reply => (
+            <MessageItem key={reply.id} message={reply} showThread={false} />
+          ))
+        )}
+        <div ref={repliesEndRef} />
+      </div>
+
+      <label style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '0.5rem',
+        padding: '0.5rem 1.5rem 0',
+        fontSize: '0.8rem',
+        color: 'var(--muted)',
+        cursor: 'pointer'
+      }}>
+        <input
+          type="checkbox"
+          checked={alsoSendToChannel}
+          onChange={(e) => setAlsoSendToChannel(e.target.checked)}
+          style={{ accentColor: 'var(--primary)' }}
+        />
+        Also send to {channelName}
+      </label>
+      <MessageInput
+        channelId={parentMessage.channel_id}
+        parentMessageId={parentMessage.id}
+        alsoSendToChannel={alsoSendToChannel}
+        onMessageSent={() => setAlsoSendToChannel(false)}
+        placeholder="Reply..."
+      />
+    </div>
+  )
+}
+
+export default ThreadPanel
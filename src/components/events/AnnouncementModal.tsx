@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react'
+import {
+  ANNOUNCEMENT_SEGMENTS,
+  loadAudienceCounts,
+  type AnnouncementSegment,
+} from '@/lib/announcements'
+import Button from '@/components/ui/Button'
+
+interface AnnouncementModalProps {
+  isOpen: boolean
+  eventId: string
+  eventTitle: string
+  isSending?: boolean
+  onSubmit: (content: string, segments: AnnouncementSegment[]) => Promise<void>
+  onClose: () => void
+}
+
+const AnnouncementModal: React.FC<AnnouncementModalProps> = ({
+  isOpen,
+  eventId,
+  eventTitle,
+  isSending = false,
+  onSubmit,
+  onClose
+}) => {
+  const [content, setContent] = useState('')
+  const [segments, setSegments] = useState<AnnouncementSegment[]>(['going'])
+  const [counts, setCounts] = useState<Record<AnnouncementSegment, number> | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    setContent('')
+    setSegments(['going'])
+    setCounts(null)
+    loadAudienceCounts(eventId)
+      .then(setCounts)
+      .catch(err => console.error('Error loading announcement audience:', err))
+  }, [isOpen, eventId])
+
+  if (!isOpen) return null
+
+  const toggleSegment = (segment: AnnouncementSegment) => {
+    setSegments(prev => prev.includes(segment)
+      ? prev.filter(s => s !== segment)
+      : [...prev, segment])
+  }
+
+  const recipientCount = counts
+    ? segments.reduce((sum, segment) => sum + counts[segment], 0)
+    : null
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!content.trim() || segments.length === 0) return
+    await onSubmit(content.trim(), segments)
+  }
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: 'rgba(0, 0, 0, 0.7)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000,
+      padding: '1rem'
+    }}
+    onClick={onClose}
+    >
+      <div
+        style={{
+          background: 'var(--card)',
+          borderRadius: 'var(--radius)',
+          padding: '2rem',
+          maxWidth: '500px',
+          width: '100%',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          border: '1px solid var(--border)'
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0, marginBottom: '0.25rem' }}>📣 Announce to attendees</h2>
+        <p style={{ marginTop: 0, marginBottom: '1.5rem', color: 'var(--muted)', fontSize: '0.9rem' }}>
+          Posted in the {eventTitle} chat and sent as a notification
+        </p>
+
+        <form onSubmit={handleSubmit}>
+          <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', fontSize: '0.9rem' }}>
+            Send to
+          </label>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', marginBottom: '1.25rem' }}>
+            {ANNOUNCEMENT_SEGMENTS.map(({ value, label }) => (
+              <label
+                key={value}
+                style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer', fontSize: '0.9rem' }}
+              >
+                <input
+                  type="checkbox"
+                  checked={segments.includes(value)}
+                  onChange={() => toggleSegment(value)}
+                />
+                <span style={{ flex: 1 }}>{label}</span>
+                <span style={{ color: 'var(--muted)' }}>{counts ? counts[value] : '…'}</span>
+              </label>
+            ))}
+          </div>
+
+          <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', fontSize: '0.9rem' }}>
+            Message
+          </label>
+          <textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            placeholder="Doors open 15 minutes early, bring a jacket..."
+            rows={5}
+            maxLength={2000}
+            style={{
+              width: '100%',
+              padding: '0.75rem',
+              borderRadius: '8px',
+              border: '1px solid var(--border)',
+              background: 'var(--bg)',
+              color: 'var(--text)',
+              fontSize: '0.9rem',
+              fontFamily: 'inherit',
+              resize: 'vertical',
+              boxSizing: 'border-box'
+            }}
+          />
+
+          <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', justifyContent: 'flex-end', marginTop: '1.5rem' }}>
+            {recipientCount !== null && (
+              <span style={{ marginRight: 'auto', color: 'var(--muted)', fontSize: '0.85rem' }}>
+                {recipientCount} {recipientCount === 1 ? 'person' : 'people'}
+              </span>
+            )}
+            <Button type="button" variant="secondary" onClick={onClose} disabled={isSending}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSending || !content.trim() || segments.length === 0 || recipientCount === 0}
+            >
+              {isSending ? 'Sending...' : 'Send'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default AnnouncementModal
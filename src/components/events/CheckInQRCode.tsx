@@ -0,0 +1,48 @@
+import React, { useMemo } from 'react'
+import { encodeQrCode } from '@/utils/qrCode'
+
+interface CheckInQRCodeProps {
+  value: string
+  size?: number
+}
+
+// Quiet zone (in modules) required around a QR code for scanners
+const QUIET_ZONE = 4
+
+const CheckInQRCode: React.FC<CheckInQRCodeProps> = ({ value, size = 200 }) => {
+  const path = useMemo(() => {
+    try {
+      const modules = encodeQrCode(value)
+      // One "M x y h1 v1 h-1 z" square per dark module
+      return {
+        count: modules.length,
+        d: modules
+          .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z` : '')))
+          .join('')
+      }
+    } catch (err) {
+      console.error('Error encoding QR code:', err)
+      return null
+    }
+  }, [value])
+
+  if (!path) return null
+
+  const viewBoxSize = path.count + QUIET_ZONE * 2
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${viewBoxSize} ${viewBoxSize}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="Check-in QR code"
+      style={{ background: '#fff', borderRadius: '12px' }}
+    >
+      <path d={path.d} fill="#000" />
+    </svg>
+  )
+}
+
+export default CheckInQRCode
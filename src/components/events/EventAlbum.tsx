@@ -0,0 +1,333 @@
+import React, { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { useToast } from '@/contexts/ToastContext'
+import Button from '@/components/ui/Button'
+import {
+  deleteEventPhoto,
+  loadEventPhotos,
+  reviewEventPhoto,
+  uploadEventPhoto,
+  type EventPhoto,
+} from '@/lib/eventPhotos'
+
+interface EventAlbumProps {
+  eventId: string
+  userId: string
+  isHost: boolean
+  // Mirrors can_add_event_photo(): hosts and attendees once the event is live or completed
+  canContribute: boolean
+  // Hosts can make an approved photo the event's cover
+  onUseAsCover?: (url: string) => Promise<boolean>
+}
+
+// Photo album on the event page: attendees add photos, hosts approve them
+const EventAlbum: React.FC<EventAlbumProps> = ({ eventId, userId, isHost, canContribute, onUseAsCover }) => {
+  const { showSuccess, showError } = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [photos, setPhotos] = useState<EventPhoto[]>([])
+  const [loaded, setLoaded] = useState(false)
+  const [uploading, setUploading] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [selectedPhoto, setSelectedPhoto] = useState<EventPhoto | null>(null)
+
+  useEffect(() => {
+    loadEventPhotos(eventId)
+      .then(setPhotos)
+      .catch(err => console.error('Error loading event photos:', err))
+      .finally(() => setLoaded(true))
+  }, [eventId])
+
+  const approved = photos.filter(p => p.status === 'approved')
+  const pending = photos.filter(p => p.status === 'pending')
+  const myPendingCount = photos.filter(p => p.uploaded_by === userId && p.status === 'pending').length
+  const myRejectedCount = photos.filter(p => p.uploaded_by === userId && p.status === 'rejected').length
+
+  // Nothing to show guests until there are photos or they can add some
+  if (!loaded || (!canContribute && approved.length === 0 && !isHost)) return null
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    if (files.length === 0) return
+
+    setUploading(true)
+    let uploaded = 0
+    try {
+      for (const file of files) {
+        const photo = await uploadEventPhoto(eventId, userId, file, { isHost })
+        setPhotos(prev => [{ ...photo, uploader: null }, ...prev])
+        uploaded++
+      }
+      showSuccess(isHost
+        ? `Added ${uploaded} ${uploaded === 1 ? 'photo' : 'photos'} to the album`
+        : `Thanks! The hosts will review your ${uploaded === 1 ? 'photo' : 'photos'}`)
+    } catch (err: any) {
+      console.error('Error uploading event photo:', err)
+      showError(uploaded > 0
+        ? `Uploaded ${uploaded} of ${files.length} photos: ${err.message || 'upload failed'}`
+        : err.message || 'Failed to upload photo')
+    } finally {
+      setUploading(false)
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ''
+      }
+    }
+  }
+
+  const handleReview = async (photo: EventPhoto, status: 'approved' | 'rejected') => {
+    setBusyId(photo.id)
+    try {
+      await reviewEventPhoto(photo.id, userId, status)
+      setPhotos(prev => prev.map(p => p.id === photo.id
+        ? { ...p, status, reviewed_by: userId, reviewed_at: new Date().toISOString() }
+        : p))
+    } catch (err: any) {
+      console.error('Error reviewing event photo:', err)
+      showError(err.message || 'Failed to update photo')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (photo: EventPhoto) => {
+    if (!confirm('Remove this photo from the album?')) return
+
+    setBusyId(photo.id)
+    try {
+      await deleteEventPhoto(photo)
+      setPhotos(prev => prev.filter(p => p.id !== photo.id))
+      setSelectedPhoto(null)
+      showSuccess('Photo removed')
+    } catch (err: any) {
+      console.error('Error deleting event photo:', err)
+      showError(err.message || 'Failed to remove photo')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <h3 style={styles.title}>📸 Photos ({approved.length})</h3>
+        {canContribute && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={handleUpload}
+              style={{ display: 'none' }}
+            />
+            <Button size="small" onClick={() => fileInputRef.current?.click()} disabled={uploading}>
+              {uploading ? 'Uploading...' : '+ Add photos'}
+            </Button>
+          </>
+        )}
+      </div>
+
+      {/* Moderation queue for hosts */}
+      {isHost && pending.length > 0 && (
+        <div style={styles.queue}>
+          <div style={{ fontWeight: 600, fontSize: '0.9rem', marginBottom: '0.75rem' }}>
+            Waiting for approval ({pending.length})
+          </div>
+          <div style={styles.grid}>
+            {pending.map(photo => (
+              <div key={photo.id} style={styles.tile}>
+                <img src={photo.url} alt={photo.caption || 'Pending photo'} style={styles.image} />
+                <div style={styles.tileFooter}>
+                  <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {photo.uploader?.full_name || 'Guest'}
+                  </span>
+                  <div style={{ display: 'flex', gap: '0.25rem' }}>
+                    <button
+                      onClick={() => handleReview(photo, 'approved')}
+                      disabled={busyId === photo.id}
+                      style={{ ...styles.action, color: 'var(--success, #22c55e)' }}
+                      title="Approve"
+                    >
+                      ✓
+                    </button>
+                    <button
+                      onClick={() => handleReview(photo, 'rejected')}
+                      disabled={busyId === photo.id}
+                      style={{ ...styles.action, color: 'var(--danger)' }}
+                      title="Reject"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* The viewer's own photos the hosts haven't approved */}
+      {!isHost && (myPendingCount > 0 || myRejectedCount > 0) && (
+        <p style={styles.hint}>
+          {myPendingCount > 0 && `${myPendingCount} of your photos waiting for the hosts. `}
+          {myRejectedCount > 0 && `${myRejectedCount} weren't added to the album.`}
+        </p>
+      )}
+
+      {approved.length === 0 ? (
+        <p style={styles.hint}>
+          {canContribute
+            ? 'No photos yet. Share what you captured!'
+            : 'Guests can add photos once the event starts.'}
+        </p>
+      ) : (
+        <div style={styles.grid}>
+          {approved.map(photo => (
+            <button key={photo.id} onClick={() => setSelectedPhoto(photo)} style={styles.thumb}>
+              <img src={photo.url} alt={photo.caption || 'Event photo'} style={styles.image} />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Lightbox */}
+      {selectedPhoto && (
+        <div style={styles.overlay} onClick={() => setSelectedPhoto(null)}>
+          <div style={styles.lightbox} onClick={e => e.stopPropagation()}>
+            <img
+              src={selectedPhoto.url}
+              alt={selectedPhoto.caption || 'Event photo'}
+              style={{ width: '100%', maxHeight: '70vh', objectFit: 'contain', display: 'block', background: '#000' }}
+            />
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '1rem' }}>
+              <div style={{ flex: 1, minWidth: 0, fontSize: '0.85rem' }}>
+                {selectedPhoto.caption && <div style={{ marginBottom: '0.25rem' }}>{selectedPhoto.caption}</div>}
+                <span style={{ color: 'var(--muted)' }}>
+                  {'by '}
+                  <Link href={`/profiles/${selectedPhoto.uploaded_by}`} style={{ color: 'inherit' }}>
+                    {selectedPhoto.uploader?.full_name || 'Guest'}
+                  </Link>
+                  {' · '}{new Date(selectedPhoto.created_at).toLocaleDateString()}
+                </span>
+              </div>
+              {isHost && onUseAsCover && (
+                <button onClick={() => onUseAsCover(selectedPhoto.url)} style={styles.action}>
+                  Use as cover
+                </button>
+              )}
+              {(isHost || selectedPhoto.uploaded_by === userId) && (
+                <button
+                  onClick={() => handleDelete(selectedPhoto)}
+                  disabled={busyId === selectedPhoto.id}
+                  style={{ ...styles.action, color: 'var(--danger)' }}
+                >
+                  Remove
+                </button>
+              )}
+              <button onClick={() => setSelectedPhoto(null)} style={styles.action}>Close</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    marginBottom: '1.5rem',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: '1rem',
+  },
+  title: {
+    margin: 0,
+    fontSize: '1.1rem',
+    fontWeight: 600,
+  },
+  hint: {
+    margin: '0 0 0.75rem',
+    color: 'var(--muted)',
+    fontSize: '0.9rem',
+  },
+  queue: {
+    padding: '1rem',
+    marginBottom: '1rem',
+    borderRadius: '12px',
+    border: '1px dashed var(--border)',
+    background: 'var(--bg-2)',
+  },
+  grid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fill, minmax(120px, 1fr))',
+    gap: '0.5rem',
+  },
+  thumb: {
+    padding: 0,
+    border: 'none',
+    borderRadius: '8px',
+    overflow: 'hidden',
+    aspectRatio: '1',
+    cursor: 'pointer',
+    background: 'var(--bg-2)',
+  },
+  tile: {
+    borderRadius: '8px',
+    overflow: 'hidden',
+    border: '1px solid var(--border)',
+    background: 'var(--card)',
+    display: 'flex',
+    flexDirection: 'column',
+  },
+  tileFooter: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '0.25rem',
+    padding: '0.35rem 0.5rem',
+    fontSize: '0.75rem',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+    aspectRatio: '1',
+    objectFit: 'cover',
+    display: 'block',
+  },
+  action: {
+    padding: '0.35rem 0.6rem',
+    borderRadius: '8px',
+    border: '1px solid var(--border)',
+    background: 'var(--bg)',
+    color: 'var(--text)',
+    fontSize: '0.8rem',
+    fontWeight: 600,
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
+  overlay: {
+    position: 'fixed',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    background: 'rgba(0, 0, 0, 0.85)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 1000,
+    padding: '1rem',
+  },
+  lightbox: {
+    background: 'var(--card)',
+    borderRadius: 'var(--radius)',
+    border: '1px solid var(--border)',
+    overflow: 'hidden',
+    maxWidth: '900px',
+    width: '100%',
+  },
+}
+
+export default EventAlbum
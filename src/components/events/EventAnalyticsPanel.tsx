@@ -0,0 +1,232 @@
+import React from 'react'
+import Link from 'next/link'
+import { formatPercent, ratio, type EventAnalytics } from '@/lib/eventAnalytics'
+import { getEventStart } from '@/utils/schedule'
+
+interface EventAnalyticsPanelProps {
+  analytics: EventAnalytics
+  // Group dashboards also list each event's numbers
+  showEventBreakdown?: boolean
+}
+
+const TIMELINE_HEIGHT = 120
+
+// Host analytics for a single event or a whole group of events
+const EventAnalyticsPanel: React.FC<EventAnalyticsPanelProps> = ({ analytics, showEventBreakdown = false }) => {
+  const { invitations, checkIn, waitlist, timeline } = analytics
+  const maxTimelineValue = Math.max(1, ...timeline.map(point => point.going + point.maybe))
+  const shareLinkJoins = analytics.shareLinks.reduce((sum, link) => sum + link.joins, 0)
+  const shareLinkRsvps = analytics.shareLinks.reduce((sum, link) => sum + link.rsvps, 0)
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+      {/* Headline numbers */}
+      <div style={styles.tiles}>
+        <StatTile label="Going" value={String(analytics.going)} hint={analytics.guests > 0 ? `+${analytics.guests} guests` : undefined} />
+        <StatTile label="Maybe" value={String(analytics.maybe)} />
+        <StatTile label="Can't go" value={String(analytics.notGoing)} />
+        <StatTile
+          label="Invite → RSVP"
+          value={formatPercent(ratio(invitations.responded, invitations.sent))}
+          hint={`${invitations.responded} of ${invitations.sent} invited`}
+        />
+        <StatTile
+          label="Check-in rate"
+          value={formatPercent(ratio(checkIn.checkedIn, checkIn.expected))}
+          hint={checkIn.expected > 0 ? `${checkIn.checkedIn} of ${checkIn.expected} checked in` : 'After the event'}
+        />
+        <StatTile
+          label="Waitlist"
+          value={String(waitlist.people)}
+          hint={waitlist.guests > 0 ? `+${waitlist.guests} guests` : undefined}
+        />
+        <StatTile
+          label="Repeat attendees"
+          value={formatPercent(ratio(analytics.repeatAttendees.length, analytics.attendees))}
+          hint={`${analytics.repeatAttendees.length} of ${analytics.attendees} came to 2+ events`}
+        />
+      </div>
+
+      {/* RSVP timeline */}
+      <div style={styles.card}>
+        <h3 style={styles.cardTitle}>RSVPs over time</h3>
+        {timeline.length === 0 ? (
+          <p style={styles.empty}>No RSVPs yet</p>
+        ) : (
+          <>
+            <div style={{ display: 'flex', alignItems: 'flex-end', gap: '2px', height: `${TIMELINE_HEIGHT}px` }}>
+              {timeline.map(point => (
+                <div
+                  key={point.date}
+                  title={`${point.date}: ${point.going} going, ${point.maybe} maybe`}
+                  style={{ flex: 1, minWidth: '4px', display: 'flex', flexDirection: 'column', justifyContent: 'flex-end', height: '100%' }}
+                >
+                  <div style={{ height: `${(point.maybe / maxTimelineValue) * 100}%`, background: 'var(--warning, #f59e0b)', opacity: 0.6 }} />
+                  <div style={{ height: `${(point.going / maxTimelineValue) * 100}%`, background: 'var(--primary)', borderRadius: '2px 2px 0 0' }} />
+                </div>
+              ))}
+            </div>
+            <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '0.5rem', fontSize: '0.75rem', color: 'var(--muted)' }}>
+              <span>{timeline[0].date}</span>
+              <span>
+                <span style={{ color: 'var(--primary)' }}>■</span> Going{'  '}
+                <span style={{ color: 'var(--warning, #f59e0b)' }}>■</span> Maybe
+              </span>
+              <span>{timeline[timeline.length - 1].date}</span>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Invitation funnel */}
+      <div style={styles.card}>
+        <h3 style={styles.cardTitle}>Invitations</h3>
+        {invitations.sent === 0 ? (
+          <p style={styles.empty}>No one has been invited directly</p>
+        ) : (
+          [
+            { label: 'Invited', count: invitations.sent },
+            { label: 'Responded', count: invitations.responded },
+            { label: 'Going', count: invitations.going },
+          ].map(step => (
+            <FunnelRow key={step.label} label={step.label} count={step.count} total={invitations.sent} />
+          ))
+        )}
+      </div>
+
+      {/* Share-link traffic */}
+      <div style={styles.card}>
+        <h3 style={styles.cardTitle}>Secret links</h3>
+        {analytics.shareLinks.length === 0 ? (
+          <p style={styles.empty}>No secret links</p>
+        ) : (
+          <>
+            <p style={{ ...styles.empty, textAlign: 'left', padding: '0 0 0.75rem' }}>
+              {shareLinkJoins} joined through a link, {shareLinkRsvps} of them RSVP'd
+            </p>
+            {analytics.shareLinks.map(link => (
+              <div key={link.id} style={styles.row}>
+                <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                  {link.label || 'Untitled link'}
+                </span>
+                <span style={{ color: 'var(--muted)' }}>{link.joins} joined</span>
+                <span style={{ width: '5rem', textAlign: 'right' }}>{link.rsvps} RSVP'd</span>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+
+      {/* Repeat attendees */}
+      <div style={styles.card}>
+        <h3 style={styles.cardTitle}>Regulars</h3>
+        {analytics.repeatAttendees.length === 0 ? (
+          <p style={styles.empty}>No repeat attendees yet</p>
+        ) : (
+          analytics.repeatAttendees.slice(0, 10).map(attendee => (
+            <div key={attendee.user_id} style={styles.row}>
+              <Link href={`/profiles/${attendee.user_id}`} style={{ flex: 1, color: 'var(--text)', textDecoration: 'none' }}>
+                {attendee.full_name || 'Unknown user'}
+              </Link>
+              <span style={{ color: 'var(--muted)' }}>{attendee.eventCount} events</span>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Per-event breakdown */}
+      {showEventBreakdown && analytics.byEvent.length > 0 && (
+        <div style={styles.card}>
+          <h3 style={styles.cardTitle}>Events ({analytics.eventCount})</h3>
+          <div style={{ ...styles.row, color: 'var(--muted)', fontSize: '0.75rem', fontWeight: 600 }}>
+            <span style={{ flex: 1 }}>Event</span>
+            <span style={styles.column}>Going</span>
+            <span style={styles.column}>Maybe</span>
+            <span style={styles.column}>Checked in</span>
+            <span style={styles.column}>Waitlist</span>
+          </div>
+          {analytics.byEvent.map(row => (
+            <div key={row.event.id} style={styles.row}>
+              <Link href={`/events/${row.event.id}/analytics`} style={{ flex: 1, minWidth: 0, color: 'var(--text)', textDecoration: 'none' }}>
+                <div style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{row.event.title}</div>
+                <div style={{ fontSize: '0.75rem', color: 'var(--muted)' }}>
+                  {getEventStart(row.event).toLocaleDateString()}
+                </div>
+              </Link>
+              <span style={styles.column}>{row.going}</span>
+              <span style={styles.column}>{row.maybe}</span>
+              <span style={styles.column}>{row.checkedIn}</span>
+              <span style={styles.column}>{row.waitlist}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+const StatTile: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div style={styles.tile}>
+    <div style={{ fontSize: '1.5rem', fontWeight: 'bold', color: 'var(--text)' }}>{value}</div>
+    <div style={{ fontSize: '0.85rem', color: 'var(--muted)' }}>{label}</div>
+    {hint && <div style={{ fontSize: '0.75rem', color: 'var(--muted)', marginTop: '0.25rem', opacity: 0.8 }}>{hint}</div>}
+  </div>
+)
+
+const FunnelRow: React.FC<{ label: string; count: number; total: number }> = ({ label, count, total }) => (
+  <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', fontSize: '0.9rem', marginBottom: '0.5rem' }}>
+    <span style={{ width: '6rem', color: 'var(--muted)' }}>{label}</span>
+    <div style={{ flex: 1, height: '10px', background: 'var(--bg-2)', borderRadius: '999px', overflow: 'hidden' }}>
+      <div style={{ width: `${(ratio(count, total) || 0) * 100}%`, height: '100%', background: 'var(--primary)' }} />
+    </div>
+    <span style={{ width: '5.5rem', textAlign: 'right', color: 'var(--text)' }}>
+      {count} <span style={{ color: 'var(--muted)' }}>({formatPercent(ratio(count, total))})</span>
+    </span>
+  </div>
+)
+
+const styles: { [key: string]: React.CSSProperties } = {
+  tiles: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fill, minmax(140px, 1fr))',
+    gap: '0.75rem',
+  },
+  tile: {
+    padding: '1rem',
+    background: 'var(--bg-2)',
+    borderRadius: '12px',
+  },
+  card: {
+    padding: '1.25rem 1.5rem',
+    background: 'var(--card)',
+    border: '1px solid var(--border)',
+    borderRadius: '16px',
+  },
+  cardTitle: {
+    margin: '0 0 1rem',
+    fontSize: '1.05rem',
+    fontWeight: 600,
+  },
+  empty: {
+    margin: 0,
+    padding: '0.5rem 0',
+    textAlign: 'center',
+    color: 'var(--muted)',
+    fontSize: '0.9rem',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.75rem',
+    padding: '0.5rem 0',
+    borderBottom: '1px solid var(--border)',
+    fontSize: '0.9rem',
+  },
+  column: {
+    width: '4.5rem',
+    textAlign: 'right',
+    flexShrink: 0,
+  },
+}
+
+export default EventAnalyticsPanel
@@ -0,0 +1,709 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { getTimezoneOffsetLabel, getTimezoneOptions } from '@/utils/dateTime'
+import { toDateKey } from '@/utils/schedule'
+import { formatFormTime, type EventFormData } from '@/lib/eventForm'
+
+export type EventDateTimeValue = Pick<EventFormData, 'date' | 'time' | 'end_date' | 'end_time' | 'timezone'>
+
+interface EventDateTimePickerProps {
+  value: EventDateTimeValue
+  onChange: (changes: Partial<EventDateTimeValue>) => void
+}
+
+// Short names for the common zones; anything else shows its city
+const getTimezoneAbbreviation = (tz: string): string => {
+  const tzMap: Record<string, string> = {
+    'America/Los_Angeles': 'PT',
+    'America/Denver': 'MT',
+    'America/Chicago': 'CT',
+    'America/New_York': 'ET',
+    'Europe/London': 'GMT',
+    'Europe/Paris': 'CET',
+    'Asia/Tokyo': 'JST',
+    'Australia/Sydney': 'AEST',
+  }
+  return tzMap[tz] || tz.split('/').pop() || 'UTC'
+}
+
+// Every 15 minutes, as HH:MM
+const TIME_OPTIONS: string[] = Array.from({ length: 24 * 4 }, (_, i) =>
+  `${String(Math.floor(i / 4)).padStart(2, '0')}:${String((i % 4) * 15).padStart(2, '0')}`
+)
+
+// Compare two time strings (HH:MM format)
+const compareTimes = (time1: string, time2: string): number => {
+  const [h1, m1] = time1.split(':').map(Number)
+  const [h2, m2] = time2.split(':').map(Number)
+  return (h1 * 60 + m1) - (h2 * 60 + m2)
+}
+
+// Shift a time string by whole hours, wrapping past midnight
+const addHours = (timeStr: string, hours: number): string => {
+  const [h, m] = timeStr.split(':').map(Number)
+  return `${String((h + hours) % 24).padStart(2, '0')}:${String(m).padStart(2, '0')}`
+}
+
+const addThreeHours = (timeStr: string): string => (timeStr ? addHours(timeStr, 3) : '22:00')
+
+const formatDateDisplay = (dateStr: string): string => {
+  if (!dateStr) return 'Select date'
+  return new Date(dateStr + 'T00:00:00').toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+}
+
+// "Friday, March 8 at 7:00 PM – 10:00 PM"
+const formatEventPreview = (value: EventDateTimeValue): string => {
+  if (!value.date || !value.time) {
+    return 'Select date and time'
+  }
+
+  const longDate = (date: string, time: string) => {
+    const d = new Date(`${date}T${time}`)
+    return `${d.toLocaleDateString('en-US', { weekday: 'long' })}, ${d.toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}`
+  }
+
+  let preview = `${longDate(value.date, value.time)} at ${formatFormTime(value.time)}`
+  if (value.end_date && value.end_time) {
+    if (value.end_date !== value.date) {
+      preview += ` – ${longDate(value.end_date, value.end_time)} at ${formatFormTime(value.end_time)}`
+    } else if (value.end_time !== value.time) {
+      preview += ` – ${formatFormTime(value.end_time)}`
+    }
+  }
+  return preview
+}
+
+const getDaysInMonth = (date: Date): (number | null)[] => {
+  const startingDayOfWeek = new Date(date.getFullYear(), date.getMonth(), 1).getDay()
+  const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate()
+  return [
+    ...Array.from({ length: startingDayOfWeek }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, i) => i + 1),
+  ]
+}
+
+// Start/end date and time dropdown for the event wizard, with an optional end and a timezone
+const EventDateTimePicker: React.FC<EventDateTimePickerProps> = ({ value, onChange }) => {
+  const [showDatePicker, setShowDatePicker] = useState(false)
+  const [currentMonth, setCurrentMonth] = useState(() => value.date ? new Date(`${value.date}T00:00:00`) : new Date())
+  const [selectingEndDateTime, setSelectingEndDateTime] = useState(false)
+  const datePickerRef = useRef<HTMLDivElement>(null)
+  const timePickerRef = useRef<HTMLDivElement>(null)
+
+  // Close date picker when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (datePickerRef.current && !datePickerRef.current.contains(event.target as Node)) {
+        setShowDatePicker(false)
+        setSelectingEndDateTime(false)
+      }
+    }
+    if (showDatePicker) {
+      document.addEventListener('mousedown', handleClickOutside)
+      return () => document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [showDatePicker])
+
+  // Scroll to selected time in time picker
+  useEffect(() => {
+    if (!timePickerRef.current || !showDatePicker) return
+    const selectedTime = selectingEndDateTime ? value.end_time : value.time
+    const timeButton = timePickerRef.current.children[TIME_OPTIONS.indexOf(selectedTime)] as HTMLElement | undefined
+    if (timeButton) {
+      setTimeout(() => {
+        timeButton.scrollIntoView({ behavior: 'smooth', block: 'center' })
+      }, 100)
+    }
+  }, [showDatePicker, selectingEndDateTime, value.time, value.end_time])
+
+  const dayKey = (day: number) => toDateKey(new Date(currentMonth.getFullYear(), currentMonth.getMonth(), day))
+
+  const navigateMonth = (direction: 'prev' | 'next') => {
+    setCurrentMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + (direction === 'prev' ? -1 : 1), 1))
+  }
+
+  const handleDateSelect = (day: number) => {
+    const dateStr = dayKey(day)
+
+    if (selectingEndDateTime) {
+      if (value.date && value.time) {
+        let endTime = value.end_time || addThreeHours(value.time)
+        // On the start date, the end has to come after the start
+        if (dateStr === value.date && compareTimes(endTime, value.time) <= 0) {
+          endTime = addHours(value.time, 1)
+        }
+        onChange({ end_date: dateStr, end_time: endTime })
+      }
+      return
+    }
+
+    // Moving the start can leave the end before it: nudge it forward, or clear it
+    let endDate = value.end_date
+    let endTime = value.end_time
+    if (endDate && endDate === dateStr && endTime && value.time && compareTimes(endTime, value.time) <= 0) {
+      endTime = addHours(value.time, 1)
+    } else if (endDate && endDate < dateStr) {
+      endDate = ''
+      endTime = ''
+    }
+    onChange({ date: dateStr, end_date: endDate, end_time: endTime })
+  }
+
+  const handleTimeSelect = (time: string) => {
+    if (selectingEndDateTime) {
+      if (value.date && value.time) {
+        const endDate = value.end_date || value.date
+        const endsBeforeStart = endDate === value.date && compareTimes(time, value.time) <= 0
+        onChange({ end_time: endsBeforeStart ? addHours(value.time, 1) : time, end_date: endDate })
+      }
+      return
+    }
+
+    const endDate = value.end_date || value.date
+    let endTime = value.end_time || addThreeHours(time)
+    if (endDate === value.date && endTime && compareTimes(time, endTime) >= 0) {
+      endTime = addThreeHours(time)
+    }
+    onChange({ time, end_time: endTime, end_date: endDate })
+  }
+
+  const toggleEndDateTime = () => {
+    if (value.end_date && value.end_time) {
+      onChange({ end_date: '', end_time: '' })
+      setSelectingEndDateTime(false)
+    } else if (value.date && value.time) {
+      onChange({ end_date: value.date, end_time: addThreeHours(value.time) })
+      setSelectingEndDateTime(true)
+    }
+  }
+
+  const isDateSelected = (day: number): boolean => {
+    const dateStr = dayKey(day)
+    return dateStr === value.date || dateStr === value.end_date
+  }
+
+  const isDateInRange = (day: number): boolean => {
+    if (!value.date || !value.end_date) return false
+    const dateStr = dayKey(day)
+    return dateStr > value.date && dateStr < value.end_date
+  }
+
+  return (
+    <div style={{ position: 'relative' }} ref={datePickerRef}>
+      <button
+        type="button"
+        onClick={() => setShowDatePicker(!showDatePicker)}
+        style={{
+          width: '100%',
+          padding: '1rem',
+          background: 'var(--bg-2)',
+          border: '1px solid var(--border)',
+          borderRadius: '8px',
+          textAlign: 'left',
+          cursor: 'pointer',
+          fontSize: '1rem',
+          color: value.date ? 'var(--text)' : 'var(--muted)',
+          transition: 'all 0.2s'
+        }}
+        onMouseEnter={(e) => {
+          e.currentTarget.style.background = 'var(--bg)'
+          e.currentTarget.style.borderColor = 'var(--primary)'
+        }}
+        onMouseLeave={(e) => {
+          e.currentTarget.style.background = 'var(--bg-2)'
+          e.currentTarget.style.borderColor = 'var(--border)'
+        }}
+      >
+        {value.date && value.time ? formatEventPreview(value) : 'Set a date and time'}
+      </button>
+
+      {showDatePicker && (
+        <div className="datetime-dropdown" style={{
+          position: 'absolute',
+          top: '100%',
+          left: 0,
+          right: 0,
+          marginTop: '0.5rem',
+          background: 'var(--card)',
+          border: '1px solid var(--border)',
+          borderRadius: '12px',
+          boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+          zIndex: 1000,
+          padding: '1.5rem',
+          minWidth: '600px'
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
+            <h3 style={{ margin: 0, fontSize: '1.25rem', fontWeight: 600 }}>Set a date and time</h3>
+            <button
+              type="button"
+              onClick={() => {
+                const today = new Date()
+                const todayStr = toDateKey(today)
+                const defaultTime = '19:00'
+                onChange({
+                  date: todayStr,
+                  time: defaultTime,
+                  end_date: value.end_date || todayStr,
+                  end_time: value.end_time || addThreeHours(defaultTime)
+                })
+                setSelectingEndDateTime(false)
+                setCurrentMonth(today)
+              }}
+              style={{
+                padding: '0.5rem 1rem',
+                background: 'var(--bg-2)',
+                color: 'var(--text)',
+                border: '1px solid var(--border)',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontSize: '0.875rem',
+                fontWeight: 500,
+                transition: 'all 0.2s'
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.background = 'var(--primary)'
+                e.currentTarget.style.color = 'white'
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.background = 'var(--bg-2)'
+                e.currentTarget.style.color = 'var(--text)'
+              }}
+            >
+              Today
+            </button>
+          </div>
+          
+          {/* Date-Time Preview Boxes */}
+          <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1.5rem', alignItems: 'center' }}>
+            <div
+              onClick={() => {
+                setSelectingEndDateTime(false)
+                setShowDatePicker(true)
+              }}
+              style={{
+                flex: 1,
+                padding: '0.75rem 1rem',
+                background: !selectingEndDateTime && value.date && value.time 
+                  ? 'rgba(139, 92, 246, 0.15)' 
+                  : value.date && value.time 
+                  ? 'rgba(139, 92, 246, 0.1)' 
+                  : 'var(--bg-2)',
+                border: !selectingEndDateTime && value.date && value.time
+                  ? '2px solid var(--primary)' 
+                  : value.date && value.time 
+                  ? '2px solid rgba(139, 92, 246, 0.3)' 
+                  : '1px solid var(--border)',
+                borderRadius: '8px',
+                cursor: 'pointer',
+                transition: 'all 0.2s',
+                boxShadow: !selectingEndDateTime && value.date && value.time
+                  ? '0 0 0 3px rgba(139, 92, 246, 0.1)' 
+                  : 'none'
+              }}
+              onMouseEnter={(e) => {
+                if (!selectingEndDateTime) {
+                  e.currentTarget.style.background = value.date && value.time 
+                    ? 'rgba(139, 92, 246, 0.2)' 
+                    : 'var(--bg)'
+                }
+              }}
+              onMouseLeave={(e) => {
+                if (!selectingEndDateTime) {
+                  e.currentTarget.style.background = value.date && value.time 
+                    ? 'rgba(139, 92, 246, 0.15)' 
+                    : 'var(--bg-2)'
+                }
+              }}
+            >
+              <div style={{ fontSize: '0.75rem', color: 'var(--muted)', marginBottom: '0.25rem' }}>
+                Start {!selectingEndDateTime && value.date && value.time ? '(editing)' : ''}
+              </div>
+              {value.date && value.time ? (
+                <>
+                  <div style={{ fontSize: '0.875rem', fontWeight: 600, color: 'var(--text)' }}>
+                    {formatDateDisplay(value.date)}
+                  </div>
+                  <div style={{ fontSize: '0.875rem', color: 'var(--text)' }}>
+                    {formatFormTime(value.time)}
+                  </div>
+                </>
+              ) : (
+                <div style={{ fontSize: '0.875rem', color: 'var(--muted)' }}>
+                  Select date & time
+                </div>
+              )}
+            </div>
+            <span style={{ color: 'var(--muted)', fontSize: '1.25rem' }}>→</span>
+            <div
+              onClick={() => {
+                if (value.date && value.time) {
+                  if (value.end_date && value.end_time) {
+                    // If end time exists, clicking the box should allow editing it
+                    setSelectingEndDateTime(true)
+                  } else {
+                    // If no end time, add it
+                    toggleEndDateTime()
+                  }
+                }
+              }}
+              style={{
+                flex: 1,
+                padding: '0.75rem 1rem',
+                background: selectingEndDateTime && value.date && value.time
+                  ? 'rgba(139, 92, 246, 0.15)' 
+                  : value.end_date && value.end_time 
+                  ? 'rgba(139, 92, 246, 0.1)' 
+                  : 'var(--bg-2)',
+                border: selectingEndDateTime && value.date && value.time
+                  ? '2px solid var(--primary)' 
+                  : value.end_date && value.end_time 
+                  ? '2px solid rgba(139, 92, 246, 0.3)' 
+                  : '1px solid var(--border)',
+                borderRadius: '8px',
+                cursor: value.date && value.time ? 'pointer' : 'not-allowed',
+                transition: 'all 0.2s',
+                opacity: value.date && value.time ? 1 : 0.5,
+                position: 'relative',
+                boxShadow: selectingEndDateTime && value.date && value.time
+                  ? '0 0 0 3px rgba(139, 92, 246, 0.1)' 
+                  : 'none'
+              }}
+              onMouseEnter={(e) => {
+                if (value.date && value.time && !selectingEndDateTime) {
+                  e.currentTarget.style.background = value.end_date && value.end_time 
+                    ? 'rgba(139, 92, 246, 0.15)' 
+                    : 'var(--bg)'
+                }
+              }}
+              onMouseLeave={(e) => {
+                if (value.date && value.time && !selectingEndDateTime) {
+                  e.currentTarget.style.background = value.end_date && value.end_time 
+                    ? 'rgba(139, 92, 246, 0.1)' 
+                    : 'var(--bg-2)'
+                }
+              }}
+            >
+              {value.end_date && value.end_time && (
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onChange({ end_date: '', end_time: '' })
+                    setSelectingEndDateTime(false)
+                  }}
+                  style={{
+                    position: 'absolute',
+                    top: '0.5rem',
+                    right: '0.5rem',
+                    width: '20px',
+                    height: '20px',
+                    borderRadius: '50%',
+                    background: 'rgba(0, 0, 0, 0.1)',
+                    border: 'none',
+                    color: 'var(--text)',
+                    cursor: 'pointer',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    fontSize: '0.75rem',
+                    fontWeight: 600,
+                    transition: 'all 0.2s',
+                    zIndex: 10
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.background = 'rgba(239, 68, 68, 0.2)'
+                    e.currentTarget.style.color = '#ef4444'
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.background = 'rgba(0, 0, 0, 0.1)'
+                    e.currentTarget.style.color = 'var(--text)'
+                  }}
+                >
+                  ×
+                </button>
+              )}
+              <div style={{ fontSize: '0.75rem', color: 'var(--muted)', marginBottom: '0.25rem' }}>
+                End {selectingEndDateTime && value.date && value.time ? '(editing)' : value.end_date && value.end_time ? '' : '(optional)'}
+              </div>
+              {value.end_date && value.end_time ? (
+                <>
+                  <div style={{ fontSize: '0.875rem', fontWeight: 600, color: 'var(--text)' }}>
+                    {formatDateDisplay(value.end_date)}
+                  </div>
+                  <div style={{ fontSize: '0.875rem', color: 'var(--text)' }}>
+                    {formatFormTime(value.end_time)}
+                  </div>
+                </>
+              ) : (
+                <div style={{ fontSize: '0.875rem', color: 'var(--muted)' }}>
+                  {value.date && value.time ? 'Click to add' : 'Select start first'}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Calendar and Time Picker Side by Side */}
+          <div className="datetime-picker-grid" style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '1.5rem', marginBottom: '1rem' }}>
+            {/* Calendar */}
+            <div>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
+                <button
+                  type="button"
+                  onClick={() => navigateMonth('prev')}
+                  style={{
+                    background: 'none',
+                    border: 'none',
+                    fontSize: '1.5rem',
+                    color: 'var(--text)',
+                    cursor: 'pointer',
+                    padding: '0.25rem 0.5rem'
+                  }}
+                >
+                  ‹
+                </button>
+                <span style={{ fontSize: '1rem', fontWeight: 600 }}>
+                  {currentMonth.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => navigateMonth('next')}
+                  style={{
+                    background: 'none',
+                    border: 'none',
+                    fontSize: '1.5rem',
+                    color: 'var(--text)',
+                    cursor: 'pointer',
+                    padding: '0.25rem 0.5rem'
+                  }}
+                >
+                  ›
+                </button>
+              </div>
+
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gap: '0.25rem', marginBottom: '0.5rem' }}>
+                {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(day => (
+                  <div key={day} style={{ textAlign: 'center', fontSize: '0.75rem', color: 'var(--muted)', fontWeight: 600, padding: '0.5rem' }}>
+                    {day}
+                  </div>
+                ))}
+              </div>
+
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gap: '0.25rem' }}>
+                {getDaysInMonth(currentMonth).map((day, idx) => {
+                  const isStartSelected = day && value.date && !selectingEndDateTime && isDateSelected(day) && value.date === dayKey(day)
+                  const isEndSelected = day && value.end_date && selectingEndDateTime && isDateSelected(day) && value.end_date === dayKey(day)
+                  
+                  return (
+                    <button
+                      key={idx}
+                      type="button"
+                      onClick={() => day && handleDateSelect(day)}
+                      disabled={!day}
+                      style={{
+                        aspectRatio: '1',
+                        background: isStartSelected || isEndSelected
+                          ? 'var(--primary)' 
+                          : day && isDateInRange(day)
+                          ? 'rgba(139, 92, 246, 0.2)'
+                          : 'transparent',
+                        color: isStartSelected || isEndSelected ? 'white' : 'var(--text)',
+                        border: isStartSelected || isEndSelected ? '2px solid var(--primary)' : '1px solid transparent',
+                        borderRadius: '6px',
+                        cursor: day ? 'pointer' : 'default',
+                        fontSize: '0.875rem',
+                        fontWeight: isStartSelected || isEndSelected ? 600 : 400,
+                        transition: 'all 0.2s',
+                        position: 'relative'
+                      }}
+                      onMouseEnter={(e) => {
+                        if (day) {
+                          e.currentTarget.style.background = isStartSelected || isEndSelected ? 'var(--primary)' : 'var(--bg-2)'
+                        }
+                      }}
+                      onMouseLeave={(e) => {
+                        if (day) {
+                          e.currentTarget.style.background = isStartSelected || isEndSelected 
+                            ? 'var(--primary)' 
+                            : day && isDateInRange(day)
+                            ? 'rgba(139, 92, 246, 0.2)'
+                            : 'transparent'
+                        }
+                      }}
+                    >
+                      {day}
+                      {(isStartSelected || isEndSelected) && (
+                        <div style={{
+                          position: 'absolute',
+                          bottom: '2px',
+                          left: '50%',
+                          transform: 'translateX(-50%)',
+                          width: '4px',
+                          height: '4px',
+                          borderRadius: '50%',
+                          background: 'white'
+                        }} />
+                      )}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+
+            {/* Scrolling Time Picker */}
+            <div>
+              <div style={{ fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.5rem', color: 'var(--text)' }}>
+                {selectingEndDateTime ? 'End Time' : 'Start Time'}
+              </div>
+              <div
+                ref={timePickerRef}
+                onClick={(e) => {
+                  // Prevent clicks from bubbling up
+                  e.stopPropagation()
+                }}
+                onMouseDown={(e) => {
+                  // Prevent focus issues
+                  e.stopPropagation()
+                }}
+                style={{
+                  maxHeight: '400px',
+                  overflowY: 'auto',
+                  overscrollBehavior: 'contain',
+                  border: '1px solid var(--border)',
+                  borderRadius: '8px',
+                  padding: '4px',
+                  background: 'var(--bg)'
+                }}
+                tabIndex={-1}
+              >
+                {TIME_OPTIONS.map(time => {
+                  const [hours, minutes] = time.split(':')
+                  const hour = parseInt(hours)
+                  const ampm = hour >= 12 ? 'PM' : 'AM'
+                  const displayHour = hour % 12 || 12
+                  const displayTime = `${displayHour}:${minutes} ${ampm}`
+                  const isSelected = selectingEndDateTime 
+                    ? time === value.end_time 
+                    : time === value.time
+                  
+                  return (
+                    <button
+                      key={time}
+                      type="button"
+                      onClick={(e) => {
+                        e.preventDefault()
+                        e.stopPropagation()
+                        handleTimeSelect(time)
+                      }}
+                      tabIndex={-1}
+                      onMouseDown={(e) => {
+                        // Prevent focus from moving to the button
+                        e.preventDefault()
+                      }}
+                      style={{
+                        width: '100%',
+                        textAlign: 'left',
+                        padding: '10px 12px',
+                        borderRadius: '6px',
+                        border: 'none',
+                        background: isSelected ? 'var(--primary)' : 'transparent',
+                        color: isSelected ? 'white' : 'var(--text)',
+                        fontSize: '0.875rem',
+                        fontWeight: isSelected ? 600 : 400,
+                        cursor: 'pointer',
+                        transition: 'all 0.15s',
+                        outline: 'none'
+                      }}
+                      onMouseEnter={(e) => {
+                        if (!isSelected) {
+                          e.currentTarget.style.background = 'var(--bg-2)'
+                        }
+                      }}
+                      onMouseLeave={(e) => {
+                        if (!isSelected) {
+                          e.currentTarget.style.background = 'transparent'
+                        }
+                      }}
+                    >
+                      {displayTime}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+          </div>
+
+          {/* Timezone and Actions */}
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', paddingTop: '1rem', borderTop: '1px solid var(--border)' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', fontSize: '0.875rem' }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', color: 'var(--muted)' }}>
+                <span>🌐</span>
+                <select
+                  value={value.timezone}
+                  onChange={(e) => onChange({ timezone: e.target.value })}
+                  title={`${getTimezoneAbbreviation(value.timezone)} ${getTimezoneOffsetLabel(value.timezone)}`}
+                  style={{
+                    background: 'none',
+                    border: 'none',
+                    color: 'var(--muted)',
+                    fontSize: '0.875rem',
+                    cursor: 'pointer',
+                    padding: 0
+                  }}
+                >
+                  {getTimezoneOptions(value.timezone).map(tz => (
+                    <option key={tz.value} value={tz.value}>
+                      {tz.label} {getTimezoneOffsetLabel(tz.value)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                type="button"
+                onClick={() => {
+                  onChange({ date: '', time: '', end_date: '', end_time: '' })
+                  setSelectingEndDateTime(false)
+                }}
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  color: 'var(--muted)',
+                  cursor: 'pointer',
+                  fontSize: '0.875rem',
+                  textDecoration: 'underline',
+                  padding: 0
+                }}
+              >
+                Not sure yet? Set as TBD
+              </button>
+            </div>
+            <button
+              type="button"
+              onClick={() => {
+                setShowDatePicker(false)
+                setSelectingEndDateTime(false)
+              }}
+              style={{
+                padding: '0.5rem 1rem',
+                background: 'var(--primary)',
+                color: 'white',
+                border: 'none',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontSize: '0.875rem',
+                fontWeight: 600
+              }}
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default EventDateTimePicker
@@ -0,0 +1,231 @@
+import React from 'react'
+import { EVENT_QUICK_TAGS, formatFormTime, type EventFormData } from '@/lib/eventForm'
+import { type RecurrenceFrequency } from '@/utils/recurrence'
+
+interface EventPreviewCardProps {
+  form: EventFormData
+  label?: string
+  // The sidebar sticks while the form scrolls; the wizard's preview step doesn't
+  sticky?: boolean
+  // Clamp the description to a few lines
+  compact?: boolean
+}
+
+const RECURRENCE_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: 'daily',
+  weekly: 'weekly',
+  biweekly: 'every 2 weeks',
+  monthly: 'monthly',
+}
+
+const formatPreviewDate = (form: EventFormData): string =>
+  new Date(`${form.date}T${form.time || '19:00'}`).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric'
+  })
+
+// How the event will look to guests, rendered from the wizard's form state
+const EventPreviewCard: React.FC<EventPreviewCardProps> = ({ form, label = 'Live Preview', sticky = false, compact = true }) => (
+  <div className="card" style={{
+    padding: 0,
+    overflow: 'hidden',
+    ...(sticky ? { position: 'sticky' as const, top: '100px' } : {})
+  }}>
+    {/* Preview Header */}
+    <div style={{
+      padding: '0.75rem 1rem',
+      background: 'var(--bg-2)',
+      borderBottom: '1px solid var(--border)',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.5rem'
+    }}>
+      <span>👁️</span>
+      <span style={{ fontSize: '0.875rem', fontWeight: 600, color: 'var(--muted)' }}>{label}</span>
+    </div>
+    
+    {/* Cover Image */}
+    <div style={{
+      height: '160px',
+      background: form.image_url 
+        ? `url(${form.image_url}) center/cover` 
+        : 'linear-gradient(135deg, #8b5cf6 0%, #3b82f6 50%, #06b6d4 100%)',
+      display: 'flex',
+      alignItems: 'flex-end',
+      padding: '1rem'
+    }}>
+      {form.tags.length > 0 && (
+        <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+          {form.tags.slice(0, 3).map(tag => (
+            <span key={tag} style={{
+              background: 'rgba(0,0,0,0.6)',
+              backdropFilter: 'blur(8px)',
+              color: 'white',
+              padding: '0.25rem 0.75rem',
+              borderRadius: '999px',
+              fontSize: '0.75rem',
+              fontWeight: 500
+            }}>
+              {EVENT_QUICK_TAGS.find(t => t.name === tag)?.emoji} {tag}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+    
+    {/* Event Content */}
+    <div style={{ padding: '1.25rem' }}>
+      {/* Title */}
+      <div style={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', gap: '1rem', marginBottom: '1rem' }}>
+        <h3 style={{ 
+          fontSize: '1.5rem', 
+          fontWeight: 700, 
+          color: 'var(--text)',
+          margin: 0,
+          lineHeight: 1.2,
+          flex: 1
+        }}>
+          {form.title || 'Your Event Title'}
+        </h3>
+        {form.is_private && (
+          <span style={{
+            display: 'inline-flex',
+            alignItems: 'center',
+            gap: '0.25rem',
+            padding: '0.25rem 0.5rem',
+            background: 'rgba(139, 92, 246, 0.15)',
+            borderRadius: '6px',
+            fontSize: '0.75rem',
+            color: 'var(--primary)',
+            fontWeight: 500,
+            whiteSpace: 'nowrap'
+          }}>
+            🔒 Private
+          </span>
+        )}
+      </div>
+      
+      {/* Date & Time */}
+      <div style={{ 
+        display: 'flex', 
+        alignItems: 'center', 
+        gap: '0.75rem',
+        marginBottom: '0.75rem',
+        color: 'var(--muted)',
+        fontSize: '0.9rem'
+      }}>
+        <span style={{ fontSize: '1.25rem' }}>📅</span>
+        <div>
+          {form.date ? (
+            <>
+              <div style={{ color: 'var(--text)', fontWeight: 500 }}>
+                {formatPreviewDate(form)}
+              </div>
+              <div style={{ fontSize: '0.8rem' }}>
+                {formatFormTime(form.time) || '7:00 PM'}
+              </div>
+            </>
+          ) : (
+            <span style={{ fontStyle: 'italic' }}>Date & time</span>
+          )}
+        </div>
+      </div>
+      
+      {/* Location */}
+      <div style={{ 
+        display: 'flex', 
+        alignItems: 'center', 
+        gap: '0.75rem',
+        marginBottom: '1rem',
+        color: 'var(--muted)',
+        fontSize: '0.9rem'
+      }}>
+        <span style={{ fontSize: '1.25rem' }}>{form.is_virtual ? '💻' : '📍'}</span>
+        <span style={{ color: 'var(--text)' }}>
+          {form.is_virtual 
+            ? (form.virtual_link ? 'Virtual Event' : 'Online location')
+            : (form.location || 'Event location')}
+        </span>
+      </div>
+      
+      {/* Description Preview */}
+      {form.description && (
+        <div style={{
+          padding: '1rem',
+          background: 'var(--bg-2)',
+          borderRadius: '8px',
+          marginBottom: '1rem'
+        }}>
+          <p style={{ 
+            fontSize: '0.875rem', 
+            color: 'var(--muted)',
+            margin: 0,
+            lineHeight: 1.5,
+            whiteSpace: 'pre-wrap',
+            ...(compact ? {
+              display: '-webkit-box',
+              WebkitLineClamp: 3,
+              WebkitBoxOrient: 'vertical',
+              overflow: 'hidden'
+            } : {})
+          }}>
+            {form.description}
+          </p>
+        </div>
+      )}
+      
+      {/* Group Badge */}
+      {form.group_name.trim() && (
+        <div style={{ marginBottom: '1rem', fontSize: '0.8rem', color: 'var(--muted)' }}>
+          📁 Part of <span style={{ color: 'var(--text)', fontWeight: 500 }}>{form.group_name.trim()}</span>
+        </div>
+      )}
+      
+      {/* RSVP Buttons Preview */}
+      <div style={{ 
+        display: 'flex', 
+        gap: '0.5rem',
+        paddingTop: '1rem',
+        borderTop: '1px solid var(--border)'
+      }}>
+        <button className="btn primary" style={{ flex: 1, pointerEvents: 'none' }}>
+          ✓ Going
+        </button>
+        <button className="btn" style={{ flex: 1, pointerEvents: 'none' }}>
+          Maybe
+        </button>
+      </div>
+      
+      {/* Capacity indicator */}
+      {form.max_capacity && (
+        <div style={{
+          marginTop: '0.75rem',
+          fontSize: '0.8rem',
+          color: 'var(--muted)',
+          textAlign: 'center'
+        }}>
+          👥 {form.max_capacity} spots available
+          {form.waitlist_enabled && ' • Waitlist enabled'}
+        </div>
+      )}
+      
+      {/* Recurring indicator */}
+      {form.recurrence.enabled && (
+        <div style={{
+          marginTop: '0.75rem',
+          padding: '0.5rem 0.75rem',
+          background: 'var(--bg-2)',
+          borderRadius: '6px',
+          fontSize: '0.8rem',
+          color: 'var(--muted)',
+          textAlign: 'center'
+        }}>
+          🔄 Repeats {RECURRENCE_LABELS[form.recurrence.frequency]} × {form.recurrence.occurrences}
+        </div>
+      )}
+    </div>
+  </div>
+)
+
+export default EventPreviewCard
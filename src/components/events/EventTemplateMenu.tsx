@@ -0,0 +1,135 @@
+import React, { useState } from 'react'
+import { type EventTemplate } from '@/lib/eventTemplates'
+
+interface EventTemplateMenuProps {
+  previousEvents: { id: string; title: string }[]
+  templates: EventTemplate[]
+  currentUserId: string
+  onDuplicate: (eventId: string) => void
+  onApplyTemplate: (template: EventTemplate) => void
+  onDeleteTemplate: (template: EventTemplate) => void
+  onSaveTemplate: () => void
+}
+
+const headingStyle: React.CSSProperties = {
+  padding: '0.75rem 1rem',
+  borderBottom: '1px solid var(--border)',
+  color: 'var(--muted)',
+  fontSize: '0.875rem',
+  fontWeight: 600
+}
+
+const itemStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '0.75rem 1rem',
+  background: 'none',
+  border: 'none',
+  borderBottom: '1px solid var(--border)',
+  textAlign: 'left',
+  cursor: 'pointer',
+  color: 'var(--text)',
+  fontSize: '0.9rem',
+  transition: 'background 0.15s'
+}
+
+// "Start from" dropdown in the event wizard: copy a recent event or a saved template
+const EventTemplateMenu: React.FC<EventTemplateMenuProps> = ({
+  previousEvents,
+  templates,
+  currentUserId,
+  onDuplicate,
+  onApplyTemplate,
+  onDeleteTemplate,
+  onSaveTemplate
+}) => {
+  const [isOpen, setIsOpen] = useState(false)
+
+  const choose = (action: () => void) => {
+    action()
+    setIsOpen(false)
+  }
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="btn"
+      >
+        📋 Duplicate or Template
+      </button>
+      {isOpen && (
+        <div className="card" style={{
+          position: 'absolute',
+          top: '100%',
+          right: 0,
+          marginTop: '0.5rem',
+          minWidth: '280px',
+          maxHeight: '70vh',
+          overflowY: 'auto',
+          zIndex: 100,
+          padding: 0
+        }}>
+          {templates.length > 0 && (
+            <>
+              <div style={headingStyle}>Templates</div>
+              {templates.map(template => (
+                <div key={template.id} style={{ display: 'flex', alignItems: 'center' }}>
+                  <button
+                    onClick={() => choose(() => onApplyTemplate(template))}
+                    style={{ ...itemStyle, flex: 1 }}
+                    onMouseOver={(e) => e.currentTarget.style.background = 'var(--bg-2)'}
+                    onMouseOut={(e) => e.currentTarget.style.background = 'none'}
+                  >
+                    {template.name}
+                    {template.section && (
+                      <span style={{ display: 'block', color: 'var(--muted)', fontSize: '0.75rem' }}>
+                        Shared with {template.section.name}
+                      </span>
+                    )}
+                  </button>
+                  {template.created_by === currentUserId && (
+                    <button
+                      onClick={() => onDeleteTemplate(template)}
+                      title="Delete template"
+                      style={{ ...itemStyle, width: 'auto', alignSelf: 'stretch', color: 'var(--muted)' }}
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              ))}
+            </>
+          )}
+
+          {previousEvents.length > 0 && (
+            <>
+              <div style={headingStyle}>Duplicate from...</div>
+              {previousEvents.map(event => (
+                <button
+                  key={event.id}
+                  onClick={() => choose(() => onDuplicate(event.id))}
+                  style={itemStyle}
+                  onMouseOver={(e) => e.currentTarget.style.background = 'var(--bg-2)'}
+                  onMouseOut={(e) => e.currentTarget.style.background = 'none'}
+                >
+                  {event.title}
+                </button>
+              ))}
+            </>
+          )}
+
+          <button
+            onClick={() => choose(onSaveTemplate)}
+            style={{ ...itemStyle, borderBottom: 'none', color: 'var(--primary)', fontWeight: 600 }}
+            onMouseOver={(e) => e.currentTarget.style.background = 'var(--bg-2)'}
+            onMouseOut={(e) => e.currentTarget.style.background = 'none'}
+          >
+            💾 Save current form as template
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default EventTemplateMenu
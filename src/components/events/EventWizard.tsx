@@ -0,0 +1,1373 @@
+import React, { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase'
+import { useToast } from '@/contexts/ToastContext'
+import {
+  EVENT_FORM_STEP_FIELDS,
+  EVENT_FORM_STEPS,
+  EVENT_QUICK_TAGS,
+  MAX_RECURRENCE_OCCURRENCES,
+  applyTemplateToForm,
+  clearEventDraft,
+  deleteNewEventDraft,
+  describeFormChanges,
+  getFirstInvalidStep,
+  publishEventForm,
+  saveEventEditsDraft,
+  saveEventForm,
+  saveNewEventDraft,
+  toTemplateData,
+  validateEventForm,
+  type EventDraft,
+  type EventFormCohost,
+  type EventFormData,
+  type EventFormErrors,
+  type EventFormStep,
+} from '@/lib/eventForm'
+import {
+  deleteEventTemplate,
+  loadEventAsTemplateData,
+  loadEventTemplates,
+  saveEventTemplate,
+  type EventTemplate,
+  type EventTemplateQuestion,
+} from '@/lib/eventTemplates'
+import { type SeriesEditScope } from '@/lib/eventSeries'
+import { type GeocodedPlace } from '@/lib/geocoding'
+import { describeRecurrenceRule } from '@/utils/recurrence'
+import EventDateTimePicker, { type EventDateTimeValue } from '@/components/events/EventDateTimePicker'
+import EventPreviewCard from '@/components/events/EventPreviewCard'
+import EventTemplateMenu from '@/components/events/EventTemplateMenu'
+import SaveTemplateModal from '@/components/events/SaveTemplateModal'
+import LocationAutocomplete from '@/components/ui/LocationAutocomplete'
+
+export interface EventWizardSeries {
+  id: string
+  index: number
+  total: number
+  rrule: string
+}
+
+export interface EventWizardRsvpStats {
+  going: number
+  maybe: number
+  not_going: number
+  total: number
+}
+
+interface EventWizardProps {
+  mode: 'create' | 'edit'
+  userId: string
+  userEmail?: string | null
+  // The draft being continued (create) or the event being edited (edit)
+  eventId: string | null
+  initialForm: EventFormData
+  initialQuestions?: EventTemplateQuestion[]
+  // Edit only: the event as it's saved, and edits autosaved in an earlier session
+  originalForm?: EventFormData | null
+  pendingDraft?: EventDraft | null
+  hasStoredPlace?: boolean
+  series?: EventWizardSeries | null
+  rsvpStats?: EventWizardRsvpStats | null
+  // Called once the first autosave of a new event has created its draft
+  onDraftCreated?: (draftId: string) => void
+  onComplete: (eventIds: string[]) => void
+  onDelete?: () => void
+}
+
+type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'error'
+
+const AUTOSAVE_DELAY_MS = 2000
+
+const VISIBILITY_OPTIONS: { value: EventFormData['guest_list_visibility']; label: string; desc: string }[] = [
+  { value: 'public', label: 'Public', desc: 'Anyone can see' },
+  { value: 'rsvp_only', label: 'Guests Only', desc: 'Only RSVPs can see' },
+  { value: 'hidden', label: 'Hidden', desc: 'Only you can see' },
+]
+
+const SERIES_SCOPE_OPTIONS: { value: SeriesEditScope; label: string }[] = [
+  { value: 'this', label: 'This event' },
+  { value: 'following', label: 'This and following events' },
+  { value: 'all', label: 'All events in the series' },
+]
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  marginBottom: '0.75rem',
+  fontSize: '0.875rem',
+  fontWeight: 600,
+  color: 'var(--muted)'
+}
+
+const sectionStyle: React.CSSProperties = {
+  marginBottom: '1.5rem',
+  paddingBottom: '1.5rem',
+  borderBottom: '1px solid var(--border)'
+}
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="form-help" style={{ color: 'var(--danger, #ef4444)', marginTop: '0.5rem' }}>{message}</p> : null
+
+const formatChangeValue = (value: any): string => {
+  if (Array.isArray(value)) {
+    return value.length === 0 ? 'none' : value.map(v => (typeof v === 'object' ? v.full_name || v.email : v)).join(', ')
+  }
+  if (typeof value === 'boolean') return value ? 'yes' : 'no'
+  return value === null || value === '' ? 'empty' : String(value)
+}
+
+/**
+ * The event form, as details → settings → preview. Used for creating events (with
+ * server-side drafts, templates and recurrence) and for editing them (with unsaved
+ * changes autosaved until the host saves, and the series scope choice).
+ */
+const EventWizard: React.FC<EventWizardProps> = ({
+  mode,
+  userId,
+  userEmail,
+  eventId,
+  initialForm,
+  initialQuestions = [],
+  originalForm = null,
+  pendingDraft = null,
+  hasStoredPlace = false,
+  series = null,
+  rsvpStats = null,
+  onDraftCreated,
+  onComplete,
+  onDelete,
+}) => {
+  const { showSuccess, showError } = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const titleInputRef = useRef<HTMLInputElement>(null)
+
+  const [step, setStep] = useState<EventFormStep>('details')
+  const [form, setForm] = useState<EventFormData>(initialForm)
+  const [questions, setQuestions] = useState<EventTemplateQuestion[]>(initialQuestions)
+  const [errors, setErrors] = useState<EventFormErrors>({})
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [draftId, setDraftId] = useState<string | null>(mode === 'create' ? eventId : null)
+  const [dirty, setDirty] = useState(false)
+  const [autosaveStatus, setAutosaveStatus] = useState<AutosaveStatus>('idle')
+  const [lastSaved, setLastSaved] = useState<Date | null>(null)
+  const [restorableDraft, setRestorableDraft] = useState<EventDraft | null>(pendingDraft)
+  const [pickedPlace, setPickedPlace] = useState<GeocodedPlace | null>(null)
+  const [uploadingImage, setUploadingImage] = useState(false)
+  const [coHostSearch, setCoHostSearch] = useState('')
+  const [coHostResults, setCoHostResults] = useState<EventFormCohost[]>([])
+  const [userGroups, setUserGroups] = useState<string[]>([])
+  const [showGroupDropdown, setShowGroupDropdown] = useState(false)
+  const [editScope, setEditScope] = useState<SeriesEditScope>('this')
+  const [previousEvents, setPreviousEvents] = useState<{ id: string; title: string }[]>([])
+  const [templates, setTemplates] = useState<EventTemplate[]>([])
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false)
+  const [savingTemplate, setSavingTemplate] = useState(false)
+
+  // Autosaves run one at a time, and those still running when the host publishes
+  // must not write a stale draft afterwards
+  const autosaveRef = useRef<Promise<void> | null>(null)
+  const submittedRef = useRef(false)
+  // The draft id as of the last finished autosave; state lags a render behind
+  const draftIdRef = useRef<string | null>(draftId)
+
+  const changes = originalForm ? describeFormChanges(originalForm, form) : []
+
+  useEffect(() => {
+    setTimeout(() => titleInputRef.current?.focus(), 100)
+    loadUserGroups()
+    if (mode === 'create') {
+      loadPreviousEvents()
+      loadTemplates()
+    }
+  }, [])
+
+  // Detect virtual meeting links
+  useEffect(() => {
+    const link = form.location.toLowerCase()
+    const isVirtualLink =
+      link.includes('zoom.us') ||
+      link.includes('meet.google.com') ||
+      link.includes('teams.microsoft.com') ||
+      link.includes('discord.gg')
+
+    if (isVirtualLink && !form.is_virtual) {
+      setForm(prev => ({ ...prev, is_virtual: true, virtual_link: prev.location, location: '' }))
+    }
+  }, [form.location])
+
+  // Autosave a couple of seconds after the last change
+  useEffect(() => {
+    if (!dirty || submittedRef.current) return
+    const timer = setTimeout(() => {
+      autosaveRef.current = (autosaveRef.current || Promise.resolve()).then(autosave)
+    }, AUTOSAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [form, questions, dirty])
+
+  const updateForm = (changes: Partial<EventFormData>) => {
+    setForm(prev => ({ ...prev, ...changes }))
+    setDirty(true)
+  }
+
+  const autosave = async () => {
+    if (submittedRef.current) return
+    setAutosaveStatus('saving')
+    try {
+      if (mode === 'create') {
+        const savedId = await saveNewEventDraft({ draftId: draftIdRef.current, userId, form, questions })
+        if (!draftIdRef.current) {
+          draftIdRef.current = savedId
+          setDraftId(savedId)
+          onDraftCreated?.(savedId)
+        }
+      } else if (eventId && originalForm) {
+        // Nothing left to save once the form is back to how the event is saved
+        if (describeFormChanges(originalForm, form).length > 0) {
+          await saveEventEditsDraft(eventId, userId, form)
+        } else {
+          await clearEventDraft(eventId, userId)
+        }
+      }
+      setAutosaveStatus('saved')
+      setLastSaved(new Date())
+    } catch (err) {
+      console.error('Error autosaving event draft:', err)
+      setAutosaveStatus('error')
+    }
+  }
+
+  const loadUserGroups = async () => {
+    const { data } = await supabase
+      .from('events')
+      .select('group_name')
+      .eq('created_by', userId)
+      .not('group_name', 'is', null)
+
+    setUserGroups(Array.from(new Set(
+      ((data as { group_name: string | null }[]) || [])
+        .map(e => e.group_name)
+        .filter((name): name is string => Boolean(name))
+    )))
+  }
+
+  const loadPreviousEvents = async () => {
+    const { data } = await supabase
+      .from('events')
+      .select('id, title, date')
+      .eq('created_by', userId)
+      .eq('published', true)
+      .order('created_at', { ascending: false })
+      .limit(5)
+
+    setPreviousEvents((data as { id: string; title: string }[]) || [])
+  }
+
+  const loadTemplates = async () => {
+    try {
+      setTemplates(await loadEventTemplates())
+    } catch (err) {
+      console.error('Error loading event templates:', err)
+    }
+  }
+
+  const applyTemplate = (data: Parameters<typeof applyTemplateToForm>[1]) => {
+    setForm(prev => applyTemplateToForm(prev, data, userId))
+    setQuestions(data.rsvp_questions)
+    setDirty(true)
+  }
+
+  const duplicateEvent = async (sourceId: string) => {
+    try {
+      applyTemplate(await loadEventAsTemplateData(sourceId))
+    } catch (err) {
+      console.error('Error duplicating event:', err)
+      setError('Could not load that event')
+    }
+  }
+
+  const handleSaveTemplate = async (name: string, sectionId: string | null) => {
+    setSavingTemplate(true)
+    try {
+      const template = await saveEventTemplate(userId, name, toTemplateData(form, questions), sectionId)
+      setTemplates(prev => [...prev, template].sort((a, b) => a.name.localeCompare(b.name)))
+      setShowSaveTemplate(false)
+      showSuccess(`Saved template "${template.name}"`)
+    } catch (err) {
+      console.error('Error saving event template:', err)
+      showError('Failed to save template')
+    } finally {
+      setSavingTemplate(false)
+    }
+  }
+
+  const handleDeleteTemplate = async (template: EventTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return
+    try {
+      await deleteEventTemplate(template.id)
+      setTemplates(prev => prev.filter(t => t.id !== template.id))
+    } catch (err) {
+      console.error('Error deleting event template:', err)
+      showError('Failed to delete template')
+    }
+  }
+
+  const searchCoHosts = async (query: string) => {
+    if (query.length < 2) {
+      setCoHostResults([])
+      return
+    }
+    const { data } = await supabase
+      .from('profiles')
+      .select('id, email, full_name')
+      .or(`email.ilike.%${query}%,full_name.ilike.%${query}%`)
+      .neq('id', userId)
+      .limit(5)
+    setCoHostResults((data as EventFormCohost[]) || [])
+  }
+
+  const addCoHost = (cohost: EventFormCohost) => {
+    if (!form.co_hosts.some(c => c.id === cohost.id)) {
+      updateForm({ co_hosts: [...form.co_hosts, cohost] })
+    }
+    setCoHostSearch('')
+    setCoHostResults([])
+  }
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    if (file.size > 5 * 1024 * 1024) {
+      setError('Image must be smaller than 5MB')
+      return
+    }
+
+    setUploadingImage(true)
+    try {
+      const fileExt = file.name.split('.').pop()
+      const filePath = `event-covers/event-${Date.now()}.${fileExt}`
+
+      const { error: uploadError } = await supabase.storage
+        .from('project-images')
+        .upload(filePath, file, { cacheControl: '3600', upsert: true })
+
+      if (uploadError) throw uploadError
+
+      const { data: { publicUrl } } = supabase.storage
+        .from('project-images')
+        .getPublicUrl(filePath)
+
+      updateForm({ image_url: publicUrl })
+    } catch (err: any) {
+      setError(err.message || 'Failed to upload image')
+    } finally {
+      setUploadingImage(false)
+    }
+  }
+
+  const toggleTag = (tag: string) => {
+    updateForm({ tags: form.tags.includes(tag) ? form.tags.filter(t => t !== tag) : [...form.tags, tag] })
+  }
+
+  // Only the fields on the steps so far, so later steps don't shout before they're seen
+  const validateThrough = (target: EventFormStep): boolean => {
+    const allErrors = validateEventForm(form)
+    const fields = target === 'settings'
+      ? EVENT_FORM_STEP_FIELDS.details
+      : [...EVENT_FORM_STEP_FIELDS.details, ...EVENT_FORM_STEP_FIELDS.settings]
+    const stepErrors: EventFormErrors = {}
+    fields.forEach(field => {
+      if (allErrors[field]) stepErrors[field] = allErrors[field]
+    })
+    setErrors(stepErrors)
+
+    const invalidStep = getFirstInvalidStep(stepErrors)
+    if (invalidStep) {
+      setStep(invalidStep)
+      return false
+    }
+    return true
+  }
+
+  const goToStep = (target: EventFormStep) => {
+    const order = EVENT_FORM_STEPS.map(s => s.id)
+    if (order.indexOf(target) <= order.indexOf(step) || validateThrough(target)) {
+      setStep(target)
+      window.scrollTo({ top: 0, behavior: 'smooth' })
+    }
+  }
+
+  const handleSubmit = async () => {
+    const allErrors = validateEventForm(form)
+    setErrors(allErrors)
+    const invalidStep = getFirstInvalidStep(allErrors)
+    if (invalidStep) {
+      setStep(invalidStep)
+      return
+    }
+
+    setSubmitting(true)
+    setError(null)
+    submittedRef.current = true
+
+    try {
+      await autosaveRef.current
+
+      if (mode === 'create') {
+        const eventIds = await publishEventForm({
+          draftId: draftIdRef.current,
+          userId,
+          userEmail,
+          form,
+          questions,
+          pickedPlace,
+        })
+        onComplete(eventIds)
+      } else if (eventId && originalForm) {
+        await saveEventForm({
+          eventId,
+          userId,
+          form,
+          original: originalForm,
+          pickedPlace,
+          hasStoredPlace,
+          series: series ? { id: series.id, index: series.index, scope: editScope } : null,
+        })
+        onComplete([eventId])
+      }
+    } catch (err: any) {
+      submittedRef.current = false
+      setError(err.message || (mode === 'create' ? 'Failed to create event' : 'Failed to update event'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleDiscard = async () => {
+    if (mode === 'create') {
+      if (!draftId || !confirm('Discard this draft? This cannot be undone.')) return
+      submittedRef.current = true
+      try {
+        await autosaveRef.current
+        await deleteNewEventDraft(draftId)
+        onComplete([])
+      } catch (err) {
+        submittedRef.current = false
+        console.error('Error discarding draft:', err)
+        showError('Failed to discard draft')
+      }
+    } else if (eventId && originalForm) {
+      if (!confirm('Discard your unsaved changes?')) return
+      try {
+        await clearEventDraft(eventId, userId)
+        setForm(originalForm)
+        setDirty(false)
+        setAutosaveStatus('idle')
+        showSuccess('Changes discarded')
+      } catch (err) {
+        console.error('Error discarding changes:', err)
+        showError('Failed to discard changes')
+      }
+    }
+  }
+
+  const restoreDraft = () => {
+    if (!restorableDraft) return
+    setForm(restorableDraft.form)
+    setRestorableDraft(null)
+  }
+
+  const dismissDraft = async () => {
+    setRestorableDraft(null)
+    if (eventId) {
+      try {
+        await clearEventDraft(eventId, userId)
+      } catch (err) {
+        console.error('Error clearing saved changes:', err)
+      }
+    }
+  }
+
+  const isNewGroup = form.group_name.trim().length > 0 &&
+    !userGroups.some(g => g.toLowerCase() === form.group_name.trim().toLowerCase())
+  const filteredGroups = form.group_name
+    ? userGroups.filter(g => g.toLowerCase().includes(form.group_name.toLowerCase()))
+    : []
+
+  const submitLabel = mode === 'edit'
+    ? (submitting ? '💾 Saving...' : 'Save Changes')
+    : submitting
+      ? '✨ Publishing...'
+      : form.recurrence.enabled ? `Publish ${form.recurrence.occurrences} Events` : 'Publish Event'
+
+  const renderAutosaveStatus = () => {
+    if (autosaveStatus === 'idle') {
+      return mode === 'create' && draftId ? 'Draft' : null
+    }
+    if (autosaveStatus === 'saving') return '💾 Saving draft...'
+    if (autosaveStatus === 'error') return '⚠️ Couldn\'t save draft'
+    return lastSaved ? `Draft saved ${lastSaved.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}` : 'Draft saved'
+  }
+
+  const renderDetailsStep = () => (
+    <>
+      {/* Title */}
+      <div className="form-section" style={sectionStyle}>
+        <div className="form-group" style={{ marginBottom: 0 }}>
+          <input
+            ref={titleInputRef}
+            type="text"
+            value={form.title}
+            onChange={(e) => updateForm({ title: e.target.value })}
+            placeholder="Untitled Event"
+            style={{
+              fontSize: '2rem',
+              fontWeight: 700,
+              padding: '0.75rem',
+              border: 'none',
+              borderBottom: '2px solid transparent',
+              background: 'transparent',
+              width: '100%',
+              color: 'var(--text)',
+              outline: 'none',
+              transition: 'border-color 0.2s'
+            }}
+            onFocus={(e) => e.currentTarget.style.borderBottomColor = 'var(--primary)'}
+            onBlur={(e) => e.currentTarget.style.borderBottomColor = 'transparent'}
+          />
+          <FieldError message={errors.title} />
+        </div>
+      </div>
+
+      {/* Date & Time */}
+      <div className="form-section" style={sectionStyle}>
+        <EventDateTimePicker
+          value={form}
+          onChange={(changes: Partial<EventDateTimeValue>) => updateForm(changes)}
+        />
+        <FieldError message={errors.date || errors.end_time || errors.timezone} />
+      </div>
+
+      {/* Location */}
+      <div className="form-section" style={sectionStyle}>
+        <label style={labelStyle}>Location</label>
+        <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.75rem' }}>
+          <button
+            type="button"
+            onClick={() => updateForm({ is_virtual: false })}
+            className={`chip ${!form.is_virtual ? 'active' : ''}`}
+            style={{ fontSize: '0.8rem', padding: '0.4rem 0.75rem' }}
+          >
+            📍 In Person
+          </button>
+          <button
+            type="button"
+            onClick={() => updateForm({ is_virtual: true })}
+            className={`chip ${form.is_virtual ? 'active' : ''}`}
+            style={{ fontSize: '0.8rem', padding: '0.4rem 0.75rem' }}
+          >
+            💻 Online
+          </button>
+        </div>
+        <div className="form-group" style={{ marginBottom: 0 }}>
+          {form.is_virtual ? (
+            <input
+              type="text"
+              value={form.virtual_link}
+              onChange={(e) => updateForm({ virtual_link: e.target.value })}
+              placeholder="Paste meeting link (Zoom, Meet, etc.)"
+              style={{ padding: '0.5rem', fontSize: '0.875rem' }}
+            />
+          ) : (
+            <LocationAutocomplete
+              value={form.location}
+              onChange={(value) => {
+                updateForm({ location: value })
+                setPickedPlace(null)
+              }}
+              onPlaceSelect={setPickedPlace}
+              placeholder="Add location or address"
+            />
+          )}
+          <FieldError message={errors.location} />
+        </div>
+      </div>
+
+      {/* Description */}
+      <div className="form-section" style={{ marginBottom: '1.5rem' }}>
+        <label style={labelStyle}>Add a description of your event</label>
+        <div className="form-group" style={{ marginBottom: 0 }}>
+          <textarea
+            value={form.description}
+            onChange={(e) => updateForm({ description: e.target.value })}
+            placeholder="Tell people what your event is about..."
+            rows={4}
+            style={{ padding: '0.5rem', fontSize: '0.875rem', resize: 'vertical' }}
+          />
+        </div>
+      </div>
+
+      {/* Cover Image */}
+      <div className="form-section" style={sectionStyle}>
+        <label style={labelStyle}>Cover Image</label>
+
+        {form.image_url ? (
+          <div style={{ position: 'relative', marginBottom: '0.75rem' }}>
+            <img
+              src={form.image_url}
+              alt="Cover preview"
+              style={{
+                width: '100%',
+                height: '150px',
+                objectFit: 'cover',
+                borderRadius: '8px',
+                border: '1px solid var(--border)'
+              }}
+            />
+            <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="btn small"
+                style={{ fontSize: '0.8rem', padding: '0.4rem 0.75rem' }}
+              >
+                {uploadingImage ? '⏳ Uploading...' : '🔄 Change'}
+              </button>
+              <button
+                type="button"
+                onClick={() => updateForm({ image_url: '' })}
+                className="btn small danger"
+                style={{ fontSize: '0.8rem', padding: '0.4rem 0.75rem' }}
+              >
+                ✕ Remove
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="btn"
+            disabled={uploadingImage}
+            style={{ fontSize: '0.875rem', padding: '0.5rem 1rem' }}
+          >
+            {uploadingImage ? '⏳ Uploading...' : '📷 Add Cover Photo'}
+          </button>
+        )}
+
+        <p className="form-help" style={{ fontSize: '0.75rem', marginTop: '0.5rem' }}>Recommended: 1200x630px. Max 5MB.</p>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          onChange={handleImageUpload}
+          style={{ display: 'none' }}
+        />
+      </div>
+
+      {/* Quick Tags */}
+      <div className="form-section" style={{ marginBottom: 0 }}>
+        <label style={labelStyle}>Quick Tags</label>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+          {EVENT_QUICK_TAGS.map(tag => (
+            <button
+              key={tag.name}
+              type="button"
+              onClick={() => toggleTag(tag.name)}
+              className={`chip ${form.tags.includes(tag.name) ? 'active' : ''}`}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '0.4rem',
+                fontSize: '0.8rem',
+                padding: '0.4rem 0.75rem'
+              }}
+            >
+              <span>{tag.emoji}</span>
+              <span>{tag.name}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </>
+  )
+
+  const renderSettingsStep = () => (
+    <>
+      {/* Recurring: new events only, existing series are edited through the scope choice */}
+      {mode === 'create' && (
+        <div className="form-section">
+          <h3>🔄 Recurring Event</h3>
+          <div className="checkbox-group">
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={form.recurrence.enabled}
+                onChange={(e) => updateForm({ recurrence: { ...form.recurrence, enabled: e.target.checked } })}
+              />
+              <span className="custom-checkbox"></span>
+              <span className="checkbox-text">
+                <span className="checkbox-title">Make this a recurring event</span>
+                <span className="checkbox-description">Create multiple instances of this event</span>
+              </span>
+            </label>
+          </div>
+
+          {form.recurrence.enabled && (
+            <div className="form-row" style={{ gridTemplateColumns: '1fr 1fr', marginTop: '1rem' }}>
+              <div className="form-group">
+                <label>Frequency</label>
+                <select
+                  value={form.recurrence.frequency}
+                  onChange={(e) => updateForm({
+                    recurrence: { ...form.recurrence, frequency: e.target.value as EventFormData['recurrence']['frequency'] }
+                  })}
+                >
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                  <option value="biweekly">Every 2 weeks</option>
+                  <option value="monthly">Monthly</option>
+                </select>
+              </div>
+              <div className="form-group">
+                <label>Number of occurrences</label>
+                <input
+                  type="number"
+                  value={form.recurrence.occurrences}
+                  onChange={(e) => updateForm({
+                    recurrence: { ...form.recurrence, occurrences: parseInt(e.target.value) || 1 }
+                  })}
+                  min={2}
+                  max={MAX_RECURRENCE_OCCURRENCES}
+                />
+              </div>
+            </div>
+          )}
+          <FieldError message={errors.recurrence} />
+        </div>
+      )}
+
+      {/* Event Group */}
+      <div className="form-section">
+        <h3>📁 Event Group</h3>
+        <div className="form-group" style={{ position: 'relative' }}>
+          <label>Group Name</label>
+          <input
+            type="text"
+            value={form.group_name}
+            onChange={(e) => {
+              updateForm({ group_name: e.target.value })
+              setShowGroupDropdown(e.target.value.length > 0)
+            }}
+            onFocus={() => setShowGroupDropdown(form.group_name.length > 0)}
+            onBlur={() => setTimeout(() => setShowGroupDropdown(false), 150)}
+            placeholder="e.g., Weekly Dinners, Book Club"
+            autoComplete="off"
+          />
+
+          {showGroupDropdown && (filteredGroups.length > 0 || isNewGroup) && (
+            <div style={{
+              position: 'absolute',
+              top: '100%',
+              left: 0,
+              right: 0,
+              background: 'var(--card)',
+              border: '1px solid var(--border)',
+              borderRadius: '8px',
+              boxShadow: '0 8px 24px rgba(0, 0, 0, 0.25)',
+              zIndex: 50,
+              marginTop: '4px',
+              overflow: 'hidden'
+            }}>
+              {isNewGroup && (
+                <div style={{
+                  padding: '0.75rem 1rem',
+                  background: 'rgba(139, 92, 246, 0.1)',
+                  borderBottom: filteredGroups.length > 0 ? '1px solid var(--border)' : 'none',
+                  color: 'var(--primary)',
+                  fontSize: '0.9rem',
+                  fontWeight: 600
+                }}>
+                  ✨ New group &quot;{form.group_name.trim()}&quot;
+                </div>
+              )}
+              {filteredGroups.map((g, idx) => (
+                <button
+                  key={g}
+                  type="button"
+                  onMouseDown={(e) => {
+                    e.preventDefault()
+                    updateForm({ group_name: g })
+                    setShowGroupDropdown(false)
+                  }}
+                  style={{
+                    width: '100%',
+                    padding: '0.75rem 1rem',
+                    background: 'none',
+                    border: 'none',
+                    borderBottom: idx < filteredGroups.length - 1 ? '1px solid var(--border)' : 'none',
+                    textAlign: 'left',
+                    cursor: 'pointer',
+                    color: 'var(--text)',
+                    fontSize: '0.9rem'
+                  }}
+                  onMouseOver={(e) => e.currentTarget.style.background = 'var(--bg-2)'}
+                  onMouseOut={(e) => e.currentTarget.style.background = 'none'}
+                >
+                  {g}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <p className="form-help">Group related events, like a weekly dinner, to share analytics and a group page</p>
+
+          {userGroups.length > 0 && !showGroupDropdown && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginTop: '0.75rem' }}>
+              {userGroups.map(g => (
+                <button
+                  key={g}
+                  type="button"
+                  onClick={() => updateForm({ group_name: form.group_name === g ? '' : g })}
+                  className={`chip ${form.group_name === g ? 'active' : ''}`}
+                >
+                  {g}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Capacity */}
+      <div className="form-section">
+        <h3>👥 Capacity</h3>
+        <div className="form-group">
+          <label>Maximum guests</label>
+          <input
+            type="number"
+            value={form.max_capacity ?? ''}
+            onChange={(e) => updateForm({ max_capacity: e.target.value ? parseInt(e.target.value) : null })}
+            placeholder="Leave empty for unlimited"
+            min={1}
+          />
+          <FieldError message={errors.max_capacity} />
+        </div>
+
+        <div className="form-group">
+          <label>Plus-ones per RSVP</label>
+          <input
+            type="number"
+            value={form.max_guests_per_rsvp}
+            onChange={(e) => updateForm({ max_guests_per_rsvp: Math.max(0, parseInt(e.target.value) || 0) })}
+            min={0}
+          />
+          <p className="form-help">How many guests each person can bring. Guests count toward capacity.</p>
+        </div>
+
+        {!!form.max_capacity && (
+          <div className="checkbox-group">
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={form.waitlist_enabled}
+                onChange={(e) => updateForm({ waitlist_enabled: e.target.checked })}
+              />
+              <span className="custom-checkbox"></span>
+              <span className="checkbox-text">
+                <span className="checkbox-title">Enable waitlist</span>
+                <span className="checkbox-description">Allow guests to join a waitlist when full</span>
+              </span>
+            </label>
+          </div>
+        )}
+
+        {!!form.max_capacity && form.waitlist_enabled && (
+          <div className="checkbox-group">
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={form.auto_confirm_waitlist}
+                onChange={(e) => updateForm({ auto_confirm_waitlist: e.target.checked })}
+              />
+              <span className="custom-checkbox"></span>
+              <span className="checkbox-text">
+                <span className="checkbox-title">Auto-confirm from waitlist</span>
+                <span className="checkbox-description">Move the next person in line straight to "going" when a spot opens</span>
+              </span>
+            </label>
+          </div>
+        )}
+
+        {!!form.max_capacity && form.waitlist_enabled && !form.auto_confirm_waitlist && (
+          <div className="form-group">
+            <label>Claim window (hours)</label>
+            <input
+              type="number"
+              value={form.waitlist_claim_hours}
+              onChange={(e) => updateForm({ waitlist_claim_hours: Math.max(1, parseInt(e.target.value) || 1) })}
+              min={1}
+            />
+            <p className="form-help">How long a spot is held for the next person before it moves on</p>
+            <FieldError message={errors.waitlist_claim_hours} />
+          </div>
+        )}
+      </div>
+
+      {/* Co-hosts */}
+      <div className="form-section">
+        <h3>👯 Co-hosts</h3>
+        <div className="form-group">
+          <label>Search co-hosts</label>
+          <input
+            type="text"
+            value={coHostSearch}
+            onChange={(e) => {
+              setCoHostSearch(e.target.value)
+              searchCoHosts(e.target.value)
+            }}
+            placeholder="Search by name or email"
+          />
+        </div>
+
+        {coHostResults.length > 0 && (
+          <div className="card" style={{ padding: 0, marginBottom: '1rem', overflow: 'hidden' }}>
+            {coHostResults.map(result => (
+              <button
+                key={result.id}
+                type="button"
+                onClick={() => addCoHost(result)}
+                style={{
+                  width: '100%',
+                  padding: '0.75rem 1rem',
+                  background: 'none',
+                  border: 'none',
+                  borderBottom: '1px solid var(--border)',
+                  textAlign: 'left',
+                  cursor: 'pointer',
+                  color: 'var(--text)',
+                  fontSize: '0.9rem',
+                  transition: 'background 0.15s'
+                }}
+                onMouseOver={(e) => e.currentTarget.style.background = 'var(--bg-2)'}
+                onMouseOut={(e) => e.currentTarget.style.background = 'none'}
+              >
+                {result.full_name || result.email}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {form.co_hosts.length > 0 && (
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+            {form.co_hosts.map(c => (
+              <span
+                key={c.id}
+                className="chip active"
+                style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}
+              >
+                {c.full_name || c.email}
+                <button
+                  type="button"
+                  onClick={() => updateForm({ co_hosts: form.co_hosts.filter(x => x.id !== c.id) })}
+                  style={{
+                    background: 'none',
+                    border: 'none',
+                    color: 'inherit',
+                    cursor: 'pointer',
+                    padding: 0,
+                    marginLeft: '0.25rem'
+                  }}
+                >
+                  ✕
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Private Event */}
+      <div className="form-section">
+        <h3>🔒 Privacy</h3>
+        <div className="checkbox-group">
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={form.is_private}
+              onChange={(e) => updateForm({ is_private: e.target.checked })}
+            />
+            <span className="custom-checkbox"></span>
+            <span className="checkbox-text">
+              <span className="checkbox-title">Private Event</span>
+              <span className="checkbox-description">Only invited users or those with the direct link can view and RSVP</span>
+            </span>
+          </label>
+        </div>
+      </div>
+
+      {/* Guest List Visibility */}
+      <div className="form-section" style={{ borderBottom: 'none' }}>
+        <h3>👁️ Guest List Visibility</h3>
+        <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+          {VISIBILITY_OPTIONS.map(opt => (
+            <button
+              key={opt.value}
+              type="button"
+              title={opt.desc}
+              onClick={() => updateForm({ guest_list_visibility: opt.value })}
+              className={`chip ${form.guest_list_visibility === opt.value ? 'active' : ''}`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </>
+  )
+
+  const renderPreviewStep = () => (
+    <>
+      <p style={{ color: 'var(--muted)', marginTop: 0, marginBottom: '1.5rem' }}>
+        {mode === 'create'
+          ? 'This is how guests will see your event. Publish when it looks right, or come back to the draft later.'
+          : 'Check your changes before saving them.'}
+      </p>
+
+      <div style={{ maxWidth: '480px', margin: '0 auto 1.5rem' }}>
+        <EventPreviewCard form={form} label="Guest view" compact={false} />
+      </div>
+
+      {/* Settings summary */}
+      <div style={{ display: 'grid', gap: '0.5rem', fontSize: '0.9rem', marginBottom: '1.5rem' }}>
+        <div>{form.is_private ? '🔒 Private: invited guests and people with the link' : '🌍 Public event'}</div>
+        <div>👁️ Guest list: {VISIBILITY_OPTIONS.find(o => o.value === form.guest_list_visibility)?.desc}</div>
+        {form.co_hosts.length > 0 && (
+          <div>👯 Co-hosts: {form.co_hosts.map(c => c.full_name || c.email).join(', ')}</div>
+        )}
+        {form.max_guests_per_rsvp > 0 && (
+          <div>➕ Up to {form.max_guests_per_rsvp} plus-one{form.max_guests_per_rsvp !== 1 ? 's' : ''} per RSVP</div>
+        )}
+        {questions.length > 0 && (
+          <div>📝 {questions.length} RSVP {questions.length === 1 ? 'question' : 'questions'} will be copied to this event</div>
+        )}
+      </div>
+
+      {/* What's changing */}
+      {mode === 'edit' && (
+        <div className="card" style={{ padding: '1rem', marginBottom: '1.5rem' }}>
+          <h4 style={{ marginTop: 0, marginBottom: '0.75rem', fontSize: '1rem' }}>
+            {changes.length === 0 ? 'No changes yet' : `${changes.length} change${changes.length !== 1 ? 's' : ''}`}
+          </h4>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+            {changes.map(change => (
+              <div key={change.field} style={{ padding: '0.5rem 0.75rem', background: 'var(--bg-2)', borderRadius: '6px', fontSize: '0.85rem' }}>
+                <div style={{ fontWeight: 600, marginBottom: '0.25rem' }}>
+                  {change.field.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                </div>
+                <div style={{ color: 'var(--muted)', fontSize: '0.75rem' }}>
+                  <span style={{ textDecoration: 'line-through', marginRight: '0.5rem' }}>{formatChangeValue(change.oldValue)}</span>
+                  →
+                  <span style={{ marginLeft: '0.5rem', color: 'var(--primary)' }}>{formatChangeValue(change.newValue)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {rsvpStats && rsvpStats.total > 0 && changes.length > 0 && (
+            <div style={{
+              padding: '0.75rem',
+              background: 'rgba(251, 191, 36, 0.1)',
+              borderRadius: '6px',
+              marginTop: '1rem',
+              fontSize: '0.875rem'
+            }}>
+              ⚠️ This event has {rsvpStats.total} RSVP{rsvpStats.total !== 1 ? 's' : ''}. Changes may affect attendees.
+            </div>
+          )}
+
+          {series && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', marginTop: '1rem' }}>
+              <strong style={{ fontSize: '0.875rem' }}>This is a recurring event. Apply changes to:</strong>
+              {SERIES_SCOPE_OPTIONS.map(option => (
+                <label key={option.value} style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', cursor: 'pointer' }}>
+                  <input
+                    type="radio"
+                    name="series-edit-scope"
+                    checked={editScope === option.value}
+                    onChange={() => setEditScope(option.value)}
+                    style={{ accentColor: 'var(--primary)' }}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </>
+  )
+
+  const stepIndex = EVENT_FORM_STEPS.findIndex(s => s.id === step)
+  const autosaveLabel = renderAutosaveStatus()
+
+  return (
+    <section className="container" style={{ paddingTop: '2rem', paddingBottom: '6rem' }}>
+      {/* Header */}
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', flexWrap: 'wrap', marginBottom: '2rem' }}>
+        <Link href={mode === 'edit' && eventId ? `/events/${eventId}` : '/events'} className="btn" style={{ gap: '0.5rem' }}>
+          ← {mode === 'edit' ? 'Back to Event' : 'Back to Events'}
+        </Link>
+
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+          {autosaveLabel && (
+            <span style={{ fontSize: '0.8rem', color: autosaveStatus === 'error' ? 'var(--danger, #ef4444)' : 'var(--muted)' }}>
+              {autosaveLabel}
+            </span>
+          )}
+          {mode === 'create' ? (
+            <EventTemplateMenu
+              previousEvents={previousEvents}
+              templates={templates}
+              currentUserId={userId}
+              onDuplicate={duplicateEvent}
+              onApplyTemplate={(template) => applyTemplate(template.data)}
+              onDeleteTemplate={handleDeleteTemplate}
+              onSaveTemplate={() => setShowSaveTemplate(true)}
+            />
+          ) : eventId && (
+            <Link href={`/create-event?duplicate=${eventId}`} className="btn">
+              📋 Duplicate
+            </Link>
+          )}
+        </div>
+      </div>
+
+      {mode === 'create' && (
+        <SaveTemplateModal
+          isOpen={showSaveTemplate}
+          userId={userId}
+          isSaving={savingTemplate}
+          onSubmit={handleSaveTemplate}
+          onClose={() => setShowSaveTemplate(false)}
+        />
+      )}
+
+      {/* Edits autosaved in an earlier session */}
+      {restorableDraft && (
+        <div className="card" style={{
+          marginBottom: '1.5rem',
+          background: 'rgba(139, 92, 246, 0.1)',
+          border: '1px solid rgba(139, 92, 246, 0.3)',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '1rem',
+          flexWrap: 'wrap'
+        }}>
+          <span style={{ fontSize: '1.5rem' }}>💾</span>
+          <div style={{ flex: 1, minWidth: '200px' }}>
+            <strong style={{ display: 'block', marginBottom: '0.25rem' }}>You have unsaved changes</strong>
+            <div style={{ fontSize: '0.875rem', color: 'var(--muted)' }}>
+              Autosaved {new Date(restorableDraft.updated_at).toLocaleString()}
+            </div>
+          </div>
+          <button type="button" className="btn primary" onClick={restoreDraft}>Restore</button>
+          <button type="button" className="btn" onClick={dismissDraft}>Discard</button>
+        </div>
+      )}
+
+      {/* RSVP questions from a duplicated event or template */}
+      {mode === 'create' && questions.length > 0 && (
+        <div className="card" style={{
+          marginBottom: '1.5rem',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          gap: '1rem'
+        }}>
+          <span style={{ fontSize: '0.9rem' }}>
+            📝 {questions.length} RSVP {questions.length === 1 ? 'question' : 'questions'} will be copied
+          </span>
+          <button
+            type="button"
+            className="btn small"
+            onClick={() => {
+              setQuestions([])
+              setDirty(true)
+            }}
+          >
+            Don't copy
+          </button>
+        </div>
+      )}
+
+      {/* RSVP Warning Banner */}
+      {rsvpStats && rsvpStats.total > 0 && (
+        <div className="card" style={{
+          marginBottom: '1.5rem',
+          background: 'rgba(251, 191, 36, 0.1)',
+          border: '1px solid rgba(251, 191, 36, 0.3)'
+        }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+            <span style={{ fontSize: '1.5rem' }}>⚠️</span>
+            <div style={{ flex: 1 }}>
+              <strong style={{ display: 'block', marginBottom: '0.25rem' }}>
+                This event has {rsvpStats.total} RSVP{rsvpStats.total !== 1 ? 's' : ''}
+              </strong>
+              <div style={{ fontSize: '0.875rem', color: 'var(--muted)' }}>
+                {rsvpStats.going} going • {rsvpStats.maybe} maybe • {rsvpStats.not_going} not going
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Recurring Series Banner */}
+      {series && (
+        <div className="card" style={{
+          marginBottom: '1.5rem',
+          background: 'rgba(139, 92, 246, 0.1)',
+          border: '1px solid rgba(139, 92, 246, 0.3)'
+        }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+            <span style={{ fontSize: '1.5rem' }}>🔄</span>
+            <div style={{ flex: 1 }}>
+              <strong style={{ display: 'block', marginBottom: '0.25rem' }}>
+                Event {series.index + 1} of {series.total} in a recurring series
+              </strong>
+              <div style={{ fontSize: '0.875rem', color: 'var(--muted)' }}>
+                {describeRecurrenceRule(series.rrule)} • You'll choose which events to update when you save
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Steps */}
+      <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1.5rem' }}>
+        {EVENT_FORM_STEPS.map((s, index) => (
+          <button
+            key={s.id}
+            type="button"
+            onClick={() => goToStep(s.id)}
+            style={{
+              flex: 1,
+              padding: '0.75rem',
+              background: s.id === step ? 'rgba(139, 92, 246, 0.15)' : 'var(--bg-2)',
+              border: s.id === step ? '2px solid var(--primary)' : '1px solid var(--border)',
+              borderRadius: '8px',
+              color: index <= stepIndex ? 'var(--text)' : 'var(--muted)',
+              fontWeight: s.id === step ? 600 : 400,
+              cursor: 'pointer'
+            }}
+          >
+            {index < stepIndex ? '✓' : index + 1}. {s.label}
+          </button>
+        ))}
+      </div>
+
+      <div className={step === 'preview' ? undefined : 'create-layout'}>
+        <div className="card" style={{ padding: '1.5rem' }}>
+          {step === 'details' && renderDetailsStep()}
+          {step === 'settings' && renderSettingsStep()}
+          {step === 'preview' && renderPreviewStep()}
+
+          {/* Error */}
+          {error && (
+            <div className="error-message" style={{ marginTop: '1.5rem' }}>
+              {error}
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="form-actions" style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            gap: '0.5rem',
+            flexWrap: 'wrap',
+            marginTop: '2rem',
+            paddingTop: '1.5rem',
+            borderTop: '1px solid var(--border)'
+          }}>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              {stepIndex > 0 && (
+                <button type="button" className="btn" onClick={() => goToStep(EVENT_FORM_STEPS[stepIndex - 1].id)}>
+                  ← Back
+                </button>
+              )}
+              {mode === 'create' && draftId && (
+                <button type="button" className="btn" onClick={handleDiscard}>
+                  Discard draft
+                </button>
+              )}
+              {mode === 'edit' && changes.length > 0 && (
+                <button type="button" className="btn" onClick={handleDiscard}>
+                  Discard changes
+                </button>
+              )}
+              {mode === 'edit' && onDelete && (
+                <button type="button" className="btn danger" onClick={onDelete}>
+                  Delete
+                </button>
+              )}
+            </div>
+
+            {step === 'preview' ? (
+              <button
+                type="button"
+                onClick={handleSubmit}
+                disabled={submitting || (mode === 'edit' && changes.length === 0)}
+                className="btn primary"
+                style={{ padding: '0.875rem 2rem' }}
+              >
+                {submitLabel}
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => goToStep(EVENT_FORM_STEPS[stepIndex + 1].id)}
+                className="btn primary"
+                style={{ padding: '0.875rem 2rem' }}
+              >
+                Next: {EVENT_FORM_STEPS[stepIndex + 1].label} →
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Live Preview Column */}
+        {step !== 'preview' && (
+          <div className="preview-column">
+            <EventPreviewCard form={form} sticky />
+          </div>
+        )}
+      </div>
+
+      {/* Responsive styles for preview */}
+      <style jsx>{`
+        .create-layout {
+          display: grid;
+          grid-template-columns: 1fr 380px;
+          gap: 2rem;
+          align-items: start;
+        }
+        .preview-column {
+          display: block;
+        }
+        @media (max-width: 1024px) {
+          .create-layout {
+            grid-template-columns: 1fr;
+          }
+          .preview-column {
+            display: none;
+          }
+        }
+      `}</style>
+    </section>
+  )
+}
+
+export default EventWizard
@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react'
+import { validateFieldValue, FIELD_TYPE_ICONS } from '@/types/sections'
+import { FEEDBACK_RATINGS, type EventFeedback, type EventFeedbackQuestion, type FeedbackInput } from '@/lib/eventFeedback'
+import FieldInput from '@/components/sections/FieldInput'
+import Button from '@/components/ui/Button'
+
+interface FeedbackSurveyModalProps {
+  isOpen: boolean
+  eventTitle: string
+  questions: EventFeedbackQuestion[]
+  existingFeedback: EventFeedback | null
+  isSaving?: boolean
+  onSubmit: (feedback: FeedbackInput) => Promise<void>
+  onClose: () => void
+}
+
+const RATING_LABELS: Record<number, string> = {
+  1: 'Not great',
+  2: 'Could be better',
+  3: 'Good',
+  4: 'Great',
+  5: 'Loved it',
+}
+
+const FeedbackSurveyModal: React.FC<FeedbackSurveyModalProps> = ({
+  isOpen,
+  eventTitle,
+  questions,
+  existingFeedback,
+  isSaving = false,
+  onSubmit,
+  onClose
+}) => {
+  const [rating, setRating] = useState(0)
+  const [hoverRating, setHoverRating] = useState(0)
+  const [wentWell, setWentWell] = useState('')
+  const [answers, setAnswers] = useState<Record<string, string>>({})
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  // Start from the saved response each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setRating(existingFeedback?.rating || 0)
+      setHoverRating(0)
+      setWentWell(existingFeedback?.went_well || '')
+      setAnswers(existingFeedback?.answers || {})
+      setErrors({})
+    }
+  }, [isOpen])
+
+  if (!isOpen) return null
+
+  const handleChange = (questionId: string, value: string) => {
+    setAnswers(prev => ({ ...prev, [questionId]: value }))
+    if (errors[questionId]) {
+      setErrors(prev => {
+        const next = { ...prev }
+        delete next[questionId]
+        return next
+      })
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const newErrors: Record<string, string> = {}
+    if (!rating) newErrors.rating = 'Pick a rating'
+    for (const question of questions) {
+      const validation = validateFieldValue(answers[question.id] ?? question.default_value, question)
+      if (!validation.isValid) {
+        newErrors[question.id] = validation.error || 'Invalid'
+      }
+    }
+
+    setErrors(newErrors)
+    if (Object.keys(newErrors).length > 0) return
+
+    await onSubmit({
+      rating,
+      went_well: wentWell,
+      answers: Object.fromEntries(questions.map(q => [q.id, answers[q.id] ?? q.default_value ?? '']))
+    })
+  }
+
+  const shownRating = hoverRating || rating
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: 'rgba(0, 0, 0, 0.7)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000,
+      padding: '1rem'
+    }}
+    onClick={onClose}
+    >
+      <div
+        style={{
+          background: 'var(--card)',
+          borderRadius: 'var(--radius)',
+          padding: '2rem',
+          maxWidth: '500px',
+          width: '100%',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          border: '1px solid var(--border)'
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0, marginBottom: '0.25rem' }}>How was it?</h2>
+        <p style={{ marginTop: 0, marginBottom: '1.5rem', color: 'var(--muted)', fontSize: '0.9rem' }}>
+          Your feedback on {eventTitle} goes to the hosts
+        </p>
+
+        <form onSubmit={handleSubmit}>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+            <div>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }} onMouseLeave={() => setHoverRating(0)}>
+                {FEEDBACK_RATINGS.map(stars => (
+                  <button
+                    key={stars}
+                    type="button"
+                    onClick={() => {
+                      setRating(stars)
+                      setErrors(prev => {
+                        const next = { ...prev }
+                        delete next.rating
+                        return next
+                      })
+                    }}
+                    onMouseEnter={() => setHoverRating(stars)}
+                    aria-label={`${stars} star${stars === 1 ? '' : 's'}`}
+                    style={{
+                      padding: 0,
+                      border: 'none',
+                      background: 'none',
+                      cursor: 'pointer',
+                      fontSize: '2rem',
+                      lineHeight: 1,
+                      color: stars <= shownRating ? '#f59e0b' : 'var(--border)'
+                    }}
+                  >
+                    ★
+                  </button>
+                ))}
+                {shownRating > 0 && (
+                  <span style={{ marginLeft: '0.5rem', color: 'var(--muted)', fontSize: '0.9rem' }}>
+                    {RATING_LABELS[shownRating]}
+                  </span>
+                )}
+              </div>
+              {errors.rating && (
+                <p style={{ margin: '0.5rem 0 0', fontSize: '0.85rem', color: 'var(--danger)' }}>
+                  {errors.rating}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', fontSize: '0.9rem' }}>
+                What went well?
+              </label>
+              <textarea
+                value={wentWell}
+                onChange={e => setWentWell(e.target.value)}
+                placeholder="Optional"
+                rows={3}
+                maxLength={2000}
+                style={{
+                  width: '100%',
+                  padding: '0.75rem',
+                  borderRadius: '8px',
+                  border: '1px solid var(--border)',
+                  background: 'var(--bg)',
+                  color: 'var(--text)',
+                  fontSize: '0.9rem',
+                  fontFamily: 'inherit',
+                  resize: 'vertical',
+                  boxSizing: 'border-box'
+                }}
+              />
+            </div>
+
+            {questions.map(question => (
+              <div key={question.id}>
+                <label style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '0.5rem',
+                  marginBottom: '0.5rem',
+                  fontWeight: '600',
+                  fontSize: '0.9rem'
+                }}>
+                  <span>{FIELD_TYPE_ICONS[question.field_type]}</span>
+                  {question.field_label}
+                  {question.is_required && <span style={{ color: 'var(--danger)' }}>*</span>}
+                </label>
+
+                <FieldInput
+                  field={question}
+                  value={answers[question.id] ?? question.default_value ?? ''}
+                  hasError={!!errors[question.id]}
+                  onChange={(value) => handleChange(question.id, value)}
+                />
+
+                {errors[question.id] ? (
+                  <p style={{ margin: '0.5rem 0 0', fontSize: '0.85rem', color: 'var(--danger)' }}>
+                    {errors[question.id]}
+                  </p>
+                ) : question.help_text && (
+                  <p style={{ margin: '0.5rem 0 0', fontSize: '0.85rem', color: 'var(--muted)' }}>
+                    {question.help_text}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end', marginTop: '1.5rem' }}>
+            <Button type="button" variant="secondary" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : existingFeedback ? 'Update feedback' : 'Send feedback'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default FeedbackSurveyModal
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react'
+import { validateFieldValue, FIELD_TYPE_ICONS } from '@/types/sections'
+import { type EventRsvpQuestion } from '@/lib/rsvpQuestions'
+import FieldInput from '@/components/sections/FieldInput'
+import Button from '@/components/ui/Button'
+
+interface RsvpQuestionsModalProps {
+  isOpen: boolean
+  eventTitle: string
+  questions: EventRsvpQuestion[]
+  initialAnswers: Record<string, string>
+  submitLabel?: string
+  isSaving?: boolean
+  onSubmit: (answers: Record<string, string>) => Promise<void>
+  onClose: () => void
+}
+
+const RsvpQuestionsModal: React.FC<RsvpQuestionsModalProps> = ({
+  isOpen,
+  eventTitle,
+  questions,
+  initialAnswers,
+  submitLabel = 'RSVP',
+  isSaving = false,
+  onSubmit,
+  onClose
+}) => {
+  const [answers, setAnswers] = useState<Record<string, string>>(initialAnswers)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  // Start from the saved answers each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setAnswers(initialAnswers)
+      setErrors({})
+    }
+  }, [isOpen])
+
+  if (!isOpen) return null
+
+  const handleChange = (questionId: string, value: string) => {
+    setAnswers(prev => ({ ...prev, [questionId]: value }))
+    if (errors[questionId]) {
+      setErrors(prev => {
+        const next = { ...prev }
+        delete next[questionId]
+        return next
+      })
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const newErrors: Record<string, string> = {}
+    for (const question of questions) {
+      const validation = validateFieldValue(answers[question.id] ?? question.default_value, question)
+      if (!validation.isValid) {
+        newErrors[question.id] = validation.error || 'Invalid'
+      }
+    }
+
+    setErrors(newErrors)
+    if (Object.keys(newErrors).length > 0) return
+
+    // Save an entry for every question so defaults the guest left alone are recorded too
+    await onSubmit(Object.fromEntries(
+      questions.map(q => [q.id, answers[q.id] ?? q.default_value ?? ''])
+    ))
+  }
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: 'rgba(0, 0, 0, 0.7)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000,
+      padding: '1rem'
+    }}
+    onClick={onClose}
+    >
+      <div
+        style={{
+          background: 'var(--card)',
+          borderRadius: 'var(--radius)',
+          padding: '2rem',
+          maxWidth: '500px',
+          width: '100%',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          border: '1px solid var(--border)'
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0, marginBottom: '0.25rem' }}>A few questions</h2>
+        <p style={{ marginTop: 0, marginBottom: '1.5rem', color: 'var(--muted)', fontSize: '0.9rem' }}>
+          The hosts of {eventTitle} would like to know
+        </p>
+
+        <form onSubmit={handleSubmit}>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+            {questions.map(question => (
+              <div key={question.id}>
+                <label style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '0.5rem',
+                  marginBottom: '0.5rem',
+                  fontWeight: '600',
+                  fontSize: '0.9rem'
+                }}>
+                  <span>{FIELD_TYPE_ICONS[question.field_type]}</span>
+                  {question.field_label}
+                  {question.is_required && <span style={{ color: 'var(--danger)' }}>*</span>}
+                </label>
+
+                <FieldInput
+                  field={question}
+                  value={answers[question.id] ?? question.default_value ?? ''}
+                  hasError={!!errors[question.id]}
+                  onChange={(value) => handleChange(question.id, value)}
+                />
+
+                {errors[question.id] ? (
+                  <p style={{ margin: '0.5rem 0 0', fontSize: '0.85rem', color: 'var(--danger)' }}>
+                    {errors[question.id]}
+                  </p>
+                ) : question.help_text && (
+                  <p style={{ margin: '0.5rem 0 0', fontSize: '0.85rem', color: 'var(--muted)' }}>
+                    {question.help_text}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end', marginTop: '1.5rem' }}>
+            <Button type="button" variant="secondary" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : submitLabel}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default RsvpQuestionsModal
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react'
+import { loadTemplateSections } from '@/lib/eventTemplates'
+import Button from '@/components/ui/Button'
+
+interface SaveTemplateModalProps {
+  isOpen: boolean
+  userId: string
+  defaultName?: string
+  isSaving?: boolean
+  onSubmit: (name: string, sectionId: string | null) => Promise<void>
+  onClose: () => void
+}
+
+const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({
+  isOpen,
+  userId,
+  defaultName = '',
+  isSaving = false,
+  onSubmit,
+  onClose
+}) => {
+  const [name, setName] = useState('')
+  const [sectionId, setSectionId] = useState('')
+  const [sections, setSections] = useState<{ id: string; name: string }[]>([])
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    setName(defaultName)
+    setSectionId('')
+    loadTemplateSections(userId)
+      .then(setSections)
+      .catch(err => console.error('Error loading sections:', err))
+  }, [isOpen, userId, defaultName])
+
+  if (!isOpen) return null
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+    await onSubmit(name.trim(), sectionId || null)
+  }
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.75rem',
+    borderRadius: '8px',
+    border: '1px solid var(--border)',
+    background: 'var(--bg)',
+    color: 'var(--text)',
+    fontSize: '0.9rem',
+    fontFamily: 'inherit',
+    boxSizing: 'border-box'
+  }
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: 'rgba(0, 0, 0, 0.7)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000,
+      padding: '1rem'
+    }}
+    onClick={onClose}
+    >
+      <div
+        style={{
+          background: 'var(--card)',
+          borderRadius: 'var(--radius)',
+          padding: '2rem',
+          maxWidth: '450px',
+          width: '100%',
+          border: '1px solid var(--border)'
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0, marginBottom: '0.25rem' }}>💾 Save as template</h2>
+        <p style={{ marginTop: 0, marginBottom: '1.5rem', color: 'var(--muted)', fontSize: '0.9rem' }}>
+          Saves the description, location, tags, co-hosts, capacity and RSVP questions. Dates aren't saved.
+        </p>
+
+        <form onSubmit={handleSubmit}>
+          <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', fontSize: '0.9rem' }}>
+            Template name
+          </label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Monthly potluck"
+            maxLength={100}
+            autoFocus
+            style={{ ...inputStyle, marginBottom: '1.25rem' }}
+          />
+
+          <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '600', fontSize: '0.9rem' }}>
+            Share with
+          </label>
+          <select
+            value={sectionId}
+            onChange={(e) => setSectionId(e.target.value)}
+            style={inputStyle}
+          >
+            <option value="">Just me</option>
+            {sections.map(section => (
+              <option key={section.id} value={section.id}>{section.name} members</option>
+            ))}
+          </select>
+
+          <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end', marginTop: '1.5rem' }}>
+            <Button type="button" variant="secondary" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim()}>
+              {isSaving ? 'Saving...' : 'Save Template'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default SaveTemplateModal
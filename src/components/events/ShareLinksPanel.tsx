@@ -0,0 +1,236 @@
+import React, { useEffect, useState } from 'react'
+import { useToast } from '@/contexts/ToastContext'
+import {
+  createShareLink,
+  getShareLinkUrl,
+  isShareLinkActive,
+  loadShareLinks,
+  revokeShareLink,
+  type ShareLink,
+} from '@/lib/shareLinks'
+
+interface ShareLinksPanelProps {
+  eventId: string
+  userId: string
+}
+
+const EXPIRY_OPTIONS = [
+  { value: '', label: 'Never expires' },
+  { value: '1', label: 'Expires in 1 day' },
+  { value: '7', label: 'Expires in 7 days' },
+  { value: '30', label: 'Expires in 30 days' },
+]
+
+// Host tools for "anyone with the link" access to a private event
+const ShareLinksPanel: React.FC<ShareLinksPanelProps> = ({ eventId, userId }) => {
+  const { showSuccess, showError } = useToast()
+  const [links, setLinks] = useState<ShareLink[]>([])
+  const [label, setLabel] = useState('')
+  const [expiryDays, setExpiryDays] = useState('')
+  const [creating, setCreating] = useState(false)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadShareLinks(eventId)
+      .then(setLinks)
+      .catch(err => console.error('Error loading share links:', err))
+  }, [eventId])
+
+  const copyLink = async (link: ShareLink) => {
+    const url = getShareLinkUrl(eventId, link.token)
+    try {
+      await navigator.clipboard.writeText(url)
+      showSuccess('Link copied')
+    } catch (err) {
+      showError('Failed to copy link. Please copy manually: ' + url)
+    }
+  }
+
+  const handleCreate = async () => {
+    setCreating(true)
+    try {
+      const expiresAt = expiryDays
+        ? new Date(Date.now() + Number(expiryDays) * 24 * 60 * 60 * 1000)
+        : null
+      const link = await createShareLink(eventId, userId, { label, expiresAt })
+      setLinks(prev => [link, ...prev])
+      setLabel('')
+      setExpiryDays('')
+      await copyLink(link)
+    } catch (err: any) {
+      console.error('Error creating share link:', err)
+      showError(err.message || 'Failed to create link')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!confirm('Turn off this link? People who joined through it lose access unless they already RSVP\'d.')) return
+
+    setRevokingId(link.id)
+    try {
+      await revokeShareLink(link.id)
+      setLinks(prev => prev.map(l => l.id === link.id ? { ...l, revoked_at: new Date().toISOString() } : l))
+      showSuccess('Link turned off')
+    } catch (err: any) {
+      console.error('Error revoking share link:', err)
+      showError(err.message || 'Failed to turn off link')
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const describeLink = (link: ShareLink) => {
+    if (link.revoked_at) return `Turned off ${new Date(link.revoked_at).toLocaleDateString()}`
+    if (link.expires_at && !isShareLinkActive(link)) return `Expired ${new Date(link.expires_at).toLocaleDateString()}`
+    if (link.expires_at) return `Expires ${new Date(link.expires_at).toLocaleDateString()}`
+    return 'Never expires'
+  }
+
+  return (
+    <div style={{ marginTop: '1.25rem' }}>
+      <div style={styles.heading}>🔗 Secret links</div>
+      <p style={styles.hint}>
+        Anyone who opens a secret link can see this private event and RSVP. Turn a link off to stop it working.
+      </p>
+
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+        <input
+          type="text"
+          value={label}
+          onChange={e => setLabel(e.target.value)}
+          placeholder="Label, e.g. Climbing group chat"
+          maxLength={80}
+          style={{ ...styles.input, flex: '1 1 180px' }}
+        />
+        <select
+          value={expiryDays}
+          onChange={e => setExpiryDays(e.target.value)}
+          style={{ ...styles.input, flex: '0 1 170px' }}
+        >
+          {EXPIRY_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleCreate}
+          disabled={creating}
+          style={{ ...styles.action, background: 'var(--primary)', color: 'white', border: 'none', opacity: creating ? 0.6 : 1 }}
+        >
+          {creating ? 'Creating...' : 'Create & copy'}
+        </button>
+      </div>
+
+      {links.length > 0 && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', marginTop: '0.75rem' }}>
+          {links.map(link => {
+            const active = isShareLinkActive(link)
+            return (
+              <div key={link.id} style={{ ...styles.row, opacity: active ? 1 : 0.6 }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                  <div style={{ flex: 1, minWidth: 0 }}>
+                    <div style={{ fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                      {link.label || 'Untitled link'}
+                    </div>
+                    <div style={{ fontSize: '0.75rem', color: 'var(--muted)' }}>
+                      {describeLink(link)}
+                      {' · '}
+                      <button
+                        onClick={() => setExpandedId(expandedId === link.id ? null : link.id)}
+                        disabled={link.joins.length === 0}
+                        style={styles.joinsToggle}
+                      >
+                        {link.joins.length} joined
+                      </button>
+                    </div>
+                  </div>
+                  {active && (
+                    <>
+                      <button onClick={() => copyLink(link)} style={styles.action}>Copy</button>
+                      <button
+                        onClick={() => handleRevoke(link)}
+                        disabled={revokingId === link.id}
+                        style={{ ...styles.action, color: 'var(--danger)' }}
+                      >
+                        {revokingId === link.id ? 'Turning off...' : 'Turn off'}
+                      </button>
+                    </>
+                  )}
+                </div>
+
+                {expandedId === link.id && (
+                  <ul style={styles.joinList}>
+                    {link.joins.map(join => (
+                      <li key={join.user_id}>
+                        {join.profile?.full_name || join.profile?.email || 'Unknown user'}
+                        <span style={{ color: 'var(--muted)' }}> · {new Date(join.joined_at).toLocaleDateString()}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+const styles: { [key: string]: React.CSSProperties } = {
+  heading: {
+    fontSize: '0.95rem',
+    fontWeight: 600,
+    marginBottom: '0.25rem',
+  },
+  hint: {
+    fontSize: '0.8rem',
+    color: 'var(--muted)',
+    marginBottom: '0.75rem',
+  },
+  input: {
+    padding: '0.6rem 0.75rem',
+    borderRadius: '8px',
+    border: '1px solid var(--border)',
+    background: 'var(--bg)',
+    color: 'var(--text)',
+    fontSize: '0.875rem',
+    fontFamily: 'inherit',
+  },
+  action: {
+    padding: '0.5rem 0.75rem',
+    borderRadius: '8px',
+    border: '1px solid var(--border)',
+    background: 'var(--bg)',
+    color: 'var(--text)',
+    fontSize: '0.8rem',
+    fontWeight: 600,
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
+  row: {
+    padding: '0.75rem',
+    borderRadius: '8px',
+    border: '1px solid var(--border)',
+    background: 'var(--bg)',
+    fontSize: '0.875rem',
+  },
+  joinsToggle: {
+    padding: 0,
+    border: 'none',
+    background: 'none',
+    color: 'inherit',
+    fontSize: 'inherit',
+    textDecoration: 'underline',
+    cursor: 'pointer',
+  },
+  joinList: {
+    margin: '0.5rem 0 0',
+    paddingLeft: '1.25rem',
+    fontSize: '0.8rem',
+  },
+}
+
+export default ShareLinksPanel
@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react'
+import Button from '@/components/ui/Button'
+import {
+  describeTicketPrice,
+  formatPrice,
+  getTicketsLeft,
+  type EventTicketType,
+} from '@/lib/tickets'
+
+export interface TicketCheckoutSelection {
+  ticketTypeId: string
+  quantity: number
+  amountCents: number | null
+}
+
+interface TicketCheckoutModalProps {
+  isOpen: boolean
+  eventTitle: string
+  ticketTypes: EventTicketType[]
+  maxGuests: number
+  // Spots left at the event (heads), or null when it has no capacity limit
+  openSpots: number | null
+  // Someone whose waitlist spot is being held can buy even when the event looks full
+  hasHeldSpot?: boolean
+  waitlistEnabled?: boolean
+  isSubmitting?: boolean
+  onCheckout: (selection: TicketCheckoutSelection) => Promise<void>
+  onJoinWaitlist: (guestCount: number) => Promise<void>
+  onClose: () => void
+}
+
+const TicketCheckoutModal: React.FC<TicketCheckoutModalProps> = ({
+  isOpen,
+  eventTitle,
+  ticketTypes,
+  maxGuests,
+  openSpots,
+  hasHeldSpot = false,
+  waitlistEnabled = false,
+  isSubmitting = false,
+  onCheckout,
+  onJoinWaitlist,
+  onClose
+}) => {
+  const [ticketTypeId, setTicketTypeId] = useState('')
+  const [quantity, setQuantity] = useState(1)
+  const [donation, setDonation] = useState('')
+
+  useEffect(() => {
+    if (isOpen) {
+      const firstAvailable = ticketTypes.find(t => getTicketsLeft(t) !== 0)
+      setTicketTypeId(firstAvailable?.id || '')
+      setQuantity(1)
+      setDonation('')
+    }
+  }, [isOpen])
+
+  if (!isOpen) return null
+
+  const selected = ticketTypes.find(t => t.id === ticketTypeId) || null
+  const ticketsLeft = selected ? getTicketsLeft(selected) : null
+  const eventFull = !hasHeldSpot && openSpots !== null && openSpots < quantity
+  const maxQuantity = Math.max(1, Math.min(
+    1 + maxGuests,
+    ticketsLeft ?? Infinity,
+  ))
+
+  const minimumCents = selected ? selected.price_cents * quantity : 0
+  const donationCents = donation ? Math.round((parseFloat(donation) || 0) * 100) : null
+  const totalCents = !selected || selected.kind === 'free'
+    ? 0
+    : selected.kind === 'donation'
+      ? donationCents ?? minimumCents
+      : minimumCents
+  const donationTooLow = selected?.kind === 'donation' && totalCents < minimumCents
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selected || donationTooLow) return
+
+    if (eventFull) {
+      await onJoinWaitlist(quantity - 1)
+      return
+    }
+
+    await onCheckout({
+      ticketTypeId: selected.id,
+      quantity,
+      amountCents: selected.kind === 'donation' ? totalCents : null,
+    })
+  }
+
+  const submitLabel = eventFull
+    ? 'Join waitlist'
+    : totalCents > 0
+      ? `Pay ${formatPrice(totalCents, selected?.currency)}`
+      : quantity > 1 ? `Get ${quantity} tickets` : 'Get ticket'
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: 'rgba(0, 0, 0, 0.7)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000,
+      padding: '1rem'
+    }}
+    onClick={onClose}
+    >
+      <div
+        style={{
+          background: 'var(--card)',
+          borderRadius: 'var(--radius)',
+          padding: '2rem',
+          maxWidth: '500px',
+          width: '100%',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          border: '1px solid var(--border)'
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0, marginBottom: '0.25rem' }}>Get tickets</h2>
+        <p style={{ marginTop: 0, marginBottom: '1.5rem', color: 'var(--muted)', fontSize: '0.9rem' }}>
+          {eventTitle}
+        </p>
+
+        <form onSubmit={handleSubmit}>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+            {ticketTypes.map(ticket => {
+              const left = getTicketsLeft(ticket)
+              const soldOut = left === 0
+              return (
+                <label
+                  key={ticket.id}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'flex-start',
+                    gap: '0.75rem',
+                    padding: '0.75rem',
+                    borderRadius: '8px',
+                    border: ticket.id === ticketTypeId ? '2px solid var(--primary)' : '1px solid var(--border)',
+                    cursor: soldOut ? 'not-allowed' : 'pointer',
+                    opacity: soldOut ? 0.5 : 1
+                  }}
+                >
+                  <input
+                    type="radio"
+                    name="ticket-type"
+                    checked={ticket.id === ticketTypeId}
+                    disabled={soldOut}
+                    onChange={() => {
+                      setTicketTypeId(ticket.id)
+                      setQuantity(1)
+                    }}
+                    style={{ accentColor: 'var(--primary)', marginTop: '0.2rem' }}
+                  />
+                  <div style={{ flex: 1 }}>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem', fontWeight: 600 }}>
+                      <span>{ticket.name}</span>
+                      <span>{describeTicketPrice(ticket)}</span>
+                    </div>
+                    <div style={{ fontSize: '0.8rem', color: 'var(--muted)' }}>
+                      {ticket.kind === 'member' && ticket.section && `Members of ${ticket.section.name}. `}
+                      {ticket.description}
+                      {soldOut ? ' Sold out' : left !== null && left <= 10 ? ` ${left} left` : ''}
+                    </div>
+                  </div>
+                </label>
+              )
+            })}
+          </div>
+
+          {selected && maxQuantity > 1 && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginTop: '1.25rem' }}>
+              <span style={{ fontWeight: 600, fontSize: '0.9rem' }}>Tickets</span>
+              <button
+                type="button"
+                className="btn small"
+                onClick={() => setQuantity(Math.max(1, quantity - 1))}
+                disabled={quantity <= 1}
+              >
+                −
+              </button>
+              <span style={{ minWidth: '1.5rem', textAlign: 'center' }}>{quantity}</span>
+              <button
+                type="button"
+                className="btn small"
+                onClick={() => setQuantity(Math.min(maxQuantity, quantity + 1))}
+                disabled={quantity >= maxQuantity}
+              >
+                +
+              </button>
+              <span style={{ color: 'var(--muted)', fontSize: '0.8rem' }}>you plus up to {maxQuantity - 1} guest{maxQuantity === 2 ? '' : 's'}</span>
+            </div>
+          )}
+
+          {selected?.kind === 'donation' && !eventFull && (
+            <div style={{ marginTop: '1.25rem' }}>
+              <label style={{ display: 'block', fontWeight: 600, fontSize: '0.9rem', marginBottom: '0.5rem' }}>
+                Your contribution ($)
+              </label>
+              <input
+                type="number"
+                value={donation}
+                onChange={(e) => setDonation(e.target.value)}
+                placeholder={(minimumCents / 100).toString()}
+                min={minimumCents / 100}
+                step="0.01"
+                style={{ width: '100%' }}
+              />
+              {donationTooLow && (
+                <p style={{ margin: '0.5rem 0 0', fontSize: '0.85rem', color: 'var(--danger)' }}>
+                  The minimum is {formatPrice(minimumCents, selected.currency)}
+                </p>
+              )}
+            </div>
+          )}
+
+          {eventFull && (
+            <p style={{ marginTop: '1.25rem', marginBottom: 0, fontSize: '0.9rem', color: 'var(--muted)' }}>
+              {waitlistEnabled
+                ? 'This event is full. Join the waitlist and you\'ll be offered a spot to buy if one opens up.'
+                : 'This event is full.'}
+            </p>
+          )}
+
+          <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end', marginTop: '1.5rem' }}>
+            <Button type="button" variant="secondary" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSubmitting || !selected || donationTooLow || (eventFull && !waitlistEnabled)}
+            >
+              {isSubmitting ? 'Processing...' : submitLabel}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default TicketCheckoutModal
@@ -0,0 +1,375 @@
+import React, { useEffect, useState } from 'react'
+import { useToast } from '@/contexts/ToastContext'
+import { loadTemplateSections } from '@/lib/eventTemplates'
+import {
+  TICKET_KINDS,
+  createTicketType,
+  deleteTicketType,
+  describeTicketPrice,
+  formatPrice,
+  loadEventTicketOrders,
+  refundCancelledEvent,
+  refundTicketOrder,
+  updateTicketType,
+  type EventTicketOrder,
+  type EventTicketType,
+  type TicketKind,
+  type TicketTypeInput,
+} from '@/lib/tickets'
+
+interface TicketTypesPanelProps {
+  eventId: string
+  userId: string
+  eventStatus?: string
+  ticketTypes: EventTicketType[]
+  onTicketTypesChange: (ticketTypes: EventTicketType[]) => void
+}
+
+interface TicketDraft {
+  name: string
+  description: string
+  kind: TicketKind
+  // Dollars as typed, converted to cents on save
+  price: string
+  quantity: string
+  section_id: string
+}
+
+const EMPTY_DRAFT: TicketDraft = { name: '', description: '', kind: 'paid', price: '', quantity: '', section_id: '' }
+
+const toDraft = (ticket: EventTicketType): TicketDraft => ({
+  name: ticket.name,
+  description: ticket.description || '',
+  kind: ticket.kind,
+  price: ticket.price_cents ? (ticket.price_cents / 100).toString() : '',
+  quantity: ticket.quantity ? ticket.quantity.toString() : '',
+  section_id: ticket.section_id || '',
+})
+
+// Host tools for ticket types, and the orders taken for them
+const TicketTypesPanel: React.FC<TicketTypesPanelProps> = ({
+  eventId,
+  userId,
+  eventStatus,
+  ticketTypes,
+  onTicketTypesChange,
+}) => {
+  const { showSuccess, showError } = useToast()
+  const [orders, setOrders] = useState<EventTicketOrder[]>([])
+  const [sections, setSections] = useState<{ id: string; name: string }[]>([])
+  const [draft, setDraft] = useState<TicketDraft | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [refundingId, setRefundingId] = useState<string | null>(null)
+  const [showOrders, setShowOrders] = useState(false)
+
+  useEffect(() => {
+    loadOrders()
+    loadTemplateSections(userId)
+      .then(setSections)
+      .catch(err => console.error('Error loading sections:', err))
+  }, [eventId, userId])
+
+  const loadOrders = () =>
+    loadEventTicketOrders(eventId)
+      .then(setOrders)
+      .catch(err => console.error('Error loading ticket orders:', err))
+
+  const paidOrders = orders.filter(o => o.status === 'paid')
+  const revenueCents = paidOrders.reduce((sum, o) => sum + o.amount_cents, 0)
+
+  const startEditing = (ticket: EventTicketType | null) => {
+    setEditingId(ticket ? ticket.id : null)
+    setDraft(ticket ? toDraft(ticket) : EMPTY_DRAFT)
+  }
+
+  const handleSave = async () => {
+    if (!draft) return
+    const priceCents = Math.round((parseFloat(draft.price) || 0) * 100)
+
+    if (!draft.name.trim()) {
+      showError('Give the ticket a name')
+      return
+    }
+    if ((draft.kind === 'paid' || draft.kind === 'member') && priceCents <= 0) {
+      showError('Set a price for this ticket')
+      return
+    }
+    if (draft.kind === 'member' && !draft.section_id) {
+      showError('Choose which section\'s members get this price')
+      return
+    }
+
+    const input: TicketTypeInput = {
+      name: draft.name,
+      description: draft.description,
+      kind: draft.kind,
+      price_cents: priceCents,
+      quantity: draft.quantity ? Math.max(1, parseInt(draft.quantity)) : null,
+      section_id: draft.section_id || null,
+    }
+
+    setSaving(true)
+    try {
+      if (editingId) {
+        const updated = await updateTicketType(editingId, input)
+        onTicketTypesChange(ticketTypes.map(t => t.id === editingId ? updated : t))
+      } else {
+        const created = await createTicketType(eventId, input, ticketTypes.length)
+        onTicketTypesChange([...ticketTypes, created])
+      }
+      setDraft(null)
+      setEditingId(null)
+    } catch (err: any) {
+      console.error('Error saving ticket type:', err)
+      showError(err.message || 'Failed to save ticket')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (ticket: EventTicketType) => {
+    if (!confirm(`Delete the "${ticket.name}" ticket?`)) return
+    try {
+      await deleteTicketType(ticket.id)
+      onTicketTypesChange(ticketTypes.filter(t => t.id !== ticket.id))
+    } catch (err: any) {
+      console.error('Error deleting ticket type:', err)
+      showError(err.message || 'Failed to delete ticket')
+    }
+  }
+
+  const handleRefund = async (order: EventTicketOrder) => {
+    const buyer = order.profile?.full_name || order.profile?.email || 'this guest'
+    if (!confirm(`Refund ${formatPrice(order.amount_cents, order.currency)} to ${buyer}? Their RSVP will be cancelled.`)) return
+
+    setRefundingId(order.id)
+    try {
+      await refundTicketOrder(order.id)
+      showSuccess('Ticket refunded')
+      await loadOrders()
+    } catch (err: any) {
+      console.error('Error refunding ticket:', err)
+      showError(err.message || 'Failed to refund ticket')
+    } finally {
+      setRefundingId(null)
+    }
+  }
+
+  const handleRefundAll = async () => {
+    if (!confirm(`Refund all ${paidOrders.length} tickets for this cancelled event?`)) return
+
+    setRefundingId('all')
+    try {
+      const refunded = await refundCancelledEvent(eventId)
+      showSuccess(`Refunded ${refunded} ticket order${refunded === 1 ? '' : 's'}`)
+      await loadOrders()
+    } catch (err: any) {
+      console.error('Error refunding event:', err)
+      showError(err.message || 'Failed to refund tickets')
+    } finally {
+      setRefundingId(null)
+    }
+  }
+
+  const renderForm = () => draft && (
+    <div style={{ ...styles.row, display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+      <input
+        type="text"
+        value={draft.name}
+        onChange={e => setDraft({ ...draft, name: e.target.value })}
+        placeholder="Ticket name, e.g. General admission"
+        maxLength={100}
+        style={styles.input}
+      />
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+        {TICKET_KINDS.map(kind => (
+          <button
+            key={kind.value}
+            type="button"
+            title={kind.description}
+            onClick={() => setDraft({ ...draft, kind: kind.value })}
+            className={`chip ${draft.kind === kind.value ? 'active' : ''}`}
+          >
+            {kind.label}
+          </button>
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+        {draft.kind !== 'free' && (
+          <input
+            type="number"
+            value={draft.price}
+            onChange={e => setDraft({ ...draft, price: e.target.value })}
+            placeholder={draft.kind === 'donation' ? 'Minimum ($, optional)' : 'Price ($)'}
+            min={0}
+            step="0.01"
+            style={{ ...styles.input, flex: '1 1 120px' }}
+          />
+        )}
+        <input
+          type="number"
+          value={draft.quantity}
+          onChange={e => setDraft({ ...draft, quantity: e.target.value })}
+          placeholder="How many (blank = unlimited)"
+          min={1}
+          style={{ ...styles.input, flex: '1 1 160px' }}
+        />
+        {draft.kind === 'member' && (
+          <select
+            value={draft.section_id}
+            onChange={e => setDraft({ ...draft, section_id: e.target.value })}
+            style={{ ...styles.input, flex: '1 1 160px' }}
+          >
+            <option value="">Members of...</option>
+            {sections.map(section => (
+              <option key={section.id} value={section.id}>{section.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+      <input
+        type="text"
+        value={draft.description}
+        onChange={e => setDraft({ ...draft, description: e.target.value })}
+        placeholder="What's included (optional)"
+        style={styles.input}
+      />
+      <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+        <button onClick={() => { setDraft(null); setEditingId(null) }} style={styles.action}>Cancel</button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          style={{ ...styles.action, background: 'var(--primary)', color: 'white', border: 'none', opacity: saving ? 0.6 : 1 }}
+        >
+          {saving ? 'Saving...' : editingId ? 'Save ticket' : 'Add ticket'}
+        </button>
+      </div>
+    </div>
+  )
+
+  return (
+    <div style={{ marginTop: '1.25rem' }}>
+      <div style={styles.heading}>🎟️ Tickets</div>
+      <p style={styles.hint}>
+        {ticketTypes.length === 0
+          ? 'Add a ticket to sell spots at this event. Once it has tickets, guests need one to RSVP going.'
+          : `${paidOrders.reduce((sum, o) => sum + o.quantity, 0)} sold · ${formatPrice(revenueCents)} collected`}
+      </p>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+        {ticketTypes.map(ticket => editingId === ticket.id ? (
+          <React.Fragment key={ticket.id}>{renderForm()}</React.Fragment>
+        ) : (
+          <div key={ticket.id} style={{ ...styles.row, display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{ fontWeight: 600 }}>
+                {ticket.name} · {describeTicketPrice(ticket)}
+              </div>
+              <div style={{ fontSize: '0.75rem', color: 'var(--muted)' }}>
+                {ticket.sold_count}{ticket.quantity !== null ? ` / ${ticket.quantity}` : ''} sold
+                {ticket.kind === 'member' && ticket.section && ` · members of ${ticket.section.name}`}
+              </div>
+            </div>
+            <button onClick={() => startEditing(ticket)} style={styles.action}>Edit</button>
+            <button onClick={() => handleDelete(ticket)} style={{ ...styles.action, color: 'var(--danger)' }}>Delete</button>
+          </div>
+        ))}
+
+        {draft && !editingId ? renderForm() : !draft && (
+          <button onClick={() => startEditing(null)} style={{ ...styles.action, alignSelf: 'flex-start' }}>
+            + Add ticket type
+          </button>
+        )}
+      </div>
+
+      {orders.length > 0 && (
+        <div style={{ marginTop: '0.75rem' }}>
+          <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+            <button onClick={() => setShowOrders(!showOrders)} style={styles.action}>
+              {showOrders ? 'Hide orders' : `Orders (${orders.length})`}
+            </button>
+            {eventStatus === 'cancelled' && paidOrders.length > 0 && (
+              <button
+                onClick={handleRefundAll}
+                disabled={refundingId === 'all'}
+                style={{ ...styles.action, color: 'var(--danger)' }}
+              >
+                {refundingId === 'all' ? 'Refunding...' : 'Refund everyone'}
+              </button>
+            )}
+          </div>
+
+          {showOrders && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', marginTop: '0.5rem' }}>
+              {orders.map(order => (
+                <div key={order.id} style={{ ...styles.row, display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                  <div style={{ flex: 1, minWidth: 0 }}>
+                    <div style={{ fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                      {order.profile?.full_name || order.profile?.email || 'Unknown user'}
+                    </div>
+                    <div style={{ fontSize: '0.75rem', color: 'var(--muted)' }}>
+                      {order.quantity} × {order.ticket_type?.name || 'ticket'} · {formatPrice(order.amount_cents, order.currency)}
+                      {order.status === 'refunded' && order.refunded_at && ` · refunded ${new Date(order.refunded_at).toLocaleDateString()}`}
+                    </div>
+                  </div>
+                  {order.status === 'paid' && (
+                    <button
+                      onClick={() => handleRefund(order)}
+                      disabled={refundingId === order.id}
+                      style={{ ...styles.action, color: 'var(--danger)' }}
+                    >
+                      {refundingId === order.id ? 'Refunding...' : 'Refund'}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+const styles: { [key: string]: React.CSSProperties } = {
+  heading: {
+    fontSize: '0.95rem',
+    fontWeight: 600,
+    marginBottom: '0.25rem',
+  },
+  hint: {
+    fontSize: '0.8rem',
+    color: 'var(--muted)',
+    marginBottom: '0.75rem',
+  },
+  input: {
+    padding: '0.6rem 0.75rem',
+    borderRadius: '8px',
+    border: '1px solid var(--border)',
+    background: 'var(--bg)',
+    color: 'var(--text)',
+    fontSize: '0.875rem',
+    fontFamily: 'inherit',
+  },
+  action: {
+    padding: '0.5rem 0.75rem',
+    borderRadius: '8px',
+    border: '1px solid var(--border)',
+    background: 'var(--bg)',
+    color: 'var(--text)',
+    fontSize: '0.8rem',
+    fontWeight: 600,
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
+  row: {
+    padding: '0.75rem',
+    borderRadius: '8px',
+    border: '1px solid var(--border)',
+    background: 'var(--bg)',
+    fontSize: '0.875rem',
+  },
+}
+
+export default TicketTypesPanel
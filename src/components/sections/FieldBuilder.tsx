@@ -1,6 +1,6 @@
 import React, { useState } from 'react'
 import { 
-  SectionProfileField, 
+  ConfigurableField, 
   FieldType, 
   FieldOption,
   FIELD_TYPE_LABELS, 
@@ -9,14 +9,17 @@ import {
 import Button from '@/components/ui/Button'
 
 interface FieldBuilderProps {
-  fields: SectionProfileField[]
-  onSave: (fields: Partial<SectionProfileField>[]) => Promise<void>
+  fields: ConfigurableField[]
+  onSave: (fields: Partial<ConfigurableField>[]) => Promise<void>
   onCancel: () => void
   isSaving?: boolean
   sectionName: string
+  // Override the section profile wording when building other kinds of forms
+  title?: string
+  description?: string
 }
 
-interface EditableField extends Partial<SectionProfileField> {
+interface EditableField extends Partial<ConfigurableField> {
   _tempId: string
   _isNew?: boolean
   _isDeleted?: boolean
@@ -27,7 +30,9 @@ const FieldBuilder: React.FC<FieldBuilderProps> = ({
   onSave,
   onCancel,
   isSaving = false,
-  sectionName
+  sectionName,
+  title,
+  description
 }) => {
   const [editableFields, setEditableFields] = useState<EditableField[]>(
     fields.map(f => ({ ...f, _tempId: f.id }))
@@ -143,10 +148,10 @@ const FieldBuilder: React.FC<FieldBuilderProps> = ({
         borderBottom: '1px solid var(--border)'
       }}>
         <h2 style={{ margin: 0, fontSize: '1.25rem', color: 'var(--text)' }}>
-          📋 Profile Fields for {sectionName}
+          📋 {title || `Profile Fields for ${sectionName}`}
         </h2>
         <p style={{ margin: '0.5rem 0 0', fontSize: '0.9rem', color: 'var(--muted)' }}>
-          Define what information members should share in their section profile. 
+          {description || 'Define what information members should share in their section profile.'} 
           Drag fields to reorder them.
         </p>
       </div>
@@ -0,0 +1,196 @@
+import React from 'react'
+import { ConfigurableField } from '@/types/sections'
+
+interface FieldInputProps {
+  field: ConfigurableField
+  value: string
+  hasError?: boolean
+  onChange: (value: string) => void
+  onBlur?: () => void
+}
+
+// Input control for a configurable field; multi-values are stored comma-separated
+const FieldInput: React.FC<FieldInputProps> = ({
+  field,
+  value,
+  hasError = false,
+  onChange,
+  onBlur
+}) => {
+  const baseInputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.75rem 1rem',
+    borderRadius: '8px',
+    border: `2px solid ${hasError ? 'var(--danger)' : 'var(--border)'}`,
+    background: 'var(--bg-2)',
+    color: 'var(--text)',
+    fontSize: '1rem',
+    transition: 'border-color 0.2s, box-shadow 0.2s',
+    outline: 'none'
+  }
+  
+  switch (field.field_type) {
+    case 'textarea':
+      return (
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={onBlur}
+          placeholder={field.placeholder}
+          rows={4}
+          style={baseInputStyle}
+          maxLength={field.max_length}
+        />
+      )
+      
+    case 'select':
+      return (
+        <select
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={onBlur}
+          style={{ ...baseInputStyle, cursor: 'pointer' }}
+        >
+          <option value="">{field.placeholder || 'Select an option...'}</option>
+          {field.field_options.map(opt => (
+            <option key={opt.value} value={opt.value}>{opt.label}</option>
+          ))}
+        </select>
+      )
+      
+    case 'multiselect':
+      const selectedValues = value ? value.split(',').map(v => v.trim()) : []
+      return (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+          {field.field_options.map(opt => {
+            const isSelected = selectedValues.includes(opt.value)
+            return (
+              <button
+                key={opt.value}
+                type="button"
+                onClick={() => {
+                  const newValues = isSelected
+                    ? selectedValues.filter(v => v !== opt.value)
+                    : [...selectedValues, opt.value]
+                  onChange(newValues.join(','))
+                }}
+                style={{
+                  padding: '0.5rem 1rem',
+                  borderRadius: '20px',
+                  border: `2px solid ${isSelected ? 'var(--primary)' : 'var(--border)'}`,
+                  background: isSelected ? 'var(--primary)' : 'var(--bg-2)',
+                  color: isSelected ? 'white' : 'var(--text)',
+                  cursor: 'pointer',
+                  fontSize: '0.9rem',
+                  transition: 'all 0.2s'
+                }}
+              >
+                {isSelected && '✓ '}{opt.label}
+              </button>
+            )
+          })}
+        </div>
+      )
+      
+    case 'checkbox':
+      return (
+        <label style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '0.75rem',
+          padding: '1rem',
+          background: 'var(--bg-2)',
+          borderRadius: '8px',
+          border: '2px solid var(--border)',
+          cursor: 'pointer',
+          transition: 'border-color 0.2s'
+        }}>
+          <input
+            type="checkbox"
+            checked={value === 'true'}
+            onChange={(e) => onChange(e.target.checked ? 'true' : 'false')}
+            style={{
+              width: '20px',
+              height: '20px',
+              accentColor: 'var(--primary)'
+            }}
+          />
+          <span style={{ color: 'var(--text)' }}>Yes</span>
+        </label>
+      )
+      
+    case 'number':
+      return (
+        <input
+          type="number"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={onBlur}
+          placeholder={field.placeholder}
+          style={baseInputStyle}
+        />
+      )
+      
+    case 'date':
+      return (
+        <input
+          type="date"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={onBlur}
+          style={{ ...baseInputStyle, cursor: 'pointer' }}
+        />
+      )
+      
+    case 'url':
+      return (
+        <input
+          type="url"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={onBlur}
+          placeholder={field.placeholder || 'https://...'}
+          style={baseInputStyle}
+        />
+      )
+      
+    case 'email':
+      return (
+        <input
+          type="email"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={onBlur}
+          placeholder={field.placeholder || 'email@example.com'}
+          style={baseInputStyle}
+        />
+      )
+      
+    case 'phone':
+      return (
+        <input
+          type="tel"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={onBlur}
+          placeholder={field.placeholder || '(555) 123-4567'}
+          style={baseInputStyle}
+        />
+      )
+      
+    default: // text
+      return (
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={onBlur}
+          placeholder={field.placeholder}
+          style={baseInputStyle}
+          maxLength={field.max_length}
+        />
+      )
+  }
+}
+
+export default FieldInput
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react'
 import { SectionProfileField, SectionProfileData, validateFieldValue, FIELD_TYPE_ICONS } from '@/types/sections'
 import Button from '@/components/ui/Button'
+import FieldInput from '@/components/sections/FieldInput'
 
 interface SectionProfileEditorProps {
   sectionName: string
@@ -71,187 +72,6 @@ const SectionProfileEditor: React.FC<SectionProfileEditorProps> = ({
     }
   }
   
-  const renderField = (field: SectionProfileField) => {
-    const value = formData[field.id] ?? field.default_value ?? ''
-    const error = touched[field.id] ? errors[field.id] : undefined
-    const hasError = !!error
-    
-    const baseInputStyle: React.CSSProperties = {
-      width: '100%',
-      padding: '0.75rem 1rem',
-      borderRadius: '8px',
-      border: `2px solid ${hasError ? 'var(--danger)' : 'var(--border)'}`,
-      background: 'var(--bg-2)',
-      color: 'var(--text)',
-      fontSize: '1rem',
-      transition: 'border-color 0.2s, box-shadow 0.2s',
-      outline: 'none'
-    }
-    
-    switch (field.field_type) {
-      case 'textarea':
-        return (
-          <textarea
-            value={value}
-            onChange={(e) => handleChange(field.id, e.target.value)}
-            onBlur={() => handleBlur(field)}
-            placeholder={field.placeholder}
-            rows={4}
-            style={baseInputStyle}
-            maxLength={field.max_length}
-          />
-        )
-        
-      case 'select':
-        return (
-          <select
-            value={value}
-            onChange={(e) => handleChange(field.id, e.target.value)}
-            onBlur={() => handleBlur(field)}
-            style={{ ...baseInputStyle, cursor: 'pointer' }}
-          >
-            <option value="">{field.placeholder || 'Select an option...'}</option>
-            {field.field_options.map(opt => (
-              <option key={opt.value} value={opt.value}>{opt.label}</option>
-            ))}
-          </select>
-        )
-        
-      case 'multiselect':
-        const selectedValues = value ? value.split(',').map(v => v.trim()) : []
-        return (
-          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
-            {field.field_options.map(opt => {
-              const isSelected = selectedValues.includes(opt.value)
-              return (
-                <button
-                  key={opt.value}
-                  type="button"
-                  onClick={() => {
-                    const newValues = isSelected
-                      ? selectedValues.filter(v => v !== opt.value)
-                      : [...selectedValues, opt.value]
-                    handleChange(field.id, newValues.join(','))
-                  }}
-                  style={{
-                    padding: '0.5rem 1rem',
-                    borderRadius: '20px',
-                    border: `2px solid ${isSelected ? 'var(--primary)' : 'var(--border)'}`,
-                    background: isSelected ? 'var(--primary)' : 'var(--bg-2)',
-                    color: isSelected ? 'white' : 'var(--text)',
-                    cursor: 'pointer',
-                    fontSize: '0.9rem',
-                    transition: 'all 0.2s'
-                  }}
-                >
-                  {isSelected && '✓ '}{opt.label}
-                </button>
-              )
-            })}
-          </div>
-        )
-        
-      case 'checkbox':
-        return (
-          <label style={{
-            display: 'flex',
-            alignItems: 'center',
-            gap: '0.75rem',
-            padding: '1rem',
-            background: 'var(--bg-2)',
-            borderRadius: '8px',
-            border: '2px solid var(--border)',
-            cursor: 'pointer',
-            transition: 'border-color 0.2s'
-          }}>
-            <input
-              type="checkbox"
-              checked={value === 'true'}
-              onChange={(e) => handleChange(field.id, e.target.checked ? 'true' : 'false')}
-              style={{
-                width: '20px',
-                height: '20px',
-                accentColor: 'var(--primary)'
-              }}
-            />
-            <span style={{ color: 'var(--text)' }}>Yes</span>
-          </label>
-        )
-        
-      case 'number':
-        return (
-          <input
-            type="number"
-            value={value}
-            onChange={(e) => handleChange(field.id, e.target.value)}
-            onBlur={() => handleBlur(field)}
-            placeholder={field.placeholder}
-            style={baseInputStyle}
-          />
-        )
-        
-      case 'date':
-        return (
-          <input
-            type="date"
-            value={value}
-            onChange={(e) => handleChange(field.id, e.target.value)}
-            onBlur={() => handleBlur(field)}
-            style={{ ...baseInputStyle, cursor: 'pointer' }}
-          />
-        )
-        
-      case 'url':
-        return (
-          <input
-            type="url"
-            value={value}
-            onChange={(e) => handleChange(field.id, e.target.value)}
-            onBlur={() => handleBlur(field)}
-            placeholder={field.placeholder || 'https://...'}
-            style={baseInputStyle}
-          />
-        )
-        
-      case 'email':
-        return (
-          <input
-            type="email"
-            value={value}
-            onChange={(e) => handleChange(field.id, e.target.value)}
-            onBlur={() => handleBlur(field)}
-            placeholder={field.placeholder || 'email@example.com'}
-            style={baseInputStyle}
-          />
-        )
-        
-      case 'phone':
-        return (
-          <input
-            type="tel"
-            value={value}
-            onChange={(e) => handleChange(field.id, e.target.value)}
-            onBlur={() => handleBlur(field)}
-            placeholder={field.placeholder || '(555) 123-4567'}
-            style={baseInputStyle}
-          />
-        )
-        
-      default: // text
-        return (
-          <input
-            type="text"
-            value={value}
-            onChange={(e) => handleChange(field.id, e.target.value)}
-            onBlur={() => handleBlur(field)}
-            placeholder={field.placeholder}
-            style={baseInputStyle}
-            maxLength={field.max_length}
-          />
-        )
-    }
-  }
-  
   return (
     <div style={{
       background: 'var(--card)',
@@ -338,7 +158,13 @@ const SectionProfileEditor: React.FC<SectionProfileEditorProps> = ({
                     )}
                   </label>
                   
-                  {renderField(field)}
+                  <FieldInput
+                    field={field}
+                    value={formData[field.id] ?? field.default_value ?? ''}
+                    hasError={!!error}
+                    onChange={(value) => handleChange(field.id, value)}
+                    onBlur={() => handleBlur(field)}
+                  />
                   
                   {field.help_text && !error && (
                     <p style={{
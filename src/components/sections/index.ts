@@ -2,4 +2,5 @@
 export { default as SectionCard } from './SectionCard'
 export { default as SectionProfileEditor } from './SectionProfileEditor'
 export { default as FieldBuilder } from './FieldBuilder'
+export { default as FieldInput } from './FieldInput'
 export { default as PreviewModeBar } from './PreviewModeBar'
@@ -1,5 +1,6 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react'
 import { Loader } from '@googlemaps/js-api-loader'
+import { type GeocodedPlace } from '@/lib/geocoding'
 
 // Type declaration for Google Maps (fallback if types not available)
 declare global {
@@ -11,6 +12,8 @@ declare global {
 interface LocationAutocompleteProps {
   value: string
   onChange: (value: string) => void
+  // Called with coordinates when a suggestion is picked (typing clears it via onChange)
+  onPlaceSelect?: (place: GeocodedPlace) => void
   placeholder?: string
   required?: boolean
 }
@@ -18,6 +21,7 @@ interface LocationAutocompleteProps {
 export default function LocationAutocomplete({ 
   value, 
   onChange, 
+  onPlaceSelect,
   placeholder = "Enter location", 
   required = false 
 }: LocationAutocompleteProps) {
@@ -25,6 +29,9 @@ export default function LocationAutocomplete({
   const [isLoaded, setIsLoaded] = useState(false)
   const [hasApiKey, setHasApiKey] = useState(false)
   const autocompleteRef = useRef<any>(null)
+  // The listener is registered once, so read the latest callback through a ref
+  const onPlaceSelectRef = useRef(onPlaceSelect)
+  onPlaceSelectRef.current = onPlaceSelect
 
   useEffect(() => {
     const initializeAutocomplete = async () => {
@@ -65,6 +72,15 @@ export default function LocationAutocomplete({
             if (locationText) {
               onChange(locationText)
             }
+
+            if (locationText && place.geometry?.location) {
+              onPlaceSelectRef.current?.({
+                lat: place.geometry.location.lat(),
+                lng: place.geometry.location.lng(),
+                place_id: place.place_id || null,
+                formatted_address: place.formatted_address || locationText
+              })
+            }
           })
 
           autocompleteRef.current = autocomplete
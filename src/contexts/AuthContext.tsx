@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useEffect, useState } from 'react'
 import { supabase, type AuthUser, type AuthSession } from '../lib/supabase'
+import { claimPendingInvitation, getPendingInviteToken } from '../lib/eventInvites'
 
 interface AuthContextType {
   user: AuthUser | null
@@ -120,6 +121,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
             } catch (profileError) {
               console.error('Error ensuring profile exists from OAuth:', profileError)
             }
+
+            // Accept an emailed invite link opened before signing up or logging in
+            if (getPendingInviteToken()) {
+              claimPendingInvitation().catch(err => console.error('Error claiming invitation:', err))
+            }
           }
         }
       }
@@ -187,6 +193,17 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       } catch (profileError) {
         console.error('Error ensuring profile exists:', profileError)
       }
+
+      // Invitations sent to this email are claimed by the database once the address is
+      // confirmed; an invite link opened before signing up is claimed here (or on first
+      // sign-in when confirmation is required), even if they signed up with another address.
+      if (data.session) {
+        try {
+          await claimPendingInvitation()
+        } catch (inviteError) {
+          console.error('Error claiming invitation:', inviteError)
+        }
+      }
     }
 
     return { data, error }
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  getUnreadTotals,
+  loadUnreadCounts,
+  type ChannelUnread,
+} from '@/lib/unread'
+
+// Bursts of messages (or read markers) refresh the counts once
+const REFRESH_DELAY_MS = 500
+// Most values realtime accepts in one `in` filter
+const MAX_FILTER_IDS = 100
+
+/**
+ * Per-chat unread and mention counts for the signed-in user, kept live.
+ * New messages in the user's chats and changes to their own memberships and
+ * read markers (from any tab) trigger a refresh.
+ */
+export const useUnreadCounts = () => {
+  const { user } = useAuth()
+  const [counts, setCounts] = useState<Record<string, ChannelUnread>>({})
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const instanceId = useRef(Math.random().toString(36).slice(2))
+
+  const refresh = useCallback(async () => {
+    try {
+      setCounts(await loadUnreadCounts())
+    } catch (err) {
+      console.error('Error loading unread counts:', err)
+    }
+  }, [])
+
+  const scheduleRefresh = useCallback(() => {
+    if (refreshTimer.current) clearTimeout(refreshTimer.current)
+    refreshTimer.current = setTimeout(refresh, REFRESH_DELAY_MS)
+  }, [refresh])
+
+  // Joining, leaving or reading a chat
+  useEffect(() => {
+    if (!user) {
+      setCounts({})
+      return
+    }
+
+    refresh()
+
+    const sub = supabase
+      .channel(`unread:${user.id}:${instanceId.current}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'channel_members',
+        filter: `user_id=eq.${user.id}`
+      }, scheduleRefresh)
+      .subscribe()
+
+    return () => {
+      if (refreshTimer.current) clearTimeout(refreshTimer.current)
+      supabase.removeChannel(sub)
+    }
+  }, [user?.id, refresh, scheduleRefresh])
+
+  // New messages, only in the chats that have counts
+  const channelIds = Object.keys(counts).sort().join(',')
+
+  useEffect(() => {
+    if (!user || !channelIds) return
+
+    const ids = channelIds.split(',')
+    let sub = supabase.channel(`unread-messages:${user.id}:${instanceId.current}`)
+    for (let i = 0; i < ids.length; i += MAX_FILTER_IDS) {
+      sub = sub.on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'channel_messages',
+        filter: `channel_id=in.(${ids.slice(i, i + MAX_FILTER_IDS).join(',')})`
+      }, (payload: any) => {
+        if (payload.new.user_id !== user.id) scheduleRefresh()
+      })
+    }
+    sub.subscribe()
+
+    return () => {
+      supabase.removeChannel(sub)
+    }
+  }, [user?.id, channelIds, scheduleRefresh])
+
+  return { counts, totals: getUnreadTotals(counts), refresh }
+}
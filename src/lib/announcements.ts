@@ -0,0 +1,123 @@
+import { supabase } from '@/lib/supabase'
+
+export type AnnouncementSegment = 'going' | 'maybe' | 'waitlisted' | 'invited'
+
+export const ANNOUNCEMENT_SEGMENTS: { value: AnnouncementSegment; label: string }[] = [
+  { value: 'going', label: 'Going' },
+  { value: 'maybe', label: 'Maybe' },
+  { value: 'waitlisted', label: 'Waitlisted' },
+  { value: 'invited', label: "Invited, haven't responded" },
+]
+
+export interface AnnouncementRecipient {
+  user_id: string
+  segment: AnnouncementSegment
+  delivered_at: string
+  seen_at: string | null
+  profile?: {
+    id: string
+    full_name: string | null
+    email: string | null
+    profile_picture_url?: string | null
+  }
+}
+
+export interface EventAnnouncement {
+  id: string
+  event_id: string
+  channel_id: string | null
+  message_id: string | null
+  content: string
+  segments: AnnouncementSegment[]
+  created_by: string
+  created_at: string
+  // Joined data (hosts only)
+  recipients?: AnnouncementRecipient[]
+}
+
+// How many people each segment would reach right now (hosts only)
+export const loadAudienceCounts = async (eventId: string): Promise<Record<AnnouncementSegment, number>> => {
+  const { data, error } = await (supabase as any).rpc('get_event_announcement_audience_counts', {
+    p_event_id: eventId
+  })
+  if (error) throw error
+
+  const counts: Record<AnnouncementSegment, number> = { going: 0, maybe: 0, waitlisted: 0, invited: 0 }
+  for (const row of (data as { segment: AnnouncementSegment; recipient_count: number }[]) || []) {
+    counts[row.segment] = Number(row.recipient_count)
+  }
+  return counts
+}
+
+// Post to the event channel and deliver to everyone in the segments
+export const sendAnnouncement = async (
+  eventId: string,
+  content: string,
+  segments: AnnouncementSegment[]
+): Promise<string> => {
+  const { data, error } = await (supabase as any).rpc('send_event_announcement', {
+    p_event_id: eventId,
+    p_content: content,
+    p_segments: segments
+  })
+  if (error) throw error
+  return data as string
+}
+
+// All of an event's announcements with per-recipient delivery, newest first (hosts only)
+export const loadEventAnnouncements = async (eventId: string): Promise<EventAnnouncement[]> => {
+  const { data, error } = await supabase
+    .from('event_announcements')
+    .select('*, recipients:event_announcement_recipients(user_id, segment, delivered_at, seen_at)')
+    .eq('event_id', eventId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  const announcements = (data as EventAnnouncement[]) || []
+
+  const userIds = Array.from(new Set(announcements.flatMap(a => (a.recipients || []).map(r => r.user_id))))
+  if (userIds.length === 0) return announcements
+
+  const { data: profilesData } = await supabase
+    .from('profiles')
+    .select('id, full_name, email, profile_picture_url')
+    .in('id', userIds)
+
+  return announcements.map(announcement => ({
+    ...announcement,
+    recipients: (announcement.recipients || []).map(recipient => ({
+      ...recipient,
+      profile: (profilesData as any[])?.find(p => p.id === recipient.user_id) || undefined
+    }))
+  }))
+}
+
+// Announcements the user received for an event, newest first
+export const loadMyAnnouncements = async (eventId: string, userId: string): Promise<(EventAnnouncement & { seen_at: string | null })[]> => {
+  const { data, error } = await supabase
+    .from('event_announcement_recipients')
+    .select('seen_at, announcement:event_announcements!inner(*)')
+    .eq('user_id', userId)
+    .eq('announcement.event_id', eventId)
+
+  if (error) throw error
+  return ((data as any[]) || [])
+    .map(row => ({ ...row.announcement, seen_at: row.seen_at }))
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+}
+
+export const markAnnouncementsSeen = async (announcementIds: string[]): Promise<void> => {
+  if (announcementIds.length === 0) return
+  const { error } = await (supabase as any).rpc('mark_event_announcements_seen', {
+    p_announcement_ids: announcementIds
+  })
+  if (error) throw error
+}
+
+// Called when an announcement's system message is shown in a chat
+export const markAnnouncementMessageSeen = async (messageId: string): Promise<void> => {
+  const { error } = await (supabase as any).rpc('mark_announcement_message_seen', {
+    p_message_id: messageId
+  })
+  if (error) throw error
+}
@@ -0,0 +1,45 @@
+import { supabase } from '@/lib/supabase'
+import { getClientBaseUrl } from '@/utils/url'
+
+// Get the user's calendar feed token, creating one on first use
+export const getCalendarFeedToken = async (userId: string): Promise<string> => {
+  const { data: existing } = await supabase
+    .from('calendar_feeds')
+    .select('token')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (existing) return (existing as { token: string }).token
+
+  const { data: created, error } = await supabase
+    .from('calendar_feeds')
+    .insert({ user_id: userId } as any)
+    .select('token')
+    .single()
+
+  if (error) throw error
+  return (created as { token: string }).token
+}
+
+// Revoke the current feed URL and issue a new one
+export const resetCalendarFeedToken = async (userId: string): Promise<string> => {
+  const { error } = await supabase
+    .from('calendar_feeds')
+    .delete()
+    .eq('user_id', userId)
+
+  if (error) throw error
+  return getCalendarFeedToken(userId)
+}
+
+// webcal:// makes phones and desktop calendars offer to subscribe
+export const getCalendarFeedUrl = (token: string, protocol: 'https' | 'webcal' = 'webcal'): string => {
+  const url = `${getClientBaseUrl()}/api/ics/feed/${token}`
+  return protocol === 'webcal' ? url.replace(/^https?:\/\//, 'webcal://') : url
+}
+
+// Download link for a single event; the token lets private events through
+export const getEventIcsUrl = (eventId: string, token?: string | null): string => {
+  const url = `/api/ics/${eventId}`
+  return token ? `${url}?token=${token}` : url
+}
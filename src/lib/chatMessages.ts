@@ -0,0 +1,104 @@
+import { supabase, type ChannelMessage } from '@/lib/supabase'
+
+export interface MessageAuthor {
+  id: string
+  full_name: string | null
+  email?: string | null
+  profile_picture_url?: string | null
+}
+
+export const MESSAGE_SELECT = `
+  *,
+  profile:profiles!user_id(id, full_name, email, profile_picture_url),
+  reactions:message_reactions(
+    *,
+    profile:profiles!user_id(full_name)
+  )
+`
+
+export const CHAT_PAGE_SIZE = 50
+
+/**
+ * One page of a channel's timeline, oldest first. Pass the oldest message
+ * already loaded as `before` to page backwards; (created_at, id) is the
+ * cursor so messages sent in the same instant aren't skipped.
+ */
+export const loadChannelPage = async (
+  channelId: string,
+  before?: Pick<ChannelMessage, 'id' | 'created_at'>
+): Promise<{ messages: ChannelMessage[]; hasMore: boolean }> => {
+  let query = supabase
+    .from('channel_messages')
+    .select(MESSAGE_SELECT)
+    .eq('channel_id', channelId)
+    .is('deleted_at', null)
+    // Thread replies stay in their thread unless also sent to the channel
+    .or('parent_message_id.is.null,also_sent_to_channel.eq.true')
+
+  if (before) {
+    query = query.or(
+      `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+    )
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(CHAT_PAGE_SIZE + 1)
+
+  if (error) throw error
+  const rows = (data as ChannelMessage[]) || []
+  return {
+    messages: rows.slice(0, CHAT_PAGE_SIZE).reverse(),
+    hasMore: rows.length > CHAT_PAGE_SIZE,
+  }
+}
+
+/**
+ * Fetches authors for realtime events. Ids asked for in the same tick go out
+ * as one query and results are cached, so a burst of messages or reactions
+ * costs one round trip instead of one per event.
+ */
+export const createProfileLoader = () => {
+  const cache = new Map<string, Promise<MessageAuthor | null>>()
+  let queued: { id: string; resolve: (profile: MessageAuthor | null) => void }[] = []
+  let flushTimer: ReturnType<typeof setTimeout> | null = null
+
+  const flush = async () => {
+    const batch = queued
+    queued = []
+    flushTimer = null
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, full_name, email, profile_picture_url')
+      .in('id', Array.from(new Set(batch.map(q => q.id))))
+
+    if (error) console.error('Error loading profiles:', error)
+    const profiles = (data as MessageAuthor[]) || []
+    batch.forEach(({ id, resolve }) => resolve(profiles.find(p => p.id === id) || null))
+  }
+
+  const load = (userId: string): Promise<MessageAuthor | null> => {
+    const cached = cache.get(userId)
+    if (cached) return cached
+
+    const pending = new Promise<MessageAuthor | null>(resolve => {
+      queued.push({ id: userId, resolve })
+      if (!flushTimer) flushTimer = setTimeout(flush, 0)
+    })
+    cache.set(userId, pending)
+    return pending
+  }
+
+  // Seed the cache with authors that came back with a page of messages
+  const prime = (messages: ChannelMessage[]) => {
+    messages.forEach(m => {
+      if (m.profile && !cache.has(m.user_id)) {
+        cache.set(m.user_id, Promise.resolve(m.profile as MessageAuthor))
+      }
+    })
+  }
+
+  return { load, prime }
+}
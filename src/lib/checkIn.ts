@@ -0,0 +1,81 @@
+import { supabase } from '@/lib/supabase'
+import { getClientBaseUrl } from '@/utils/url'
+
+// Co-host roles that can run the door check-in screen
+export const CHECK_IN_COHOST_ROLES = ['cohost', 'organizer']
+
+export interface CheckInResult {
+  user_id: string
+  full_name: string | null
+  rsvp_status: 'going' | 'maybe' | 'not_going'
+  already_checked_in: boolean
+  checked_in_at: string
+}
+
+// Whether a user can check people in (event creator or a cohost/organizer co-host)
+export const canUserCheckIn = async (
+  event: { id: string; created_by: string },
+  userId: string
+): Promise<boolean> => {
+  if (event.created_by === userId) return true
+
+  const { data } = await supabase
+    .from('event_cohosts')
+    .select('role')
+    .eq('event_id', event.id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  return !!data && CHECK_IN_COHOST_ROLES.includes((data as { role: string }).role)
+}
+
+// Passes stay up through the event itself, not just until it starts
+const CHECK_IN_OPEN_HOURS_AFTER_START = 12
+
+export const isCheckInOpen = (eventDateTime: string): boolean => {
+  const startsAt = new Date(eventDateTime).getTime()
+  return Date.now() < startsAt + CHECK_IN_OPEN_HOURS_AFTER_START * 60 * 60 * 1000
+}
+
+// The current user's code for an event, issued on first request; null without an RSVP
+export const getCheckInCode = async (eventId: string): Promise<string | null> => {
+  const { data, error } = await (supabase as any).rpc('get_check_in_code', { p_event_id: eventId })
+  if (error) throw error
+  return data || null
+}
+
+// What the attendee's QR code encodes; opening it on a phone goes to the check-in screen
+export const getCheckInUrl = (eventId: string, code: string): string => {
+  return `${getClientBaseUrl()}/events/${eventId}/check-in?code=${encodeURIComponent(code)}`
+}
+
+// Accept either a scanned check-in URL or a code typed in by hand
+export const parseCheckInCode = (scanned: string): string => {
+  const value = scanned.trim()
+  try {
+    const code = new URL(value).searchParams.get('code')
+    if (code) return code.toUpperCase()
+  } catch {
+    // Not a URL
+  }
+  return value.toUpperCase()
+}
+
+// Mark the attendee behind a code as attended; null if the code doesn't match this event
+export const checkInAttendee = async (eventId: string, code: string): Promise<CheckInResult | null> => {
+  const { data, error } = await (supabase as any).rpc('check_in_attendee', {
+    p_event_id: eventId,
+    p_code: parseCheckInCode(code)
+  })
+  if (error) throw error
+  return (data as CheckInResult[] | null)?.[0] || null
+}
+
+export const setAttendance = async (eventId: string, userId: string, attended: boolean): Promise<void> => {
+  const { error } = await (supabase as any).rpc('set_event_attendance', {
+    p_event_id: eventId,
+    p_user_id: userId,
+    p_attended: attended
+  })
+  if (error) throw error
+}
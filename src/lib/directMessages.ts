@@ -0,0 +1,73 @@
+import { supabase, type Channel } from '@/lib/supabase'
+
+export interface DmParticipant {
+  id: string
+  full_name: string | null
+  email: string | null
+  profile_picture_url?: string | null
+}
+
+// Kept in step with max_dm_participants() in 20240110000037_direct_messages.sql
+export const MAX_DM_PARTICIPANTS = 9
+
+/**
+ * Open the conversation between the signed-in user and userIds, creating it the
+ * first time. The same people always get the same channel. Returns its id.
+ */
+export const startConversation = async (userIds: string[]): Promise<string> => {
+  const { data, error } = await (supabase as any).rpc('start_conversation', { p_user_ids: userIds })
+  if (error) throw error
+  return data as string
+}
+
+export const getConversationUrl = (channelId: string) => `/chats?channel=${channelId}`
+
+export const isDirectMessage = (channel: Pick<Channel, 'type'>) => channel.type === 'dm'
+
+// Everyone in each DM except the viewer, keyed by channel id
+export const loadDmParticipants = async (
+  channelIds: string[],
+  viewerId: string
+): Promise<Record<string, DmParticipant[]>> => {
+  if (channelIds.length === 0) return {}
+
+  const { data: members, error } = await supabase
+    .from('channel_members')
+    .select('channel_id, user_id')
+    .in('channel_id', channelIds)
+    .neq('user_id', viewerId)
+
+  if (error) throw error
+  const rows = (members as { channel_id: string; user_id: string }[]) || []
+  if (rows.length === 0) return {}
+
+  const { data: profilesData } = await supabase
+    .from('profiles')
+    .select('id, full_name, email, profile_picture_url')
+    .in('id', Array.from(new Set(rows.map(r => r.user_id))))
+
+  const participants: Record<string, DmParticipant[]> = {}
+  for (const row of rows) {
+    const profile = (profilesData as DmParticipant[] | null)?.find(p => p.id === row.user_id)
+    if (!profile) continue
+    participants[row.channel_id] = [...(participants[row.channel_id] || []), profile]
+  }
+  return participants
+}
+
+const getParticipantName = (participant: DmParticipant) =>
+  participant.full_name || participant.email?.split('@')[0] || 'Someone'
+
+// "Ana", "Ana and Ben", "Ana, Ben and 2 others"
+export const getDmTitle = (participants: DmParticipant[] | undefined): string => {
+  if (!participants || participants.length === 0) return 'Just you'
+  const names = participants.map(getParticipantName).sort((a, b) => a.localeCompare(b))
+  if (names.length === 1) return names[0]
+  if (names.length === 2) return `${names[0]} and ${names[1]}`
+  if (names.length === 3) return `${names[0]}, ${names[1]} and ${names[2]}`
+  return `${names[0]}, ${names[1]} and ${names.length - 2} others`
+}
+
+// The other person's picture in a one-to-one DM; group DMs use an icon
+export const getDmAvatarUrl = (participants: DmParticipant[] | undefined): string | null =>
+  participants && participants.length === 1 ? participants[0].profile_picture_url || null : null
@@ -0,0 +1,46 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+interface EventVisibility {
+  id: string
+  created_by: string
+  published?: boolean | null
+  is_private?: boolean | null
+}
+
+/**
+ * Server-side visibility check for an event, mirroring the client-side rules in
+ * pages/events.tsx: public published events are visible to everyone, private or
+ * unpublished events only to hosts, co-hosts, invitees, people who RSVP'd and
+ * people who joined through an active share link.
+ * Pass a service role client; RLS is not relied on here.
+ */
+export const canUserViewEvent = async (
+  client: SupabaseClient,
+  event: EventVisibility,
+  userId: string | null
+): Promise<boolean> => {
+  if (event.published && !event.is_private) return true
+  if (!userId) return false
+  if (event.created_by === userId) return true
+
+  // limit(1) rather than maybeSingle(): a second matching row would be an error, not access
+  const [{ data: cohosts }, { data: invitations }, { data: rsvps }, { data: shareLinkJoins }] = await Promise.all([
+    client.from('event_cohosts').select('id').eq('event_id', event.id).eq('user_id', userId).limit(1),
+    client.from('event_invitations').select('id').eq('event_id', event.id).eq('user_id', userId).limit(1),
+    client.from('event_rsvps').select('id').eq('event_id', event.id).eq('user_id', userId).limit(1),
+    client
+      .from('event_share_link_joins')
+      .select('link:event_share_links(revoked_at, expires_at)')
+      .eq('event_id', event.id)
+      .eq('user_id', userId),
+  ])
+
+  if (cohosts && cohosts.length > 0) return true
+  const joinedViaActiveLink = ((shareLinkJoins as any[]) || []).some(({ link }) =>
+    link && !link.revoked_at && (!link.expires_at || new Date(link.expires_at) > new Date())
+  )
+  // Invitees, RSVPs and share links only count once the host has published the event
+  const invited = !!invitations && invitations.length > 0
+  const rsvped = !!rsvps && rsvps.length > 0
+  return !!event.published && (invited || rsvped || joinedViaActiveLink)
+}
@@ -0,0 +1,289 @@
+import { supabase } from '@/lib/supabase'
+import { getEventStart, toDateKey } from '@/utils/schedule'
+
+export interface AnalyticsEvent {
+  id: string
+  title: string
+  date: string
+  time?: string | null
+  end_time?: string | null
+  status?: string | null
+  group_name?: string | null
+  created_by: string
+  max_capacity?: number | null
+}
+
+interface AnalyticsRsvp {
+  event_id: string
+  user_id: string
+  status: 'going' | 'maybe' | 'not_going'
+  guest_count: number | null
+  attended: boolean | null
+  created_at: string
+}
+
+// Cumulative RSVPs at the end of each day that had activity
+export interface RsvpTimelinePoint {
+  date: string // YYYY-MM-DD
+  going: number
+  maybe: number
+}
+
+export interface ShareLinkTraffic {
+  id: string
+  event_id: string
+  label: string | null
+  joins: number
+  // People who joined through the link and then RSVP'd going or maybe
+  rsvps: number
+}
+
+export interface RepeatAttendee {
+  user_id: string
+  full_name: string | null
+  // Events in the group (or the host's events, for an ungrouped event) they went to
+  eventCount: number
+}
+
+// One row of the per-event breakdown for a group
+export interface EventAnalyticsRow {
+  event: AnalyticsEvent
+  going: number
+  maybe: number
+  checkedIn: number
+  waitlist: number
+}
+
+export interface EventAnalytics {
+  eventCount: number
+  going: number
+  maybe: number
+  notGoing: number
+  guests: number
+  timeline: RsvpTimelinePoint[]
+  invitations: {
+    sent: number
+    responded: number
+    going: number
+  }
+  shareLinks: ShareLinkTraffic[]
+  waitlist: {
+    people: number
+    guests: number
+  }
+  // Only events that have already happened count towards the check-in rate
+  checkIn: {
+    expected: number
+    checkedIn: number
+  }
+  attendees: number
+  repeatAttendees: RepeatAttendee[]
+  byEvent: EventAnalyticsRow[]
+}
+
+export const ANALYTICS_EVENT_COLUMNS = 'id, title, date, time, end_time, status, group_name, created_by, max_capacity'
+
+// Went to an event: RSVP'd going, or was checked in at the door
+const isAttendee = (rsvp: AnalyticsRsvp) => rsvp.status === 'going' || !!rsvp.attended
+
+// 0-1 fraction, or null when there's nothing to divide by
+export const ratio = (part: number, whole: number): number | null => (whole > 0 ? part / whole : null)
+
+export const formatPercent = (value: number | null): string =>
+  value === null ? '–' : `${Math.round(value * 100)}%`
+
+/**
+ * Build analytics for `events` (one event, or every event in a group).
+ * `scopeRsvps` covers the wider set used to spot repeat attendees: the group,
+ * or all of the host's events for an ungrouped event.
+ */
+const buildEventAnalytics = (
+  events: AnalyticsEvent[],
+  data: {
+    rsvps: AnalyticsRsvp[]
+    scopeRsvps: AnalyticsRsvp[]
+    invitations: { event_id: string; user_id: string | null }[]
+    shareLinks: { id: string; event_id: string; label: string | null }[]
+    shareLinkJoins: { link_id: string; event_id: string; user_id: string }[]
+    waitlist: { event_id: string; guest_count: number | null }[]
+    profiles: Map<string, string | null>
+  }
+): EventAnalytics => {
+  const now = new Date()
+  const rsvps = data.rsvps
+  const rsvpByEventUser = new Map(rsvps.map(r => [`${r.event_id}:${r.user_id}`, r]))
+
+  // Timeline: replay RSVPs in the order they were made, keeping their current status
+  const timeline: RsvpTimelinePoint[] = []
+  let going = 0
+  let maybe = 0
+  ;[...rsvps]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .forEach(rsvp => {
+      if (rsvp.status === 'going') going++
+      else if (rsvp.status === 'maybe') maybe++
+      else return
+
+      const date = toDateKey(new Date(rsvp.created_at))
+      const last = timeline[timeline.length - 1]
+      if (last && last.date === date) {
+        last.going = going
+        last.maybe = maybe
+      } else {
+        timeline.push({ date, going, maybe })
+      }
+    })
+
+  // Invitations only convert once they're tied to an account
+  const invitedRsvps = data.invitations
+    .map(invitation => invitation.user_id ? rsvpByEventUser.get(`${invitation.event_id}:${invitation.user_id}`) : undefined)
+
+  const shareLinks = data.shareLinks.map(link => {
+    const joins = data.shareLinkJoins.filter(j => j.link_id === link.id)
+    return {
+      ...link,
+      joins: joins.length,
+      rsvps: joins.filter(j => {
+        const rsvp = rsvpByEventUser.get(`${j.event_id}:${j.user_id}`)
+        return rsvp && rsvp.status !== 'not_going'
+      }).length,
+    }
+  }).sort((a, b) => b.joins - a.joins)
+
+  const pastEventIds = new Set(
+    events
+      .filter(e => e.status === 'completed' || getEventStart(e) < now)
+      .filter(e => e.status !== 'cancelled')
+      .map(e => e.id)
+  )
+  const pastAttendees = rsvps.filter(r => pastEventIds.has(r.event_id) && isAttendee(r))
+
+  // Repeat attendees: people at these events who went to at least two events in scope
+  const attendeeIds = new Set(rsvps.filter(isAttendee).map(r => r.user_id))
+  const scopeCounts = new Map<string, number>()
+  data.scopeRsvps.filter(isAttendee).forEach(r => {
+    scopeCounts.set(r.user_id, (scopeCounts.get(r.user_id) || 0) + 1)
+  })
+  const repeatAttendees = Array.from(attendeeIds)
+    .map(userId => ({
+      user_id: userId,
+      full_name: data.profiles.get(userId) || null,
+      eventCount: scopeCounts.get(userId) || 1,
+    }))
+    .filter(a => a.eventCount >= 2)
+    .sort((a, b) => b.eventCount - a.eventCount)
+
+  return {
+    eventCount: events.length,
+    going: rsvps.filter(r => r.status === 'going').length,
+    maybe: rsvps.filter(r => r.status === 'maybe').length,
+    notGoing: rsvps.filter(r => r.status === 'not_going').length,
+    guests: rsvps.filter(r => r.status === 'going').reduce((sum, r) => sum + (r.guest_count || 0), 0),
+    timeline,
+    invitations: {
+      sent: data.invitations.length,
+      responded: invitedRsvps.filter(Boolean).length,
+      going: invitedRsvps.filter(r => r?.status === 'going').length,
+    },
+    shareLinks,
+    waitlist: {
+      people: data.waitlist.length,
+      guests: data.waitlist.reduce((sum, w) => sum + (w.guest_count || 0), 0),
+    },
+    checkIn: {
+      expected: pastAttendees.length,
+      checkedIn: pastAttendees.filter(r => r.attended).length,
+    },
+    attendees: attendeeIds.size,
+    repeatAttendees,
+    byEvent: events.map(event => {
+      const eventRsvps = rsvps.filter(r => r.event_id === event.id)
+      return {
+        event,
+        going: eventRsvps.filter(r => r.status === 'going').length,
+        maybe: eventRsvps.filter(r => r.status === 'maybe').length,
+        checkedIn: eventRsvps.filter(r => r.attended).length,
+        waitlist: data.waitlist.filter(w => w.event_id === event.id).length,
+      }
+    }),
+  }
+}
+
+const loadRsvps = async (eventIds: string[]): Promise<AnalyticsRsvp[]> => {
+  if (eventIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('event_rsvps')
+    .select('event_id, user_id, status, guest_count, attended, created_at')
+    .in('event_id', eventIds)
+
+  if (error) throw error
+  return (data as AnalyticsRsvp[]) || []
+}
+
+// Everything the dashboard needs for a set of events, in parallel (hosts only, via RLS)
+const loadAnalytics = async (events: AnalyticsEvent[], scopeEventIds: string[]): Promise<EventAnalytics> => {
+  const eventIds = events.map(e => e.id)
+  if (eventIds.length === 0) {
+    return buildEventAnalytics([], {
+      rsvps: [], scopeRsvps: [], invitations: [], shareLinks: [], shareLinkJoins: [], waitlist: [], profiles: new Map()
+    })
+  }
+
+  const [rsvps, scopeRsvps, invitationsResult, linksResult, joinsResult, waitlistResult] = await Promise.all([
+    loadRsvps(eventIds),
+    loadRsvps(scopeEventIds),
+    supabase.from('event_invitations').select('event_id, user_id').in('event_id', eventIds),
+    supabase.from('event_share_links').select('id, event_id, label').in('event_id', eventIds),
+    supabase.from('event_share_link_joins').select('link_id, event_id, user_id').in('event_id', eventIds),
+    supabase.from('event_waitlist').select('event_id, guest_count').in('event_id', eventIds),
+  ])
+
+  const attendeeIds = Array.from(new Set(rsvps.filter(isAttendee).map(r => r.user_id)))
+  const profiles = new Map<string, string | null>()
+  if (attendeeIds.length > 0) {
+    const { data: profileData } = await supabase
+      .from('profiles')
+      .select('id, full_name')
+      .in('id', attendeeIds)
+    ;((profileData as any[]) || []).forEach(p => profiles.set(p.id, p.full_name))
+  }
+
+  return buildEventAnalytics(events, {
+    rsvps,
+    scopeRsvps,
+    invitations: (invitationsResult.data as any[]) || [],
+    shareLinks: (linksResult.data as any[]) || [],
+    shareLinkJoins: (joinsResult.data as any[]) || [],
+    waitlist: (waitlistResult.data as any[]) || [],
+    profiles,
+  })
+}
+
+// A host's events in one group, or their ungrouped events when groupName is empty
+const loadHostGroupEvents = async (hostId: string, groupName: string | null): Promise<AnalyticsEvent[]> => {
+  let query = supabase
+    .from('events')
+    .select(ANALYTICS_EVENT_COLUMNS)
+    .eq('created_by', hostId)
+    .eq('published', true)
+
+  query = groupName ? query.eq('group_name', groupName) : query.or('group_name.is.null,group_name.eq.')
+
+  const { data, error } = await query.order('date', { ascending: true })
+  if (error) throw error
+  return (data as AnalyticsEvent[]) || []
+}
+
+// Analytics for one event; repeat attendees are counted across its group
+export const loadEventAnalytics = async (event: AnalyticsEvent): Promise<EventAnalytics> => {
+  const scope = await loadHostGroupEvents(event.created_by, event.group_name || null)
+  const scopeIds = Array.from(new Set([event.id, ...scope.map(e => e.id)]))
+  return loadAnalytics([event], scopeIds)
+}
+
+// Analytics across every published event in a host's group
+export const loadGroupAnalytics = async (hostId: string, groupName: string): Promise<EventAnalytics> => {
+  const events = await loadHostGroupEvents(hostId, groupName)
+  return loadAnalytics(events, events.map(e => e.id))
+}
@@ -0,0 +1,135 @@
+import { supabase } from '@/lib/supabase'
+import { saveEventQuestions } from '@/lib/rsvpQuestions'
+import { ConfigurableField } from '@/types/sections'
+
+export const FEEDBACK_RATINGS = [1, 2, 3, 4, 5] as const
+
+export interface EventFeedbackQuestion extends ConfigurableField {
+  event_id: string
+  created_at: string
+  updated_at: string
+  created_by?: string
+}
+
+export interface EventFeedback {
+  id: string
+  event_id: string
+  user_id: string
+  rating: number
+  went_well: string | null
+  answers: Record<string, string> // question_id -> value
+  created_at: string
+  updated_at: string
+}
+
+export interface FeedbackInput {
+  rating: number
+  went_well: string
+  answers: Record<string, string>
+}
+
+export interface FeedbackSummary {
+  responseCount: number
+  averageRating: number | null
+  // Number of responses for each star rating, index 0 = 1 star
+  distribution: number[]
+}
+
+// A host's average rating for one group of events (null group_name = ungrouped events)
+export interface GroupRating {
+  group_name: string | null
+  average_rating: number
+  response_count: number
+  event_count: number
+}
+
+export const loadFeedbackQuestions = async (eventId: string): Promise<EventFeedbackQuestion[]> => {
+  const { data, error } = await supabase
+    .from('event_feedback_questions')
+    .select('*')
+    .eq('event_id', eventId)
+    .eq('is_active', true)
+    .order('display_order', { ascending: true })
+
+  if (error) throw error
+  return (data as EventFeedbackQuestion[]) || []
+}
+
+export const saveFeedbackQuestions = (
+  eventId: string,
+  userId: string,
+  fields: Partial<ConfigurableField>[]
+): Promise<void> => saveEventQuestions('event_feedback_questions', eventId, userId, fields)
+
+export const loadMyFeedback = async (eventId: string, userId: string): Promise<EventFeedback | null> => {
+  const { data, error } = await supabase
+    .from('event_feedback')
+    .select('*')
+    .eq('event_id', eventId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as EventFeedback | null
+}
+
+// Create or update the user's survey response (only attendees of completed events, enforced by RLS)
+export const submitFeedback = async (
+  eventId: string,
+  userId: string,
+  feedback: FeedbackInput
+): Promise<EventFeedback> => {
+  const { data, error } = await (supabase.from('event_feedback') as any)
+    .upsert({
+      event_id: eventId,
+      user_id: userId,
+      rating: feedback.rating,
+      went_well: feedback.went_well.trim() || null,
+      answers: feedback.answers
+    }, { onConflict: 'event_id,user_id' })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data as EventFeedback
+}
+
+// Every response for an event, newest first (hosts only, enforced by RLS)
+export const loadEventFeedback = async (eventId: string): Promise<EventFeedback[]> => {
+  const { data, error } = await supabase
+    .from('event_feedback')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data as EventFeedback[]) || []
+}
+
+export const summarizeFeedback = (feedback: Pick<EventFeedback, 'rating'>[]): FeedbackSummary => {
+  const distribution = FEEDBACK_RATINGS.map(stars => feedback.filter(f => f.rating === stars).length)
+  const total = feedback.reduce((sum, f) => sum + f.rating, 0)
+
+  return {
+    responseCount: feedback.length,
+    averageRating: feedback.length > 0 ? total / feedback.length : null,
+    distribution,
+  }
+}
+
+// Average ratings per group for a host's public events, for their profile
+export const loadHostGroupRatings = async (hostId: string): Promise<GroupRating[]> => {
+  const { data, error } = await (supabase as any).rpc('get_host_feedback_ratings', { p_host_id: hostId })
+  if (error) throw error
+
+  return ((data as any[]) || []).map(row => ({
+    group_name: row.group_name,
+    average_rating: Number(row.average_rating),
+    response_count: Number(row.response_count),
+    event_count: Number(row.event_count),
+  }))
+}
+
+// "4.3 ★" style display for an average rating
+export const formatRating = (rating: number | null): string =>
+  rating === null ? '–' : `${rating.toFixed(1)} ★`
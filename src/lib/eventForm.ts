@@ -0,0 +1,677 @@
+/**
+ * Event form engine shared by the create and edit wizards
+ *
+ * Holds the form shape, validation, the mapping between the form and an events
+ * row, co-host syncing and server-side drafts. A new event is autosaved as an
+ * events row with status 'draft' (unpublished, so only its creator sees it);
+ * edits to a published event are autosaved to event_drafts and only applied when
+ * the host saves. See supabase/migrations/20240110000035_event_drafts.sql.
+ */
+import { supabase, type Event } from '@/lib/supabase'
+import { applySeriesEdit, createEventSeries, type SeriesEditScope } from '@/lib/eventSeries'
+import { addTemplateQuestionsToEvents, type EventTemplateData, type EventTemplateQuestion } from '@/lib/eventTemplates'
+import { resolveEventPlace, type GeocodedPlace } from '@/lib/geocoding'
+import { createEventDateTime, getUserTimezone, isValidTimezone, parseEventDateTime } from '@/utils/dateTime'
+import { type RecurrenceFrequency } from '@/utils/recurrence'
+import { toDateKey } from '@/utils/schedule'
+
+export interface EventFormCohost {
+  id: string
+  email: string
+  full_name?: string
+}
+
+export interface EventFormRecurrence {
+  enabled: boolean
+  frequency: RecurrenceFrequency
+  occurrences: number
+}
+
+export type GuestListVisibility = 'public' | 'rsvp_only' | 'hidden'
+
+export interface EventFormData {
+  title: string
+  description: string
+  // Wall-clock date (YYYY-MM-DD) and time (HH:MM) in `timezone`; empty date means TBD
+  date: string
+  time: string
+  end_date: string
+  end_time: string
+  timezone: string
+  location: string
+  is_virtual: boolean
+  virtual_link: string
+  image_url: string
+  tags: string[]
+  is_private: boolean
+  guest_list_visibility: GuestListVisibility
+  group_name: string
+  max_capacity: number | null
+  max_guests_per_rsvp: number
+  waitlist_enabled: boolean
+  auto_confirm_waitlist: boolean
+  waitlist_claim_hours: number
+  co_hosts: EventFormCohost[]
+  // Only used when creating: existing series are edited through the "this / following / all" choice
+  recurrence: EventFormRecurrence
+}
+
+export type EventFormErrors = Partial<Record<keyof EventFormData, string>>
+
+export type EventFormStep = 'details' | 'settings' | 'preview'
+
+export const EVENT_FORM_STEPS: { id: EventFormStep; label: string }[] = [
+  { id: 'details', label: 'Details' },
+  { id: 'settings', label: 'Settings' },
+  { id: 'preview', label: 'Preview' },
+]
+
+// Which step shows each field, so a failed validation can send the host back to it
+export const EVENT_FORM_STEP_FIELDS: Record<Exclude<EventFormStep, 'preview'>, (keyof EventFormData)[]> = {
+  details: ['title', 'date', 'time', 'end_date', 'end_time', 'timezone', 'location', 'virtual_link', 'description', 'image_url', 'tags'],
+  settings: ['recurrence', 'group_name', 'max_capacity', 'max_guests_per_rsvp', 'waitlist_enabled', 'waitlist_claim_hours', 'co_hosts', 'is_private', 'guest_list_visibility'],
+}
+
+export const EVENT_QUICK_TAGS = [
+  { name: 'Party', emoji: '🎉' },
+  { name: 'Dinner', emoji: '🍽️' },
+  { name: 'Hangout', emoji: '✨' },
+  { name: 'Birthday', emoji: '🎂' },
+  { name: 'Drinks', emoji: '🍻' },
+  { name: 'Brunch', emoji: '🥂' },
+  { name: 'Game Night', emoji: '🎮' },
+  { name: 'Movie', emoji: '🎬' },
+  { name: 'Outdoor', emoji: '🌲' },
+  { name: 'Wellness', emoji: '🧘' },
+  { name: 'Workshop', emoji: '🛠️' },
+  { name: 'Music', emoji: '🎵' },
+]
+
+export const MAX_RECURRENCE_OCCURRENCES = 52
+
+export const DEFAULT_EVENT_TITLE = 'Untitled Event'
+
+const DEFAULT_EVENT_TIME = '19:00'
+
+// Events without a date yet are saved with today's date until one is picked
+const fallbackDate = () => toDateKey(new Date())
+
+// 7pm today, or tomorrow if it's already past 7pm
+export const getDefaultEventForm = (): EventFormData => {
+  const date = new Date()
+  if (date.getHours() >= 19) {
+    date.setDate(date.getDate() + 1)
+  }
+
+  return {
+    title: DEFAULT_EVENT_TITLE,
+    description: '',
+    date: toDateKey(date),
+    time: DEFAULT_EVENT_TIME,
+    end_date: '',
+    end_time: '',
+    timezone: getUserTimezone(),
+    location: '',
+    is_virtual: false,
+    virtual_link: '',
+    image_url: '',
+    tags: [],
+    is_private: false,
+    guest_list_visibility: 'rsvp_only',
+    group_name: '',
+    max_capacity: null,
+    max_guests_per_rsvp: 0,
+    waitlist_enabled: false,
+    auto_confirm_waitlist: true,
+    waitlist_claim_hours: 24,
+    co_hosts: [],
+    recurrence: {
+      enabled: false,
+      frequency: 'weekly',
+      occurrences: 4,
+    },
+  }
+}
+
+// "19:00" -> "7:00 PM"
+export const formatFormTime = (time: string): string => {
+  if (!time) return ''
+  const [hours, minutes] = time.split(':')
+  const hour = parseInt(hours)
+  return `${hour % 12 || 12}:${minutes} ${hour >= 12 ? 'PM' : 'AM'}`
+}
+
+// Start of the event as a single timestamp, or null while the date is TBD
+const getFormStart = (form: EventFormData): string | null =>
+  form.date ? createEventDateTime(form.date, form.time || DEFAULT_EVENT_TIME, form.timezone) : null
+
+const getFormEnd = (form: EventFormData): string | null =>
+  form.end_date && form.end_time ? createEventDateTime(form.end_date, form.end_time, form.timezone) : null
+
+/**
+ * The same checks for creating and editing. Drafts skip this and are saved as
+ * they are; publishing or saving changes to a published event doesn't.
+ */
+export const validateEventForm = (form: EventFormData): EventFormErrors => {
+  const errors: EventFormErrors = {}
+
+  if (!form.title.trim()) {
+    errors.title = 'Give your event a name!'
+  }
+
+  if (!form.date) {
+    errors.date = 'When is it happening?'
+  } else if (!isValidTimezone(form.timezone)) {
+    errors.timezone = 'Pick a timezone'
+  }
+
+  const start = getFormStart(form)
+  const end = getFormEnd(form)
+  if (start && end && new Date(end) <= new Date(start)) {
+    errors.end_time = 'The event has to end after it starts'
+  }
+
+  if (form.is_virtual ? !form.virtual_link.trim() : !form.location.trim()) {
+    errors.location = 'Where should people go?'
+  }
+
+  if (form.max_capacity !== null && form.max_capacity < 1) {
+    errors.max_capacity = 'Capacity has to be at least 1, or left empty for unlimited'
+  }
+
+  if (form.waitlist_enabled && !form.auto_confirm_waitlist && form.waitlist_claim_hours < 1) {
+    errors.waitlist_claim_hours = 'Hold spots for at least an hour'
+  }
+
+  if (form.recurrence.enabled && (form.recurrence.occurrences < 2 || form.recurrence.occurrences > MAX_RECURRENCE_OCCURRENCES)) {
+    errors.recurrence = `A recurring event needs between 2 and ${MAX_RECURRENCE_OCCURRENCES} occurrences`
+  }
+
+  return errors
+}
+
+// First step with a validation error, so the wizard can jump back to it
+export const getFirstInvalidStep = (errors: EventFormErrors): EventFormStep | null => {
+  const fields = Object.keys(errors) as (keyof EventFormData)[]
+  if (fields.some(field => EVENT_FORM_STEP_FIELDS.details.includes(field))) return 'details'
+  if (fields.some(field => EVENT_FORM_STEP_FIELDS.settings.includes(field))) return 'settings'
+  return null
+}
+
+// Pre-fill from a saved template or a duplicated event. Dates and recurrence are
+// left alone: a copy is always for a new date.
+export const applyTemplateToForm = (form: EventFormData, data: EventTemplateData, userId: string): EventFormData => ({
+  ...form,
+  title: data.title ?? form.title,
+  description: data.description,
+  location: data.location,
+  image_url: data.image_url,
+  tags: data.tags,
+  is_private: data.is_private,
+  guest_list_visibility: data.guest_list_visibility,
+  group_name: data.group_name,
+  max_capacity: data.max_capacity,
+  max_guests_per_rsvp: data.max_guests_per_rsvp,
+  waitlist_enabled: data.waitlist_enabled,
+  co_hosts: data.co_hosts.filter(cohost => cohost.id !== userId),
+})
+
+// Template body for "Save as template"
+export const toTemplateData = (form: EventFormData, questions: EventTemplateQuestion[]): EventTemplateData => ({
+  description: form.description.trim(),
+  location: form.is_virtual ? form.virtual_link : form.location.trim(),
+  image_url: form.image_url.trim(),
+  tags: form.tags,
+  is_private: form.is_private,
+  guest_list_visibility: form.guest_list_visibility,
+  group_name: form.group_name.trim(),
+  max_capacity: form.max_capacity,
+  max_guests_per_rsvp: form.max_guests_per_rsvp,
+  waitlist_enabled: form.waitlist_enabled,
+  co_hosts: form.co_hosts,
+  rsvp_questions: questions,
+})
+
+type EditableEvent = Event & {
+  group_name?: string | null
+  max_capacity?: number | null
+  waitlist_enabled?: boolean
+  auto_confirm_waitlist?: boolean
+  waitlist_claim_hours?: number | null
+}
+
+// Form values for an existing event, with date/time as wall-clock values in its timezone
+export const eventToForm = (event: EditableEvent, cohosts: EventFormCohost[]): EventFormData => {
+  const timezone = isValidTimezone(event.timezone) ? event.timezone : getUserTimezone()
+  const start = parseEventDateTime(event.date, timezone)
+  const end = event.end_time ? parseEventDateTime(event.end_time, timezone) : null
+  const isVirtual = event.location === 'Virtual Event' || !!event.rsvp_url
+
+  return {
+    ...getDefaultEventForm(),
+    title: event.title || '',
+    description: event.description || '',
+    date: start.date,
+    time: start.time,
+    end_date: end ? end.date : '',
+    end_time: end ? end.time : '',
+    timezone,
+    location: isVirtual ? '' : (event.location || ''),
+    is_virtual: isVirtual,
+    virtual_link: isVirtual ? (event.rsvp_url || '') : '',
+    image_url: event.image_url || '',
+    tags: event.tags || [],
+    is_private: event.is_private || false,
+    guest_list_visibility: event.guest_list_visibility || 'rsvp_only',
+    group_name: event.group_name || '',
+    max_capacity: event.max_capacity || null,
+    max_guests_per_rsvp: event.max_guests_per_rsvp || 0,
+    waitlist_enabled: event.waitlist_enabled || false,
+    auto_confirm_waitlist: event.auto_confirm_waitlist !== false,
+    waitlist_claim_hours: event.waitlist_claim_hours || 24,
+    co_hosts: cohosts,
+  }
+}
+
+// Columns copied as-is to every occurrence when several events are written from one form
+const toSharedEventColumns = (form: EventFormData) => ({
+  title: form.title.trim() || DEFAULT_EVENT_TITLE,
+  description: form.description.trim() || null,
+  timezone: form.timezone,
+  location: form.is_virtual ? 'Virtual Event' : form.location.trim(),
+  rsvp_url: form.is_virtual ? form.virtual_link.trim() : null,
+  image_url: form.image_url.trim() || null,
+  tags: form.tags,
+  is_private: form.is_private,
+  guest_list_visibility: form.guest_list_visibility,
+  group_name: form.group_name.trim() || null,
+  max_capacity: form.max_capacity,
+  max_guests_per_rsvp: form.max_guests_per_rsvp,
+  waitlist_enabled: form.waitlist_enabled,
+  auto_confirm_waitlist: form.auto_confirm_waitlist,
+  waitlist_claim_hours: form.waitlist_claim_hours,
+})
+
+const toEventColumns = (form: EventFormData) => ({
+  ...toSharedEventColumns(form),
+  date: getFormStart(form) || createEventDateTime(fallbackDate(), form.time || DEFAULT_EVENT_TIME, form.timezone),
+  end_time: getFormEnd(form),
+})
+
+export interface EventFormChange {
+  field: keyof EventFormData
+  oldValue: any
+  newValue: any
+}
+
+// Fields that differ between the saved event and the form, for the review step
+export const describeFormChanges = (original: EventFormData, current: EventFormData): EventFormChange[] => {
+  const fields: (keyof EventFormData)[] = [
+    'title', 'description', 'date', 'time', 'end_date', 'end_time', 'timezone', 'location',
+    'is_virtual', 'virtual_link', 'image_url', 'tags', 'is_private', 'guest_list_visibility',
+    'group_name', 'max_capacity', 'max_guests_per_rsvp', 'waitlist_enabled',
+    'auto_confirm_waitlist', 'waitlist_claim_hours'
+  ]
+
+  const changes: EventFormChange[] = fields
+    .filter(field => JSON.stringify(original[field]) !== JSON.stringify(current[field]))
+    .map(field => ({ field, oldValue: original[field], newValue: current[field] }))
+
+  const originalCohostIds = original.co_hosts.map(c => c.id).sort()
+  const currentCohostIds = current.co_hosts.map(c => c.id).sort()
+  if (JSON.stringify(originalCohostIds) !== JSON.stringify(currentCohostIds)) {
+    changes.push({ field: 'co_hosts', oldValue: original.co_hosts, newValue: current.co_hosts })
+  }
+
+  return changes
+}
+
+// Co-hosts of an event with their profile details
+export const loadEventCohosts = async (eventId: string): Promise<EventFormCohost[]> => {
+  const { data: cohostData } = await supabase
+    .from('event_cohosts')
+    .select('user_id')
+    .eq('event_id', eventId)
+
+  const userIds = ((cohostData as any[]) || []).map(c => c.user_id)
+  if (userIds.length === 0) return []
+
+  const { data: profilesData } = await supabase
+    .from('profiles')
+    .select('id, email, full_name')
+    .in('id', userIds)
+
+  return ((profilesData as any[]) || []).map(p => ({
+    id: p.id,
+    email: p.email || '',
+    full_name: p.full_name,
+  }))
+}
+
+/**
+ * Make the co-hosts of each event match the form. Failures are logged rather than
+ * thrown: the event itself has already been saved by the time this runs.
+ */
+export const syncEventCohosts = async (
+  eventIds: string[],
+  cohosts: EventFormCohost[],
+  userId: string
+): Promise<void> => {
+  for (const eventId of eventIds) {
+    const { data: existing } = await supabase
+      .from('event_cohosts')
+      .select('user_id')
+      .eq('event_id', eventId)
+
+    const existingIds = ((existing as any[]) || []).map(c => c.user_id as string)
+    const wantedIds = cohosts.map(c => c.id)
+
+    const toRemove = existingIds.filter(id => !wantedIds.includes(id))
+    if (toRemove.length > 0) {
+      const { error } = await supabase
+        .from('event_cohosts')
+        .delete()
+        .eq('event_id', eventId)
+        .in('user_id', toRemove)
+      if (error) console.error('Failed to remove co-hosts:', error)
+    }
+
+    const toAdd = wantedIds.filter(id => !existingIds.includes(id))
+    if (toAdd.length > 0) {
+      const { error } = await (supabase.from('event_cohosts') as any).insert(
+        toAdd.map(id => ({ event_id: eventId, user_id: id, added_by: userId, role: 'cohost' }))
+      )
+      if (error) console.error('Failed to add co-hosts:', error)
+    }
+  }
+}
+
+// ============================================================================
+// Drafts
+// ============================================================================
+
+export interface EventDraft {
+  event_id: string
+  form: EventFormData
+  rsvp_questions: EventTemplateQuestion[]
+  updated_at: string
+}
+
+export interface EventDraftSummary {
+  id: string
+  title: string
+  date: string
+  updated_at: string
+}
+
+// Drafts saved before a field existed still open with its default
+const toEventDraft = (row: any): EventDraft => ({
+  event_id: row.event_id,
+  form: { ...getDefaultEventForm(), ...(row.form_data || {}) },
+  rsvp_questions: row.rsvp_questions || [],
+  updated_at: row.updated_at,
+})
+
+// The user's autosaved wizard state for an event, if any
+export const loadEventDraft = async (eventId: string, userId: string): Promise<EventDraft | null> => {
+  const { data, error } = await supabase
+    .from('event_drafts')
+    .select('*')
+    .eq('event_id', eventId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? toEventDraft(data) : null
+}
+
+// New events the user started but hasn't published, most recently touched first
+export const loadMyEventDrafts = async (userId: string): Promise<EventDraftSummary[]> => {
+  const { data, error } = await supabase
+    .from('events')
+    .select('id, title, date, updated_at')
+    .eq('created_by', userId)
+    .eq('status', 'draft')
+    .eq('published', false)
+    .order('updated_at', { ascending: false })
+    .limit(10)
+
+  if (error) throw error
+  return (data as EventDraftSummary[]) || []
+}
+
+const upsertDraftState = async (
+  eventId: string,
+  userId: string,
+  form: EventFormData,
+  questions: EventTemplateQuestion[]
+): Promise<void> => {
+  const { error } = await (supabase.from('event_drafts') as any).upsert({
+    event_id: eventId,
+    user_id: userId,
+    form_data: form,
+    rsvp_questions: questions,
+  }, { onConflict: 'event_id,user_id' })
+
+  if (error) throw error
+}
+
+/**
+ * Autosave a new event. The first save creates the draft events row; later saves
+ * keep its columns current so the draft lists with the right title and date.
+ * Returns the draft's event id.
+ */
+export const saveNewEventDraft = async (options: {
+  draftId: string | null
+  userId: string
+  form: EventFormData
+  questions: EventTemplateQuestion[]
+}): Promise<string> => {
+  const { userId, form, questions } = options
+  const row = {
+    ...toEventColumns(form),
+    status: 'draft',
+    published: false,
+    updated_at: new Date().toISOString(),
+  }
+
+  let draftId = options.draftId
+  if (draftId) {
+    const { error } = await (supabase.from('events') as any)
+      .update(row)
+      .eq('id', draftId)
+      .eq('status', 'draft')
+    if (error) throw error
+  } else {
+    const { data, error } = await (supabase.from('events') as any)
+      .insert({ ...row, created_by: userId })
+      .select('id')
+      .single()
+    if (error) throw error
+    draftId = (data as { id: string }).id
+  }
+
+  await upsertDraftState(draftId as string, userId, form, questions)
+  return draftId as string
+}
+
+// Autosave unsaved edits to a published event without touching the event itself
+export const saveEventEditsDraft = (eventId: string, userId: string, form: EventFormData): Promise<void> =>
+  upsertDraftState(eventId, userId, form, [])
+
+export const clearEventDraft = async (eventId: string, userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('event_drafts')
+    .delete()
+    .eq('event_id', eventId)
+    .eq('user_id', userId)
+
+  if (error) throw error
+}
+
+// Throw away a new event that was never published (its event_drafts row cascades)
+export const deleteNewEventDraft = async (eventId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('events')
+    .delete()
+    .eq('id', eventId)
+    .eq('status', 'draft')
+
+  if (error) throw error
+}
+
+// ============================================================================
+// Publishing and saving
+// ============================================================================
+
+// Older accounts may predate automatic profile creation
+const ensureProfile = async (userId: string, email?: string | null): Promise<void> => {
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (!profile) {
+    await (supabase.from('profiles') as any).insert({
+      id: userId,
+      email,
+      created_at: new Date().toISOString(),
+    })
+  }
+}
+
+/**
+ * Publish a new event, from its draft when there is one. A recurring event is
+ * created as a fresh series and its draft row removed. Callers validate first.
+ * Returns the ids of the published events.
+ */
+export const publishEventForm = async (options: {
+  draftId: string | null
+  userId: string
+  userEmail?: string | null
+  form: EventFormData
+  questions: EventTemplateQuestion[]
+  pickedPlace: GeocodedPlace | null
+}): Promise<string[]> => {
+  const { draftId, userId, form } = options
+  await ensureProfile(userId, options.userEmail)
+
+  const place = await resolveEventPlace(form.location, form.is_virtual, options.pickedPlace)
+  const publishedColumns = {
+    ...place,
+    status: 'scheduled',
+    status_updated_at: new Date().toISOString(),
+    published: true,
+  }
+
+  let eventIds: string[]
+  if (form.recurrence.enabled) {
+    const start = getFormStart(form)
+    const end = getFormEnd(form)
+    const series = await createEventSeries({
+      ...toSharedEventColumns(form),
+      ...publishedColumns,
+      created_by: userId,
+    }, {
+      date: form.date,
+      time: form.time || DEFAULT_EVENT_TIME,
+      timezone: form.timezone,
+      frequency: form.recurrence.frequency,
+      occurrences: form.recurrence.occurrences,
+      durationMs: start && end ? new Date(end).getTime() - new Date(start).getTime() : null,
+      createdBy: userId,
+    })
+    eventIds = series.eventIds
+
+    if (draftId) {
+      await deleteNewEventDraft(draftId)
+    }
+  } else if (draftId) {
+    const { error } = await (supabase.from('events') as any)
+      .update({ ...toEventColumns(form), ...publishedColumns, updated_at: new Date().toISOString() })
+      .eq('id', draftId)
+      .eq('status', 'draft')
+    if (error) throw error
+
+    await clearEventDraft(draftId, userId)
+    eventIds = [draftId]
+  } else {
+    const { data, error } = await (supabase.from('events') as any)
+      .insert({ ...toEventColumns(form), ...publishedColumns, created_by: userId })
+      .select('id')
+      .single()
+    if (error) throw error
+    eventIds = [(data as { id: string }).id]
+  }
+
+  await syncEventCohosts(eventIds, form.co_hosts, userId)
+
+  // Copy RSVP questions from the duplicated event or template
+  if (options.questions.length > 0) {
+    try {
+      await addTemplateQuestionsToEvents(eventIds, userId, options.questions)
+    } catch (questionError) {
+      console.error('Failed to add RSVP questions:', questionError)
+    }
+  }
+
+  return eventIds
+}
+
+/**
+ * Save changes to an existing event, optionally across its series, and clear the
+ * autosaved edits. Re-geocodes only when the location changed or was never geocoded.
+ */
+export const saveEventForm = async (options: {
+  eventId: string
+  userId: string
+  form: EventFormData
+  original: EventFormData
+  pickedPlace: GeocodedPlace | null
+  hasStoredPlace: boolean
+  series?: { id: string; index: number; scope: SeriesEditScope } | null
+}): Promise<void> => {
+  const { eventId, userId, form, original, series } = options
+
+  const locationChanged = form.location !== original.location || form.is_virtual !== original.is_virtual
+  const placeUpdates = locationChanged || !options.hasStoredPlace
+    ? await resolveEventPlace(form.location, form.is_virtual, options.pickedPlace)
+    : {}
+
+  const sharedUpdates = { ...toSharedEventColumns(form), ...placeUpdates }
+  const { date: start, end_time: end } = toEventColumns(form)
+
+  if (series && series.scope !== 'this') {
+    const existingIds = original.co_hosts.map(c => c.id)
+    const newIds = form.co_hosts.map(c => c.id)
+    const originalStart = toEventColumns(original).date
+
+    // Shift every occurrence by however far this one moved
+    await applySeriesEdit({
+      seriesId: series.id,
+      seriesIndex: series.index,
+      scope: series.scope,
+      updates: sharedUpdates,
+      startShiftMs: new Date(start).getTime() - new Date(originalStart).getTime(),
+      durationMs: end ? new Date(end).getTime() - new Date(start).getTime() : null,
+      addedCohostIds: newIds.filter(id => !existingIds.includes(id)),
+      removedCohostIds: existingIds.filter(id => !newIds.includes(id)),
+      userId,
+    })
+  } else {
+    const { error } = await (supabase.from('events') as any)
+      .update({
+        ...sharedUpdates,
+        date: start,
+        end_time: end,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', eventId)
+
+    if (error) throw error
+    await syncEventCohosts([eventId], form.co_hosts, userId)
+  }
+
+  await clearEventDraft(eventId, userId)
+}
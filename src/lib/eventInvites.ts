@@ -0,0 +1,59 @@
+import { supabase } from '@/lib/supabase'
+
+// Invite link token kept across the sign-up / email confirmation round trip
+const PENDING_INVITE_TOKEN_KEY = 'tmw-ppl-pending-invite'
+
+export const rememberInviteToken = (token: string) => {
+  localStorage.setItem(PENDING_INVITE_TOKEN_KEY, token)
+}
+
+export const getPendingInviteToken = (): string | null => {
+  if (typeof window === 'undefined') return null
+  return localStorage.getItem(PENDING_INVITE_TOKEN_KEY)
+}
+
+const authorizedPost = async (url: string, body: Record<string, unknown>) => {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) throw new Error('You need to be signed in')
+
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${session.access_token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  })
+}
+
+// Email the signed invite link for an email-only invitation (hosts only)
+export const sendInvitationEmail = async (invitationId: string): Promise<void> => {
+  const response = await authorizedPost('/api/invitations/send', { invitationId })
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}))
+    throw new Error(body.error || 'Failed to send invitation email')
+  }
+}
+
+// Accept an invite link as the signed-in user. Returns the event id, or null if the link is dead.
+export const claimInviteToken = async (token: string): Promise<string | null> => {
+  const response = await authorizedPost('/api/invitations/claim', { token })
+  if (response.status === 410) return null
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}))
+    throw new Error(body.error || 'Failed to accept invitation')
+  }
+
+  const body = await response.json()
+  return body.eventId as string
+}
+
+// Claim the invite link remembered before sign-up, if any. Returns the event id.
+export const claimPendingInvitation = async (): Promise<string | null> => {
+  const token = getPendingInviteToken()
+  if (!token) return null
+
+  const eventId = await claimInviteToken(token)
+  localStorage.removeItem(PENDING_INVITE_TOKEN_KEY)
+  return eventId
+}
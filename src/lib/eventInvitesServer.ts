@@ -0,0 +1,199 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getMailer } from '@/lib/mailer'
+import { formatEventDateTime, migrateLegacyDateTime } from '@/utils/dateTime'
+import { getBaseUrl } from '@/utils/url'
+
+/**
+ * Server-only helpers for emailed event invitations. Pass a service role client.
+ *
+ * Invite links look like /invite/<invitation id>.<expiry>.<signature>, signed with
+ * INVITE_SIGNING_SECRET. The signature is checked before the database is touched.
+ * Only the most recently sent link works: its expiry has to match the invitation's
+ * expires_at, so resending revokes earlier links, and so does deleting the row.
+ */
+
+export const INVITE_LINK_TTL_DAYS = 14
+
+const getSigningSecret = (): string | null => {
+  const secret = process.env.INVITE_SIGNING_SECRET
+  if (secret) return secret
+  return process.env.NODE_ENV !== 'production' ? 'development-invite-secret' : null
+}
+
+const sign = (payload: string, secret: string) =>
+  createHmac('sha256', secret).update(payload).digest('base64url')
+
+export const signInviteToken = (invitationId: string, expiresAt: Date): string => {
+  const secret = getSigningSecret()
+  if (!secret) throw new Error('INVITE_SIGNING_SECRET is not configured')
+
+  const payload = `${invitationId}.${Math.floor(expiresAt.getTime() / 1000)}`
+  return `${payload}.${sign(payload, secret)}`
+}
+
+export interface InviteToken {
+  invitationId: string
+  expiresAt: Date
+}
+
+// What a token was signed for, or null if it's forged, malformed or expired
+export const verifyInviteToken = (token: string): InviteToken | null => {
+  const secret = getSigningSecret()
+  const [invitationId, expiresAt, signature] = token.split('.')
+  if (!secret || !invitationId || !expiresAt || !signature) return null
+
+  const expected = Buffer.from(sign(`${invitationId}.${expiresAt}`, secret))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+  if (Number(expiresAt) * 1000 < Date.now()) return null
+
+  return { invitationId, expiresAt: new Date(Number(expiresAt) * 1000) }
+}
+
+export const getInviteUrl = (token: string) => `${getBaseUrl()}/invite/${token}`
+
+export interface InvitationDetails {
+  id: string
+  email: string | null
+  user_id: string | null
+  expires_at: string | null
+  event: {
+    id: string
+    title: string
+    date: string
+    time?: string | null
+    timezone?: string | null
+    location?: string | null
+    created_by: string
+  }
+  inviter_name: string | null
+}
+
+export const loadInvitationDetails = async (
+  client: SupabaseClient,
+  invitationId: string
+): Promise<InvitationDetails | null> => {
+  const { data: invitation } = await client
+    .from('event_invitations')
+    .select('id, email, user_id, expires_at, invited_by, event:events(id, title, date, time, timezone, location, created_by)')
+    .eq('id', invitationId)
+    .maybeSingle()
+
+  if (!invitation || !invitation.event) return null
+
+  const { data: inviter } = await client
+    .from('profiles')
+    .select('full_name')
+    .eq('id', invitation.invited_by)
+    .maybeSingle()
+
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    user_id: invitation.user_id,
+    expires_at: invitation.expires_at,
+    event: invitation.event as unknown as InvitationDetails['event'],
+    inviter_name: inviter?.full_name || null,
+  }
+}
+
+// Whether a verified token is the invitation's current link and hasn't expired
+export const isCurrentInviteLink = (details: InvitationDetails, invite: InviteToken): boolean => {
+  if (!details.expires_at) return false
+
+  const storedExpiry = new Date(details.expires_at).getTime()
+  if (storedExpiry < Date.now()) return false
+
+  // Tokens carry whole seconds
+  return Math.floor(storedExpiry / 1000) === Math.floor(invite.expiresAt.getTime() / 1000)
+}
+
+const buildInviteEmail = (details: InvitationDetails, inviteUrl: string) => {
+  const { event } = details
+  const when = formatEventDateTime(
+    event.date.includes('T') ? event.date : migrateLegacyDateTime(event.date, event.time || undefined),
+    event.timezone || undefined
+  )
+  const inviter = details.inviter_name || 'Someone'
+  const subject = `${inviter} invited you to ${event.title}`
+  const text = [
+    `${inviter} invited you to ${event.title}.`,
+    '',
+    `When: ${when}`,
+    event.location ? `Where: ${event.location}` : null,
+    '',
+    `See the event and RSVP: ${inviteUrl}`,
+    '',
+    `This link works for ${INVITE_LINK_TTL_DAYS} days. You'll be asked to sign up or log in first.`
+  ].filter(line => line !== null).join('\n')
+
+  return { subject, text }
+}
+
+/**
+ * Email a signed invite link for an email-only invitation and record when it went out.
+ * Resending issues a fresh link with a new expiry.
+ */
+export const sendInvitationEmail = async (
+  client: SupabaseClient,
+  details: InvitationDetails
+): Promise<void> => {
+  if (!details.email) throw new Error('Invitation has no email address')
+
+  const mailer = getMailer()
+  if (!mailer) throw new Error('Email is not configured')
+
+  const expiresAt = new Date(Date.now() + INVITE_LINK_TTL_DAYS * 24 * 60 * 60 * 1000)
+  const inviteUrl = getInviteUrl(signInviteToken(details.id, expiresAt))
+  const { subject, text } = buildInviteEmail(details, inviteUrl)
+
+  await mailer.send({ to: details.email, subject, text })
+
+  const { error } = await client
+    .from('event_invitations')
+    .update({ email_sent_at: new Date().toISOString(), expires_at: expiresAt.toISOString() })
+    .eq('id', details.id)
+  if (error) throw error
+}
+
+/**
+ * Link the invitation behind a verified token to a user. Returns the event id, or
+ * null when the invitation is gone, the link was replaced or has expired, or the
+ * invitation already belongs to someone else.
+ */
+export const claimInvitation = async (
+  client: SupabaseClient,
+  invite: InviteToken,
+  userId: string
+): Promise<string | null> => {
+  const { invitationId } = invite
+  const details = await loadInvitationDetails(client, invitationId)
+  if (!details || !isCurrentInviteLink(details, invite)) return null
+  if (details.user_id) return details.user_id === userId ? details.event.id : null
+
+  // Already invited some other way: that invitation is enough
+  const { data: existing } = await client
+    .from('event_invitations')
+    .select('id')
+    .eq('event_id', details.event.id)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (existing) return details.event.id
+
+  const { data: claimed, error } = await client
+    .from('event_invitations')
+    .update({ user_id: userId, claimed_at: new Date().toISOString() })
+    .eq('id', invitationId)
+    .is('user_id', null)
+    .select('id')
+  if (error) throw error
+
+  // Claimed by someone else (or the same link opened twice) since it was loaded
+  if (!claimed || claimed.length === 0) {
+    const current = await loadInvitationDetails(client, invitationId)
+    return current?.user_id === userId ? current.event.id : null
+  }
+
+  return details.event.id
+}
@@ -0,0 +1,175 @@
+import { supabase } from '@/lib/supabase'
+
+export const EVENT_PHOTOS_BUCKET = 'event-photos'
+export const MAX_EVENT_PHOTO_SIZE = 10 * 1024 * 1024 // 10MB
+
+export type EventPhotoStatus = 'pending' | 'approved' | 'rejected'
+
+export interface EventPhoto {
+  id: string
+  event_id: string
+  uploaded_by: string
+  storage_path: string
+  url: string
+  caption: string | null
+  status: EventPhotoStatus
+  reviewed_by: string | null
+  reviewed_at: string | null
+  created_at: string
+  uploader?: {
+    id: string
+    full_name: string | null
+    profile_picture_url?: string | null
+  } | null
+}
+
+// An approved photo with the event it came from, for the gallery
+export interface GalleryPhoto extends EventPhoto {
+  event: {
+    id: string
+    title: string
+    date: string
+  }
+}
+
+// Image URLs come from our own bucket, whatever url the row was saved with
+const withPublicUrl = <T extends EventPhoto>(photo: T): T => ({
+  ...photo,
+  url: supabase.storage.from(EVENT_PHOTOS_BUCKET).getPublicUrl(photo.storage_path).data.publicUrl
+})
+
+// Attach uploader profiles to photos with one profiles query, and their public URLs
+const withUploaders = async <T extends EventPhoto>(photos: T[]): Promise<T[]> => {
+  const userIds = Array.from(new Set(photos.map(p => p.uploaded_by)))
+  if (userIds.length === 0) return photos
+
+  const { data: profiles } = await supabase
+    .from('profiles')
+    .select('id, full_name, profile_picture_url')
+    .in('id', userIds)
+
+  const profilesById = new Map<string, EventPhoto['uploader']>()
+  ;((profiles as any[]) || []).forEach(p => profilesById.set(p.id, p))
+
+  return photos.map(photo => ({ ...withPublicUrl(photo), uploader: profilesById.get(photo.uploaded_by) || null }))
+}
+
+// An event's album, newest first. Hosts also get pending and rejected photos,
+// everyone else approved photos plus their own (via RLS).
+export const loadEventPhotos = async (eventId: string): Promise<EventPhoto[]> => {
+  const { data, error } = await supabase
+    .from('event_photos')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return withUploaders((data as EventPhoto[]) || [])
+}
+
+// Upload a photo to the album. Hosts' photos are approved right away; everyone
+// else's wait for a host (only hosts and attendees of live/completed events, enforced by RLS).
+export const uploadEventPhoto = async (
+  eventId: string,
+  userId: string,
+  file: File,
+  options: { caption?: string; isHost?: boolean } = {}
+): Promise<EventPhoto> => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Please choose an image file')
+  }
+  if (file.size > MAX_EVENT_PHOTO_SIZE) {
+    throw new Error('Photos must be smaller than 10MB')
+  }
+
+  const fileExt = file.name.split('.').pop()
+  const storagePath = `${eventId}/${userId}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${fileExt}`
+
+  const { error: uploadError } = await supabase.storage
+    .from(EVENT_PHOTOS_BUCKET)
+    .upload(storagePath, file, { cacheControl: '3600' })
+
+  if (uploadError) throw uploadError
+
+  const { data: { publicUrl } } = supabase.storage
+    .from(EVENT_PHOTOS_BUCKET)
+    .getPublicUrl(storagePath)
+
+  const now = new Date().toISOString()
+  const { data, error } = await (supabase.from('event_photos') as any)
+    .insert({
+      event_id: eventId,
+      uploaded_by: userId,
+      storage_path: storagePath,
+      url: publicUrl,
+      caption: options.caption?.trim() || null,
+      status: options.isHost ? 'approved' : 'pending',
+      reviewed_by: options.isHost ? userId : null,
+      reviewed_at: options.isHost ? now : null
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    // Don't leave an orphaned file behind if the row was refused
+    await supabase.storage.from(EVENT_PHOTOS_BUCKET).remove([storagePath])
+    throw error
+  }
+
+  return data as EventPhoto
+}
+
+// Approve or reject a photo (hosts only, enforced by RLS)
+export const reviewEventPhoto = async (
+  photoId: string,
+  reviewerId: string,
+  status: Exclude<EventPhotoStatus, 'pending'>
+): Promise<void> => {
+  const { error } = await (supabase.from('event_photos') as any)
+    .update({
+      status,
+      reviewed_by: reviewerId,
+      reviewed_at: new Date().toISOString()
+    })
+    .eq('id', photoId)
+
+  if (error) throw error
+}
+
+// Remove a photo and its file (the uploader or a host)
+export const deleteEventPhoto = async (photo: Pick<EventPhoto, 'id' | 'storage_path'>): Promise<void> => {
+  const { error } = await supabase
+    .from('event_photos')
+    .delete()
+    .eq('id', photo.id)
+
+  if (error) throw error
+
+  const { error: storageError } = await supabase.storage
+    .from(EVENT_PHOTOS_BUCKET)
+    .remove([photo.storage_path])
+
+  if (storageError) console.error('Error removing photo file:', storageError)
+}
+
+// Approved photos from published, public events, newest first
+export const loadGalleryPhotos = async (
+  options: { limit?: number; before?: string } = {}
+): Promise<GalleryPhoto[]> => {
+  let query = supabase
+    .from('event_photos')
+    .select('*, event:events!inner(id, title, date, published, is_private)')
+    .eq('status', 'approved')
+    .eq('event.published', true)
+    .not('event.is_private', 'is', true)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 48)
+
+  if (options.before) {
+    query = query.lt('created_at', options.before)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+  return withUploaders((data as GalleryPhoto[]) || [])
+}
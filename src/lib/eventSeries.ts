@@ -0,0 +1,223 @@
+import { supabase, type EventSeries } from '@/lib/supabase'
+import { createEventDateTime } from '@/utils/dateTime'
+import {
+  formatRecurrenceRule,
+  getOccurrenceDates,
+  parseRecurrenceRule,
+  toRecurrenceRule,
+  type RecurrenceFrequency,
+} from '@/utils/recurrence'
+
+// Which occurrences an edit to a recurring event applies to
+export type SeriesEditScope = 'this' | 'following' | 'all'
+
+interface CreateSeriesOptions {
+  date: string
+  time: string
+  timezone?: string
+  frequency: RecurrenceFrequency
+  occurrences: number
+  // Length of each occurrence, when the event has an end time
+  durationMs?: number | null
+  createdBy: string
+}
+
+interface SeriesOccurrence {
+  id: string
+  date: string
+  end_time?: string | null
+  series_index: number
+}
+
+interface SeriesEditOptions {
+  seriesId: string
+  seriesIndex: number
+  scope: Exclude<SeriesEditScope, 'this'>
+  // Fields copied verbatim to every occurrence in scope (no date fields)
+  updates: Record<string, any>
+  // How far the edited occurrence's start moved, applied to every occurrence
+  startShiftMs: number
+  // New event length, or null when the event has no end time
+  durationMs: number | null
+  addedCohostIds: string[]
+  removedCohostIds: string[]
+  userId: string
+}
+
+/**
+ * Create a series record and one events row per occurrence.
+ * `eventData` is the row shared by every occurrence; its `date` and `end_time` are replaced.
+ */
+export const createEventSeries = async (
+  eventData: Record<string, any>,
+  options: CreateSeriesOptions
+): Promise<{ seriesId: string; eventIds: string[] }> => {
+  const rule = toRecurrenceRule(options.frequency, options.occurrences)
+  const dates = getOccurrenceDates(options.date, rule)
+
+  const { data: series, error: seriesError } = await supabase
+    .from('event_series')
+    .insert({
+      created_by: options.createdBy,
+      rrule: formatRecurrenceRule(rule),
+      dtstart: createEventDateTime(options.date, options.time, options.timezone),
+      timezone: options.timezone || null,
+    } as any)
+    .select('id')
+    .single()
+
+  if (seriesError) throw seriesError
+  const seriesId = (series as { id: string }).id
+
+  const occurrences = dates.map((date, index) => {
+    const start = createEventDateTime(date, options.time, options.timezone)
+    return {
+      ...eventData,
+      date: start,
+      end_time: options.durationMs ? new Date(new Date(start).getTime() + options.durationMs).toISOString() : null,
+      series_id: seriesId,
+      series_index: index,
+    }
+  })
+
+  const { data: createdEvents, error: insertError } = await supabase
+    .from('events')
+    .insert(occurrences as any)
+    .select('id')
+
+  if (insertError) {
+    // Don't leave an empty series behind
+    await supabase.from('event_series').delete().eq('id', seriesId)
+    throw insertError
+  }
+
+  return {
+    seriesId,
+    eventIds: ((createdEvents as { id: string }[]) || []).map(e => e.id),
+  }
+}
+
+// Load a series record
+export const loadEventSeries = async (seriesId: string): Promise<EventSeries | null> => {
+  const { data, error } = await supabase
+    .from('event_series')
+    .select('*')
+    .eq('id', seriesId)
+    .single()
+
+  if (error) return null
+  return data as EventSeries
+}
+
+// Count the occurrences still linked to a series
+export const countSeriesOccurrences = async (seriesId: string): Promise<number> => {
+  const { count } = await supabase
+    .from('events')
+    .select('id', { count: 'exact', head: true })
+    .eq('series_id', seriesId)
+
+  return count || 0
+}
+
+const loadOccurrences = async (seriesId: string, fromIndex: number): Promise<SeriesOccurrence[]> => {
+  const { data, error } = await supabase
+    .from('events')
+    .select('id, date, end_time, series_index')
+    .eq('series_id', seriesId)
+    .gte('series_index', fromIndex)
+    .order('series_index', { ascending: true })
+
+  if (error) throw error
+  return (data as SeriesOccurrence[]) || []
+}
+
+/**
+ * Split a series so that the occurrence at `seriesIndex` and everything after it
+ * belong to a new series. The original series keeps the earlier occurrences.
+ * Returns the id of the series that now holds the following occurrences.
+ */
+const splitEventSeries = async (seriesId: string, seriesIndex: number): Promise<string> => {
+  if (seriesIndex <= 0) return seriesId
+
+  const series = await loadEventSeries(seriesId)
+  if (!series) throw new Error('Event series not found')
+
+  const following = await loadOccurrences(seriesId, seriesIndex)
+  if (following.length === 0) return seriesId
+
+  const rule = parseRecurrenceRule(series.rrule)
+
+  // One transaction, so the original is never left overlapping the new series
+  const { data: newSeriesId, error } = await (supabase as any).rpc('split_event_series', {
+    p_series_id: seriesId,
+    p_series_index: seriesIndex,
+    p_truncated_rrule: formatRecurrenceRule({ ...rule, count: seriesIndex }),
+    p_following_rrule: formatRecurrenceRule({ ...rule, count: following.length }),
+  })
+
+  if (error) throw error
+  return newSeriesId as string
+}
+
+/**
+ * Apply an edit to "this and following" or "all" occurrences of a series.
+ * Editing "this and following" splits the series first, so later edits to the
+ * earlier occurrences don't leak into the new run and vice versa.
+ */
+export const applySeriesEdit = async (options: SeriesEditOptions): Promise<void> => {
+  const targetSeriesId = options.scope === 'following'
+    ? await splitEventSeries(options.seriesId, options.seriesIndex)
+    : options.seriesId
+
+  const occurrences = await loadOccurrences(targetSeriesId, 0)
+  const eventIds = occurrences.map(o => o.id)
+
+  for (const occurrence of occurrences) {
+    const start = new Date(new Date(occurrence.date).getTime() + options.startShiftMs)
+    const end = options.durationMs !== null
+      ? new Date(start.getTime() + options.durationMs).toISOString()
+      : null
+
+    const { error } = await (supabase
+      .from('events') as any)
+      .update({
+        ...options.updates,
+        date: start.toISOString(),
+        end_time: end,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', occurrence.id)
+
+    if (error) throw error
+  }
+
+  if (occurrences.length > 0 && options.startShiftMs !== 0) {
+    await (supabase
+      .from('event_series') as any)
+      .update({ dtstart: new Date(new Date(occurrences[0].date).getTime() + options.startShiftMs).toISOString() })
+      .eq('id', targetSeriesId)
+  }
+
+  if (options.removedCohostIds.length > 0) {
+    await supabase
+      .from('event_cohosts')
+      .delete()
+      .in('event_id', eventIds)
+      .in('user_id', options.removedCohostIds)
+  }
+
+  if (options.addedCohostIds.length > 0) {
+    const cohostEntries = eventIds.flatMap(eventId =>
+      options.addedCohostIds.map(cohostId => ({
+        event_id: eventId,
+        user_id: cohostId,
+        added_by: options.userId,
+        role: 'cohost'
+      }))
+    )
+
+    await supabase
+      .from('event_cohosts')
+      .upsert(cohostEntries as any, { onConflict: 'event_id,user_id', ignoreDuplicates: true })
+  }
+}
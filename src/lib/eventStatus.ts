@@ -0,0 +1,31 @@
+import { supabase } from '@/lib/supabase'
+import { type EventStatus } from '@/utils/eventStatus'
+
+export interface EventStatusChange {
+  id: string
+  event_id: string
+  from_status: EventStatus | null
+  to_status: EventStatus
+  reason: 'manual' | 'schedule' | 'rsvp_deadline'
+  changed_by: string | null
+  created_at: string
+}
+
+export const STATUS_CHANGE_REASONS: Record<EventStatusChange['reason'], string> = {
+  manual: 'Changed by a host',
+  schedule: 'Automatic',
+  rsvp_deadline: 'RSVP deadline',
+}
+
+// An event's status history, newest first
+export const loadEventStatusChanges = async (eventId: string, limit = 10): Promise<EventStatusChange[]> => {
+  const { data, error } = await supabase
+    .from('event_status_changes')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data as EventStatusChange[]) || []
+}
@@ -0,0 +1,192 @@
+import { supabase } from '@/lib/supabase'
+import { loadRsvpQuestions } from '@/lib/rsvpQuestions'
+import { ConfigurableField } from '@/types/sections'
+
+export interface EventTemplateCohost {
+  id: string
+  email: string
+  full_name?: string
+}
+
+// A question definition without the ids of the event it was copied from
+export type EventTemplateQuestion = Omit<ConfigurableField, 'id'>
+
+// Everything a template (or a duplicated event) pre-fills in the create form.
+// Dates are left out on purpose: a copy is always for a new date.
+export interface EventTemplateData {
+  title?: string
+  description: string
+  location: string
+  image_url: string
+  tags: string[]
+  is_private: boolean
+  guest_list_visibility: 'public' | 'rsvp_only' | 'hidden'
+  group_name: string
+  max_capacity: number | null
+  max_guests_per_rsvp: number
+  waitlist_enabled: boolean
+  co_hosts: EventTemplateCohost[]
+  rsvp_questions: EventTemplateQuestion[]
+}
+
+export interface EventTemplate {
+  id: string
+  name: string
+  created_by: string
+  section_id: string | null
+  data: EventTemplateData
+  created_at: string
+  updated_at: string
+  // Joined data
+  section?: { id: string; name: string } | null
+}
+
+const toTemplateQuestion = (question: ConfigurableField): EventTemplateQuestion => ({
+  field_name: question.field_name,
+  field_label: question.field_label,
+  field_type: question.field_type,
+  field_options: question.field_options || [],
+  placeholder: question.placeholder,
+  help_text: question.help_text,
+  default_value: question.default_value,
+  is_required: question.is_required,
+  min_length: question.min_length,
+  max_length: question.max_length,
+  validation_pattern: question.validation_pattern,
+  display_order: question.display_order,
+  is_active: question.is_active,
+})
+
+// Build template data from an existing event, including its co-hosts and RSVP questions
+export const loadEventAsTemplateData = async (eventId: string): Promise<EventTemplateData> => {
+  const { data: eventData, error } = await supabase
+    .from('events')
+    .select('*')
+    .eq('id', eventId)
+    .single()
+
+  if (error) throw error
+  const event = eventData as any
+
+  const [{ data: cohostData }, questions] = await Promise.all([
+    supabase
+      .from('event_cohosts')
+      .select('user_id')
+      .eq('event_id', eventId),
+    loadRsvpQuestions(eventId)
+  ])
+
+  let coHosts: EventTemplateCohost[] = []
+  const cohostIds = ((cohostData as any[]) || []).map(c => c.user_id)
+  if (cohostIds.length > 0) {
+    const { data: profilesData } = await supabase
+      .from('profiles')
+      .select('id, email, full_name')
+      .in('id', cohostIds)
+    coHosts = (profilesData as EventTemplateCohost[]) || []
+  }
+
+  return {
+    title: event.title,
+    description: event.description || '',
+    location: event.location || '',
+    image_url: event.image_url || '',
+    tags: event.tags || [],
+    is_private: event.is_private || false,
+    guest_list_visibility: event.guest_list_visibility || 'rsvp_only',
+    group_name: event.group_name || '',
+    max_capacity: event.max_capacity || null,
+    max_guests_per_rsvp: event.max_guests_per_rsvp || 0,
+    waitlist_enabled: event.waitlist_enabled || false,
+    co_hosts: coHosts,
+    rsvp_questions: questions.map(toTemplateQuestion),
+  }
+}
+
+// The user's own templates plus those shared with their sections (filtered by RLS)
+export const loadEventTemplates = async (): Promise<EventTemplate[]> => {
+  const { data, error } = await supabase
+    .from('event_templates')
+    .select('*, section:sections(id, name)')
+    .order('name', { ascending: true })
+
+  if (error) throw error
+  return (data as EventTemplate[]) || []
+}
+
+export const loadEventTemplate = async (templateId: string): Promise<EventTemplate | null> => {
+  const { data, error } = await supabase
+    .from('event_templates')
+    .select('*, section:sections(id, name)')
+    .eq('id', templateId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as EventTemplate | null
+}
+
+export const saveEventTemplate = async (
+  userId: string,
+  name: string,
+  data: EventTemplateData,
+  sectionId: string | null = null
+): Promise<EventTemplate> => {
+  // Templates aren't tied to one event's title
+  const { title, ...templateData } = data
+  const { data: created, error } = await (supabase.from('event_templates') as any)
+    .insert({
+      name: name.trim(),
+      created_by: userId,
+      section_id: sectionId,
+      data: templateData
+    })
+    .select('*, section:sections(id, name)')
+    .single()
+
+  if (error) throw error
+  return created as EventTemplate
+}
+
+export const deleteEventTemplate = async (templateId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('event_templates')
+    .delete()
+    .eq('id', templateId)
+
+  if (error) throw error
+}
+
+// Copy a template's RSVP questions onto newly created events
+export const addTemplateQuestionsToEvents = async (
+  eventIds: string[],
+  userId: string,
+  questions: EventTemplateQuestion[]
+): Promise<void> => {
+  if (eventIds.length === 0 || questions.length === 0) return
+
+  const rows = eventIds.flatMap(eventId =>
+    questions.map(question => ({
+      ...question,
+      event_id: eventId,
+      created_by: userId
+    }))
+  )
+
+  const { error } = await (supabase.from('event_rsvp_questions') as any).insert(rows)
+  if (error) throw error
+}
+
+// Sections the user can share a template with (approved memberships)
+export const loadTemplateSections = async (userId: string): Promise<{ id: string; name: string }[]> => {
+  const { data, error } = await supabase
+    .from('section_members')
+    .select('section:sections(id, name)')
+    .eq('user_id', userId)
+    .eq('status', 'approved')
+
+  if (error) throw error
+  return ((data as any[]) || [])
+    .map(m => m.section)
+    .filter(Boolean)
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
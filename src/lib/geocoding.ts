@@ -0,0 +1,81 @@
+import { supabase } from '@/lib/supabase'
+
+/**
+ * Geocoding for event locations
+ *
+ * Typed-in addresses are geocoded by /api/geocode, which goes through the provider
+ * configured in src/lib/geocodingServer.ts. Places picked from the Google Places
+ * autocomplete already carry coordinates and skip that round trip.
+ */
+
+export interface GeocodedPlace {
+  lat: number
+  lng: number
+  place_id: string | null
+  formatted_address: string
+}
+
+// The events columns a place is stored in
+export interface EventPlaceFields {
+  location_lat: number | null
+  location_lng: number | null
+  location_place_id: string | null
+  location_address: string | null
+}
+
+export const EMPTY_EVENT_PLACE: EventPlaceFields = {
+  location_lat: null,
+  location_lng: null,
+  location_place_id: null,
+  location_address: null,
+}
+
+export const toEventPlaceFields = (place: GeocodedPlace | null): EventPlaceFields => {
+  if (!place) return EMPTY_EVENT_PLACE
+  return {
+    location_lat: place.lat,
+    location_lng: place.lng,
+    location_place_id: place.place_id,
+    location_address: place.formatted_address,
+  }
+}
+
+// Geocode a typed-in address through /api/geocode; null when nothing matched or geocoding is off
+export const geocodeLocation = async (query: string): Promise<GeocodedPlace | null> => {
+  if (!query.trim()) return null
+
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) return null
+
+  const response = await fetch(`/api/geocode?q=${encodeURIComponent(query.trim())}`, {
+    headers: { Authorization: `Bearer ${session.access_token}` }
+  })
+  if (response.status === 404 || response.status === 503) return null
+  if (!response.ok) {
+    throw new Error(`Geocoding failed with status ${response.status}`)
+  }
+
+  const body = await response.json()
+  return body.place as GeocodedPlace | null
+}
+
+/**
+ * Place columns to save with an event. Uses the place picked from autocomplete when
+ * there is one, otherwise geocodes the text. Never throws: an event without
+ * coordinates just doesn't show up on the map.
+ */
+export const resolveEventPlace = async (
+  location: string,
+  isVirtual: boolean,
+  pickedPlace: GeocodedPlace | null
+): Promise<EventPlaceFields> => {
+  if (isVirtual || !location.trim()) return EMPTY_EVENT_PLACE
+  if (pickedPlace) return toEventPlaceFields(pickedPlace)
+
+  try {
+    return toEventPlaceFields(await geocodeLocation(location))
+  } catch (err) {
+    console.error('Error geocoding event location:', err)
+    return EMPTY_EVENT_PLACE
+  }
+}
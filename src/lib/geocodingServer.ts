@@ -0,0 +1,93 @@
+import type { GeocodedPlace } from '@/lib/geocoding'
+
+/**
+ * Server-only geocoding providers, used by /api/geocode.
+ * The provider is chosen with GEOCODING_PROVIDER:
+ *   - 'google': Google Geocoding API (GOOGLE_MAPS_API_KEY, or NEXT_PUBLIC_GOOGLE_MAPS_API_KEY)
+ *   - 'stub':   deterministic fake coordinates around GEOCODING_STUB_CENTER ("lat,lng"), for local development
+ *   - 'none':   geocoding off
+ * When unset, Google is used if a key is configured, otherwise the stub outside production.
+ */
+
+export interface GeocodingProvider {
+  name: string
+  geocode: (query: string) => Promise<GeocodedPlace | null>
+}
+
+const createGoogleProvider = (apiKey: string): GeocodingProvider => ({
+  name: 'google',
+  geocode: async (query) => {
+    const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(query)}&key=${apiKey}`
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Geocoding request failed with status ${response.status}`)
+    }
+
+    const body = await response.json()
+    if (body.status === 'ZERO_RESULTS') return null
+    if (body.status !== 'OK') {
+      throw new Error(`Geocoding failed: ${body.status}${body.error_message ? ` (${body.error_message})` : ''}`)
+    }
+
+    const result = body.results[0]
+    return {
+      lat: result.geometry.location.lat,
+      lng: result.geometry.location.lng,
+      place_id: result.place_id || null,
+      formatted_address: result.formatted_address || query,
+    }
+  },
+})
+
+// Same address, same coordinates: spreads places within ~10 km of the center
+// so the map and distance filter have something realistic to work with.
+const createStubProvider = (center: { lat: number; lng: number }): GeocodingProvider => ({
+  name: 'stub',
+  geocode: async (query) => {
+    let hash = 0
+    for (const char of query.trim().toLowerCase()) {
+      hash = (hash * 31 + char.charCodeAt(0)) | 0
+    }
+    const unsigned = hash >>> 0
+    const latOffset = ((unsigned % 2000) / 1000 - 1) * 0.09
+    const lngOffset = ((Math.floor(unsigned / 2000) % 2000) / 1000 - 1) * 0.12
+
+    return {
+      lat: center.lat + latOffset,
+      lng: center.lng + lngOffset,
+      place_id: `stub:${unsigned.toString(16)}`,
+      formatted_address: query.trim(),
+    }
+  },
+})
+
+const parseStubCenter = (value: string | undefined) => {
+  const [lat, lng] = (value || '').split(',').map(Number)
+  if (Number.isFinite(lat) && Number.isFinite(lng)) return { lat, lng }
+  return { lat: 40.7128, lng: -74.006 } // New York
+}
+
+/**
+ * The configured provider, or null when geocoding is turned off
+ * (production without an API key, or GEOCODING_PROVIDER=none).
+ */
+export const getGeocodingProvider = (): GeocodingProvider | null => {
+  const apiKey = process.env.GOOGLE_MAPS_API_KEY || process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY
+  const hasGoogleKey = !!apiKey && apiKey !== 'your_google_maps_api_key_here'
+  const configured = process.env.GEOCODING_PROVIDER
+
+  switch (configured) {
+    case 'google':
+      return hasGoogleKey ? createGoogleProvider(apiKey!) : null
+    case 'stub':
+      return createStubProvider(parseStubCenter(process.env.GEOCODING_STUB_CENTER))
+    case 'none':
+      return null
+  }
+
+  if (hasGoogleKey) return createGoogleProvider(apiKey!)
+  if (process.env.NODE_ENV !== 'production') {
+    return createStubProvider(parseStubCenter(process.env.GEOCODING_STUB_CENTER))
+  }
+  return null
+}
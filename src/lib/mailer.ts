@@ -0,0 +1,92 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+/**
+ * Server-only outgoing email, used by API routes.
+ * The transport is chosen with MAIL_TRANSPORT:
+ *   - 'resend':  Resend HTTP API (RESEND_API_KEY), sent from MAIL_FROM
+ *   - 'file':    writes each message to MAIL_OUTBOX_DIR (default .mail-outbox/) for local development
+ *   - 'console': logs each message
+ * When unset, Resend is used if a key is configured, otherwise the console outside production.
+ */
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface Mailer {
+  name: string
+  send: (message: MailMessage) => Promise<void>
+}
+
+const getFromAddress = () => process.env.MAIL_FROM || 'TMW <no-reply@localhost>'
+
+const createResendMailer = (apiKey: string): Mailer => ({
+  name: 'resend',
+  send: async (message) => {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        from: getFromAddress(),
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html
+      })
+    })
+    if (!response.ok) {
+      throw new Error(`Resend responded with ${response.status}: ${await response.text()}`)
+    }
+  },
+})
+
+const createFileMailer = (directory: string): Mailer => ({
+  name: 'file',
+  send: async (message) => {
+    await fs.mkdir(directory, { recursive: true })
+    const slug = message.to.replace(/[^a-z0-9]+/gi, '-').toLowerCase()
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${slug}.eml`
+    const contents = [
+      `From: ${getFromAddress()}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      '',
+      message.text
+    ].join('\n')
+    await fs.writeFile(path.join(directory, fileName), contents, 'utf8')
+  },
+})
+
+const consoleMailer: Mailer = {
+  name: 'console',
+  send: async (message) => {
+    console.log(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`)
+  },
+}
+
+// The configured mailer, or null when email is turned off (production without a transport)
+export const getMailer = (): Mailer | null => {
+  const resendKey = process.env.RESEND_API_KEY
+  const outboxDir = process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), '.mail-outbox')
+
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'resend':
+      return resendKey ? createResendMailer(resendKey) : null
+    case 'file':
+      return createFileMailer(outboxDir)
+    case 'console':
+      return consoleMailer
+    case 'none':
+      return null
+  }
+
+  if (resendKey) return createResendMailer(resendKey)
+  return process.env.NODE_ENV !== 'production' ? consoleMailer : null
+}
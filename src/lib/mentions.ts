@@ -0,0 +1,186 @@
+import { supabase, type ChannelMessage } from '@/lib/supabase'
+
+/**
+ * Mentions are stored in message content as @[Name](user-id), so they render with
+ * the name the sender saw and link to /profiles/<id>. @channel and @here are
+ * plain text and set mention_scope. See 20240110000039_message_mentions.sql.
+ */
+
+export type MentionScope = 'channel' | 'here'
+
+export type MentionKind = 'user' | MentionScope
+
+export interface MentionCandidate {
+  id: string
+  full_name: string | null
+  email?: string | null
+  profile_picture_url?: string | null
+}
+
+export interface MessageMention {
+  id: string
+  message_id: string
+  channel_id: string
+  user_id: string
+  mentioned_by: string
+  kind: MentionKind
+  read_at: string | null
+  created_at: string
+  // Joined data
+  message?: Pick<ChannelMessage, 'id' | 'content' | 'parent_message_id' | 'created_at' | 'deleted_at'> | null
+  channel?: { id: string; name: string; type: string } | null
+  author?: { id: string; full_name: string | null; profile_picture_url?: string | null } | null
+}
+
+export type MentionSegment =
+  | { type: 'text'; text: string }
+  | { type: 'user'; userId: string; name: string }
+  | { type: 'scope'; scope: MentionScope }
+
+export const MENTION_SCOPES: { scope: MentionScope; description: string }[] = [
+  { scope: 'channel', description: 'Notify everyone in this chat' },
+  { scope: 'here', description: 'Notify everyone who is active right now' },
+]
+
+const MENTION_PATTERN = /@\[([^\]]+)\]\(([0-9a-f-]{36})\)|@(channel|here)\b/
+
+export const formatMention = (candidate: MentionCandidate) =>
+  `@[${(candidate.full_name || candidate.email || 'Someone').replace(/[[\]]/g, '')}](${candidate.id})`
+
+export const getMentionName = (candidate: MentionCandidate) =>
+  candidate.full_name || candidate.email?.split('@')[0] || 'Someone'
+
+// Split content into text and mentions for rendering
+export const splitMentions = (content: string): MentionSegment[] => {
+  const segments: MentionSegment[] = []
+  let lastIndex = 0
+
+  const pattern = new RegExp(MENTION_PATTERN.source, 'gi')
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(content)) !== null) {
+    const index = match.index
+    if (index > lastIndex) {
+      segments.push({ type: 'text', text: content.slice(lastIndex, index) })
+    }
+    if (match[3]) {
+      segments.push({ type: 'scope', scope: match[3].toLowerCase() as MentionScope })
+    } else {
+      segments.push({ type: 'user', userId: match[2], name: match[1] })
+    }
+    lastIndex = index + match[0].length
+  }
+
+  if (lastIndex < content.length) {
+    segments.push({ type: 'text', text: content.slice(lastIndex) })
+  }
+  return segments
+}
+
+// The mentioned user ids and @channel/@here scope to store with a message
+export const extractMentions = (content: string): { userIds: string[]; scope: MentionScope | null } => {
+  const segments = splitMentions(content)
+  const userIds = Array.from(new Set(
+    segments.flatMap(s => s.type === 'user' ? [s.userId] : [])
+  ))
+  const scopes = segments.flatMap(s => s.type === 'scope' ? [s.scope] : [])
+  return {
+    userIds,
+    scope: scopes.includes('channel') ? 'channel' : scopes.includes('here') ? 'here' : null,
+  }
+}
+
+// Content with mention tokens turned back into @Name, for previews
+export const toPlainText = (content: string) =>
+  splitMentions(content)
+    .map(s => s.type === 'text' ? s.text : s.type === 'user' ? `@${s.name}` : `@${s.scope}`)
+    .join('')
+
+/**
+ * Replace the "@Name" text of people picked from autocomplete with mention
+ * tokens. Longer names go first so "@Ann Lee" isn't eaten by "@Ann".
+ */
+export const encodeMentions = (content: string, picked: MentionCandidate[]) =>
+  [...picked]
+    .sort((a, b) => getMentionName(b).length - getMentionName(a).length)
+    .reduce((text, candidate) => text.split(`@${getMentionName(candidate)}`).join(formatMention(candidate)), content)
+
+// People who can be mentioned in a channel (its members), by name
+export const loadMentionCandidates = async (channelId: string): Promise<MentionCandidate[]> => {
+  const { data: members, error } = await supabase
+    .from('channel_members')
+    .select('user_id')
+    .eq('channel_id', channelId)
+    .eq('is_banned', false)
+
+  if (error) throw error
+  const ids = ((members as { user_id: string }[]) || []).map(m => m.user_id)
+  if (ids.length === 0) return []
+
+  const { data: profilesData } = await supabase
+    .from('profiles')
+    .select('id, full_name, email, profile_picture_url')
+    .in('id', ids)
+
+  return ((profilesData as MentionCandidate[]) || [])
+    .sort((a, b) => getMentionName(a).localeCompare(getMentionName(b)))
+}
+
+// The user's mentions inbox, newest first
+export const loadMyMentions = async (userId: string, limit = 50): Promise<MessageMention[]> => {
+  const { data, error } = await supabase
+    .from('message_mentions')
+    .select(`
+      *,
+      message:channel_messages(id, content, parent_message_id, created_at, deleted_at),
+      channel:channels(id, name, type)
+    `)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  const mentions = (data as MessageMention[]) || []
+  if (mentions.length === 0) return mentions
+
+  const { data: authors } = await supabase
+    .from('profiles')
+    .select('id, full_name, profile_picture_url')
+    .in('id', Array.from(new Set(mentions.map(m => m.mentioned_by))))
+
+  return mentions
+    .filter(m => m.message && !m.message.deleted_at)
+    .map(mention => ({
+      ...mention,
+      author: ((authors as any[]) || []).find(a => a.id === mention.mentioned_by) || null
+    }))
+}
+
+export const countUnreadMentions = async (userId: string): Promise<number> => {
+  const { count, error } = await supabase
+    .from('message_mentions')
+    .select('id, message:channel_messages!inner(deleted_at)', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('read_at', null)
+    .is('message.deleted_at', null)
+
+  if (error) throw error
+  return count || 0
+}
+
+export const markMentionsRead = async (mentionIds: string[]): Promise<void> => {
+  if (mentionIds.length === 0) return
+  const { error } = await (supabase.from('message_mentions') as any)
+    .update({ read_at: new Date().toISOString() })
+    .in('id', mentionIds)
+    .is('read_at', null)
+
+  if (error) throw error
+}
+
+// Link to the message: the thread for replies, otherwise the chat
+export const getMentionUrl = (mention: Pick<MessageMention, 'channel_id' | 'message'>) => {
+  const parentId = mention.message?.parent_message_id
+  return parentId
+    ? `/chats?channel=${mention.channel_id}&thread=${parentId}`
+    : `/chats?channel=${mention.channel_id}`
+}
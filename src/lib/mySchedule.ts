@@ -0,0 +1,78 @@
+import { supabase } from '@/lib/supabase'
+
+// How the user is involved in an event, strongest first
+export type ScheduleRole = 'hosting' | 'cohosting' | 'going'
+
+export const SCHEDULE_ROLE_LABELS: Record<ScheduleRole, string> = {
+  hosting: 'Hosting',
+  cohosting: 'Co-hosting',
+  going: 'Going',
+}
+
+export interface MyScheduleEvent {
+  id: string
+  title: string
+  date: string
+  time?: string
+  end_time?: string | null
+  location?: string
+  status?: string
+  max_capacity?: number
+  role: ScheduleRole
+  // RSVP'd going, whatever the role (hosts often RSVP to their own events too)
+  is_going: boolean
+}
+
+const SCHEDULE_EVENT_COLUMNS = 'id, title, date, time, end_time, location, status, max_capacity, created_by, published'
+
+/**
+ * Every event the user is hosting, co-hosting or has RSVP'd going to.
+ * Unpublished events are only included when the user created them.
+ */
+export const loadMySchedule = async (userId: string): Promise<MyScheduleEvent[]> => {
+  const [hostedResult, cohostResult, rsvpResult] = await Promise.all([
+    supabase.from('events').select(SCHEDULE_EVENT_COLUMNS).eq('created_by', userId),
+    supabase.from('event_cohosts').select('event_id').eq('user_id', userId),
+    supabase.from('event_rsvps').select('event_id').eq('user_id', userId).eq('status', 'going'),
+  ])
+
+  if (hostedResult.error) throw hostedResult.error
+
+  const goingIds = new Set(((rsvpResult.data as any[]) || []).map(r => r.event_id))
+  const roles = new Map<string, ScheduleRole>()
+  ;((hostedResult.data as any[]) || []).forEach(e => roles.set(e.id, 'hosting'))
+  ;((cohostResult.data as any[]) || []).forEach(c => {
+    if (!roles.has(c.event_id)) roles.set(c.event_id, 'cohosting')
+  })
+  ;((rsvpResult.data as any[]) || []).forEach(r => {
+    if (!roles.has(r.event_id)) roles.set(r.event_id, 'going')
+  })
+
+  const hostedIds = new Set(((hostedResult.data as any[]) || []).map(e => e.id))
+  const otherIds = Array.from(roles.keys()).filter(id => !hostedIds.has(id))
+
+  let otherEvents: any[] = []
+  if (otherIds.length > 0) {
+    const { data, error } = await supabase
+      .from('events')
+      .select(SCHEDULE_EVENT_COLUMNS)
+      .in('id', otherIds)
+      .eq('published', true)
+
+    if (error) throw error
+    otherEvents = (data as any[]) || []
+  }
+
+  return [...((hostedResult.data as any[]) || []), ...otherEvents].map(event => ({
+    id: event.id,
+    title: event.title,
+    date: event.date,
+    time: event.time || undefined,
+    end_time: event.end_time,
+    location: event.location || undefined,
+    status: event.status || undefined,
+    max_capacity: event.max_capacity || undefined,
+    role: roles.get(event.id) || 'going',
+    is_going: goingIds.has(event.id),
+  }))
+}
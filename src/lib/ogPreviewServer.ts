@@ -0,0 +1,244 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type { GetServerSideProps } from 'next'
+import { createServiceClient } from '@/lib/supabaseServer'
+import { formatEventDateTime, migrateLegacyDateTime } from '@/utils/dateTime'
+import { getBaseUrl } from '@/utils/url'
+
+/**
+ * Server-only link previews (Open Graph tags and preview card images) for events,
+ * sections and projects. Used by getServerSideProps and the edge route
+ * /api/og/[type]/[id], so keep it free of Node-only imports.
+ *
+ * The service role key bypasses RLS, so privacy is enforced here: private or
+ * unpublished events, and non-public sections and projects, only ever get a
+ * generic preview without their title, description or cover.
+ */
+
+export type OgEntityType = 'event' | 'section' | 'project'
+
+export const OG_ENTITY_TYPES: OgEntityType[] = ['event', 'section', 'project']
+
+export const isOgEntityType = (value: unknown): value is OgEntityType =>
+  typeof value === 'string' && (OG_ENTITY_TYPES as string[]).includes(value)
+
+// What a preview card shows. Private subjects only carry the generic label.
+export interface OgSubject {
+  type: OgEntityType
+  id: string
+  isPrivate: boolean
+  title: string
+  description: string | null
+  // Uploaded cover image; when null the card is generated instead
+  coverUrl: string | null
+  // Lines under the title on the generated card (date, location, host, counts)
+  details: string[]
+}
+
+// Serializable props for the OgMeta component
+export interface OgPreview {
+  url: string
+  title: string
+  description: string
+  image: string
+}
+
+export interface OgPageProps {
+  ogPreview: OgPreview | null
+}
+
+const PAGE_PATHS: Record<OgEntityType, string> = {
+  event: '/events',
+  section: '/sections',
+  project: '/projects',
+}
+
+const PRIVATE_LABELS: Record<OgEntityType, { title: string; description: string }> = {
+  event: {
+    title: 'Private event',
+    description: 'This event is invite-only. Sign in to see the details.',
+  },
+  section: {
+    title: 'Private section',
+    description: 'This section is members-only. Sign in to see the details.',
+  },
+  project: {
+    title: 'Private project',
+    description: 'This project is private. Sign in to see the details.',
+  },
+}
+
+// Service role client, or the anon client (where RLS hides private rows anyway)
+export const createOgClient = (): SupabaseClient | null => {
+  const serviceClient = createServiceClient()
+  if (serviceClient) return serviceClient
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+  if (!supabaseUrl || !anonKey) return null
+
+  return createClient(supabaseUrl, anonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
+
+const privateSubject = (type: OgEntityType, id: string): OgSubject => ({
+  type,
+  id,
+  isPrivate: true,
+  title: PRIVATE_LABELS[type].title,
+  description: PRIVATE_LABELS[type].description,
+  coverUrl: null,
+  details: [],
+})
+
+const loadProfileName = async (client: SupabaseClient, userId: string): Promise<string | null> => {
+  const { data } = await client
+    .from('profiles')
+    .select('full_name')
+    .eq('id', userId)
+    .maybeSingle()
+  return data?.full_name || null
+}
+
+const loadEventSubject = async (client: SupabaseClient, id: string): Promise<OgSubject | null> => {
+  const { data: event } = await client
+    .from('events')
+    .select('id, title, description, image_url, date, time, timezone, location, created_by, published, is_private')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (!event) return null
+  if (event.is_private || !event.published) return privateSubject('event', id)
+
+  const [hostName, { data: going }] = await Promise.all([
+    loadProfileName(client, event.created_by),
+    client.from('event_rsvps').select('guest_count').eq('event_id', id).eq('status', 'going'),
+  ])
+  const headcount = ((going as any[]) || []).reduce((sum, rsvp) => sum + 1 + (rsvp.guest_count || 0), 0)
+  const dateTime = event.date.includes('T') ? event.date : migrateLegacyDateTime(event.date, event.time || undefined)
+
+  return {
+    type: 'event',
+    id,
+    isPrivate: false,
+    title: event.title,
+    description: event.description || null,
+    coverUrl: event.image_url || null,
+    details: [
+      formatEventDateTime(dateTime, event.timezone || undefined, { showTimezone: true }),
+      event.location || null,
+      hostName ? `Hosted by ${hostName}` : null,
+      headcount > 0 ? `${headcount} going` : null,
+    ].filter((line): line is string => !!line),
+  }
+}
+
+const loadSectionSubject = async (client: SupabaseClient, id: string): Promise<OgSubject | null> => {
+  const { data: section } = await client
+    .from('sections')
+    .select('id, name, description, image_url, creator_id, is_public')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (!section) return null
+  if (section.is_public === false) return privateSubject('section', id)
+
+  const [creatorName, { count: memberCount }] = await Promise.all([
+    loadProfileName(client, section.creator_id),
+    client
+      .from('section_members')
+      .select('id', { count: 'exact', head: true })
+      .eq('section_id', id)
+      .eq('status', 'approved'),
+  ])
+
+  return {
+    type: 'section',
+    id,
+    isPrivate: false,
+    title: section.name,
+    description: section.description || null,
+    coverUrl: section.image_url || null,
+    details: [
+      memberCount ? `${memberCount} ${memberCount === 1 ? 'member' : 'members'}` : null,
+      creatorName ? `Started by ${creatorName}` : null,
+    ].filter((line): line is string => !!line),
+  }
+}
+
+const loadProjectSubject = async (client: SupabaseClient, id: string): Promise<OgSubject | null> => {
+  const { data: project } = await client
+    .from('projects')
+    .select('id, title, summary, description, image_url, status, category, creator_id, is_public')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (!project) return null
+  if (project.is_public === false) return privateSubject('project', id)
+
+  const creatorName = await loadProfileName(client, project.creator_id)
+  const status = project.status ? project.status.charAt(0).toUpperCase() + project.status.slice(1) : null
+
+  return {
+    type: 'project',
+    id,
+    isPrivate: false,
+    title: project.title,
+    description: project.summary || project.description || null,
+    coverUrl: project.image_url || null,
+    details: [
+      [status, project.category && project.category !== 'general' ? project.category : null].filter(Boolean).join(' · ') || null,
+      creatorName ? `By ${creatorName}` : null,
+    ].filter((line): line is string => !!line),
+  }
+}
+
+// The preview subject for a page, or null when it doesn't exist
+export const loadOgSubject = async (
+  client: SupabaseClient,
+  type: OgEntityType,
+  id: string
+): Promise<OgSubject | null> => {
+  switch (type) {
+    case 'event':
+      return loadEventSubject(client, id)
+    case 'section':
+      return loadSectionSubject(client, id)
+    case 'project':
+      return loadProjectSubject(client, id)
+  }
+}
+
+export const toOgPreview = (subject: OgSubject): OgPreview => {
+  const baseUrl = getBaseUrl()
+  const fallbackDescription = subject.type === 'event'
+    ? `Join us for ${subject.title}`
+    : subject.details[0] || subject.title
+
+  return {
+    url: `${baseUrl}${PAGE_PATHS[subject.type]}/${subject.id}`,
+    title: subject.title,
+    description: subject.description || fallbackDescription,
+    // Served from our own domain (iMessage is picky about redirects and storage URLs)
+    image: `${baseUrl}/api/og/${subject.type}/${subject.id}`,
+  }
+}
+
+// getServerSideProps for pages that only need Open Graph tags from the server
+export const createOgServerSideProps = (type: OgEntityType): GetServerSideProps<OgPageProps> => {
+  return async (context) => {
+    const id = context.params?.id
+    const client = createOgClient()
+    if (typeof id !== 'string' || !client) {
+      return { props: { ogPreview: null } }
+    }
+
+    try {
+      const subject = await loadOgSubject(client, type, id)
+      return { props: { ogPreview: subject ? toOgPreview(subject) : null } }
+    } catch (error) {
+      console.error(`[OG Meta] Error loading ${type} ${id}:`, error)
+      return { props: { ogPreview: null } }
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { randomUUID } from 'crypto'
+
+/**
+ * Server-only payment providers, used by the ticket checkout API.
+ * The provider is chosen with PAYMENT_PROVIDER:
+ *   - 'fake': approves every charge and refund without moving money, for local
+ *             development. Set PAYMENT_FAKE_DECLINE=true to decline charges instead.
+ *   - 'none': paid tickets can't be sold (free tickets still work)
+ * When unset, the fake provider is used outside production and none in production.
+ * A real provider implements PaymentProvider and gets a case in getPaymentProvider.
+ */
+
+export interface ChargeRequest {
+  orderId: string
+  amountCents: number
+  currency: string
+  description: string
+  customerEmail?: string | null
+}
+
+export type ChargeResult =
+  | { status: 'succeeded'; paymentId: string }
+  | { status: 'declined'; message: string }
+
+export interface RefundRequest {
+  orderId: string
+  paymentId: string
+  amountCents: number
+  currency: string
+}
+
+export interface PaymentProvider {
+  name: string
+  charge: (request: ChargeRequest) => Promise<ChargeResult>
+  // Resolves with the provider's refund id; throws if the refund failed
+  refund: (request: RefundRequest) => Promise<string>
+}
+
+const createFakeProvider = (declineCharges: boolean): PaymentProvider => ({
+  name: 'fake',
+  charge: async (request) => {
+    console.log(`💳 Fake charge ${request.amountCents} ${request.currency} for order ${request.orderId}: ${request.description}`)
+    if (declineCharges) {
+      return { status: 'declined', message: 'Your card was declined (PAYMENT_FAKE_DECLINE is set)' }
+    }
+    return { status: 'succeeded', paymentId: `fake_pay_${randomUUID()}` }
+  },
+  refund: async (request) => {
+    console.log(`💳 Fake refund ${request.amountCents} ${request.currency} of ${request.paymentId}`)
+    return `fake_refund_${randomUUID()}`
+  },
+})
+
+// The configured provider, or null when paid tickets are turned off
+export const getPaymentProvider = (): PaymentProvider | null => {
+  const declineCharges = process.env.PAYMENT_FAKE_DECLINE === 'true'
+
+  switch (process.env.PAYMENT_PROVIDER) {
+    case 'fake':
+      return createFakeProvider(declineCharges)
+    case 'none':
+      return null
+  }
+
+  return process.env.NODE_ENV !== 'production' ? createFakeProvider(declineCharges) : null
+}
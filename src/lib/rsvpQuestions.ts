@@ -0,0 +1,179 @@
+import { supabase } from '@/lib/supabase'
+import { ConfigurableField } from '@/types/sections'
+import { toCsv } from '@/utils/csv'
+
+export interface EventRsvpQuestion extends ConfigurableField {
+  event_id: string
+  created_at: string
+  updated_at: string
+  created_by?: string
+}
+
+// One guest's RSVP and answers, as shown to hosts
+export interface RsvpResponse {
+  user_id: string
+  full_name: string | null
+  email: string | null
+  status: 'going' | 'maybe' | 'not_going'
+  answers: Record<string, string> // question_id -> value
+}
+
+export const loadRsvpQuestions = async (eventId: string): Promise<EventRsvpQuestion[]> => {
+  const { data, error } = await supabase
+    .from('event_rsvp_questions')
+    .select('*')
+    .eq('event_id', eventId)
+    .eq('is_active', true)
+    .order('display_order', { ascending: true })
+
+  if (error) throw error
+  return (data as EventRsvpQuestion[]) || []
+}
+
+// Apply the FieldBuilder's new/edited/deleted fields to an event's questions.
+// Shared by RSVP questions and feedback survey questions, which use the same columns.
+export const saveEventQuestions = async (
+  table: 'event_rsvp_questions' | 'event_feedback_questions',
+  eventId: string,
+  userId: string,
+  fields: Partial<ConfigurableField>[]
+): Promise<void> => {
+  const newFields = fields.filter((f: any) => f._isNew && !f._isDeleted)
+  const deletedFields = fields.filter((f: any) => f._isDeleted && f.id)
+  const existingFields = fields.filter((f: any) => !f._isNew && !f._isDeleted && f.id)
+
+  for (const field of deletedFields) {
+    const { error } = await (supabase.from(table) as any)
+      .delete()
+      .eq('id', field.id)
+    if (error) throw error
+  }
+
+  for (const field of newFields) {
+    const { _tempId, _isNew, _isDeleted, id: fieldId, ...fieldData } = field as any
+    const { error } = await (supabase.from(table) as any)
+      .insert({
+        ...fieldData,
+        event_id: eventId,
+        created_by: userId,
+        field_options: fieldData.field_options || []
+      })
+    if (error) throw error
+  }
+
+  for (const field of existingFields) {
+    const { _tempId, _isNew, _isDeleted, id: fieldId, event_id, created_at, updated_at, created_by, ...fieldData } = field as any
+    const { error } = await (supabase.from(table) as any)
+      .update(fieldData)
+      .eq('id', fieldId)
+    if (error) throw error
+  }
+}
+
+export const saveRsvpQuestions = (
+  eventId: string,
+  userId: string,
+  fields: Partial<ConfigurableField>[]
+): Promise<void> => saveEventQuestions('event_rsvp_questions', eventId, userId, fields)
+
+// The user's answers for an event, keyed by question id
+export const loadMyRsvpAnswers = async (eventId: string, userId: string): Promise<Record<string, string>> => {
+  const { data, error } = await supabase
+    .from('event_rsvp_answers')
+    .select('question_id, value')
+    .eq('event_id', eventId)
+    .eq('user_id', userId)
+
+  if (error) throw error
+  return Object.fromEntries(((data as any[]) || []).map(a => [a.question_id, a.value ?? '']))
+}
+
+export const saveRsvpAnswers = async (
+  eventId: string,
+  userId: string,
+  answers: Record<string, string>
+): Promise<void> => {
+  const rows = Object.entries(answers).map(([questionId, value]) => ({
+    event_id: eventId,
+    question_id: questionId,
+    user_id: userId,
+    value: value || null
+  }))
+  if (rows.length === 0) return
+
+  const { error } = await (supabase.from('event_rsvp_answers') as any)
+    .upsert(rows, { onConflict: 'question_id,user_id' })
+  if (error) throw error
+}
+
+// Every RSVP with its answers (hosts only, enforced by RLS)
+export const loadRsvpResponses = async (eventId: string): Promise<RsvpResponse[]> => {
+  const { data: rsvpData, error: rsvpError } = await supabase
+    .from('event_rsvps')
+    .select('user_id, status')
+    .eq('event_id', eventId)
+    .order('created_at', { ascending: true })
+
+  if (rsvpError) throw rsvpError
+  const rsvps = (rsvpData as { user_id: string; status: RsvpResponse['status'] }[]) || []
+  if (rsvps.length === 0) return []
+
+  const userIds = rsvps.map(r => r.user_id)
+  const [{ data: answerData, error: answerError }, { data: profilesData }] = await Promise.all([
+    supabase
+      .from('event_rsvp_answers')
+      .select('user_id, question_id, value')
+      .eq('event_id', eventId),
+    supabase
+      .from('profiles')
+      .select('id, full_name, email')
+      .in('id', userIds)
+  ])
+
+  if (answerError) throw answerError
+
+  return rsvps.map(rsvp => {
+    const profile = (profilesData as any[])?.find(p => p.id === rsvp.user_id)
+    const answers = ((answerData as any[]) || [])
+      .filter(a => a.user_id === rsvp.user_id)
+      .reduce((acc, a) => ({ ...acc, [a.question_id]: a.value ?? '' }), {} as Record<string, string>)
+
+    return {
+      user_id: rsvp.user_id,
+      full_name: profile?.full_name || null,
+      email: profile?.email || null,
+      status: rsvp.status,
+      answers
+    }
+  })
+}
+
+// Display text for a stored answer (option labels instead of values, Yes/No for toggles)
+export const formatRsvpAnswer = (question: ConfigurableField, value: string | undefined): string => {
+  if (!value) return ''
+
+  switch (question.field_type) {
+    case 'checkbox':
+      return value === 'true' ? 'Yes' : 'No'
+    case 'select':
+    case 'multiselect':
+      return value
+        .split(',')
+        .map(v => v.trim())
+        .map(v => question.field_options.find(o => o.value === v)?.label || v)
+        .join(', ')
+    default:
+      return value
+  }
+}
+
+export const buildRsvpResponsesCsv = (questions: EventRsvpQuestion[], responses: RsvpResponse[]): string => {
+  const header = ['Name', 'Email', 'RSVP', ...questions.map(q => q.field_label)]
+  const rows = responses.map(response => [
+    response.full_name,
+    response.email,
+    response.status,
+    ...questions.map(q => formatRsvpAnswer(q, response.answers[q.id]))
+  ])
+  return toCsv([header, ...rows])
+}
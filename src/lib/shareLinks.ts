@@ -0,0 +1,113 @@
+import { supabase } from '@/lib/supabase'
+import { getClientBaseUrl } from '@/utils/url'
+
+export interface ShareLinkJoin {
+  user_id: string
+  joined_at: string
+  // Joined data
+  profile?: { id: string; full_name: string | null; email: string } | null
+}
+
+export interface ShareLink {
+  id: string
+  event_id: string
+  token: string
+  label: string | null
+  created_by: string
+  created_at: string
+  expires_at: string | null
+  revoked_at: string | null
+  joins: ShareLinkJoin[]
+}
+
+export const isShareLinkActive = (link: Pick<ShareLink, 'expires_at' | 'revoked_at'>) =>
+  !link.revoked_at && (!link.expires_at || new Date(link.expires_at) > new Date())
+
+export const getShareLinkUrl = (eventId: string, token: string) =>
+  `${getClientBaseUrl()}/events/${eventId}?share=${token}`
+
+// An event's share links, newest first, with who joined through each (hosts only, via RLS)
+export const loadShareLinks = async (eventId: string): Promise<ShareLink[]> => {
+  const { data: links, error } = await supabase
+    .from('event_share_links')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  if (!links || links.length === 0) return []
+
+  const { data: joins } = await supabase
+    .from('event_share_link_joins')
+    .select('link_id, user_id, joined_at')
+    .eq('event_id', eventId)
+    .order('joined_at', { ascending: true })
+
+  const userIds = Array.from(new Set(((joins as any[]) || []).map(j => j.user_id)))
+  const profilesById = new Map<string, ShareLinkJoin['profile']>()
+  if (userIds.length > 0) {
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('id, full_name, email')
+      .in('id', userIds)
+    ;((profiles as any[]) || []).forEach(p => profilesById.set(p.id, p))
+  }
+
+  return (links as any[]).map(link => ({
+    ...link,
+    joins: ((joins as any[]) || [])
+      .filter(j => j.link_id === link.id)
+      .map(j => ({ user_id: j.user_id, joined_at: j.joined_at, profile: profilesById.get(j.user_id) || null }))
+  }))
+}
+
+export const createShareLink = async (
+  eventId: string,
+  userId: string,
+  options: { label?: string; expiresAt?: Date | null } = {}
+): Promise<ShareLink> => {
+  const { data, error } = await (supabase.from('event_share_links') as any)
+    .insert({
+      event_id: eventId,
+      created_by: userId,
+      label: options.label?.trim() || null,
+      expires_at: options.expiresAt ? options.expiresAt.toISOString() : null
+    })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return { ...data, joins: [] } as ShareLink
+}
+
+// Turns the link off; people who joined through it lose access unless they RSVP'd
+export const revokeShareLink = async (linkId: string): Promise<void> => {
+  const { error } = await (supabase.from('event_share_links') as any)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', linkId)
+
+  if (error) throw error
+}
+
+// Join an event through a share link as the signed-in user.
+// Returns the event id, or null if the link is invalid, revoked or expired.
+export const joinShareLink = async (token: string): Promise<string | null> => {
+  const { data, error } = await (supabase as any).rpc('join_event_share_link', { p_token: token })
+  if (error) throw error
+  return (data as string | null) || null
+}
+
+// Private events the signed-in user can see through an active share link
+export const loadMyShareLinkEventIds = async (): Promise<Set<string>> => {
+  const { data, error } = await (supabase as any).rpc('get_my_share_link_event_ids')
+  if (error) throw error
+  return new Set((data as string[]) || [])
+}
+
+// Whether the signed-in user may see a private event (hosts, invitees, invited
+// sections, RSVPs and active share link joins)
+export const canViewPrivateEvent = async (eventId: string): Promise<boolean> => {
+  const { data, error } = await (supabase as any).rpc('can_view_private_event', { p_event_id: eventId })
+  if (error) throw error
+  return !!data
+}
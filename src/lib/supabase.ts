@@ -87,13 +87,29 @@ export interface Event {
   date: string
   time?: string
   end_time?: string
+  // IANA timezone the event was scheduled in
+  timezone?: string | null
   location?: string
+  // Structured place data for the map view and "near me" (see src/lib/geocoding.ts)
+  location_lat?: number | null
+  location_lng?: number | null
+  location_place_id?: string | null
+  location_address?: string | null
   rsvp_url?: string
   image_url?: string
   tags?: string[]
   published: boolean
   is_private?: boolean
   guest_list_visibility?: 'public' | 'rsvp_only' | 'hidden'
+  // Kept up to date by auto_update_event_status (see src/utils/eventStatus.ts)
+  status?: string
+  rsvp_deadline?: string | null
+  rsvps_closed_at?: string | null
+  // Plus-ones each RSVP may bring (0 = none) and the total brought by "going" RSVPs
+  max_guests_per_rsvp?: number | null
+  guest_count?: number | null
+  series_id?: string | null
+  series_index?: number | null
   created_by: string
   created_at: string
   updated_at: string
@@ -104,6 +120,16 @@ export interface Event {
   }
 }
 
+export interface EventSeries {
+  id: string
+  created_by: string
+  rrule: string
+  dtstart: string
+  timezone?: string | null
+  created_at: string
+  updated_at: string
+}
+
 export interface EventInvitation {
   id: string
   event_id: string
@@ -112,10 +138,42 @@ export interface EventInvitation {
   invited_by: string
   created_at: string
   accepted_at?: string
+  // Email-only invitations: when the invite link was emailed, when it expires,
+  // and when it was claimed by a new account
+  email_sent_at?: string | null
+  expires_at?: string | null
+  claimed_at?: string | null
   // Joined data
   profile?: Profile
 }
 
+export interface EventWaitlistEntry {
+  id: string
+  event_id: string
+  user_id: string
+  position: number
+  created_at: string
+  notified_at?: string | null
+  confirmed_at?: string | null
+  // Set while a spot is held for this person
+  offer_expires_at?: string | null
+  // Guests coming along if this person is promoted
+  guest_count?: number | null
+  // Joined data
+  profile?: Profile & { profile_picture_url?: string }
+}
+
+export interface Notification {
+  id: string
+  user_id: string
+  type: string
+  title: string
+  message?: string | null
+  event_id?: string | null
+  read_at?: string | null
+  created_at: string
+}
+
 export interface EventComment {
   id: string
   event_id: string
@@ -142,11 +200,14 @@ export interface Channel {
   name: string
   description?: string
   category_id?: string
-  type: 'public' | 'private' | 'event' | 'project'
+  type: 'public' | 'private' | 'event' | 'project' | 'section' | 'dm'
   is_archived: boolean
   is_read_only: boolean
   event_id?: string
   project_id?: string
+  section_id?: string
+  // Sorted participant ids, set only for direct messages (type 'dm')
+  dm_key?: string | null
   created_by: string
   created_at: string
   updated_at: string
@@ -188,6 +249,11 @@ export interface ChannelMessage {
   }>
   parent_message_id?: string
   thread_count?: number
+  // Thread replies: also shown in the channel timeline
+  also_sent_to_channel?: boolean
+  // Thread parents: when and by whom (up to three, newest first) it was last replied to
+  last_reply_at?: string | null
+  last_reply_user_ids?: string[]
   mentioned_user_ids?: string[]
   edited_at?: string
   deleted_at?: string
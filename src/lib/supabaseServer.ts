@@ -0,0 +1,19 @@
+import { createClient } from '@supabase/supabase-js'
+
+/**
+ * Server-only Supabase client that uses the service role key (bypasses RLS).
+ * Only use this from API routes and getServerSideProps, never from the browser.
+ * Returns null when the service role key isn't configured.
+ */
+export const createServiceClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !serviceKey) {
+    return null
+  }
+
+  return createClient(supabaseUrl, serviceKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
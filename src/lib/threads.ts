@@ -0,0 +1,49 @@
+import { supabase, type ChannelMessage } from '@/lib/supabase'
+import { MESSAGE_SELECT } from '@/lib/chatMessages'
+
+export interface ThreadReplyAuthor {
+  id: string
+  full_name: string | null
+  profile_picture_url?: string | null
+}
+
+// Top-level messages and replies that were also sent to the channel
+export const isInChannelTimeline = (message: Pick<ChannelMessage, 'parent_message_id' | 'also_sent_to_channel'>) =>
+  !message.parent_message_id || !!message.also_sent_to_channel
+
+export const loadMessage = async (messageId: string): Promise<ChannelMessage | null> => {
+  const { data, error } = await supabase
+    .from('channel_messages')
+    .select(MESSAGE_SELECT)
+    .eq('id', messageId)
+    .maybeSingle()
+
+  if (error) throw error
+  return (data as ChannelMessage | null) || null
+}
+
+// A thread's replies, oldest first
+export const loadThreadReplies = async (parentMessageId: string): Promise<ChannelMessage[]> => {
+  const { data, error } = await supabase
+    .from('channel_messages')
+    .select(MESSAGE_SELECT)
+    .eq('parent_message_id', parentMessageId)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return (data as ChannelMessage[]) || []
+}
+
+// Profiles for the last-reply avatars on every thread parent in one query
+export const loadReplyAuthors = async (messages: ChannelMessage[]): Promise<Record<string, ThreadReplyAuthor>> => {
+  const ids = Array.from(new Set(messages.flatMap(m => m.last_reply_user_ids || [])))
+  if (ids.length === 0) return {}
+
+  const { data } = await supabase
+    .from('profiles')
+    .select('id, full_name, profile_picture_url')
+    .in('id', ids)
+
+  return Object.fromEntries(((data as ThreadReplyAuthor[]) || []).map(p => [p.id, p]))
+}
@@ -0,0 +1,210 @@
+import { supabase } from '@/lib/supabase'
+
+export type TicketKind = 'free' | 'paid' | 'donation' | 'member'
+
+export type TicketOrderStatus = 'pending' | 'paid' | 'failed' | 'cancelled' | 'refunding' | 'refunded'
+
+export interface EventTicketType {
+  id: string
+  event_id: string
+  name: string
+  description: string | null
+  kind: TicketKind
+  // Per ticket, in cents; the minimum for donations
+  price_cents: number
+  currency: string
+  // null = unlimited
+  quantity: number | null
+  sold_count: number
+  section_id: string | null
+  sort_order: number
+  // Joined data
+  section?: { id: string; name: string } | null
+}
+
+export interface EventTicketOrder {
+  id: string
+  event_id: string
+  ticket_type_id: string
+  user_id: string
+  rsvp_id: string | null
+  quantity: number
+  amount_cents: number
+  currency: string
+  status: TicketOrderStatus
+  provider: string | null
+  paid_at: string | null
+  refunded_at: string | null
+  created_at: string
+  // Joined data
+  ticket_type?: { name: string; kind: TicketKind } | null
+  profile?: { id: string; full_name: string | null; email: string } | null
+}
+
+export type TicketTypeInput = Pick<EventTicketType, 'name' | 'kind' | 'price_cents' | 'quantity'> & {
+  description?: string | null
+  section_id?: string | null
+}
+
+export const TICKET_KINDS: { value: TicketKind; label: string; description: string }[] = [
+  { value: 'free', label: 'Free', description: 'No charge, but counts towards the ticket limit' },
+  { value: 'paid', label: 'Paid', description: 'A fixed price per ticket' },
+  { value: 'donation', label: 'Donation', description: 'Pay what you want, with an optional minimum' },
+  { value: 'member', label: 'Member price', description: 'For members of one of your sections' },
+]
+
+export const formatPrice = (cents: number, currency = 'usd'): string =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+    minimumFractionDigits: cents % 100 === 0 ? 0 : 2,
+  }).format(cents / 100)
+
+// "Free", "$10", "$5+ (pay what you want)"
+export const describeTicketPrice = (ticket: Pick<EventTicketType, 'kind' | 'price_cents' | 'currency'>): string => {
+  if (ticket.kind === 'free') return 'Free'
+  if (ticket.kind === 'donation') {
+    return ticket.price_cents > 0 ? `${formatPrice(ticket.price_cents, ticket.currency)}+` : 'Pay what you want'
+  }
+  return formatPrice(ticket.price_cents, ticket.currency)
+}
+
+// Tickets left of a type, or null when it's unlimited
+export const getTicketsLeft = (ticket: Pick<EventTicketType, 'quantity' | 'sold_count'>): number | null =>
+  ticket.quantity === null ? null : Math.max(ticket.quantity - ticket.sold_count, 0)
+
+// An event's ticket types in display order. An event with any is ticketed.
+export const loadTicketTypes = async (eventId: string): Promise<EventTicketType[]> => {
+  const { data, error } = await supabase
+    .from('event_ticket_types')
+    .select('*, section:sections(id, name)')
+    .eq('event_id', eventId)
+    .order('sort_order', { ascending: true })
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return (data as EventTicketType[]) || []
+}
+
+const toTicketTypeColumns = (input: TicketTypeInput) => ({
+  name: input.name.trim(),
+  description: input.description?.trim() || null,
+  kind: input.kind,
+  price_cents: input.kind === 'free' ? 0 : input.price_cents,
+  quantity: input.quantity,
+  section_id: input.kind === 'member' ? input.section_id || null : null,
+})
+
+export const createTicketType = async (eventId: string, input: TicketTypeInput, sortOrder: number): Promise<EventTicketType> => {
+  const { data, error } = await (supabase.from('event_ticket_types') as any)
+    .insert({ event_id: eventId, sort_order: sortOrder, ...toTicketTypeColumns(input) })
+    .select('*, section:sections(id, name)')
+    .single()
+
+  if (error) throw error
+  return data as EventTicketType
+}
+
+export const updateTicketType = async (ticketTypeId: string, input: TicketTypeInput): Promise<EventTicketType> => {
+  const { data, error } = await (supabase.from('event_ticket_types') as any)
+    .update(toTicketTypeColumns(input))
+    .eq('id', ticketTypeId)
+    .select('*, section:sections(id, name)')
+    .single()
+
+  if (error) throw error
+  return data as EventTicketType
+}
+
+// Fails for types someone has bought (their orders keep a reference)
+export const deleteTicketType = async (ticketTypeId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('event_ticket_types')
+    .delete()
+    .eq('id', ticketTypeId)
+
+  if (error) {
+    throw error.code === '23503' ? new Error('Tickets of this type have been sold, so it can\'t be deleted') : error
+  }
+}
+
+// The user's current (paid) ticket for an event, if any
+export const loadMyTicketOrder = async (eventId: string, userId: string): Promise<EventTicketOrder | null> => {
+  const { data, error } = await supabase
+    .from('event_ticket_orders')
+    .select('*, ticket_type:event_ticket_types(name, kind)')
+    .eq('event_id', eventId)
+    .eq('user_id', userId)
+    .eq('status', 'paid')
+    .maybeSingle()
+
+  if (error) throw error
+  return (data as EventTicketOrder | null) || null
+}
+
+// Every order for an event, newest first, with buyers (hosts only, via RLS)
+export const loadEventTicketOrders = async (eventId: string): Promise<EventTicketOrder[]> => {
+  const { data, error } = await supabase
+    .from('event_ticket_orders')
+    .select('*, ticket_type:event_ticket_types(name, kind)')
+    .eq('event_id', eventId)
+    .in('status', ['paid', 'refunded'])
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  const orders = (data as EventTicketOrder[]) || []
+  if (orders.length === 0) return orders
+
+  const { data: profiles } = await supabase
+    .from('profiles')
+    .select('id, full_name, email')
+    .in('id', Array.from(new Set(orders.map(o => o.user_id))))
+
+  return orders.map(order => ({
+    ...order,
+    profile: ((profiles as any[]) || []).find(p => p.id === order.user_id) || null
+  }))
+}
+
+const authorizedPost = async (url: string, body: Record<string, unknown>) => {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) throw new Error('You need to be signed in')
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${session.access_token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  })
+
+  const result = await response.json().catch(() => ({}))
+  if (!response.ok) throw new Error(result.error || 'Something went wrong')
+  return result
+}
+
+/**
+ * Buy tickets for the signed-in user: one for them plus one per guest. On success
+ * they're RSVP'd going (and off the waitlist). Returns the order id.
+ */
+export const checkoutTickets = async (options: {
+  eventId: string
+  ticketTypeId: string
+  quantity: number
+  amountCents?: number | null
+}): Promise<string> => {
+  const result = await authorizedPost('/api/tickets/checkout', options)
+  return result.orderId as string
+}
+
+// Cancel and refund an order (the buyer before the event, or a host any time)
+export const refundTicketOrder = async (orderId: string): Promise<void> => {
+  await authorizedPost('/api/tickets/refund', { orderId })
+}
+
+// Host: refund every ticket for a cancelled event, returning how many were refunded
+export const refundCancelledEvent = async (eventId: string): Promise<number> => {
+  const result = await authorizedPost('/api/tickets/refund', { eventId })
+  return result.refunded as number
+}
@@ -0,0 +1,198 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { PaymentProvider } from '@/lib/payments'
+
+/**
+ * Server-only ticket checkout and refunds. Pass a service role client: the order
+ * functions in 20240110000036_event_ticketing.sql can't be called with the anon key.
+ */
+
+export type TicketActionResult =
+  | { ok: true; orderId: string }
+  | { ok: false; status: number; error: string }
+
+export interface TicketOrderRow {
+  id: string
+  event_id: string
+  user_id: string
+  status: string
+  amount_cents: number
+  currency: string
+  provider: string | null
+  provider_payment_id: string | null
+}
+
+export const loadTicketOrder = async (client: SupabaseClient, orderId: string): Promise<TicketOrderRow | null> => {
+  const { data } = await client
+    .from('event_ticket_orders')
+    .select('id, event_id, user_id, status, amount_cents, currency, provider, provider_payment_id')
+    .eq('id', orderId)
+    .maybeSingle()
+
+  return (data as TicketOrderRow) || null
+}
+
+/**
+ * Reserve, charge and complete a ticket order. Reservation errors (sold out, not a
+ * member, already has a ticket...) come back as a 409 with the database's message.
+ * A charge that succeeds but can't be completed is refunded before rethrowing.
+ */
+export const purchaseTicket = async (
+  client: SupabaseClient,
+  provider: PaymentProvider | null,
+  options: {
+    eventId: string
+    ticketTypeId: string
+    userId: string
+    userEmail?: string | null
+    quantity: number
+    amountCents?: number | null
+  }
+): Promise<TicketActionResult> => {
+  const { data: orderId, error: reserveError } = await client.rpc('reserve_ticket_order', {
+    p_event_id: options.eventId,
+    p_ticket_type_id: options.ticketTypeId,
+    p_user_id: options.userId,
+    p_quantity: options.quantity,
+    p_amount_cents: options.amountCents ?? null,
+  })
+
+  if (reserveError || !orderId) {
+    return { ok: false, status: 409, error: reserveError?.message || 'Could not reserve tickets' }
+  }
+
+  const { data: order } = await client
+    .from('event_ticket_orders')
+    .select('amount_cents, currency, ticket_type:event_ticket_types(name), event:events(title)')
+    .eq('id', orderId)
+    .single()
+
+  const failOrder = () => client.rpc('fail_ticket_order', { p_order_id: orderId })
+
+  // Free tickets (and donations of nothing) skip the provider
+  if (!order || order.amount_cents === 0) {
+    const { error } = await client.rpc('complete_ticket_order', { p_order_id: orderId })
+    if (error) {
+      await failOrder()
+      throw error
+    }
+    return { ok: true, orderId }
+  }
+
+  if (!provider) {
+    await failOrder()
+    return { ok: false, status: 503, error: 'Paid tickets are not available right now' }
+  }
+
+  const ticketName = (order.ticket_type as any)?.name || 'Ticket'
+  const eventTitle = (order.event as any)?.title || 'event'
+
+  let charge
+  try {
+    charge = await provider.charge({
+      orderId,
+      amountCents: order.amount_cents,
+      currency: order.currency,
+      description: `${ticketName} for ${eventTitle}`,
+      customerEmail: options.userEmail,
+    })
+  } catch (chargeError) {
+    await failOrder()
+    throw chargeError
+  }
+
+  if (charge.status === 'declined') {
+    await failOrder()
+    return { ok: false, status: 402, error: charge.message }
+  }
+
+  const { error: completeError } = await client.rpc('complete_ticket_order', {
+    p_order_id: orderId,
+    p_provider: provider.name,
+    p_payment_id: charge.paymentId,
+  })
+
+  if (completeError) {
+    await provider.refund({
+      orderId,
+      paymentId: charge.paymentId,
+      amountCents: order.amount_cents,
+      currency: order.currency,
+    })
+    await failOrder()
+    throw completeError
+  }
+
+  return { ok: true, orderId }
+}
+
+// Refund a paid order through the provider that took it, then free its spots.
+// The order is claimed first so concurrent requests can't refund it twice;
+// returns false when it was already refunded or another request is refunding it.
+export const refundTicketOrder = async (
+  client: SupabaseClient,
+  provider: PaymentProvider | null,
+  order: TicketOrderRow,
+  refundedBy: string | null
+): Promise<boolean> => {
+  const needsProvider = order.amount_cents > 0 && !!order.provider_payment_id
+  if (needsProvider && (!provider || provider.name !== order.provider)) {
+    throw new Error(`Order was paid through ${order.provider}, which is not configured`)
+  }
+
+  const { data: claimed, error: claimError } = await client.rpc('claim_ticket_order_refund', {
+    p_order_id: order.id,
+  })
+  if (claimError) throw claimError
+  if (!claimed) return false
+
+  let refundId: string | null = null
+
+  if (needsProvider && provider && order.provider_payment_id) {
+    try {
+      refundId = await provider.refund({
+        orderId: order.id,
+        paymentId: order.provider_payment_id,
+        amountCents: order.amount_cents,
+        currency: order.currency,
+      })
+    } catch (refundError) {
+      await client.rpc('release_ticket_order_refund', { p_order_id: order.id })
+      throw refundError
+    }
+  }
+
+  const { error } = await client.rpc('refund_ticket_order', {
+    p_order_id: order.id,
+    p_refund_id: refundId,
+    p_refunded_by: refundedBy,
+  })
+  if (error) throw error
+  return true
+}
+
+// Refund every paid order for an event (when it's cancelled), returning how many were refunded
+export const refundEventTicketOrders = async (
+  client: SupabaseClient,
+  provider: PaymentProvider | null,
+  eventId: string,
+  refundedBy: string
+): Promise<number> => {
+  const { data } = await client
+    .from('event_ticket_orders')
+    .select('id, event_id, user_id, status, amount_cents, currency, provider, provider_payment_id')
+    .eq('event_id', eventId)
+    .eq('status', 'paid')
+
+  const orders = (data as TicketOrderRow[]) || []
+  let refunded = 0
+  for (const order of orders) {
+    try {
+      if (await refundTicketOrder(client, provider, order, refundedBy)) {
+        refunded++
+      }
+    } catch (error) {
+      console.error(`Error refunding ticket order ${order.id}:`, error)
+    }
+  }
+  return refunded
+}
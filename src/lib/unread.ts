@@ -0,0 +1,76 @@
+import { supabase, type ChannelMessage } from '@/lib/supabase'
+import { isInChannelTimeline } from '@/lib/threads'
+
+/**
+ * Read state lives in channel_members.last_read_at and only moves through
+ * mark_channel_read(). See 20240110000040_channel_read_state.sql.
+ */
+
+export interface ChannelUnread {
+  unread_count: number
+  mention_count: number
+}
+
+export const NO_UNREAD: ChannelUnread = { unread_count: 0, mention_count: 0 }
+
+// Unread and mention counts for every chat the user is in, by channel id
+export const loadUnreadCounts = async (): Promise<Record<string, ChannelUnread>> => {
+  const { data, error } = await (supabase as any).rpc('get_unread_counts')
+  if (error) throw error
+
+  return Object.fromEntries(
+    ((data as ({ channel_id: string } & ChannelUnread)[]) || [])
+      .map(row => [row.channel_id, { unread_count: row.unread_count, mention_count: row.mention_count }])
+  )
+}
+
+export const getUnreadTotals = (counts: Record<string, ChannelUnread>): ChannelUnread =>
+  Object.keys(counts).reduce((totals, id) => ({
+    unread_count: totals.unread_count + counts[id].unread_count,
+    mention_count: totals.mention_count + counts[id].mention_count,
+  }), NO_UNREAD)
+
+// The user's read marker in a chat, or null if they aren't a member
+export const loadLastReadAt = async (channelId: string, userId: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('channel_members')
+    .select('last_read_at')
+    .eq('channel_id', channelId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return (data as { last_read_at: string } | null)?.last_read_at || null
+}
+
+// Move the read marker up to readAt (defaults to now); it never moves back
+export const markChannelRead = async (channelId: string, readAt?: string): Promise<void> => {
+  const { error } = await (supabase as any).rpc('mark_channel_read', {
+    p_channel_id: channelId,
+    ...(readAt ? { p_read_at: readAt } : {})
+  })
+  if (error) throw error
+}
+
+export const markThreadRead = async (parentMessageId: string): Promise<void> => {
+  const { error } = await (supabase as any).rpc('mark_thread_read', {
+    p_parent_message_id: parentMessageId
+  })
+  if (error) throw error
+}
+
+// Where the "new messages" divider goes: the first unread message from someone else
+export const findFirstUnreadId = (
+  messages: ChannelMessage[],
+  lastReadAt: string | null,
+  userId: string
+): string | null => {
+  if (!lastReadAt) return null
+  const readAt = new Date(lastReadAt).getTime()
+  const first = messages.find(m =>
+    m.user_id !== userId &&
+    isInChannelTimeline(m) &&
+    new Date(m.created_at).getTime() > readAt
+  )
+  return first?.id || null
+}
@@ -0,0 +1,70 @@
+import { supabase, type EventWaitlistEntry } from '@/lib/supabase'
+
+// Load an event's waitlist in position order, with profiles
+export const loadEventWaitlist = async (eventId: string): Promise<EventWaitlistEntry[]> => {
+  const { data, error } = await supabase
+    .from('event_waitlist')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('position', { ascending: true })
+
+  if (error) throw error
+  const entries = (data as EventWaitlistEntry[]) || []
+  if (entries.length === 0) return entries
+
+  const { data: profilesData } = await supabase
+    .from('profiles')
+    .select('id, full_name, email, profile_picture_url')
+    .in('id', entries.map(e => e.user_id))
+
+  return entries.map(entry => ({
+    ...entry,
+    profile: (profilesData as any[])?.find(p => p.id === entry.user_id) || undefined
+  }))
+}
+
+// Whether a held spot's claim window is still open
+export const hasActiveOffer = (entry: Pick<EventWaitlistEntry, 'offer_expires_at'>): boolean => {
+  return !!entry.offer_expires_at && new Date(entry.offer_expires_at).getTime() > Date.now()
+}
+
+export const joinWaitlist = async (eventId: string, userId: string, guestCount = 0): Promise<number> => {
+  const { data, error } = await (supabase as any).rpc('add_to_waitlist', {
+    p_event_id: eventId,
+    p_user_id: userId,
+    p_guest_count: guestCount
+  })
+  if (error) throw error
+
+  // A spot that is already open is filled by the join trigger
+  return data?.[0]?.waitlist_position || 1
+}
+
+// Leave the waitlist, passing any held spot to the next person in line
+export const leaveWaitlist = async (eventId: string): Promise<void> => {
+  const { error } = await (supabase as any).rpc('decline_waitlist_spot', { p_event_id: eventId })
+  if (error) throw error
+}
+
+// Accept a held spot; false if the claim window has already closed
+export const claimWaitlistSpot = async (eventId: string): Promise<boolean> => {
+  const { data, error } = await (supabase as any).rpc('claim_waitlist_spot', { p_event_id: eventId })
+  if (error) throw error
+  return !!data
+}
+
+// Host/co-host: move someone straight to "going"
+export const promoteWaitlistEntry = async (eventId: string, userId: string): Promise<void> => {
+  const { error } = await (supabase as any).rpc('host_promote_from_waitlist', { p_event_id: eventId, p_user_id: userId })
+  if (error) throw error
+}
+
+// Host/co-host: move someone to a new position (1 = first in line)
+export const reorderWaitlistEntry = async (eventId: string, userId: string, position: number): Promise<void> => {
+  const { error } = await (supabase as any).rpc('reorder_waitlist', {
+    p_event_id: eventId,
+    p_user_id: userId,
+    p_new_position: position
+  })
+  if (error) throw error
+}
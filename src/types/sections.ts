@@ -18,9 +18,9 @@ export interface FieldOption {
   label: string
 }
 
-export interface SectionProfileField {
+// Field definition shared by section profile fields and event RSVP questions
+export interface ConfigurableField {
   id: string
-  section_id: string
   field_name: string
   field_label: string
   field_type: FieldType
@@ -34,6 +34,10 @@ export interface SectionProfileField {
   validation_pattern?: string
   display_order: number
   is_active: boolean
+}
+
+export interface SectionProfileField extends ConfigurableField {
+  section_id: string
   created_at: string
   updated_at: string
   created_by?: string
@@ -116,7 +120,7 @@ export interface FieldValidation {
 
 export function validateFieldValue(
   value: string | null | undefined,
-  field: SectionProfileField
+  field: ConfigurableField
 ): FieldValidation {
   const val = value ?? ''
   
@@ -0,0 +1,31 @@
+/**
+ * CSV (RFC 4180) helpers for host exports
+ */
+
+// Cells starting with these are run as formulas by Excel and Sheets
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+// Quote a cell when it contains a delimiter, quote or newline. Text that would
+// be read as a formula (e.g. an attendee's answer) gets a leading apostrophe.
+export const escapeCsvCell = (value: string | number | boolean | null | undefined): string => {
+  if (value === null || value === undefined) return ''
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const toCsv = (rows: (string | number | boolean | null | undefined)[][]): string => {
+  return rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n')
+}
+
+// Trigger a browser download of CSV text
+export const downloadCsv = (filename: string, csv: string): void => {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
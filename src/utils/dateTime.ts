@@ -3,8 +3,9 @@
  * 
  * Strategy: Use ISO 8601 timestamps with timezone information
  * - Store dates as ISO strings (e.g., "2024-09-28T19:00:00.000Z")
- * - Always work in user's local timezone for display
- * - Convert to UTC for storage and comparisons
+ * - Each event also stores the IANA timezone it was scheduled in (events.timezone)
+ * - Wall-clock times entered in forms are converted using that timezone
+ * - Display in the event's timezone, plus the viewer's when they differ
  * - Use consistent formatting across all components
  */
 
@@ -33,22 +34,102 @@ export const getTimezoneAbbreviation = (timezone?: string): string => {
   }
 }
 
+// Check that a string is an IANA timezone the runtime knows about
+export const isValidTimezone = (timezone?: string | null): timezone is string => {
+  if (!timezone) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Offset of a timezone from UTC at a given instant, in milliseconds (e.g. -7h for PDT)
+export const getTimezoneOffsetMs = (date: Date, timezone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date)
+
+  const get = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0')
+  const asUTC = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+
+  return asUTC - (date.getTime() - date.getMilliseconds())
+}
+
+// "GMT-7", "GMT+5:30"
+export const getTimezoneOffsetLabel = (timezone: string, at: Date = new Date()): string => {
+  try {
+    const offsetMinutes = Math.round(getTimezoneOffsetMs(at, timezone) / 60000)
+    const sign = offsetMinutes >= 0 ? '+' : '-'
+    const hours = Math.floor(Math.abs(offsetMinutes) / 60)
+    const minutes = Math.abs(offsetMinutes) % 60
+    return `GMT${sign}${hours}${minutes ? `:${String(minutes).padStart(2, '0')}` : ''}`
+  } catch {
+    return ''
+  }
+}
+
+// Common timezones for form selectors
+export const COMMON_TIMEZONES = [
+  { value: 'Pacific/Honolulu', label: 'HST (Hawaii Time)' },
+  { value: 'America/Anchorage', label: 'AKT (Alaska Time)' },
+  { value: 'America/Los_Angeles', label: 'PT (Pacific Time)' },
+  { value: 'America/Denver', label: 'MT (Mountain Time)' },
+  { value: 'America/Phoenix', label: 'MST (Arizona Time)' },
+  { value: 'America/Chicago', label: 'CT (Central Time)' },
+  { value: 'America/New_York', label: 'ET (Eastern Time)' },
+  { value: 'America/Sao_Paulo', label: 'BRT (Brasília Time)' },
+  { value: 'Europe/London', label: 'UK (London)' },
+  { value: 'Europe/Paris', label: 'CET (Central European Time)' },
+  { value: 'Europe/Athens', label: 'EET (Eastern European Time)' },
+  { value: 'Africa/Lagos', label: 'WAT (West Africa Time)' },
+  { value: 'Asia/Dubai', label: 'GST (Gulf Time)' },
+  { value: 'Asia/Kolkata', label: 'IST (India Time)' },
+  { value: 'Asia/Singapore', label: 'SGT (Singapore Time)' },
+  { value: 'Asia/Tokyo', label: 'JST (Japan Time)' },
+  { value: 'Australia/Sydney', label: 'AET (Australian Eastern Time)' },
+  { value: 'Pacific/Auckland', label: 'NZT (New Zealand Time)' },
+  { value: 'UTC', label: 'UTC (Coordinated Universal Time)' },
+]
+
+// Selector options, making sure the current value (e.g. the browser's zone) is listed
+export const getTimezoneOptions = (current?: string | null): { value: string; label: string }[] => {
+  if (!current || COMMON_TIMEZONES.some(tz => tz.value === current) || !isValidTimezone(current)) {
+    return COMMON_TIMEZONES
+  }
+  return [{ value: current, label: current.replace(/_/g, ' ') }, ...COMMON_TIMEZONES]
+}
+
 // Convert separate date and time strings to ISO timestamp
+// The date/time are wall-clock values in `timezone` (the user's timezone if omitted)
 export const createEventDateTime = (date: string, time: string, timezone?: string): string => {
-  const userTimezone = timezone || getUserTimezone()
+  const userTimezone = isValidTimezone(timezone) ? timezone : getUserTimezone()
   
   try {
-    // Create date in user's timezone
-    const dateTimeString = `${date}T${time}:00`
-    const localDate = new Date(dateTimeString)
-    
+    const [year, month, day] = date.split('-').map(Number)
+    const [hours, minutes] = time.split(':').map(Number)
+    const wallClockAsUTC = Date.UTC(year, month - 1, day, hours, minutes || 0)
+
     // If the date is invalid, throw error
-    if (isNaN(localDate.getTime())) {
+    if (isNaN(wallClockAsUTC)) {
       throw new Error('Invalid date/time')
     }
+
+    // Shift by the zone's offset, then re-check in case the shift crossed a DST change
+    let utcTime = wallClockAsUTC - getTimezoneOffsetMs(new Date(wallClockAsUTC), userTimezone)
+    const correctedOffset = getTimezoneOffsetMs(new Date(utcTime), userTimezone)
+    utcTime = wallClockAsUTC - correctedOffset
     
     // Convert to ISO string (UTC)
-    return localDate.toISOString()
+    return new Date(utcTime).toISOString()
   } catch (error) {
     console.error('Error creating event datetime:', error)
     return new Date().toISOString() // Fallback to current time
@@ -152,6 +233,31 @@ export const formatEventDateTime = (isoString: string, timezone?: string, option
   }
 }
 
+// Format an event time in its own timezone, plus the viewer's local time
+// when the viewer is in a zone with a different offset at that moment
+export const formatEventTimeForViewer = (isoString: string, eventTimezone?: string | null, options?: {
+  dateStyle?: 'short' | 'medium' | 'long'
+  timeStyle?: 'short' | 'medium'
+}): { eventTime: string; viewerTime: string | null } => {
+  const viewerTimezone = getUserTimezone()
+  const timezone = isValidTimezone(eventTimezone) ? eventTimezone : viewerTimezone
+  const formatOptions = { ...options, showTimezone: true }
+
+  const eventTime = formatEventDateTime(isoString, timezone, formatOptions)
+  if (timezone === viewerTimezone) return { eventTime, viewerTime: null }
+
+  try {
+    const at = new Date(isoString)
+    if (getTimezoneOffsetMs(at, timezone) === getTimezoneOffsetMs(at, viewerTimezone)) {
+      return { eventTime, viewerTime: null }
+    }
+  } catch {
+    return { eventTime, viewerTime: null }
+  }
+
+  return { eventTime, viewerTime: formatEventDateTime(isoString, viewerTimezone, formatOptions) }
+}
+
 // Get current date in user's timezone for form defaults
 export const getCurrentLocalDate = (): string => {
   const now = new Date()
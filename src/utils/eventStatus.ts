@@ -0,0 +1,43 @@
+/**
+ * Event status helpers
+ *
+ * Status transitions run server-side (auto_update_event_status, scheduled via
+ * pg_cron or /api/cron/event-status). These helpers only read the stored status,
+ * falling back to the deadline for the window before the next job run.
+ */
+
+export type EventStatus = 'draft' | 'scheduled' | 'pending' | 'active' | 'live' | 'completed' | 'cancelled' | 'postponed'
+
+export interface EventStatusInfo {
+  label: string
+  color: string
+  emoji: string
+}
+
+export const EVENT_STATUS_INFO: Record<EventStatus, EventStatusInfo> = {
+  draft: { label: 'Draft', color: 'var(--text-muted)', emoji: '📝' },
+  scheduled: { label: 'Scheduled', color: 'var(--primary)', emoji: '📅' },
+  pending: { label: 'RSVPs Closed', color: 'var(--warning)', emoji: '⏳' },
+  active: { label: 'Open for RSVP', color: 'var(--success)', emoji: '✅' },
+  live: { label: 'Live Now', color: 'var(--danger)', emoji: '🔴' },
+  completed: { label: 'Completed', color: 'var(--text-muted)', emoji: '✓' },
+  cancelled: { label: 'Cancelled', color: 'var(--danger)', emoji: '❌' },
+  postponed: { label: 'Postponed', color: 'var(--warning)', emoji: '⏸️' },
+}
+
+export const getEventStatusInfo = (status?: string | null): EventStatusInfo => {
+  return EVENT_STATUS_INFO[status as EventStatus] || EVENT_STATUS_INFO.scheduled
+}
+
+export interface RsvpWindowSource {
+  status?: string | null
+  rsvp_deadline?: string | null
+}
+
+// Whether new "going"/"maybe" RSVPs are rejected (mirrors the enforce_rsvp_window trigger)
+export const areRsvpsClosed = (event: RsvpWindowSource): boolean => {
+  if (event.status && ['pending', 'completed', 'cancelled'].includes(event.status)) {
+    return true
+  }
+  return !!event.rsvp_deadline && new Date(event.rsvp_deadline).getTime() <= Date.now()
+}
@@ -0,0 +1,65 @@
+/**
+ * Distance helpers for the events map and "near me" filter
+ *
+ * Event coordinates live in location_lat/location_lng (filled in by
+ * src/lib/geocoding.ts). Events without them are simply left out of
+ * distance filtering and the map.
+ */
+
+export interface LatLng {
+  lat: number
+  lng: number
+}
+
+export interface EventCoordinatesSource {
+  location_lat?: number | null
+  location_lng?: number | null
+}
+
+export const DISTANCE_OPTIONS_KM = [5, 10, 25, 50, 100]
+
+const EARTH_RADIUS_KM = 6371
+
+export const getEventCoordinates = (event: EventCoordinatesSource): LatLng | null => {
+  if (event.location_lat == null || event.location_lng == null) return null
+  return { lat: event.location_lat, lng: event.location_lng }
+}
+
+// Great-circle (haversine) distance between two points, in kilometres
+export const distanceKm = (a: LatLng, b: LatLng): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = toRad(b.lat - a.lat)
+  const dLng = toRad(b.lng - a.lng)
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h))
+}
+
+// Distance from the viewer to an event, or null when either position is unknown
+export const getEventDistanceKm = (event: EventCoordinatesSource, from: LatLng | null): number | null => {
+  const coordinates = getEventCoordinates(event)
+  if (!coordinates || !from) return null
+  return distanceKm(from, coordinates)
+}
+
+// "350 m", "4.2 km", "35 km"
+export const formatDistance = (km: number): string => {
+  if (km < 1) return `${Math.round(km * 1000)} m`
+  if (km < 10) return `${km.toFixed(1)} km`
+  return `${Math.round(km)} km`
+}
+
+// The viewer's position from the browser (asks for permission the first time)
+export const getViewerLocation = (): Promise<LatLng> => {
+  return new Promise((resolve, reject) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      reject(new Error('Location is not available in this browser'))
+      return
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({ lat: position.coords.latitude, lng: position.coords.longitude }),
+      (error) => reject(new Error(error.message || 'Could not get your location')),
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    )
+  })
+}
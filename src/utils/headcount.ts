@@ -0,0 +1,28 @@
+/**
+ * Headcount helpers for events with plus-ones
+ *
+ * rsvp_count counts members who are going; guest_count counts the guests
+ * they're bringing. Capacity is measured against the sum of the two.
+ */
+
+export interface HeadcountSource {
+  rsvp_count?: number | null
+  guest_count?: number | null
+  max_capacity?: number | null
+}
+
+export const getHeadcount = (event: HeadcountSource): number => {
+  return (event.rsvp_count || 0) + (event.guest_count || 0)
+}
+
+// Spots left before max_capacity, or null when the event is unlimited
+export const getSpotsLeft = (event: HeadcountSource): number | null => {
+  if (!event.max_capacity) return null
+  return Math.max(0, event.max_capacity - getHeadcount(event))
+}
+
+// "12 members + 5 guests", or just "12" when nobody is bringing guests
+export const formatHeadcount = (members: number, guests: number): string => {
+  if (!guests) return String(members)
+  return `${members} ${members === 1 ? 'member' : 'members'} + ${guests} ${guests === 1 ? 'guest' : 'guests'}`
+}
@@ -0,0 +1,146 @@
+/**
+ * iCalendar (RFC 5545) helpers for .ics export and subscribable feeds
+ *
+ * Events are written in UTC using the ISO timestamps stored on events
+ * (see createEventDateTime in dateTime.ts), so calendar apps convert them
+ * to the viewer's own timezone.
+ */
+import { migrateLegacyDateTime } from '@/utils/dateTime'
+import { DEFAULT_EVENT_DURATION_MS } from '@/utils/schedule'
+
+export interface ICalEvent {
+  id: string
+  title: string
+  description?: string | null
+  start: string
+  end?: string | null
+  location?: string | null
+  url?: string
+  status?: string | null
+  updatedAt?: string | null
+}
+
+// Minimal event row shape needed to build an ICalEvent
+export interface ICalEventSource {
+  id: string
+  title: string
+  description?: string | null
+  date: string
+  time?: string | null
+  end_time?: string | null
+  location?: string | null
+  status?: string | null
+  updated_at?: string | null
+}
+
+// "2024-09-28T19:00:00.000Z" -> "20240928T190000Z"
+export const toICalDate = (isoString: string): string => {
+  return new Date(isoString).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+// Escape text values (backslash, semicolon, comma, newline)
+export const escapeICalText = (text: string): string => {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Fold content lines longer than 75 octets (continuation lines start with a space)
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= 75) return line
+
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+  for (const char of Array.from(line)) {
+    const charBytes = encoder.encode(char).length
+    const limit = parts.length === 0 ? 75 : 74
+    if (currentBytes + charBytes > limit) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += charBytes
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+// Map our event status to the iCalendar STATUS property
+const toICalStatus = (status?: string | null): 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED' => {
+  if (status === 'cancelled') return 'CANCELLED'
+  if (status === 'postponed' || status === 'draft') return 'TENTATIVE'
+  return 'CONFIRMED'
+}
+
+// Convert an events row to an ICalEvent, handling legacy date + time rows
+export const toICalEvent = (event: ICalEventSource, eventUrl?: string): ICalEvent => ({
+  id: event.id,
+  title: event.title,
+  description: event.description,
+  start: event.date.includes('T') ? event.date : migrateLegacyDateTime(event.date, event.time || undefined),
+  end: event.end_time,
+  location: event.location,
+  url: eventUrl,
+  status: event.status,
+  updatedAt: event.updated_at,
+})
+
+const buildVEvent = (event: ICalEvent, domain: string, stamp: string): string[] => {
+  const start = new Date(event.start)
+  const end = event.end ? new Date(event.end) : new Date(start.getTime() + DEFAULT_EVENT_DURATION_MS)
+  const updated = event.updatedAt ? new Date(event.updatedAt) : null
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:event-${event.id}@${domain}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${toICalDate(start.toISOString())}`,
+    `DTEND:${toICalDate(end.toISOString())}`,
+    `SUMMARY:${escapeICalText(event.title)}`,
+    `STATUS:${toICalStatus(event.status)}`,
+  ]
+
+  // SEQUENCE must increase on every change so calendars replace their copy
+  if (updated && !isNaN(updated.getTime())) {
+    lines.push(`SEQUENCE:${Math.floor(updated.getTime() / 1000)}`)
+    lines.push(`LAST-MODIFIED:${toICalDate(updated.toISOString())}`)
+  }
+  if (event.description) lines.push(`DESCRIPTION:${escapeICalText(event.description)}`)
+  if (event.location) lines.push(`LOCATION:${escapeICalText(event.location)}`)
+  if (event.url) lines.push(`URL:${event.url}`)
+  lines.push('END:VEVENT')
+
+  return lines
+}
+
+/**
+ * Build a complete VCALENDAR document.
+ * `domain` is used to make UIDs globally unique (e.g. "mysection.vercel.app").
+ */
+export const buildICalendar = (
+  events: ICalEvent[],
+  options: { name: string; domain: string }
+): string => {
+  const stamp = toICalDate(new Date().toISOString())
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Section//Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(options.name)}`,
+    // Hint for subscribing clients to poll hourly
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events.flatMap(event => buildVEvent(event, options.domain, stamp)),
+    'END:VCALENDAR',
+  ]
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,354 @@
+/**
+ * Minimal QR code encoder (ISO/IEC 18004) for check-in codes
+ *
+ * Supports byte mode at error correction level M, versions 1-10 (up to 213 bytes),
+ * which covers the short check-in URLs we render. Returns a square matrix of
+ * modules (true = dark) that components draw as SVG.
+ */
+
+const MAX_VERSION = 10
+
+// Error correction level M, indexed by version
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26]
+const NUM_ECC_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5]
+
+// Format bits for level M
+const ECC_FORMAT_BITS = 0
+
+const getBit = (value: number, index: number): boolean => ((value >>> index) & 1) !== 0
+
+const getNumRawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2
+    result -= (25 * numAlign - 10) * numAlign - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+const getNumDataCodewords = (version: number): number => {
+  return Math.floor(getNumRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * NUM_ECC_BLOCKS[version]
+}
+
+const getAlignmentPatternPositions = (version: number): number[] => {
+  if (version === 1) return []
+  const size = version * 4 + 17
+  const numAlign = Math.floor(version / 7) + 2
+  const step = Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2
+  const result = [6]
+  for (let pos = size - 7; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos)
+  }
+  return result
+}
+
+// GF(256) multiplication with the QR reducing polynomial 0x11D
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z & 0xff
+}
+
+const reedSolomonDivisor = (degree: number): number[] => {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < result.length) result[j] ^= result[j + 1]
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+const reedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = new Array<number>(divisor.length).fill(0)
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number)
+    result.push(0)
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor)
+    })
+  }
+  return result
+}
+
+// Split data into blocks, append ECC to each and interleave
+const addEccAndInterleave = (data: number[], version: number): number[] => {
+  const numBlocks = NUM_ECC_BLOCKS[version]
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[version]
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8)
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks)
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks)
+  const divisor = reedSolomonDivisor(blockEccLen)
+
+  const blocks: number[][] = []
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1))
+    k += dat.length
+    const ecc = reedSolomonRemainder(dat, divisor)
+    if (i < numShortBlocks) dat.push(0)
+    blocks.push(dat.concat(ecc))
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte in short blocks
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i])
+    })
+  }
+  return result
+}
+
+const encodeDataCodewords = (bytes: number[], version: number): number[] => {
+  const bits: number[] = []
+  const appendBits = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+
+  appendBits(0x4, 4) // byte mode
+  appendBits(bytes.length, version <= 9 ? 8 : 16)
+  bytes.forEach(b => appendBits(b, 8))
+
+  const capacityBits = getNumDataCodewords(version) * 8
+  appendBits(0, Math.min(4, capacityBits - bits.length))
+  appendBits(0, (8 - (bits.length % 8)) % 8)
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    appendBits(pad, 8)
+  }
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0))
+  }
+  return codewords
+}
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+]
+
+class QrMatrix {
+  readonly size: number
+  readonly modules: boolean[][]
+  private readonly isFunction: boolean[][]
+
+  constructor(private readonly version: number) {
+    this.size = version * 4 + 17
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+    this.drawFunctionPatterns()
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark
+    this.isFunction[y][x] = true
+  }
+
+  private drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0)
+      this.setFunction(i, 6, i % 2 === 0)
+    }
+
+    this.drawFinderPattern(3, 3)
+    this.drawFinderPattern(this.size - 4, 3)
+    this.drawFinderPattern(3, this.size - 4)
+
+    const alignPositions = getAlignmentPatternPositions(this.version)
+    const last = alignPositions.length - 1
+    alignPositions.forEach((y, i) => {
+      alignPositions.forEach((x, j) => {
+        // Skip the three corners occupied by finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+        this.drawAlignmentPattern(x, y)
+      })
+    })
+
+    // Reserve format areas; real bits are drawn once the mask is chosen
+    this.drawFormatBits(0)
+    this.drawVersion()
+  }
+
+  private drawFinderPattern(x: number, y: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy))
+        const xx = x + dx
+        const yy = y + dy
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunction(xx, yy, dist !== 2 && dist !== 4)
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (ECC_FORMAT_BITS << 3) | mask
+    let rem = data
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537)
+    const bits = ((data << 10) | rem) ^ 0x5412
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i))
+    this.setFunction(8, 7, getBit(bits, 6))
+    this.setFunction(8, 8, getBit(bits, 7))
+    this.setFunction(7, 8, getBit(bits, 8))
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i))
+
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, getBit(bits, i))
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, getBit(bits, i))
+    this.setFunction(8, this.size - 8, true)
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return
+    let rem = this.version
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25)
+    const bits = (this.version << 12) | rem
+
+    for (let i = 0; i < 18; i++) {
+      const bit = getBit(bits, i)
+      const a = this.size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      this.setFunction(a, b, bit)
+      this.setFunction(b, a, bit)
+    }
+  }
+
+  drawCodewords(data: number[]) {
+    let i = 0
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const upward = ((right + 1) & 2) === 0
+          const y = upward ? this.size - 1 - vert : vert
+          if (!this.isFunction[y][x] && i < data.length * 8) {
+            this.modules[y][x] = getBit(data[i >>> 3], 7 - (i & 7))
+            i++
+          }
+        }
+      }
+    }
+  }
+
+  // XOR-ing twice with the same mask undoes it
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && MASKS[mask](x, y)) {
+          this.modules[y][x] = !this.modules[y][x]
+        }
+      }
+    }
+  }
+
+  getPenaltyScore(): number {
+    let penalty = 0
+    const size = this.size
+    const lines: boolean[][] = [
+      ...this.modules,
+      ...Array.from({ length: size }, (_, x) => this.modules.map(row => row[x])),
+    ]
+
+    // Runs of five or more same-colored modules
+    lines.forEach(line => {
+      let runLength = 1
+      for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+          runLength++
+        } else {
+          if (runLength >= 5) penalty += 3 + (runLength - 5)
+          runLength = 1
+        }
+      }
+    })
+
+    // 2x2 blocks of the same color
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = this.modules[y][x]
+        if (color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+          penalty += 3
+        }
+      }
+    }
+
+    // Finder-like patterns (1:1:3:1:1 with light space on one side)
+    const patterns = ['10111010000', '00001011101']
+    lines.forEach(line => {
+      const text = line.map(dark => (dark ? '1' : '0')).join('')
+      patterns.forEach(pattern => {
+        for (let i = text.indexOf(pattern); i !== -1; i = text.indexOf(pattern, i + 1)) penalty += 40
+      })
+    })
+
+    // Balance of dark and light modules
+    const dark = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0)
+    const total = size * size
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1
+    penalty += Math.max(0, k) * 10
+
+    return penalty
+  }
+}
+
+/**
+ * Encode text as a QR code matrix (true = dark module).
+ * Throws if the text doesn't fit in a version 10 code.
+ */
+export const encodeQrCode = (text: string): boolean[][] => {
+  const bytes = Array.from(new TextEncoder().encode(text))
+
+  let version = 1
+  while (version <= MAX_VERSION) {
+    const headerBits = 4 + (version <= 9 ? 8 : 16)
+    if (headerBits + bytes.length * 8 <= getNumDataCodewords(version) * 8) break
+    version++
+  }
+  if (version > MAX_VERSION) throw new Error('Text is too long for a QR code')
+
+  const matrix = new QrMatrix(version)
+  matrix.drawCodewords(addEccAndInterleave(encodeDataCodewords(bytes, version), version))
+
+  // Pick the mask with the lowest penalty
+  let bestMask = 0
+  let bestPenalty = Infinity
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    matrix.applyMask(mask)
+    matrix.drawFormatBits(mask)
+    const penalty = matrix.getPenaltyScore()
+    if (penalty < bestPenalty) {
+      bestMask = mask
+      bestPenalty = penalty
+    }
+    matrix.applyMask(mask)
+  }
+
+  matrix.applyMask(bestMask)
+  matrix.drawFormatBits(bestMask)
+  return matrix.modules
+}
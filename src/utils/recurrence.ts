@@ -0,0 +1,99 @@
+/**
+ * Recurrence rule helpers for event series
+ *
+ * Series are stored with an RRULE-style string (a small subset of RFC 5545):
+ * - FREQ: DAILY | WEEKLY | MONTHLY
+ * - INTERVAL: step between occurrences (WEEKLY;INTERVAL=2 is "biweekly")
+ * - COUNT: total number of occurrences in the series
+ */
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'biweekly' | 'monthly'
+
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY'
+  interval: number
+  count: number
+}
+
+// Convert the form's frequency/occurrences settings to a rule
+export const toRecurrenceRule = (frequency: RecurrenceFrequency, occurrences: number): RecurrenceRule => {
+  const count = Math.max(1, Math.floor(occurrences))
+
+  switch (frequency) {
+    case 'daily': return { freq: 'DAILY', interval: 1, count }
+    case 'biweekly': return { freq: 'WEEKLY', interval: 2, count }
+    case 'monthly': return { freq: 'MONTHLY', interval: 1, count }
+    case 'weekly':
+    default:
+      return { freq: 'WEEKLY', interval: 1, count }
+  }
+}
+
+// Serialize a rule to its RRULE string
+export const formatRecurrenceRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq}`]
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+  parts.push(`COUNT=${rule.count}`)
+  return parts.join(';')
+}
+
+// Parse an RRULE string back to a rule (unknown parts are ignored)
+export const parseRecurrenceRule = (rrule: string): RecurrenceRule => {
+  const rule: RecurrenceRule = { freq: 'WEEKLY', interval: 1, count: 1 }
+
+  rrule.replace(/^RRULE:/i, '').split(';').forEach(part => {
+    const [key, value] = part.split('=')
+    switch (key?.toUpperCase()) {
+      case 'FREQ':
+        if (value === 'DAILY' || value === 'WEEKLY' || value === 'MONTHLY') rule.freq = value
+        break
+      case 'INTERVAL':
+        rule.interval = Math.max(1, parseInt(value) || 1)
+        break
+      case 'COUNT':
+        rule.count = Math.max(1, parseInt(value) || 1)
+        break
+    }
+  })
+
+  return rule
+}
+
+// Map a rule back to the form's frequency option
+export const toRecurrenceFrequency = (rule: RecurrenceRule): RecurrenceFrequency => {
+  if (rule.freq === 'DAILY') return 'daily'
+  if (rule.freq === 'MONTHLY') return 'monthly'
+  return rule.interval === 2 ? 'biweekly' : 'weekly'
+}
+
+// Expand a rule into calendar dates ("YYYY-MM-DD") starting at startDate
+// Date math is done in UTC on the calendar date only, so the time of day and
+// the event's timezone are applied separately by createEventDateTime.
+export const getOccurrenceDates = (startDate: string, rule: RecurrenceRule): string[] => {
+  const [year, month, day] = startDate.split('-').map(Number)
+  const dates: string[] = []
+
+  for (let i = 0; i < rule.count; i++) {
+    let occurrence: Date
+    if (rule.freq === 'MONTHLY') {
+      // Clamp to the end of shorter months (Jan 31 -> Feb 28)
+      const targetMonth = month - 1 + i * rule.interval
+      const lastDay = new Date(Date.UTC(year, targetMonth + 1, 0)).getUTCDate()
+      occurrence = new Date(Date.UTC(year, targetMonth, Math.min(day, lastDay)))
+    } else {
+      const stepDays = rule.freq === 'DAILY' ? rule.interval : rule.interval * 7
+      occurrence = new Date(Date.UTC(year, month - 1, day + i * stepDays))
+    }
+    dates.push(occurrence.toISOString().split('T')[0])
+  }
+
+  return dates
+}
+
+// Human readable summary, e.g. "Every 2 weeks, 6 times"
+export const describeRecurrenceRule = (rrule: string): string => {
+  const rule = parseRecurrenceRule(rrule)
+  const unit = rule.freq === 'DAILY' ? 'day' : rule.freq === 'MONTHLY' ? 'month' : 'week'
+  const every = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`
+  return `${every}, ${rule.count} time${rule.count !== 1 ? 's' : ''}`
+}
@@ -0,0 +1,69 @@
+/**
+ * Schedule helpers for calendar views and "my events" conflicts
+ *
+ * Events store their start in `date` (an ISO timestamp, or a legacy date with
+ * a separate `time`) and an optional `end_time`. Events without an end are
+ * treated as lasting DEFAULT_EVENT_DURATION_MS.
+ */
+import { migrateLegacyDateTime } from '@/utils/dateTime'
+
+export const DEFAULT_EVENT_DURATION_MS = 2 * 60 * 60 * 1000
+
+export interface ScheduleEventSource {
+  id: string
+  date: string
+  time?: string | null
+  end_time?: string | null
+  status?: string | null
+}
+
+export const getEventStart = (event: ScheduleEventSource): Date =>
+  new Date(event.date.includes('T') ? event.date : migrateLegacyDateTime(event.date, event.time || undefined))
+
+export const getEventEnd = (event: ScheduleEventSource): Date => {
+  const start = getEventStart(event)
+  const end = event.end_time ? new Date(event.end_time) : null
+  return end && end > start ? end : new Date(start.getTime() + DEFAULT_EVENT_DURATION_MS)
+}
+
+// Local calendar day of a date, as YYYY-MM-DD
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+export const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate())
+
+export const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+
+// Sunday of the week containing `date`
+export const startOfWeek = (date: Date): Date => addDays(date, -date.getDay())
+
+export const eventsOverlap = (a: ScheduleEventSource, b: ScheduleEventSource): boolean =>
+  getEventStart(a) < getEventEnd(b) && getEventStart(b) < getEventEnd(a)
+
+/**
+ * Which events overlap each other, as event id -> ids of the events it clashes with.
+ * Cancelled events never conflict. Events without conflicts are left out.
+ */
+export const findScheduleConflicts = <T extends ScheduleEventSource>(events: T[]): Map<string, string[]> => {
+  const active = events
+    .filter(e => e.status !== 'cancelled')
+    .sort((a, b) => getEventStart(a).getTime() - getEventStart(b).getTime())
+  const conflicts = new Map<string, string[]>()
+
+  const addConflict = (id: string, otherId: string) => {
+    conflicts.set(id, [...(conflicts.get(id) || []), otherId])
+  }
+
+  // Sorted by start, so stop looking once an event starts after this one ends
+  for (let i = 0; i < active.length; i++) {
+    const end = getEventEnd(active[i])
+    for (let j = i + 1; j < active.length && getEventStart(active[j]) < end; j++) {
+      addConflict(active[i].id, active[j].id)
+      addConflict(active[j].id, active[i].id)
+    }
+  }
+
+  return conflicts
+}
@@ -0,0 +1,138 @@
+-- Migration: Event Series
+-- Recurring events are stored as a parent series with an RRULE-style rule.
+-- Each generated occurrence is a normal events row linked back to its series,
+-- so edits can target one occurrence, the following ones, or the whole series.
+
+-- ============================================================================
+-- EVENT SERIES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS event_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Recurrence rule, e.g. 'FREQ=WEEKLY;INTERVAL=2;COUNT=6'
+  rrule TEXT NOT NULL,
+  -- Start of the first occurrence in the series
+  dtstart TIMESTAMPTZ NOT NULL,
+  -- IANA timezone the rule is expanded in
+  timezone TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_series_created_by ON event_series(created_by);
+
+-- ============================================================================
+-- LINK OCCURRENCES TO THEIR SERIES
+-- ============================================================================
+
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES event_series(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS series_index INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_events_series ON events(series_id, series_index);
+
+-- ============================================================================
+-- UPDATE TIMESTAMP TRIGGER
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION update_event_series_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_event_series_updated_at ON event_series;
+CREATE TRIGGER update_event_series_updated_at
+  BEFORE UPDATE ON event_series
+  FOR EACH ROW
+  EXECUTE FUNCTION update_event_series_updated_at();
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE event_series ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read series rules (occurrence visibility is governed by events RLS)
+DROP POLICY IF EXISTS "Anyone can view event series" ON event_series;
+CREATE POLICY "Anyone can view event series"
+  ON event_series FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Users can create their own event series" ON event_series;
+CREATE POLICY "Users can create their own event series"
+  ON event_series FOR INSERT
+  WITH CHECK (auth.uid() = created_by);
+
+DROP POLICY IF EXISTS "Series creators can update their series" ON event_series;
+CREATE POLICY "Series creators can update their series"
+  ON event_series FOR UPDATE
+  USING (auth.uid() = created_by);
+
+DROP POLICY IF EXISTS "Series creators can delete their series" ON event_series;
+CREATE POLICY "Series creators can delete their series"
+  ON event_series FOR DELETE
+  USING (auth.uid() = created_by);
+
+-- ============================================================================
+-- SPLIT A SERIES
+-- ============================================================================
+
+-- Move the occurrence at p_series_index and everything after it to a new series,
+-- truncating the original in the same transaction. Co-hosts can edit "this and
+-- following" but the series UPDATE policy only covers its creator, so this runs
+-- as definer after checking the caller hosts the occurrence being split off.
+CREATE OR REPLACE FUNCTION split_event_series(
+  p_series_id UUID,
+  p_series_index INTEGER,
+  p_truncated_rrule TEXT,
+  p_following_rrule TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  v_series event_series%ROWTYPE;
+  v_first events%ROWTYPE;
+  v_new_series_id UUID;
+BEGIN
+  SELECT * INTO v_series FROM event_series WHERE id = p_series_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event series not found';
+  END IF;
+
+  SELECT * INTO v_first
+  FROM events
+  WHERE series_id = p_series_id AND series_index = p_series_index;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That occurrence is no longer part of the series';
+  END IF;
+
+  IF NOT (auth.uid() = v_series.created_by OR is_event_host_or_cohost(v_first.id, auth.uid())) THEN
+    RAISE EXCEPTION 'Only hosts can edit this series';
+  END IF;
+
+  INSERT INTO event_series (created_by, rrule, dtstart, timezone)
+  VALUES (v_series.created_by, p_following_rrule, v_first.date, v_series.timezone)
+  RETURNING id INTO v_new_series_id;
+
+  UPDATE event_series SET rrule = p_truncated_rrule WHERE id = p_series_id;
+
+  UPDATE events
+  SET series_id = v_new_series_id,
+      series_index = series_index - p_series_index
+  WHERE series_id = p_series_id AND series_index >= p_series_index;
+
+  RETURN v_new_series_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON TABLE event_series IS 'Parent record for recurring events; occurrences live in events with series_id set';
+COMMENT ON COLUMN event_series.rrule IS 'RRULE-style recurrence rule (FREQ, INTERVAL, COUNT)';
+COMMENT ON COLUMN events.series_id IS 'Series this event is an occurrence of, if recurring';
+COMMENT ON COLUMN events.series_index IS 'Zero-based position of this occurrence within its series';
+COMMENT ON FUNCTION split_event_series IS 'Split a series at an occurrence; the caller must host that occurrence';
@@ -0,0 +1,48 @@
+-- Migration: Calendar Feeds
+-- Per-user secret tokens for the subscribable iCalendar (.ics) feed.
+-- The feed URL (/api/ics/feed/<token>) is fetched by calendar apps without a
+-- session, so the token itself is the credential. Regenerating it revokes the old URL.
+
+-- ============================================================================
+-- CALENDAR FEEDS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- 64 hex chars, unguessable
+  token TEXT NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_accessed_at TIMESTAMPTZ,
+
+  -- One active feed per user
+  UNIQUE(user_id),
+  UNIQUE(token)
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_token ON calendar_feeds(token);
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+-- The feed API route looks tokens up with the service role key.
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own calendar feed" ON calendar_feeds;
+CREATE POLICY "Users can view their own calendar feed"
+  ON calendar_feeds FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create their own calendar feed" ON calendar_feeds;
+CREATE POLICY "Users can create their own calendar feed"
+  ON calendar_feeds FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own calendar feed" ON calendar_feeds;
+CREATE POLICY "Users can delete their own calendar feed"
+  ON calendar_feeds FOR DELETE
+  USING (auth.uid() = user_id);
+
+COMMENT ON TABLE calendar_feeds IS 'Secret per-user tokens for subscribable iCalendar feeds';
+COMMENT ON COLUMN calendar_feeds.token IS 'Credential embedded in the feed URL; delete the row to revoke';
@@ -0,0 +1,405 @@
+-- Migration: Waitlist Promotion
+-- Promotes people off an event's waitlist when a "going" spot opens up.
+-- - auto_confirm_waitlist = true: the next person in line is moved straight to "going"
+-- - auto_confirm_waitlist = false: the spot is held for the next person, who has
+--   waitlist_claim_hours to claim it before it passes to the next in line
+-- Hosts and co-hosts can also promote or reorder the waitlist manually.
+-- Promoted people get a row in the new notifications table.
+
+-- ============================================================================
+-- NOTIFICATIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT,
+  event_id UUID REFERENCES events(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Notifications are created by SECURITY DEFINER functions; users only read and dismiss their own
+DROP POLICY IF EXISTS "Users can view their own notifications" ON notifications;
+CREATE POLICY "Users can view their own notifications"
+  ON notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own notifications" ON notifications;
+CREATE POLICY "Users can update their own notifications"
+  ON notifications FOR UPDATE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own notifications" ON notifications;
+CREATE POLICY "Users can delete their own notifications"
+  ON notifications FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION create_notification(
+  p_user_id UUID,
+  p_type VARCHAR,
+  p_title TEXT,
+  p_message TEXT,
+  p_event_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  INSERT INTO notifications (user_id, type, title, message, event_id)
+  VALUES (p_user_id, p_type, p_title, p_message, p_event_id)
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- CLAIM WINDOW COLUMNS
+-- ============================================================================
+
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS waitlist_claim_hours INTEGER DEFAULT 24 CHECK (waitlist_claim_hours > 0);
+
+ALTER TABLE event_waitlist
+ADD COLUMN IF NOT EXISTS offer_expires_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_event_waitlist_offer_expires ON event_waitlist(offer_expires_at)
+  WHERE offer_expires_at IS NOT NULL;
+
+-- ============================================================================
+-- CONFIRM FROM WAITLIST
+-- ============================================================================
+
+-- Replaces the original version, which deleted the waitlist row before stamping it
+CREATE OR REPLACE FUNCTION confirm_from_waitlist(p_event_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  event_title TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM event_waitlist WHERE event_id = p_event_id AND user_id = p_user_id
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO event_rsvps (event_id, user_id, status)
+  VALUES (p_event_id, p_user_id, 'going')
+  ON CONFLICT (event_id, user_id) DO UPDATE SET
+    status = 'going',
+    updated_at = NOW();
+
+  DELETE FROM event_waitlist
+  WHERE event_id = p_event_id AND user_id = p_user_id;
+
+  SELECT title INTO event_title FROM events WHERE id = p_event_id;
+
+  PERFORM create_notification(
+    p_user_id,
+    'waitlist_confirmed',
+    'You''re off the waitlist!',
+    'A spot opened up and you''re now going to "' || event_title || '"',
+    p_event_id
+  );
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- PROMOTION ENGINE
+-- ============================================================================
+
+-- Drop offers whose claim window has passed, returning the number expired
+CREATE OR REPLACE FUNCTION expire_waitlist_offers(p_event_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  expired RECORD;
+  expired_count INTEGER := 0;
+BEGIN
+  FOR expired IN
+    SELECT w.user_id, e.title
+    FROM event_waitlist w
+    JOIN events e ON e.id = w.event_id
+    WHERE w.event_id = p_event_id
+      AND w.offer_expires_at IS NOT NULL
+      AND w.offer_expires_at <= NOW()
+  LOOP
+    DELETE FROM event_waitlist
+    WHERE event_id = p_event_id AND user_id = expired.user_id;
+
+    PERFORM create_notification(
+      expired.user_id,
+      'waitlist_offer_expired',
+      'Your waitlist spot expired',
+      'The spot held for you at "' || expired.title || '" was passed to the next person in line',
+      p_event_id
+    );
+
+    expired_count := expired_count + 1;
+  END LOOP;
+
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Fill open spots from the front of the waitlist, returning the number promoted.
+-- Spots held by an unexpired offer count as taken.
+CREATE OR REPLACE FUNCTION promote_from_waitlist(p_event_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  evt RECORD;
+  next_entry RECORD;
+  going_count INTEGER;
+  held_count INTEGER;
+  open_spots INTEGER;
+  promoted INTEGER := 0;
+BEGIN
+  SELECT id, title, max_capacity, waitlist_enabled, auto_confirm_waitlist,
+         COALESCE(waitlist_claim_hours, 24) AS claim_hours, date, status
+  INTO evt
+  FROM events
+  WHERE id = p_event_id;
+
+  IF evt.id IS NULL OR evt.max_capacity IS NULL OR NOT COALESCE(evt.waitlist_enabled, false) THEN
+    RETURN 0;
+  END IF;
+
+  -- Nothing to promote into once the event has started or is closed
+  IF evt.date <= NOW() OR evt.status IN ('completed', 'cancelled') THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM expire_waitlist_offers(p_event_id);
+
+  SELECT COUNT(*) INTO going_count
+  FROM event_rsvps
+  WHERE event_id = p_event_id AND status = 'going';
+
+  SELECT COUNT(*) INTO held_count
+  FROM event_waitlist
+  WHERE event_id = p_event_id AND offer_expires_at IS NOT NULL;
+
+  open_spots := evt.max_capacity - going_count - held_count;
+
+  WHILE open_spots > 0 LOOP
+    SELECT user_id INTO next_entry
+    FROM event_waitlist
+    WHERE event_id = p_event_id AND offer_expires_at IS NULL
+    ORDER BY position ASC
+    LIMIT 1;
+
+    EXIT WHEN NOT FOUND;
+
+    IF COALESCE(evt.auto_confirm_waitlist, true) THEN
+      PERFORM confirm_from_waitlist(p_event_id, next_entry.user_id);
+    ELSE
+      UPDATE event_waitlist SET
+        offer_expires_at = NOW() + make_interval(hours => evt.claim_hours),
+        notified_at = NOW()
+      WHERE event_id = p_event_id AND user_id = next_entry.user_id;
+
+      PERFORM create_notification(
+        next_entry.user_id,
+        'waitlist_offer',
+        'A spot opened up!',
+        'A spot at "' || evt.title || '" is being held for you. Claim it within '
+          || evt.claim_hours || ' hour' || CASE WHEN evt.claim_hours = 1 THEN '' ELSE 's' END || '.',
+        p_event_id
+      );
+    END IF;
+
+    promoted := promoted + 1;
+    open_spots := open_spots - 1;
+  END LOOP;
+
+  RETURN promoted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Run the expiry sweep for every event (for pg_cron)
+CREATE OR REPLACE FUNCTION process_waitlist_offers()
+RETURNS void AS $$
+DECLARE
+  affected UUID;
+BEGIN
+  FOR affected IN
+    SELECT DISTINCT event_id FROM event_waitlist
+    WHERE offer_expires_at IS NOT NULL AND offer_expires_at <= NOW()
+  LOOP
+    PERFORM promote_from_waitlist(affected);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- SELECT cron.schedule('process-waitlist-offers', '*/15 * * * *', 'SELECT process_waitlist_offers();');
+
+-- ============================================================================
+-- CLAIMING AND DECLINING A HELD SPOT
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION claim_waitlist_spot(p_event_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  PERFORM expire_waitlist_offers(p_event_id);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM event_waitlist
+    WHERE event_id = p_event_id
+      AND user_id = auth.uid()
+      AND offer_expires_at IS NOT NULL
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN confirm_from_waitlist(p_event_id, auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Leave the waitlist; a held spot passes straight to the next person in line
+CREATE OR REPLACE FUNCTION decline_waitlist_spot(p_event_id UUID)
+RETURNS void AS $$
+BEGIN
+  DELETE FROM event_waitlist
+  WHERE event_id = p_event_id AND user_id = auth.uid();
+
+  PERFORM promote_from_waitlist(p_event_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- HOST CONTROLS
+-- ============================================================================
+
+-- Move someone straight to "going", even past capacity
+CREATE OR REPLACE FUNCTION host_promote_from_waitlist(p_event_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF NOT is_event_host_or_cohost_for_invitations(p_event_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only hosts and co-hosts can manage the waitlist';
+  END IF;
+
+  RETURN confirm_from_waitlist(p_event_id, p_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Move a waitlist entry to a new position, shifting the entries in between
+CREATE OR REPLACE FUNCTION reorder_waitlist(p_event_id UUID, p_user_id UUID, p_new_position INTEGER)
+RETURNS void AS $$
+DECLARE
+  old_position INTEGER;
+  max_position INTEGER;
+  target_position INTEGER;
+BEGIN
+  IF NOT is_event_host_or_cohost_for_invitations(p_event_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only hosts and co-hosts can manage the waitlist';
+  END IF;
+
+  SELECT position INTO old_position
+  FROM event_waitlist
+  WHERE event_id = p_event_id AND user_id = p_user_id;
+
+  IF old_position IS NULL THEN
+    RAISE EXCEPTION 'User is not on the waitlist';
+  END IF;
+
+  SELECT MAX(position) INTO max_position FROM event_waitlist WHERE event_id = p_event_id;
+  target_position := GREATEST(1, LEAST(p_new_position, max_position));
+
+  IF target_position = old_position THEN
+    RETURN;
+  END IF;
+
+  IF target_position < old_position THEN
+    UPDATE event_waitlist SET position = position + 1
+    WHERE event_id = p_event_id AND position >= target_position AND position < old_position;
+  ELSE
+    UPDATE event_waitlist SET position = position - 1
+    WHERE event_id = p_event_id AND position > old_position AND position <= target_position;
+  END IF;
+
+  UPDATE event_waitlist SET position = target_position
+  WHERE event_id = p_event_id AND user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- AUTOMATIC PROMOTION TRIGGERS
+-- ============================================================================
+
+-- A "going" RSVP was removed or changed to maybe/not going
+CREATE OR REPLACE FUNCTION promote_waitlist_on_rsvp_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'going' AND (TG_OP = 'DELETE' OR NEW.status <> 'going') THEN
+    PERFORM promote_from_waitlist(OLD.event_id);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_promote_waitlist_on_rsvp_change ON event_rsvps;
+CREATE TRIGGER trigger_promote_waitlist_on_rsvp_change
+  AFTER UPDATE OR DELETE ON event_rsvps
+  FOR EACH ROW EXECUTE FUNCTION promote_waitlist_on_rsvp_change();
+
+-- The host raised capacity or turned the waitlist on
+CREATE OR REPLACE FUNCTION promote_waitlist_on_capacity_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM promote_from_waitlist(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_promote_waitlist_on_capacity_change ON events;
+CREATE TRIGGER trigger_promote_waitlist_on_capacity_change
+  AFTER UPDATE OF max_capacity, waitlist_enabled ON events
+  FOR EACH ROW
+  WHEN (
+    NEW.max_capacity IS DISTINCT FROM OLD.max_capacity OR
+    NEW.waitlist_enabled IS DISTINCT FROM OLD.waitlist_enabled
+  )
+  EXECUTE FUNCTION promote_waitlist_on_capacity_change();
+
+-- Someone joined the waitlist while a spot was already open (e.g. capacity was
+-- raised before anyone was in line): fill it straight away
+CREATE OR REPLACE FUNCTION promote_waitlist_on_join()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM promote_from_waitlist(NEW.event_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_promote_waitlist_on_join ON event_waitlist;
+CREATE TRIGGER trigger_promote_waitlist_on_join
+  AFTER INSERT ON event_waitlist
+  FOR EACH ROW EXECUTE FUNCTION promote_waitlist_on_join();
+
+-- ============================================================================
+-- PERMISSIONS
+-- ============================================================================
+
+-- Internal helpers: they take any user id and skip capacity and host checks, so
+-- they're only reachable through the triggers and checked functions above (and
+-- the service role, for the scheduled sweep)
+REVOKE EXECUTE ON FUNCTION create_notification(UUID, VARCHAR, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION confirm_from_waitlist(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_waitlist_offers(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION promote_from_waitlist(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION process_waitlist_offers() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE notifications IS 'In-app notifications shown on the profile notifications tab';
+COMMENT ON COLUMN events.waitlist_claim_hours IS 'How long a held spot is reserved for the next person on the waitlist when auto_confirm_waitlist is off';
+COMMENT ON COLUMN event_waitlist.offer_expires_at IS 'Set while a spot is held for this person; they must claim it before this time';
@@ -0,0 +1,17 @@
+-- Migration: Event Timezone
+-- Events store the IANA timezone they were scheduled in, so the wall-clock time
+-- chosen by the host can be shown consistently no matter where a viewer is.
+-- events.date / events.end_time remain UTC timestamps.
+
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+-- Recurring events already record the zone their rule is expanded in
+UPDATE events
+SET timezone = event_series.timezone
+FROM event_series
+WHERE events.series_id = event_series.id
+  AND events.timezone IS NULL
+  AND event_series.timezone IS NOT NULL;
+
+COMMENT ON COLUMN events.timezone IS 'IANA timezone the event was scheduled in (e.g. America/New_York); NULL for events created before timezones were stored';
@@ -0,0 +1,180 @@
+-- Migration: Event Check-In
+-- Door check-in with per-RSVP codes (shown to attendees as a QR code) and
+-- attendance tracking on event_rsvps.
+-- Codes live in their own table because event_rsvps rows are readable by
+-- anyone who can see a published event; only the attendee can read their code.
+-- Check-in can be run by the event creator and co-hosts with the 'cohost' or
+-- 'organizer' role (moderators only moderate discussion).
+
+-- ============================================================================
+-- ATTENDANCE COLUMNS
+-- ============================================================================
+
+ALTER TABLE event_rsvps
+ADD COLUMN IF NOT EXISTS attended BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS checked_in_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_event_rsvps_attended ON event_rsvps(event_id) WHERE attended = true;
+
+-- ============================================================================
+-- CHECK-IN CODES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS event_check_in_codes (
+  rsvp_id UUID PRIMARY KEY REFERENCES event_rsvps(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Short code typed in by hand when a QR code can't be scanned
+  code TEXT NOT NULL DEFAULT upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 8)),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(event_id, code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_check_in_codes_user ON event_check_in_codes(user_id);
+
+ALTER TABLE event_check_in_codes ENABLE ROW LEVEL SECURITY;
+
+-- Codes are issued and redeemed through the functions below
+DROP POLICY IF EXISTS "Users can view their own check-in codes" ON event_check_in_codes;
+CREATE POLICY "Users can view their own check-in codes"
+  ON event_check_in_codes FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- HELPER FUNCTIONS
+-- ============================================================================
+
+-- Check if user can run check-in for an event (bypasses RLS to avoid recursion)
+CREATE OR REPLACE FUNCTION can_check_in_event(event_id UUID, user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN is_event_creator(event_id, user_id) OR EXISTS (
+    SELECT 1 FROM event_cohosts
+    WHERE event_cohosts.event_id = $1
+      AND event_cohosts.user_id = $2
+      AND event_cohosts.role IN ('cohost', 'organizer')
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Get (or issue) the current user's check-in code for an event they RSVP'd to
+CREATE OR REPLACE FUNCTION get_check_in_code(p_event_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  rsvp RECORD;
+  existing_code TEXT;
+BEGIN
+  SELECT id, status INTO rsvp
+  FROM event_rsvps
+  WHERE event_id = p_event_id AND user_id = auth.uid();
+
+  IF rsvp.id IS NULL OR rsvp.status = 'not_going' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT code INTO existing_code FROM event_check_in_codes WHERE rsvp_id = rsvp.id;
+  IF existing_code IS NOT NULL THEN
+    RETURN existing_code;
+  END IF;
+
+  INSERT INTO event_check_in_codes (rsvp_id, event_id, user_id)
+  VALUES (rsvp.id, p_event_id, auth.uid())
+  ON CONFLICT (rsvp_id) DO NOTHING;
+
+  SELECT code INTO existing_code FROM event_check_in_codes WHERE rsvp_id = rsvp.id;
+  RETURN existing_code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Mark the RSVP behind a check-in code as attended
+CREATE OR REPLACE FUNCTION check_in_attendee(p_event_id UUID, p_code TEXT)
+RETURNS TABLE(
+  user_id UUID,
+  full_name TEXT,
+  rsvp_status VARCHAR,
+  already_checked_in BOOLEAN,
+  checked_in_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  matched RECORD;
+BEGIN
+  IF NOT can_check_in_event(p_event_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only hosts and organizers can check in attendees';
+  END IF;
+
+  SELECT r.id, r.user_id, r.status, r.attended, r.checked_in_at, p.full_name
+  INTO matched
+  FROM event_check_in_codes c
+  JOIN event_rsvps r ON r.id = c.rsvp_id
+  LEFT JOIN profiles p ON p.id = r.user_id
+  WHERE c.event_id = p_event_id AND c.code = upper(trim(p_code));
+
+  IF matched.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF NOT COALESCE(matched.attended, false) THEN
+    UPDATE event_rsvps SET
+      attended = true,
+      checked_in_at = NOW(),
+      checked_in_by = auth.uid()
+    WHERE id = matched.id;
+  END IF;
+
+  RETURN QUERY
+  SELECT matched.user_id, matched.full_name::TEXT, matched.status::VARCHAR,
+         COALESCE(matched.attended, false),
+         COALESCE(matched.checked_in_at, NOW());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Manually mark (or unmark) an attendee, e.g. from the guest list at the door
+CREATE OR REPLACE FUNCTION set_event_attendance(p_event_id UUID, p_user_id UUID, p_attended BOOLEAN)
+RETURNS void AS $$
+BEGIN
+  IF NOT can_check_in_event(p_event_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only hosts and organizers can check in attendees';
+  END IF;
+
+  UPDATE event_rsvps SET
+    attended = p_attended,
+    checked_in_at = CASE WHEN p_attended THEN COALESCE(checked_in_at, NOW()) ELSE NULL END,
+    checked_in_by = CASE WHEN p_attended THEN auth.uid() ELSE NULL END
+  WHERE event_id = p_event_id AND user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Attendees can edit their own RSVP, so keep them off the attendance columns:
+-- only the check-in functions (run by hosts) and server jobs may set them
+CREATE OR REPLACE FUNCTION protect_rsvp_attendance()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR can_check_in_event(NEW.event_id, auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF COALESCE(NEW.attended, false) OR NEW.checked_in_at IS NOT NULL OR NEW.checked_in_by IS NOT NULL THEN
+      RAISE EXCEPTION 'Only hosts and organizers can check in attendees';
+    END IF;
+  ELSIF NEW.attended IS DISTINCT FROM OLD.attended
+     OR NEW.checked_in_at IS DISTINCT FROM OLD.checked_in_at
+     OR NEW.checked_in_by IS DISTINCT FROM OLD.checked_in_by THEN
+    RAISE EXCEPTION 'Only hosts and organizers can check in attendees';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_protect_rsvp_attendance ON event_rsvps;
+CREATE TRIGGER trigger_protect_rsvp_attendance
+  BEFORE INSERT OR UPDATE ON event_rsvps
+  FOR EACH ROW EXECUTE FUNCTION protect_rsvp_attendance();
+
+COMMENT ON TABLE event_check_in_codes IS 'Per-RSVP door check-in codes, readable only by the attendee';
+COMMENT ON COLUMN event_rsvps.attended IS 'Whether the attendee was checked in at the door';
+COMMENT ON COLUMN event_rsvps.checked_in_at IS 'When the attendee was checked in';
+COMMENT ON COLUMN event_rsvps.checked_in_by IS 'Host or organizer who checked the attendee in';
@@ -0,0 +1,193 @@
+-- Migration: Event RSVP Questions
+-- Hosts can attach questions (dietary needs, t-shirt size, free text, multiple
+-- choice, ...) that guests answer when they RSVP. Questions use the same field
+-- definition as section profile fields so the same builder and inputs work.
+-- Answers are keyed by event + user, so they carry over if a guest changes
+-- their RSVP or goes through the waitlist.
+
+-- ============================================================================
+-- EVENT RSVP QUESTIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS event_rsvp_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+
+  -- Field definition (see section_profile_fields)
+  field_name TEXT NOT NULL,
+  field_label TEXT NOT NULL,
+  field_type TEXT NOT NULL CHECK (field_type IN (
+    'text', 'textarea', 'select', 'multiselect', 'checkbox',
+    'number', 'date', 'url', 'email', 'phone'
+  )),
+  field_options JSONB DEFAULT '[]',
+  placeholder TEXT,
+  help_text TEXT,
+  default_value TEXT,
+
+  -- Validation
+  is_required BOOLEAN DEFAULT false,
+  min_length INTEGER,
+  max_length INTEGER,
+  validation_pattern TEXT,
+
+  -- Display
+  display_order INTEGER DEFAULT 0,
+  is_active BOOLEAN DEFAULT true,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  UNIQUE(event_id, field_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_rsvp_questions_event ON event_rsvp_questions(event_id, display_order);
+
+-- ============================================================================
+-- EVENT RSVP ANSWERS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS event_rsvp_answers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES event_rsvp_questions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Stored as text, parsed based on field_type (multiselect is comma-separated)
+  value TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- One answer per guest per question
+  UNIQUE(question_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_rsvp_answers_event ON event_rsvp_answers(event_id);
+CREATE INDEX IF NOT EXISTS idx_event_rsvp_answers_user ON event_rsvp_answers(user_id, event_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY POLICIES
+-- ============================================================================
+
+ALTER TABLE event_rsvp_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_rsvp_answers ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can see a published event can see its active questions
+DROP POLICY IF EXISTS "Anyone can view questions for published events" ON event_rsvp_questions;
+CREATE POLICY "Anyone can view questions for published events"
+  ON event_rsvp_questions FOR SELECT
+  USING (
+    is_active = true AND
+    is_event_published(event_id)
+  );
+
+-- Hosts and co-hosts can view all questions (including inactive ones)
+DROP POLICY IF EXISTS "Hosts can view all questions" ON event_rsvp_questions;
+CREATE POLICY "Hosts can view all questions"
+  ON event_rsvp_questions FOR SELECT
+  USING (
+    is_event_creator(event_id, auth.uid()) OR
+    is_event_cohost(event_id, auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Hosts can create questions" ON event_rsvp_questions;
+CREATE POLICY "Hosts can create questions"
+  ON event_rsvp_questions FOR INSERT
+  WITH CHECK (
+    is_event_creator(event_id, auth.uid()) OR
+    is_event_cohost(event_id, auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Hosts can update questions" ON event_rsvp_questions;
+CREATE POLICY "Hosts can update questions"
+  ON event_rsvp_questions FOR UPDATE
+  USING (
+    is_event_creator(event_id, auth.uid()) OR
+    is_event_cohost(event_id, auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Hosts can delete questions" ON event_rsvp_questions;
+CREATE POLICY "Hosts can delete questions"
+  ON event_rsvp_questions FOR DELETE
+  USING (
+    is_event_creator(event_id, auth.uid()) OR
+    is_event_cohost(event_id, auth.uid())
+  );
+
+-- An answer must be to one of its own event's questions, or it would show up in
+-- another event's export
+CREATE OR REPLACE FUNCTION answer_matches_event(p_question_id UUID, p_event_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM event_rsvp_questions WHERE id = p_question_id AND event_id = p_event_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Guests manage their own answers
+DROP POLICY IF EXISTS "Users can view their own answers" ON event_rsvp_answers;
+CREATE POLICY "Users can view their own answers"
+  ON event_rsvp_answers FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own answers" ON event_rsvp_answers;
+CREATE POLICY "Users can insert their own answers"
+  ON event_rsvp_answers FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND answer_matches_event(question_id, event_id));
+
+DROP POLICY IF EXISTS "Users can update their own answers" ON event_rsvp_answers;
+CREATE POLICY "Users can update their own answers"
+  ON event_rsvp_answers FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND answer_matches_event(question_id, event_id));
+
+DROP POLICY IF EXISTS "Users can delete their own answers" ON event_rsvp_answers;
+CREATE POLICY "Users can delete their own answers"
+  ON event_rsvp_answers FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Answers are only visible to the event's hosts, not other guests
+DROP POLICY IF EXISTS "Hosts can view answers for their events" ON event_rsvp_answers;
+CREATE POLICY "Hosts can view answers for their events"
+  ON event_rsvp_answers FOR SELECT
+  USING (
+    is_event_creator(event_id, auth.uid()) OR
+    is_event_cohost(event_id, auth.uid())
+  );
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION update_event_rsvp_questions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_event_rsvp_questions_updated_at ON event_rsvp_questions;
+CREATE TRIGGER update_event_rsvp_questions_updated_at
+  BEFORE UPDATE ON event_rsvp_questions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_event_rsvp_questions_updated_at();
+
+CREATE OR REPLACE FUNCTION update_event_rsvp_answers_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_event_rsvp_answers_updated_at ON event_rsvp_answers;
+CREATE TRIGGER update_event_rsvp_answers_updated_at
+  BEFORE UPDATE ON event_rsvp_answers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_event_rsvp_answers_updated_at();
+
+COMMENT ON TABLE event_rsvp_questions IS 'Host-defined questions asked when guests RSVP to an event';
+COMMENT ON TABLE event_rsvp_answers IS 'Guest answers to event RSVP questions, visible to the guest and event hosts';
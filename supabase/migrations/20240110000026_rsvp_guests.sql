@@ -0,0 +1,305 @@
+-- Migration: RSVP Guests (plus-ones)
+-- Hosts can let each RSVP bring up to N guests. Guest counts are stored on the
+-- RSVP (and on waitlist entries, so promotion knows how many spots to free up)
+-- and totalled on events.guest_count next to rsvp_count. Capacity is measured
+-- in heads: going members plus their guests.
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS max_guests_per_rsvp INTEGER DEFAULT 0 CHECK (max_guests_per_rsvp >= 0),
+ADD COLUMN IF NOT EXISTS guest_count INTEGER DEFAULT 0;
+
+ALTER TABLE event_rsvps
+ADD COLUMN IF NOT EXISTS guest_count INTEGER DEFAULT 0 CHECK (guest_count >= 0);
+
+ALTER TABLE event_waitlist
+ADD COLUMN IF NOT EXISTS guest_count INTEGER DEFAULT 0 CHECK (guest_count >= 0);
+
+-- ============================================================================
+-- GUEST LIMIT
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION enforce_rsvp_guest_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  max_guests INTEGER;
+BEGIN
+  IF COALESCE(NEW.guest_count, 0) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(max_guests_per_rsvp, 0) INTO max_guests
+  FROM events
+  WHERE id = NEW.event_id;
+
+  IF NEW.guest_count > max_guests THEN
+    RAISE EXCEPTION 'This event allows at most % guest(s) per RSVP', max_guests;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_enforce_rsvp_guest_limit ON event_rsvps;
+CREATE TRIGGER trigger_enforce_rsvp_guest_limit
+  BEFORE INSERT OR UPDATE OF guest_count ON event_rsvps
+  FOR EACH ROW EXECUTE FUNCTION enforce_rsvp_guest_limit();
+
+DROP TRIGGER IF EXISTS trigger_enforce_waitlist_guest_limit ON event_waitlist;
+CREATE TRIGGER trigger_enforce_waitlist_guest_limit
+  BEFORE INSERT OR UPDATE OF guest_count ON event_waitlist
+  FOR EACH ROW EXECUTE FUNCTION enforce_rsvp_guest_limit();
+
+-- ============================================================================
+-- RSVP COUNTS
+-- ============================================================================
+
+-- Same as before, plus guest_count for "going" RSVPs
+CREATE OR REPLACE FUNCTION update_event_rsvp_counts()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE events SET
+      rsvp_count = CASE WHEN NEW.status = 'going' THEN rsvp_count + 1 ELSE rsvp_count END,
+      maybe_count = CASE WHEN NEW.status = 'maybe' THEN maybe_count + 1 ELSE maybe_count END,
+      not_going_count = CASE WHEN NEW.status = 'not_going' THEN not_going_count + 1 ELSE not_going_count END,
+      guest_count = COALESCE(guest_count, 0)
+        + CASE WHEN NEW.status = 'going' THEN COALESCE(NEW.guest_count, 0) ELSE 0 END,
+      updated_at = NOW()
+    WHERE id = NEW.event_id;
+    RETURN NEW;
+
+  ELSIF TG_OP = 'UPDATE' THEN
+    UPDATE events SET
+      rsvp_count = rsvp_count
+        + CASE WHEN NEW.status = 'going' THEN 1 ELSE 0 END
+        - CASE WHEN OLD.status = 'going' THEN 1 ELSE 0 END,
+      maybe_count = maybe_count
+        + CASE WHEN NEW.status = 'maybe' THEN 1 ELSE 0 END
+        - CASE WHEN OLD.status = 'maybe' THEN 1 ELSE 0 END,
+      not_going_count = not_going_count
+        + CASE WHEN NEW.status = 'not_going' THEN 1 ELSE 0 END
+        - CASE WHEN OLD.status = 'not_going' THEN 1 ELSE 0 END,
+      guest_count = COALESCE(guest_count, 0)
+        + CASE WHEN NEW.status = 'going' THEN COALESCE(NEW.guest_count, 0) ELSE 0 END
+        - CASE WHEN OLD.status = 'going' THEN COALESCE(OLD.guest_count, 0) ELSE 0 END,
+      updated_at = NOW()
+    WHERE id = NEW.event_id;
+    RETURN NEW;
+
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE events SET
+      rsvp_count = CASE WHEN OLD.status = 'going' THEN rsvp_count - 1 ELSE rsvp_count END,
+      maybe_count = CASE WHEN OLD.status = 'maybe' THEN maybe_count - 1 ELSE maybe_count END,
+      not_going_count = CASE WHEN OLD.status = 'not_going' THEN not_going_count - 1 ELSE not_going_count END,
+      guest_count = COALESCE(guest_count, 0)
+        - CASE WHEN OLD.status = 'going' THEN COALESCE(OLD.guest_count, 0) ELSE 0 END,
+      updated_at = NOW()
+    WHERE id = OLD.event_id;
+    RETURN OLD;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION recalculate_event_rsvp_counts()
+RETURNS void AS $$
+BEGIN
+  UPDATE events SET
+    rsvp_count = COALESCE((
+      SELECT COUNT(*) FROM event_rsvps
+      WHERE event_id = events.id AND status = 'going'
+    ), 0),
+    maybe_count = COALESCE((
+      SELECT COUNT(*) FROM event_rsvps
+      WHERE event_id = events.id AND status = 'maybe'
+    ), 0),
+    not_going_count = COALESCE((
+      SELECT COUNT(*) FROM event_rsvps
+      WHERE event_id = events.id AND status = 'not_going'
+    ), 0),
+    guest_count = COALESCE((
+      SELECT SUM(guest_count) FROM event_rsvps
+      WHERE event_id = events.id AND status = 'going'
+    ), 0),
+    updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- WAITLIST
+-- ============================================================================
+
+-- Joining the waitlist now records how many guests are coming along
+DROP FUNCTION IF EXISTS add_to_waitlist(UUID, UUID);
+CREATE OR REPLACE FUNCTION add_to_waitlist(p_event_id UUID, p_user_id UUID, p_guest_count INTEGER DEFAULT 0)
+RETURNS TABLE(waitlist_position INTEGER, total_waitlist INTEGER) AS $$
+DECLARE
+  next_position INTEGER;
+  total_count INTEGER;
+BEGIN
+  SELECT COALESCE(MAX(position), 0) + 1 INTO next_position
+  FROM event_waitlist
+  WHERE event_id = p_event_id;
+
+  INSERT INTO event_waitlist (event_id, user_id, position, guest_count)
+  VALUES (p_event_id, p_user_id, next_position, COALESCE(p_guest_count, 0))
+  ON CONFLICT (event_id, user_id) DO UPDATE SET
+    guest_count = EXCLUDED.guest_count;
+
+  SELECT COUNT(*) INTO total_count
+  FROM event_waitlist
+  WHERE event_id = p_event_id;
+
+  RETURN QUERY SELECT next_position AS waitlist_position, total_count AS total_waitlist;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Confirmed RSVPs keep the guests from the waitlist entry
+CREATE OR REPLACE FUNCTION confirm_from_waitlist(p_event_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  entry_guests INTEGER;
+  event_title TEXT;
+BEGIN
+  SELECT COALESCE(guest_count, 0) INTO entry_guests
+  FROM event_waitlist
+  WHERE event_id = p_event_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO event_rsvps (event_id, user_id, status, guest_count)
+  VALUES (p_event_id, p_user_id, 'going', entry_guests)
+  ON CONFLICT (event_id, user_id) DO UPDATE SET
+    status = 'going',
+    guest_count = EXCLUDED.guest_count,
+    updated_at = NOW();
+
+  DELETE FROM event_waitlist
+  WHERE event_id = p_event_id AND user_id = p_user_id;
+
+  SELECT title INTO event_title FROM events WHERE id = p_event_id;
+
+  PERFORM create_notification(
+    p_user_id,
+    'waitlist_confirmed',
+    'You''re off the waitlist!',
+    'A spot opened up and you''re now going to "' || event_title || '"',
+    p_event_id
+  );
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Promotion counts heads: the next person only moves up once there is room for
+-- them and their guests. People further back are not skipped ahead.
+CREATE OR REPLACE FUNCTION promote_from_waitlist(p_event_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  evt RECORD;
+  next_entry RECORD;
+  going_heads INTEGER;
+  held_heads INTEGER;
+  open_spots INTEGER;
+  promoted INTEGER := 0;
+BEGIN
+  SELECT id, title, max_capacity, waitlist_enabled, auto_confirm_waitlist,
+         COALESCE(waitlist_claim_hours, 24) AS claim_hours, date, status
+  INTO evt
+  FROM events
+  WHERE id = p_event_id;
+
+  IF evt.id IS NULL OR evt.max_capacity IS NULL OR NOT COALESCE(evt.waitlist_enabled, false) THEN
+    RETURN 0;
+  END IF;
+
+  -- Nothing to promote into once the event has started or is closed
+  IF evt.date <= NOW() OR evt.status IN ('completed', 'cancelled') THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM expire_waitlist_offers(p_event_id);
+
+  SELECT COALESCE(SUM(1 + COALESCE(guest_count, 0)), 0) INTO going_heads
+  FROM event_rsvps
+  WHERE event_id = p_event_id AND status = 'going';
+
+  SELECT COALESCE(SUM(1 + COALESCE(guest_count, 0)), 0) INTO held_heads
+  FROM event_waitlist
+  WHERE event_id = p_event_id AND offer_expires_at IS NOT NULL;
+
+  open_spots := evt.max_capacity - going_heads - held_heads;
+
+  WHILE open_spots > 0 LOOP
+    SELECT user_id, 1 + COALESCE(guest_count, 0) AS heads INTO next_entry
+    FROM event_waitlist
+    WHERE event_id = p_event_id AND offer_expires_at IS NULL
+    ORDER BY position ASC
+    LIMIT 1;
+
+    EXIT WHEN NOT FOUND;
+    EXIT WHEN next_entry.heads > open_spots;
+
+    IF COALESCE(evt.auto_confirm_waitlist, true) THEN
+      PERFORM confirm_from_waitlist(p_event_id, next_entry.user_id);
+    ELSE
+      UPDATE event_waitlist SET
+        offer_expires_at = NOW() + make_interval(hours => evt.claim_hours),
+        notified_at = NOW()
+      WHERE event_id = p_event_id AND user_id = next_entry.user_id;
+
+      PERFORM create_notification(
+        next_entry.user_id,
+        'waitlist_offer',
+        'A spot opened up!',
+        'A spot at "' || evt.title || '" is being held for you. Claim it within '
+          || evt.claim_hours || ' hour' || CASE WHEN evt.claim_hours = 1 THEN '' ELSE 's' END || '.',
+        p_event_id
+      );
+    END IF;
+
+    promoted := promoted + 1;
+    open_spots := open_spots - next_entry.heads;
+  END LOOP;
+
+  RETURN promoted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Also promote when someone going brings fewer guests
+CREATE OR REPLACE FUNCTION promote_waitlist_on_rsvp_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'going' AND (
+    TG_OP = 'DELETE' OR
+    NEW.status <> 'going' OR
+    COALESCE(NEW.guest_count, 0) < COALESCE(OLD.guest_count, 0)
+  ) THEN
+    PERFORM promote_from_waitlist(OLD.event_id);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Backfill the new total
+UPDATE events SET guest_count = COALESCE((
+  SELECT SUM(guest_count) FROM event_rsvps
+  WHERE event_id = events.id AND status = 'going'
+), 0);
+
+COMMENT ON COLUMN events.max_guests_per_rsvp IS 'How many guests (plus-ones) each RSVP may bring; 0 disables plus-ones';
+COMMENT ON COLUMN events.guest_count IS 'Total guests brought by "going" RSVPs; headcount is rsvp_count + guest_count';
+COMMENT ON COLUMN events.max_capacity IS 'Maximum headcount (members plus their guests) - enables waitlist when reached';
+COMMENT ON COLUMN event_rsvps.guest_count IS 'Number of guests this person is bringing';
+COMMENT ON COLUMN event_waitlist.guest_count IS 'Number of guests coming along if this person is promoted';
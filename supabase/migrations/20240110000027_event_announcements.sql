@@ -0,0 +1,348 @@
+-- Migration: Event Announcements
+-- Lets hosts and co-hosts message everyone in chosen RSVP segments at once.
+-- - Segments: going, maybe, waitlisted, invited (invited but hasn't responded)
+-- - The announcement is posted into the event's channel (type 'event') as a
+--   'system' message; the channel is created on first use
+-- - Recipients are added to the channel, notified, and tracked per announcement
+--   so hosts can see who has seen it
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS event_announcements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  channel_id UUID REFERENCES channels(id) ON DELETE SET NULL,
+  message_id UUID REFERENCES channel_messages(id) ON DELETE SET NULL,
+  content TEXT NOT NULL,
+  segments TEXT[] NOT NULL,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT event_announcements_segments_check CHECK (
+    cardinality(segments) > 0 AND
+    segments <@ ARRAY['going', 'maybe', 'waitlisted', 'invited']::TEXT[]
+  )
+);
+
+CREATE TABLE IF NOT EXISTS event_announcement_recipients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  announcement_id UUID NOT NULL REFERENCES event_announcements(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  segment TEXT NOT NULL,
+  delivered_at TIMESTAMPTZ DEFAULT NOW(),
+  seen_at TIMESTAMPTZ,
+
+  UNIQUE(announcement_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_announcements_event ON event_announcements(event_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_event_announcements_message ON event_announcements(message_id);
+CREATE INDEX IF NOT EXISTS idx_announcement_recipients_announcement ON event_announcement_recipients(announcement_id);
+CREATE INDEX IF NOT EXISTS idx_announcement_recipients_user ON event_announcement_recipients(user_id);
+
+ALTER TABLE event_announcements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_announcement_recipients ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+-- Announcements are written by send_event_announcement; hosts see all of them,
+-- recipients see the ones sent to them
+DROP POLICY IF EXISTS "Hosts and recipients can view announcements" ON event_announcements;
+CREATE POLICY "Hosts and recipients can view announcements"
+  ON event_announcements FOR SELECT
+  USING (
+    is_event_creator(event_id, auth.uid()) OR
+    is_event_cohost(event_id, auth.uid()) OR
+    EXISTS (
+      SELECT 1 FROM event_announcement_recipients r
+      WHERE r.announcement_id = event_announcements.id
+      AND r.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Hosts can delete announcements" ON event_announcements;
+CREATE POLICY "Hosts can delete announcements"
+  ON event_announcements FOR DELETE
+  USING (
+    is_event_creator(event_id, auth.uid()) OR
+    is_event_cohost(event_id, auth.uid())
+  );
+
+-- Avoids recursion between the two tables' policies
+CREATE OR REPLACE FUNCTION is_announcement_host(p_announcement_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM event_announcements a
+    WHERE a.id = p_announcement_id
+    AND (is_event_creator(a.event_id, p_user_id) OR is_event_cohost(a.event_id, p_user_id))
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP POLICY IF EXISTS "Hosts and recipients can view delivery" ON event_announcement_recipients;
+CREATE POLICY "Hosts and recipients can view delivery"
+  ON event_announcement_recipients FOR SELECT
+  USING (
+    auth.uid() = user_id OR
+    is_announcement_host(announcement_id, auth.uid())
+  );
+
+-- ============================================================================
+-- EVENT CHANNEL
+-- ============================================================================
+
+-- Returns the event's channel, creating it (with the hosts as owner/admins) if needed
+CREATE OR REPLACE FUNCTION get_or_create_event_channel(p_event_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  evt RECORD;
+  event_channel_id UUID;
+BEGIN
+  SELECT id INTO event_channel_id
+  FROM channels
+  WHERE event_id = p_event_id AND type = 'event'
+  ORDER BY created_at ASC
+  LIMIT 1;
+
+  IF event_channel_id IS NOT NULL THEN
+    RETURN event_channel_id;
+  END IF;
+
+  SELECT id, title, created_by INTO evt FROM events WHERE id = p_event_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  INSERT INTO channels (name, description, type, event_id, created_by, is_archived, is_read_only)
+  VALUES (
+    evt.title,
+    'Chat for ' || evt.title,
+    'event',
+    p_event_id,
+    evt.created_by,
+    false,
+    false
+  )
+  RETURNING id INTO event_channel_id;
+
+  INSERT INTO channel_members (channel_id, user_id, role)
+  VALUES (event_channel_id, evt.created_by, 'owner')
+  ON CONFLICT (channel_id, user_id) DO NOTHING;
+
+  INSERT INTO channel_members (channel_id, user_id, role)
+  SELECT event_channel_id, ec.user_id, 'admin'
+  FROM event_cohosts ec
+  WHERE ec.event_id = p_event_id
+  ON CONFLICT (channel_id, user_id) DO NOTHING;
+
+  RETURN event_channel_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- AUDIENCE
+-- ============================================================================
+
+-- Resolves segments to users. Someone in more than one segment (e.g. invited and
+-- going) appears once, under the first match in the order going, maybe,
+-- waitlisted, invited.
+CREATE OR REPLACE FUNCTION event_announcement_audience(p_event_id UUID, p_segments TEXT[])
+RETURNS TABLE (user_id UUID, segment TEXT) AS $$
+BEGIN
+  IF NOT (is_event_creator(p_event_id, auth.uid()) OR is_event_cohost(p_event_id, auth.uid())) THEN
+    RAISE EXCEPTION 'Only hosts can send announcements';
+  END IF;
+
+  RETURN QUERY
+  SELECT DISTINCT ON (recipient.user_id) recipient.user_id, recipient.segment
+  FROM (
+    SELECT r.user_id, r.status::TEXT AS segment, CASE r.status WHEN 'going' THEN 1 ELSE 2 END AS priority
+    FROM event_rsvps r
+    WHERE r.event_id = p_event_id
+    AND r.status IN ('going', 'maybe')
+    AND r.status = ANY(p_segments)
+
+    UNION ALL
+
+    SELECT w.user_id, 'waitlisted', 3
+    FROM event_waitlist w
+    WHERE w.event_id = p_event_id
+    AND w.confirmed_at IS NULL
+    AND 'waitlisted' = ANY(p_segments)
+
+    UNION ALL
+
+    SELECT i.user_id, 'invited', 4
+    FROM event_invitations i
+    WHERE i.event_id = p_event_id
+    AND i.user_id IS NOT NULL
+    AND 'invited' = ANY(p_segments)
+    AND NOT EXISTS (
+      SELECT 1 FROM event_rsvps r
+      WHERE r.event_id = p_event_id AND r.user_id = i.user_id
+    )
+  ) recipient
+  WHERE recipient.user_id <> auth.uid()
+  ORDER BY recipient.user_id, recipient.priority;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- How many people each segment would reach, for the compose form
+CREATE OR REPLACE FUNCTION get_event_announcement_audience_counts(p_event_id UUID)
+RETURNS TABLE (segment TEXT, recipient_count BIGINT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT a.segment, COUNT(*)
+  FROM event_announcement_audience(p_event_id, ARRAY['going', 'maybe', 'waitlisted', 'invited']) a
+  GROUP BY a.segment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- SEND ANNOUNCEMENT
+-- ============================================================================
+
+-- Posts the system message, adds recipients to the channel and records delivery
+CREATE OR REPLACE FUNCTION send_event_announcement(
+  p_event_id UUID,
+  p_content TEXT,
+  p_segments TEXT[]
+)
+RETURNS UUID AS $$
+DECLARE
+  evt RECORD;
+  event_channel_id UUID;
+  new_message_id UUID;
+  new_announcement_id UUID;
+BEGIN
+  IF NOT (is_event_creator(p_event_id, auth.uid()) OR is_event_cohost(p_event_id, auth.uid())) THEN
+    RAISE EXCEPTION 'Only hosts can send announcements';
+  END IF;
+
+  IF p_content IS NULL OR btrim(p_content) = '' THEN
+    RAISE EXCEPTION 'Announcement cannot be empty';
+  END IF;
+
+  SELECT id, title INTO evt FROM events WHERE id = p_event_id;
+
+  event_channel_id := get_or_create_event_channel(p_event_id);
+
+  INSERT INTO channel_messages (channel_id, user_id, content, message_type)
+  VALUES (event_channel_id, auth.uid(), btrim(p_content), 'system')
+  RETURNING id INTO new_message_id;
+
+  INSERT INTO event_announcements (event_id, channel_id, message_id, content, segments, created_by)
+  VALUES (p_event_id, event_channel_id, new_message_id, btrim(p_content), p_segments, auth.uid())
+  RETURNING id INTO new_announcement_id;
+
+  INSERT INTO event_announcement_recipients (announcement_id, user_id, segment)
+  SELECT new_announcement_id, a.user_id, a.segment
+  FROM event_announcement_audience(p_event_id, p_segments) a;
+
+  -- Recipients need channel membership to read the message
+  INSERT INTO channel_members (channel_id, user_id, role)
+  SELECT event_channel_id, r.user_id, 'member'
+  FROM event_announcement_recipients r
+  WHERE r.announcement_id = new_announcement_id
+  ON CONFLICT (channel_id, user_id) DO NOTHING;
+
+  INSERT INTO notifications (user_id, type, title, message, event_id)
+  SELECT
+    r.user_id,
+    'event_announcement',
+    'Announcement: ' || evt.title,
+    left(btrim(p_content), 280),
+    p_event_id
+  FROM event_announcement_recipients r
+  WHERE r.announcement_id = new_announcement_id;
+
+  RETURN new_announcement_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- SEEN TRACKING
+-- ============================================================================
+
+-- Marks the caller's copies of the given announcements as seen
+CREATE OR REPLACE FUNCTION mark_event_announcements_seen(p_announcement_ids UUID[])
+RETURNS void AS $$
+BEGIN
+  UPDATE event_announcement_recipients
+  SET seen_at = NOW()
+  WHERE user_id = auth.uid()
+  AND announcement_id = ANY(p_announcement_ids)
+  AND seen_at IS NULL;
+
+  UPDATE notifications n
+  SET read_at = NOW()
+  FROM event_announcements a
+  WHERE a.id = ANY(p_announcement_ids)
+  AND n.user_id = auth.uid()
+  AND n.event_id = a.event_id
+  AND n.type = 'event_announcement'
+  AND n.read_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same, for a system message seen in the chat
+CREATE OR REPLACE FUNCTION mark_announcement_message_seen(p_message_id UUID)
+RETURNS void AS $$
+DECLARE
+  ids UUID[];
+BEGIN
+  SELECT array_agg(id) INTO ids FROM event_announcements WHERE message_id = p_message_id;
+  IF ids IS NOT NULL THEN
+    PERFORM mark_event_announcements_seen(ids);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- SYSTEM MESSAGES
+-- ============================================================================
+
+-- System messages render as host announcements, so only send_event_announcement
+-- (which bypasses RLS) may write them. The chat policies are the originals from
+-- 20240110000004 with the message type pinned.
+DROP POLICY IF EXISTS "Users can send messages to channels they belong to" ON channel_messages;
+CREATE POLICY "Users can send messages to channels they belong to" ON channel_messages
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    message_type <> 'system' AND
+    channel_id IN (
+      SELECT id FROM channels 
+      WHERE type = 'public' AND is_read_only = false AND is_archived = false
+      UNION
+      SELECT channel_id FROM channel_members 
+      WHERE user_id = auth.uid() 
+      AND is_banned = false
+      AND channel_id IN (SELECT id FROM channels WHERE is_read_only = false AND is_archived = false)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can edit their own messages" ON channel_messages;
+CREATE POLICY "Users can edit their own messages" ON channel_messages
+  FOR UPDATE USING (
+    auth.uid() = user_id AND 
+    deleted_at IS NULL AND
+    created_at > NOW() - INTERVAL '15 minutes' -- 15 minute edit window
+  )
+  WITH CHECK (
+    auth.uid() = user_id AND
+    message_type <> 'system'
+  );
+
+-- Only reached through send_event_announcement, which checks the caller is a host
+REVOKE EXECUTE ON FUNCTION get_or_create_event_channel(UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE event_announcements IS 'Host announcements sent to RSVP segments of an event';
+COMMENT ON TABLE event_announcement_recipients IS 'Who each announcement was delivered to and when they saw it';
+COMMENT ON COLUMN event_announcements.segments IS 'RSVP segments targeted: going, maybe, waitlisted, invited';
+COMMENT ON COLUMN event_announcement_recipients.segment IS 'Segment the recipient was reached through';
+COMMENT ON FUNCTION send_event_announcement IS 'Posts an announcement to the event channel and delivers it to the chosen segments';
@@ -0,0 +1,286 @@
+-- Migration: Event Status Lifecycle
+-- Runs event status transitions on a schedule instead of leaving them to the UI.
+-- - auto_update_event_status() now also handles 'pending' events, reopens RSVPs
+--   when a deadline is pushed back, and returns how many events changed
+-- - RSVPs close at rsvp_deadline: new "going"/"maybe" RSVPs are rejected, but
+--   people can still drop out
+-- - Every status change is recorded in event_status_changes and attendees/hosts
+--   are notified of the ones that matter to them
+-- Schedule it with pg_cron (see bottom) or call /api/cron/event-status from a cron.
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS rsvps_closed_at TIMESTAMPTZ;
+
+-- ============================================================================
+-- STATUS CHANGE LOG
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS event_status_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  from_status VARCHAR(20),
+  to_status VARCHAR(20) NOT NULL,
+  reason VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (reason IN ('manual', 'schedule', 'rsvp_deadline')),
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_status_changes_event ON event_status_changes(event_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_event_status_changes_created ON event_status_changes(created_at DESC);
+
+ALTER TABLE event_status_changes ENABLE ROW LEVEL SECURITY;
+
+-- Visible to anyone who can see the event (the events policies apply to the subquery)
+DROP POLICY IF EXISTS "Users can view status changes of visible events" ON event_status_changes;
+CREATE POLICY "Users can view status changes of visible events"
+  ON event_status_changes FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM events WHERE events.id = event_status_changes.event_id)
+  );
+
+-- Records a status change and notifies the people it affects. The scheduled job
+-- sets app.event_status_reason so automatic changes are told apart from hosts'.
+CREATE OR REPLACE FUNCTION log_event_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  change_reason VARCHAR(20);
+BEGIN
+  change_reason := COALESCE(NULLIF(current_setting('app.event_status_reason', true), ''), 'manual');
+
+  INSERT INTO event_status_changes (event_id, from_status, to_status, reason, changed_by)
+  VALUES (NEW.id, OLD.status, NEW.status, change_reason, auth.uid());
+
+  IF NEW.status = 'live' THEN
+    INSERT INTO notifications (user_id, type, title, message, event_id)
+    SELECT r.user_id, 'event_live', NEW.title || ' is starting', 'The event you''re going to has started.', NEW.id
+    FROM event_rsvps r
+    WHERE r.event_id = NEW.id AND r.status = 'going';
+
+  ELSIF NEW.status IN ('cancelled', 'postponed') THEN
+    INSERT INTO notifications (user_id, type, title, message, event_id)
+    SELECT
+      r.user_id,
+      'event_' || NEW.status,
+      NEW.title || ' was ' || NEW.status,
+      'The hosts have ' || NEW.status || ' this event.',
+      NEW.id
+    FROM event_rsvps r
+    WHERE r.event_id = NEW.id
+    AND r.status IN ('going', 'maybe')
+    AND r.user_id IS DISTINCT FROM auth.uid();
+
+  ELSIF NEW.status = 'pending' AND change_reason = 'rsvp_deadline' THEN
+    INSERT INTO notifications (user_id, type, title, message, event_id)
+    SELECT
+      host.user_id,
+      'event_rsvps_closed',
+      'RSVPs closed for ' || NEW.title,
+      COALESCE(NEW.rsvp_count, 0) || ' going',
+      NEW.id
+    FROM (
+      SELECT NEW.created_by AS user_id
+      UNION
+      SELECT ec.user_id FROM event_cohosts ec WHERE ec.event_id = NEW.id
+    ) host;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_log_event_status_change ON events;
+CREATE TRIGGER trigger_log_event_status_change
+  AFTER UPDATE OF status ON events
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION log_event_status_change();
+
+-- ============================================================================
+-- STATUS TRANSITIONS
+-- ============================================================================
+
+-- Replaces the original, which returned void and never moved 'pending' events on
+DROP FUNCTION IF EXISTS auto_update_event_status();
+
+CREATE OR REPLACE FUNCTION auto_update_event_status()
+RETURNS INTEGER AS $$
+DECLARE
+  changed INTEGER := 0;
+  step_count INTEGER;
+BEGIN
+  PERFORM set_config('app.event_status_reason', 'schedule', true);
+
+  -- Ended: past end_time, or 4 hours after the start when there's no end_time
+  UPDATE events SET
+    status = 'completed',
+    status_updated_at = NOW(),
+    status_updated_by = NULL
+  WHERE status IN ('scheduled', 'active', 'pending', 'live')
+    AND (
+      (end_time IS NOT NULL AND end_time < NOW()) OR
+      (end_time IS NULL AND date < NOW() - INTERVAL '4 hours')
+    );
+  GET DIAGNOSTICS step_count = ROW_COUNT;
+  changed := changed + step_count;
+
+  -- Happening now
+  UPDATE events SET
+    status = 'live',
+    status_updated_at = NOW(),
+    status_updated_by = NULL
+  WHERE status IN ('scheduled', 'active', 'pending')
+    AND date <= NOW()
+    AND (end_time IS NULL OR end_time > NOW());
+  GET DIAGNOSTICS step_count = ROW_COUNT;
+  changed := changed + step_count;
+
+  PERFORM set_config('app.event_status_reason', 'rsvp_deadline', true);
+
+  -- RSVP deadline passed before the event started: close RSVPs
+  UPDATE events SET
+    status = 'pending',
+    rsvps_closed_at = NOW(),
+    status_updated_at = NOW(),
+    status_updated_by = NULL
+  WHERE status IN ('scheduled', 'active')
+    AND published = true
+    AND date > NOW()
+    AND rsvp_deadline IS NOT NULL
+    AND rsvp_deadline <= NOW();
+  GET DIAGNOSTICS step_count = ROW_COUNT;
+  changed := changed + step_count;
+
+  -- Deadline was pushed back or removed after RSVPs closed: reopen them
+  UPDATE events SET
+    status = 'active',
+    rsvps_closed_at = NULL,
+    status_updated_at = NOW(),
+    status_updated_by = NULL
+  WHERE status = 'pending'
+    AND published = true
+    AND date > NOW()
+    AND (rsvp_deadline IS NULL OR rsvp_deadline > NOW());
+  GET DIAGNOSTICS step_count = ROW_COUNT;
+  changed := changed + step_count;
+
+  PERFORM set_config('app.event_status_reason', 'schedule', true);
+
+  -- Published and taking RSVPs
+  UPDATE events SET
+    status = 'active',
+    status_updated_at = NOW(),
+    status_updated_by = NULL
+  WHERE status = 'scheduled'
+    AND published = true
+    AND date > NOW()
+    AND (rsvp_deadline IS NULL OR rsvp_deadline > NOW());
+  GET DIAGNOSTICS step_count = ROW_COUNT;
+  changed := changed + step_count;
+
+  PERFORM set_config('app.event_status_reason', '', true);
+
+  RETURN changed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- PUBLISHING
+-- ============================================================================
+
+-- Events are created with the column default 'draft', which the transitions above
+-- never pick up. Publishing moves them to 'scheduled' so the job takes over.
+CREATE OR REPLACE FUNCTION schedule_published_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.published = true AND NEW.status = 'draft' THEN
+    NEW.status := 'scheduled';
+    NEW.status_updated_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_schedule_published_event ON events;
+CREATE TRIGGER trigger_schedule_published_event
+  BEFORE INSERT OR UPDATE OF published, status ON events
+  FOR EACH ROW EXECUTE FUNCTION schedule_published_event();
+
+-- Events already published with the default
+UPDATE events
+SET status = 'scheduled',
+    status_updated_at = NOW()
+WHERE published = true AND status = 'draft';
+
+-- ============================================================================
+-- RSVP WINDOW
+-- ============================================================================
+
+-- Rejects new "going"/"maybe" RSVPs once RSVPs have closed. Dropping out is always
+-- allowed, as are hosts, system jobs (no auth.uid()) and people claiming a spot
+-- held for them on the waitlist. promote_from_waitlist stops promoting once RSVPs
+-- close, so a drop-out never reaches this check through the waitlist.
+CREATE OR REPLACE FUNCTION enforce_rsvp_window()
+RETURNS TRIGGER AS $$
+DECLARE
+  evt RECORD;
+BEGIN
+  IF NEW.status = 'not_going' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (OLD.status = NEW.status OR OLD.status = 'going') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT status, rsvp_deadline INTO evt FROM events WHERE id = NEW.event_id;
+
+  IF NOT (
+    evt.status IN ('pending', 'completed', 'cancelled') OR
+    (evt.rsvp_deadline IS NOT NULL AND evt.rsvp_deadline <= NOW())
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NULL OR
+     is_event_creator(NEW.event_id, auth.uid()) OR
+     is_event_cohost(NEW.event_id, auth.uid()) OR
+     EXISTS (
+       SELECT 1 FROM event_waitlist w
+       WHERE w.event_id = NEW.event_id
+       AND w.user_id = NEW.user_id
+       AND w.offer_expires_at > NOW()
+     ) THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'RSVPs are closed for this event';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_enforce_rsvp_window ON event_rsvps;
+CREATE TRIGGER trigger_enforce_rsvp_window
+  BEFORE INSERT OR UPDATE OF status ON event_rsvps
+  FOR EACH ROW EXECUTE FUNCTION enforce_rsvp_window();
+
+-- Events whose deadline already passed
+UPDATE events
+SET rsvps_closed_at = rsvp_deadline
+WHERE rsvps_closed_at IS NULL
+  AND rsvp_deadline IS NOT NULL
+  AND rsvp_deadline <= NOW();
+
+-- Run by the scheduler with the service role, not by clients
+REVOKE EXECUTE ON FUNCTION auto_update_event_status() FROM PUBLIC, anon, authenticated;
+
+-- Schedule with pg_cron (or call /api/cron/event-status from any cron):
+-- SELECT cron.schedule('auto-update-event-status', '*/15 * * * *', 'SELECT auto_update_event_status();');
+
+COMMENT ON TABLE event_status_changes IS 'History of event status transitions, automatic and manual';
+COMMENT ON COLUMN event_status_changes.reason IS 'manual (host), schedule (start/end times) or rsvp_deadline';
+COMMENT ON COLUMN event_status_changes.changed_by IS 'User who changed the status; NULL for the scheduled job';
+COMMENT ON COLUMN events.rsvps_closed_at IS 'When RSVPs closed at the rsvp_deadline; NULL while RSVPs are open';
+COMMENT ON FUNCTION auto_update_event_status IS 'Runs scheduled status transitions and returns the number of events changed';
@@ -0,0 +1,93 @@
+-- Migration: Event Templates
+-- Saved event setups ("monthly potluck") that pre-fill the create-event form.
+-- A template belongs to its creator, and can optionally be shared with a section
+-- so every approved member can start from it.
+-- The template body is stored as JSON (see EventTemplateData in
+-- src/lib/eventTemplates.ts): description, location, tags, co-hosts, capacity,
+-- RSVP questions, group name, visibility.
+
+-- ============================================================================
+-- EVENT TEMPLATES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS event_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) > 0),
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  section_id UUID REFERENCES sections(id) ON DELETE CASCADE,
+  data JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_templates_created_by ON event_templates(created_by);
+CREATE INDEX IF NOT EXISTS idx_event_templates_section ON event_templates(section_id);
+
+ALTER TABLE event_templates ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can view their own and their sections' templates" ON event_templates;
+CREATE POLICY "Users can view their own and their sections' templates"
+  ON event_templates FOR SELECT
+  USING (
+    auth.uid() = created_by OR
+    (section_id IS NOT NULL AND is_section_member(section_id, auth.uid()))
+  );
+
+-- Anyone can save a personal template; sharing with a section requires membership
+DROP POLICY IF EXISTS "Users can create templates" ON event_templates;
+CREATE POLICY "Users can create templates"
+  ON event_templates FOR INSERT
+  WITH CHECK (
+    auth.uid() = created_by AND
+    (section_id IS NULL OR is_section_member(section_id, auth.uid()))
+  );
+
+-- As with creating, moving a template into a section requires membership
+DROP POLICY IF EXISTS "Creators and section admins can update templates" ON event_templates;
+CREATE POLICY "Creators and section admins can update templates"
+  ON event_templates FOR UPDATE
+  USING (
+    auth.uid() = created_by OR
+    (section_id IS NOT NULL AND is_section_admin(section_id, auth.uid()))
+  )
+  WITH CHECK (
+    (
+      auth.uid() = created_by OR
+      (section_id IS NOT NULL AND is_section_admin(section_id, auth.uid()))
+    ) AND
+    (section_id IS NULL OR is_section_member(section_id, auth.uid()))
+  );
+
+DROP POLICY IF EXISTS "Creators and section admins can delete templates" ON event_templates;
+CREATE POLICY "Creators and section admins can delete templates"
+  ON event_templates FOR DELETE
+  USING (
+    auth.uid() = created_by OR
+    (section_id IS NOT NULL AND is_section_admin(section_id, auth.uid()))
+  );
+
+-- ============================================================================
+-- TIMESTAMPS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION update_event_templates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_event_templates_updated_at ON event_templates;
+CREATE TRIGGER update_event_templates_updated_at
+  BEFORE UPDATE ON event_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_event_templates_updated_at();
+
+COMMENT ON TABLE event_templates IS 'Saved event setups that pre-fill the create-event form';
+COMMENT ON COLUMN event_templates.section_id IS 'Section the template is shared with; NULL for a personal template';
+COMMENT ON COLUMN event_templates.data IS 'Template body: description, location, tags, co_hosts, capacity, rsvp_questions, group_name, ...';
@@ -0,0 +1,29 @@
+-- Migration: Event Geolocation
+-- Stores structured place data next to the free-text events.location so events
+-- can be shown on a map and filtered by distance from the viewer.
+-- Coordinates come from the Places autocomplete in the create/edit forms, or from
+-- the geocoding provider behind /api/geocode for locations typed by hand.
+
+-- ============================================================================
+-- PLACE COLUMNS
+-- ============================================================================
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS location_lat DOUBLE PRECISION;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS location_lng DOUBLE PRECISION;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS location_place_id TEXT;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS location_address TEXT;
+
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_location_coordinates_check;
+ALTER TABLE events ADD CONSTRAINT events_location_coordinates_check CHECK (
+  (location_lat IS NULL AND location_lng IS NULL) OR
+  (location_lat BETWEEN -90 AND 90 AND location_lng BETWEEN -180 AND 180)
+);
+
+CREATE INDEX IF NOT EXISTS idx_events_location_coordinates
+  ON events(location_lat, location_lng)
+  WHERE location_lat IS NOT NULL;
+
+COMMENT ON COLUMN events.location_lat IS 'Latitude of the event location (NULL when not geocoded or virtual)';
+COMMENT ON COLUMN events.location_lng IS 'Longitude of the event location (NULL when not geocoded or virtual)';
+COMMENT ON COLUMN events.location_place_id IS 'Place id from the geocoding provider (Google place_id, or stub:<hash> in development)';
+COMMENT ON COLUMN events.location_address IS 'Formatted address returned by the geocoding provider';
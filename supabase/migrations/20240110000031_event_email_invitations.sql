@@ -0,0 +1,81 @@
+-- Migration: Email Invitations
+-- Invitations to people who don't have an account yet are stored with just an
+-- email (see 20240110000008_private_events.sql). Hosts can now email them a signed
+-- invite link (built and verified in src/lib/eventInvitesServer.ts), and the
+-- invitation is claimed - user_id filled in, so the private event becomes
+-- visible - when that person signs up:
+--   - automatically, once they confirm an email address that matches the invite
+--   - or through the link itself (/api/invitations/claim), whatever email they use
+
+-- ============================================================================
+-- INVITATION COLUMNS
+-- ============================================================================
+
+ALTER TABLE event_invitations ADD COLUMN IF NOT EXISTS email_sent_at TIMESTAMPTZ;
+ALTER TABLE event_invitations ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+ALTER TABLE event_invitations ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+
+-- Hosts can record that the email went out (the send API uses the service role,
+-- but this keeps manual re-sends from the dashboard working too)
+DROP POLICY IF EXISTS "Event hosts can update invitations" ON event_invitations;
+CREATE POLICY "Event hosts can update invitations"
+  ON event_invitations
+  FOR UPDATE
+  USING (is_event_host_or_cohost_for_invitations(event_id, auth.uid()))
+  WITH CHECK (is_event_host_or_cohost_for_invitations(event_id, auth.uid()));
+
+COMMENT ON COLUMN event_invitations.email_sent_at IS 'When the invite link was last emailed';
+COMMENT ON COLUMN event_invitations.expires_at IS 'When the emailed invite link stops working';
+COMMENT ON COLUMN event_invitations.claimed_at IS 'When an email-only invitation was linked to a new account';
+
+-- ============================================================================
+-- CLAIMING
+-- ============================================================================
+
+-- Link unclaimed, unexpired email invitations to a user. Skips events the user
+-- already has an invitation for (event_id, user_id is unique).
+CREATE OR REPLACE FUNCTION claim_event_invitations_for_email(p_user_id UUID, p_email TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF p_user_id IS NULL OR p_email IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE event_invitations ei
+  SET user_id = p_user_id,
+      claimed_at = NOW()
+  WHERE ei.user_id IS NULL
+    AND lower(ei.email) = lower(p_email)
+    AND (ei.expires_at IS NULL OR ei.expires_at > NOW())
+    AND NOT EXISTS (
+      SELECT 1 FROM event_invitations other
+      WHERE other.event_id = ei.event_id AND other.user_id = p_user_id
+    );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only a confirmed address proves the new account owns the invited email
+CREATE OR REPLACE FUNCTION claim_event_invitations_on_confirm()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.email_confirmed_at IS NOT NULL AND
+     (TG_OP = 'INSERT' OR OLD.email_confirmed_at IS NULL) THEN
+    PERFORM claim_event_invitations_for_email(NEW.id, NEW.email);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_auth_user_claim_invitations ON auth.users;
+CREATE TRIGGER on_auth_user_claim_invitations
+  AFTER INSERT OR UPDATE OF email_confirmed_at ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION claim_event_invitations_on_confirm();
+
+-- Not callable from the client: the trigger and the claim API are the only entry points
+REVOKE EXECUTE ON FUNCTION claim_event_invitations_for_email(UUID, TEXT) FROM PUBLIC, anon, authenticated;
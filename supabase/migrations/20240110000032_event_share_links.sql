@@ -0,0 +1,173 @@
+-- Migration: Event Share Links
+-- "Anyone with the link" access to private events. Hosts create secret links
+-- (optionally expiring) to drop in an outside group chat; anyone who opens
+-- /events/<id>?share=<token> while signed in joins through the link and can see
+-- the event. Revoking a link (or letting it expire) removes access for people who
+-- joined through it, unless they've been invited some other way or already RSVP'd.
+
+-- ============================================================================
+-- SHARE LINKS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS event_share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  -- 64 hex chars, unguessable
+  token TEXT NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  label TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+
+  UNIQUE(token)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_share_links_event_id ON event_share_links(event_id);
+CREATE INDEX IF NOT EXISTS idx_event_share_links_token ON event_share_links(token);
+
+-- ============================================================================
+-- SHARE LINK JOINS TABLE
+-- ============================================================================
+-- Who opened which link. Rows are only written by join_event_share_link().
+
+CREATE TABLE IF NOT EXISTS event_share_link_joins (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  link_id UUID NOT NULL REFERENCES event_share_links(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE(link_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_share_link_joins_user_id ON event_share_link_joins(user_id);
+CREATE INDEX IF NOT EXISTS idx_event_share_link_joins_event_id ON event_share_link_joins(event_id);
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE event_share_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_share_link_joins ENABLE ROW LEVEL SECURITY;
+
+-- Only hosts and co-hosts see tokens; guests resolve them through join_event_share_link()
+DROP POLICY IF EXISTS "Event hosts can view share links" ON event_share_links;
+CREATE POLICY "Event hosts can view share links"
+  ON event_share_links FOR SELECT
+  USING (is_event_host_or_cohost_for_invitations(event_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Event hosts can create share links" ON event_share_links;
+CREATE POLICY "Event hosts can create share links"
+  ON event_share_links FOR INSERT
+  WITH CHECK (
+    auth.uid() = created_by AND
+    is_event_host_or_cohost_for_invitations(event_id, auth.uid())
+  );
+
+-- Revoking sets revoked_at rather than deleting, so the join history is kept
+DROP POLICY IF EXISTS "Event hosts can update share links" ON event_share_links;
+CREATE POLICY "Event hosts can update share links"
+  ON event_share_links FOR UPDATE
+  USING (is_event_host_or_cohost_for_invitations(event_id, auth.uid()))
+  WITH CHECK (is_event_host_or_cohost_for_invitations(event_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Event hosts can delete share links" ON event_share_links;
+CREATE POLICY "Event hosts can delete share links"
+  ON event_share_links FOR DELETE
+  USING (is_event_host_or_cohost_for_invitations(event_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Users and hosts can view share link joins" ON event_share_link_joins;
+CREATE POLICY "Users and hosts can view share link joins"
+  ON event_share_link_joins FOR SELECT
+  USING (
+    auth.uid() = user_id OR
+    is_event_host_or_cohost_for_invitations(event_id, auth.uid())
+  );
+
+COMMENT ON TABLE event_share_links IS 'Revocable "anyone with the link" tokens for private events';
+COMMENT ON COLUMN event_share_links.token IS 'Credential embedded in the share URL (?share=<token>)';
+COMMENT ON COLUMN event_share_links.revoked_at IS 'When the host turned the link off; NULL while active';
+COMMENT ON TABLE event_share_link_joins IS 'Users who gained access to a private event through a share link';
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Join a private event through a share link as the current user. Returns the
+-- event id, or NULL when the link doesn't exist, was revoked or has expired.
+CREATE OR REPLACE FUNCTION join_event_share_link(p_token TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_link event_share_links%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR p_token IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_link
+  FROM event_share_links
+  WHERE token = p_token
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > NOW());
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO event_share_link_joins (link_id, event_id, user_id)
+  VALUES (v_link.id, v_link.event_id, auth.uid())
+  ON CONFLICT (link_id, user_id) DO NOTHING;
+
+  RETURN v_link.event_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Events the current user can see through a share link that is still active
+CREATE OR REPLACE FUNCTION get_my_share_link_event_ids()
+RETURNS SETOF UUID AS $$
+  SELECT DISTINCT j.event_id
+  FROM event_share_link_joins j
+  JOIN event_share_links l ON l.id = j.link_id
+  WHERE j.user_id = auth.uid()
+    AND l.revoked_at IS NULL
+    AND (l.expires_at IS NULL OR l.expires_at > NOW());
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Whether the current user may see a private event: hosts, and once it's published,
+-- invited users, members of invited sections, people who already RSVP'd, and
+-- active share link joins
+CREATE OR REPLACE FUNCTION can_view_private_event(p_event_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  IF is_event_host_or_cohost_for_invitations(p_event_id, v_user_id) THEN
+    RETURN TRUE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM events WHERE id = p_event_id AND published = true) THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN
+    EXISTS (
+      SELECT 1 FROM event_invitations
+      WHERE event_id = p_event_id AND user_id = v_user_id
+    )
+    OR EXISTS (
+      SELECT 1 FROM event_rsvps
+      WHERE event_id = p_event_id AND user_id = v_user_id
+    )
+    OR EXISTS (
+      SELECT 1 FROM event_section_invites esi
+      WHERE esi.event_id = p_event_id
+        AND is_section_member(esi.section_id, v_user_id)
+    )
+    OR p_event_id IN (SELECT get_my_share_link_event_ids());
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
@@ -0,0 +1,265 @@
+-- Migration: Event Feedback Surveys
+-- Once an event is completed (see 20240110000028_event_status_lifecycle.sql),
+-- the people who went get a short survey: a 1-5 star rating, what went well, and
+-- any questions the hosts added. Hosts see the results on the event; ratings roll
+-- up to the host's profile as an average per group (events.group_name).
+
+-- ============================================================================
+-- SURVEY QUESTIONS TABLE
+-- ============================================================================
+-- Same field definition as event_rsvp_questions, so the FieldBuilder and
+-- FieldInput components work for both.
+
+CREATE TABLE IF NOT EXISTS event_feedback_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+
+  -- Field definition (see section_profile_fields)
+  field_name TEXT NOT NULL,
+  field_label TEXT NOT NULL,
+  field_type TEXT NOT NULL CHECK (field_type IN (
+    'text', 'textarea', 'select', 'multiselect', 'checkbox',
+    'number', 'date', 'url', 'email', 'phone'
+  )),
+  field_options JSONB DEFAULT '[]',
+  placeholder TEXT,
+  help_text TEXT,
+  default_value TEXT,
+
+  -- Validation
+  is_required BOOLEAN DEFAULT false,
+  min_length INTEGER,
+  max_length INTEGER,
+  validation_pattern TEXT,
+
+  -- Display
+  display_order INTEGER DEFAULT 0,
+  is_active BOOLEAN DEFAULT true,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  UNIQUE(event_id, field_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_feedback_questions_event ON event_feedback_questions(event_id, display_order);
+
+-- ============================================================================
+-- FEEDBACK TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS event_feedback (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  went_well TEXT,
+  -- Answers to event_feedback_questions, keyed by question id (multiselect is comma-separated).
+  -- Kept on the response row so a survey is always saved as a whole.
+  answers JSONB NOT NULL DEFAULT '{}',
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- One response per attendee; resubmitting edits it
+  UNIQUE(event_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_feedback_event ON event_feedback(event_id);
+CREATE INDEX IF NOT EXISTS idx_event_feedback_user ON event_feedback(user_id);
+
+-- ============================================================================
+-- HELPER FUNCTIONS
+-- ============================================================================
+
+-- Attendees of a completed event who aren't hosting it: people who were going or checked in
+CREATE OR REPLACE FUNCTION can_leave_event_feedback(p_event_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM events WHERE id = p_event_id AND status = 'completed'
+  )
+  AND EXISTS (
+    SELECT 1 FROM event_rsvps
+    WHERE event_id = p_event_id
+      AND user_id = p_user_id
+      AND (status = 'going' OR attended = true)
+  )
+  AND NOT is_event_creator(p_event_id, p_user_id)
+  AND NOT is_event_cohost(p_event_id, p_user_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY POLICIES
+-- ============================================================================
+
+ALTER TABLE event_feedback_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_feedback ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view feedback questions for published events" ON event_feedback_questions;
+CREATE POLICY "Anyone can view feedback questions for published events"
+  ON event_feedback_questions FOR SELECT
+  USING (
+    is_active = true AND
+    is_event_published(event_id)
+  );
+
+DROP POLICY IF EXISTS "Hosts can view all feedback questions" ON event_feedback_questions;
+CREATE POLICY "Hosts can view all feedback questions"
+  ON event_feedback_questions FOR SELECT
+  USING (
+    is_event_creator(event_id, auth.uid()) OR
+    is_event_cohost(event_id, auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Hosts can create feedback questions" ON event_feedback_questions;
+CREATE POLICY "Hosts can create feedback questions"
+  ON event_feedback_questions FOR INSERT
+  WITH CHECK (
+    is_event_creator(event_id, auth.uid()) OR
+    is_event_cohost(event_id, auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Hosts can update feedback questions" ON event_feedback_questions;
+CREATE POLICY "Hosts can update feedback questions"
+  ON event_feedback_questions FOR UPDATE
+  USING (
+    is_event_creator(event_id, auth.uid()) OR
+    is_event_cohost(event_id, auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Hosts can delete feedback questions" ON event_feedback_questions;
+CREATE POLICY "Hosts can delete feedback questions"
+  ON event_feedback_questions FOR DELETE
+  USING (
+    is_event_creator(event_id, auth.uid()) OR
+    is_event_cohost(event_id, auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Users can view their own feedback" ON event_feedback;
+CREATE POLICY "Users can view their own feedback"
+  ON event_feedback FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Attendees can leave feedback" ON event_feedback;
+CREATE POLICY "Attendees can leave feedback"
+  ON event_feedback FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    can_leave_event_feedback(event_id, auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Attendees can update their feedback" ON event_feedback;
+CREATE POLICY "Attendees can update their feedback"
+  ON event_feedback FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND
+    can_leave_event_feedback(event_id, auth.uid())
+  );
+
+-- Responses are only visible to the event's hosts, not other guests
+DROP POLICY IF EXISTS "Hosts can view feedback for their events" ON event_feedback;
+CREATE POLICY "Hosts can view feedback for their events"
+  ON event_feedback FOR SELECT
+  USING (
+    is_event_creator(event_id, auth.uid()) OR
+    is_event_cohost(event_id, auth.uid())
+  );
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION update_event_feedback_questions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_event_feedback_questions_updated_at ON event_feedback_questions;
+CREATE TRIGGER update_event_feedback_questions_updated_at
+  BEFORE UPDATE ON event_feedback_questions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_event_feedback_questions_updated_at();
+
+CREATE OR REPLACE FUNCTION update_event_feedback_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_event_feedback_updated_at ON event_feedback;
+CREATE TRIGGER update_event_feedback_updated_at
+  BEFORE UPDATE ON event_feedback
+  FOR EACH ROW
+  EXECUTE FUNCTION update_event_feedback_updated_at();
+
+-- Ask attendees for feedback when the event is completed
+CREATE OR REPLACE FUNCTION request_event_feedback()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO notifications (user_id, type, title, message, event_id)
+  SELECT
+    r.user_id,
+    'event_feedback',
+    'How was ' || NEW.title || '?',
+    'Rate the event and let the hosts know what went well.',
+    NEW.id
+  FROM event_rsvps r
+  WHERE r.event_id = NEW.id
+    AND (r.status = 'going' OR r.attended = true)
+    AND r.user_id <> NEW.created_by
+    AND NOT EXISTS (
+      SELECT 1 FROM event_cohosts ec WHERE ec.event_id = NEW.id AND ec.user_id = r.user_id
+    );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_request_event_feedback ON events;
+CREATE TRIGGER trigger_request_event_feedback
+  AFTER UPDATE OF status ON events
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed')
+  EXECUTE FUNCTION request_event_feedback();
+
+-- ============================================================================
+-- HOST RATINGS
+-- ============================================================================
+
+-- Average rating per group for a host's published, public events. Individual
+-- responses stay visible to hosts only; this only exposes the aggregates.
+CREATE OR REPLACE FUNCTION get_host_feedback_ratings(p_host_id UUID)
+RETURNS TABLE (
+  group_name TEXT,
+  average_rating NUMERIC,
+  response_count BIGINT,
+  event_count BIGINT
+) AS $$
+  SELECT
+    NULLIF(e.group_name, '') AS group_name,
+    ROUND(AVG(f.rating)::numeric, 2) AS average_rating,
+    COUNT(f.id) AS response_count,
+    COUNT(DISTINCT e.id) AS event_count
+  FROM events e
+  JOIN event_feedback f ON f.event_id = e.id
+  WHERE e.created_by = p_host_id
+    AND e.published = true
+    AND COALESCE(e.is_private, false) = false
+  GROUP BY NULLIF(e.group_name, '')
+  ORDER BY COUNT(f.id) DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+COMMENT ON TABLE event_feedback_questions IS 'Host-defined questions added to the post-event feedback survey';
+COMMENT ON TABLE event_feedback IS 'Post-event survey responses from attendees, visible to the attendee and event hosts';
+COMMENT ON FUNCTION get_host_feedback_ratings(UUID) IS 'Average feedback rating per group_name for a host''s public events';
@@ -0,0 +1,199 @@
+-- Migration: Event Photo Albums
+-- Once an event is live or completed, the people who went can add photos to its
+-- album. Hosts and co-hosts approve or reject them; approved photos show on the
+-- event page and, for public events, in the gallery (pages/gallery.tsx).
+-- Files live in the event-photos storage bucket under <event_id>/<user_id>/.
+
+-- ============================================================================
+-- PHOTOS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS event_photos (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  uploaded_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Object path in the event-photos bucket, and its public URL
+  storage_path TEXT NOT NULL,
+  url TEXT NOT NULL,
+  caption TEXT CHECK (caption IS NULL OR char_length(caption) <= 500),
+
+  -- Moderation
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(storage_path)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_photos_event ON event_photos(event_id, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_event_photos_uploaded_by ON event_photos(uploaded_by);
+CREATE INDEX IF NOT EXISTS idx_event_photos_approved ON event_photos(created_at DESC) WHERE status = 'approved';
+
+-- ============================================================================
+-- HELPER FUNCTIONS
+-- ============================================================================
+
+-- Hosts, plus attendees (going or checked in), once the event is live or completed
+CREATE OR REPLACE FUNCTION can_add_event_photo(p_event_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM events WHERE id = p_event_id AND status IN ('live', 'completed')
+  ) THEN
+    RETURN false;
+  END IF;
+
+  RETURN is_event_creator(p_event_id, p_user_id)
+    OR is_event_cohost(p_event_id, p_user_id)
+    OR EXISTS (
+      SELECT 1 FROM event_rsvps
+      WHERE event_id = p_event_id
+        AND user_id = p_user_id
+        AND (status = 'going' OR attended = true)
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY POLICIES
+-- ============================================================================
+
+ALTER TABLE event_photos ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view approved photos of visible events" ON event_photos;
+CREATE POLICY "Users can view approved photos of visible events"
+  ON event_photos FOR SELECT
+  USING (
+    status = 'approved' AND
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = event_photos.event_id
+        AND events.published = true
+        AND (COALESCE(events.is_private, false) = false OR can_view_private_event(events.id))
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view their own photos" ON event_photos;
+CREATE POLICY "Users can view their own photos"
+  ON event_photos FOR SELECT
+  USING (auth.uid() = uploaded_by);
+
+DROP POLICY IF EXISTS "Hosts can view all photos" ON event_photos;
+CREATE POLICY "Hosts can view all photos"
+  ON event_photos FOR SELECT
+  USING (
+    is_event_creator(event_id, auth.uid()) OR
+    is_event_cohost(event_id, auth.uid())
+  );
+
+-- Guests' photos wait for a host; hosts' own uploads can go straight in. The file
+-- has to be the uploader's own, in this event's folder, and url its public URL
+-- (the app builds image URLs from storage_path, so a foreign host does nothing).
+DROP POLICY IF EXISTS "Attendees can add photos" ON event_photos;
+CREATE POLICY "Attendees can add photos"
+  ON event_photos FOR INSERT
+  WITH CHECK (
+    auth.uid() = uploaded_by AND
+    storage_path LIKE event_id::text || '/' || auth.uid()::text || '/%' AND
+    storage_path NOT LIKE '%..%' AND
+    right(url, char_length('/storage/v1/object/public/event-photos/' || storage_path))
+      = '/storage/v1/object/public/event-photos/' || storage_path AND
+    can_add_event_photo(event_id, auth.uid()) AND
+    (
+      status = 'pending' OR
+      is_event_creator(event_id, auth.uid()) OR
+      is_event_cohost(event_id, auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Hosts can moderate photos" ON event_photos;
+CREATE POLICY "Hosts can moderate photos"
+  ON event_photos FOR UPDATE
+  USING (
+    is_event_creator(event_id, auth.uid()) OR
+    is_event_cohost(event_id, auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Uploaders and hosts can delete photos" ON event_photos;
+CREATE POLICY "Uploaders and hosts can delete photos"
+  ON event_photos FOR DELETE
+  USING (
+    auth.uid() = uploaded_by OR
+    is_event_creator(event_id, auth.uid()) OR
+    is_event_cohost(event_id, auth.uid())
+  );
+
+-- ============================================================================
+-- STORAGE
+-- ============================================================================
+-- Public bucket like project-images; paths are <event_id>/<user_id>/<file>.
+-- Object URLs are only handed out through event_photos, which is what RLS guards.
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('event-photos', 'event-photos', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Anyone can view event photos" ON storage.objects;
+CREATE POLICY "Anyone can view event photos" ON storage.objects
+  FOR SELECT USING (bucket_id = 'event-photos');
+
+DROP POLICY IF EXISTS "Attendees can upload event photos" ON storage.objects;
+CREATE POLICY "Attendees can upload event photos" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'event-photos' AND
+    auth.uid()::text = (storage.foldername(name))[2] AND
+    can_add_event_photo(((storage.foldername(name))[1])::uuid, auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Uploaders and hosts can delete event photos" ON storage.objects;
+CREATE POLICY "Uploaders and hosts can delete event photos" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'event-photos' AND
+    (
+      auth.uid()::text = (storage.foldername(name))[2] OR
+      is_event_creator(((storage.foldername(name))[1])::uuid, auth.uid()) OR
+      is_event_cohost(((storage.foldername(name))[1])::uuid, auth.uid())
+    )
+  );
+
+-- ============================================================================
+-- NOTIFICATIONS
+-- ============================================================================
+
+-- Let the uploader know when a host approves their photo
+CREATE OR REPLACE FUNCTION notify_event_photo_approved()
+RETURNS TRIGGER AS $$
+DECLARE
+  event_title TEXT;
+BEGIN
+  IF NEW.uploaded_by = NEW.reviewed_by THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT title INTO event_title FROM events WHERE id = NEW.event_id;
+
+  INSERT INTO notifications (user_id, type, title, message, event_id)
+  VALUES (
+    NEW.uploaded_by,
+    'event_photo_approved',
+    'Your photo is in the album',
+    'The hosts added your photo to the ' || COALESCE(event_title, 'event') || ' album.',
+    NEW.event_id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_notify_event_photo_approved ON event_photos;
+CREATE TRIGGER trigger_notify_event_photo_approved
+  AFTER UPDATE OF status ON event_photos
+  FOR EACH ROW
+  WHEN (NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved')
+  EXECUTE FUNCTION notify_event_photo_approved();
+
+COMMENT ON TABLE event_photos IS 'Attendee-contributed event album photos, moderated by hosts and co-hosts';
+COMMENT ON FUNCTION can_add_event_photo(UUID, UUID) IS 'Whether a user may add photos to an event album (hosts and attendees, once the event is live or completed)';
@@ -0,0 +1,92 @@
+-- Migration: Event Drafts
+-- Server-side autosave for the event wizard (src/lib/eventForm.ts).
+-- A new event is saved as an events row with status 'draft' and published = false
+-- from its first autosave, so a half-finished event survives a closed tab and can be
+-- picked up on another device. Wizard state that has no events column yet (co-hosts,
+-- recurrence, RSVP questions to copy) is kept alongside it in event_drafts.
+-- When editing an event that is already published, autosaves only go to event_drafts:
+-- guests keep seeing the event as it was until the host saves their changes.
+
+-- ============================================================================
+-- EVENT DRAFTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS event_drafts (
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  form_data JSONB NOT NULL DEFAULT '{}',
+  rsvp_questions JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (event_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_drafts_user ON event_drafts(user_id);
+
+-- "Continue a draft" on the create page
+CREATE INDEX IF NOT EXISTS idx_events_drafts_by_creator
+  ON events(created_by, updated_at DESC)
+  WHERE status = 'draft';
+
+ALTER TABLE event_drafts ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+-- Drafts are private to whoever is writing them
+DROP POLICY IF EXISTS "Users can view their own event drafts" ON event_drafts;
+CREATE POLICY "Users can view their own event drafts"
+  ON event_drafts FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Hosts can save event drafts" ON event_drafts;
+CREATE POLICY "Hosts can save event drafts"
+  ON event_drafts FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    (is_event_creator(event_id, auth.uid()) OR is_event_cohost(event_id, auth.uid()))
+  );
+
+DROP POLICY IF EXISTS "Users can update their own event drafts" ON event_drafts;
+CREATE POLICY "Users can update their own event drafts"
+  ON event_drafts FOR UPDATE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own event drafts" ON event_drafts;
+CREATE POLICY "Users can delete their own event drafts"
+  ON event_drafts FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- TIMESTAMPS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION update_event_drafts_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_event_drafts_updated_at ON event_drafts;
+CREATE TRIGGER update_event_drafts_updated_at
+  BEFORE UPDATE ON event_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_event_drafts_updated_at();
+
+-- ============================================================================
+-- BACKFILL
+-- ============================================================================
+
+-- Published events left in the column default ('draft'); since
+-- 20240110000028 publishing sets 'scheduled', so this only catches stragglers
+UPDATE events
+SET status = 'scheduled',
+    status_updated_at = NOW()
+WHERE published = true AND status = 'draft';
+
+COMMENT ON TABLE event_drafts IS 'Autosaved event wizard state: the whole form for a new event, or unsaved edits to a published one';
+COMMENT ON COLUMN event_drafts.form_data IS 'EventFormData from src/lib/eventForm.ts';
+COMMENT ON COLUMN event_drafts.rsvp_questions IS 'RSVP questions to copy onto the event when it is published (from a template or duplicated event)';
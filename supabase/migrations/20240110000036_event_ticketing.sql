@@ -0,0 +1,637 @@
+-- Migration: Event Ticketing
+-- Hosts can sell tickets for an event: free, paid, pay-what-you-want (donation, with
+-- an optional minimum) and member-price tickets for members of a section. Each
+-- ticket type can have a limited quantity. An event with any ticket types is
+-- "ticketed": a "going" RSVP needs a paid order covering the person and their guests.
+--
+-- Orders are only written by the checkout API (pages/api/tickets/*) through the
+-- SECURITY DEFINER functions below, which take the payment from the configured
+-- provider (src/lib/payments.ts). The flow is:
+--   reserve_ticket_order  -> pending order, holding tickets and capacity
+--   complete_ticket_order -> paid order, "going" RSVP, off the waitlist
+--   claim_ticket_order_refund -> refunding order, so only one request refunds it
+--   refund_ticket_order   -> refunded order, RSVP dropped to "not going", which
+--                            frees the spots and promotes the waitlist
+-- Waitlist promotion on ticketed events always holds the spot (claim window)
+-- instead of auto-confirming, since the promoted person still has to pay.
+
+-- ============================================================================
+-- TICKET TYPES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS event_ticket_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  description TEXT,
+  kind VARCHAR(20) NOT NULL DEFAULT 'paid' CHECK (kind IN ('free', 'paid', 'donation', 'member')),
+
+  -- Per ticket, in the currency's minor unit. For donations this is the minimum.
+  price_cents INTEGER NOT NULL DEFAULT 0 CHECK (price_cents >= 0),
+  currency VARCHAR(3) NOT NULL DEFAULT 'usd',
+
+  -- NULL = unlimited. sold_count covers paid orders and pending checkouts.
+  quantity INTEGER CHECK (quantity IS NULL OR quantity > 0),
+  sold_count INTEGER NOT NULL DEFAULT 0,
+
+  -- Member-price tickets are for approved members of this section
+  section_id UUID REFERENCES sections(id) ON DELETE CASCADE,
+
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CHECK (kind <> 'free' OR price_cents = 0),
+  CHECK (kind NOT IN ('paid', 'member') OR price_cents > 0),
+  CHECK (kind <> 'member' OR section_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_ticket_types_event ON event_ticket_types(event_id, sort_order);
+
+-- ============================================================================
+-- ORDERS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS event_ticket_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  ticket_type_id UUID NOT NULL REFERENCES event_ticket_types(id) ON DELETE RESTRICT,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- The RSVP this order pays for, once it's paid
+  rsvp_id UUID REFERENCES event_rsvps(id) ON DELETE SET NULL,
+
+  -- Tickets: the buyer plus their guests
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  amount_cents INTEGER NOT NULL CHECK (amount_cents >= 0),
+  currency VARCHAR(3) NOT NULL DEFAULT 'usd',
+
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'paid', 'failed', 'cancelled', 'refunding', 'refunded')),
+  provider VARCHAR(50),
+  provider_payment_id TEXT,
+  provider_refund_id TEXT,
+
+  paid_at TIMESTAMPTZ,
+  refunded_at TIMESTAMPTZ,
+  refunded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_ticket_orders_event ON event_ticket_orders(event_id, status);
+CREATE INDEX IF NOT EXISTS idx_event_ticket_orders_user ON event_ticket_orders(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_event_ticket_orders_type ON event_ticket_orders(ticket_type_id);
+
+-- One live order per person per event
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_ticket_orders_active
+  ON event_ticket_orders(event_id, user_id)
+  WHERE status IN ('pending', 'paid', 'refunding');
+
+-- ============================================================================
+-- ROW LEVEL SECURITY POLICIES
+-- ============================================================================
+
+ALTER TABLE event_ticket_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_ticket_orders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view ticket types of visible events" ON event_ticket_types;
+CREATE POLICY "Users can view ticket types of visible events"
+  ON event_ticket_types FOR SELECT
+  USING (
+    is_event_creator(event_id, auth.uid()) OR
+    is_event_cohost(event_id, auth.uid()) OR
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = event_ticket_types.event_id
+        AND events.published = true
+        AND (COALESCE(events.is_private, false) = false OR can_view_private_event(events.id))
+    )
+  );
+
+DROP POLICY IF EXISTS "Hosts can add ticket types" ON event_ticket_types;
+CREATE POLICY "Hosts can add ticket types"
+  ON event_ticket_types FOR INSERT
+  WITH CHECK (
+    is_event_creator(event_id, auth.uid()) OR
+    is_event_cohost(event_id, auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Hosts can update ticket types" ON event_ticket_types;
+CREATE POLICY "Hosts can update ticket types"
+  ON event_ticket_types FOR UPDATE
+  USING (
+    is_event_creator(event_id, auth.uid()) OR
+    is_event_cohost(event_id, auth.uid())
+  );
+
+-- Types with orders can't be deleted (ON DELETE RESTRICT), only types nobody bought
+DROP POLICY IF EXISTS "Hosts can delete ticket types" ON event_ticket_types;
+CREATE POLICY "Hosts can delete ticket types"
+  ON event_ticket_types FOR DELETE
+  USING (
+    is_event_creator(event_id, auth.uid()) OR
+    is_event_cohost(event_id, auth.uid())
+  );
+
+-- Orders are written by the checkout API only; people read their own, hosts their event's
+DROP POLICY IF EXISTS "Users can view their own ticket orders" ON event_ticket_orders;
+CREATE POLICY "Users can view their own ticket orders"
+  ON event_ticket_orders FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Hosts can view ticket orders" ON event_ticket_orders;
+CREATE POLICY "Hosts can view ticket orders"
+  ON event_ticket_orders FOR SELECT
+  USING (
+    is_event_creator(event_id, auth.uid()) OR
+    is_event_cohost(event_id, auth.uid())
+  );
+
+-- ============================================================================
+-- SOLD COUNTS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION update_ticket_type_sold_count()
+RETURNS TRIGGER AS $$
+DECLARE
+  type_id UUID;
+BEGIN
+  type_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.ticket_type_id ELSE NEW.ticket_type_id END;
+
+  UPDATE event_ticket_types SET
+    sold_count = COALESCE((
+      SELECT SUM(quantity) FROM event_ticket_orders
+      WHERE ticket_type_id = type_id AND status IN ('pending', 'paid', 'refunding')
+    ), 0)
+  WHERE id = type_id;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_update_ticket_type_sold_count ON event_ticket_orders;
+CREATE TRIGGER trigger_update_ticket_type_sold_count
+  AFTER INSERT OR UPDATE OF status OR DELETE ON event_ticket_orders
+  FOR EACH ROW EXECUTE FUNCTION update_ticket_type_sold_count();
+
+-- ============================================================================
+-- TICKETED RSVPS
+-- ============================================================================
+
+-- On ticketed events, "going" needs a paid ticket covering the person and their
+-- guests. Hosts (comping someone) are exempt, and so is complete_ticket_order,
+-- which sets app.ticket_checkout for the RSVP it writes.
+CREATE OR REPLACE FUNCTION enforce_ticketed_rsvp()
+RETURNS TRIGGER AS $$
+DECLARE
+  ticket_quantity INTEGER;
+BEGIN
+  IF NEW.status <> 'going' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM event_ticket_types WHERE event_id = NEW.event_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF current_setting('app.ticket_checkout', true) = 'on' OR
+     is_event_creator(NEW.event_id, auth.uid()) OR
+     is_event_cohost(NEW.event_id, auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT quantity INTO ticket_quantity
+  FROM event_ticket_orders
+  WHERE event_id = NEW.event_id AND user_id = NEW.user_id AND status = 'paid';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Get a ticket to RSVP to this event';
+  END IF;
+
+  IF 1 + COALESCE(NEW.guest_count, 0) > ticket_quantity THEN
+    RAISE EXCEPTION 'Your ticket covers % people', ticket_quantity;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_enforce_ticketed_rsvp ON event_rsvps;
+CREATE TRIGGER trigger_enforce_ticketed_rsvp
+  BEFORE INSERT OR UPDATE OF status, guest_count ON event_rsvps
+  FOR EACH ROW EXECUTE FUNCTION enforce_ticketed_rsvp();
+
+-- ============================================================================
+-- CHECKOUT
+-- ============================================================================
+
+-- Pending checkouts that never completed stop holding tickets after this long
+CREATE OR REPLACE FUNCTION expire_pending_ticket_orders(p_event_id UUID)
+RETURNS void AS $$
+BEGIN
+  UPDATE event_ticket_orders SET
+    status = 'cancelled',
+    updated_at = NOW()
+  WHERE event_id = p_event_id
+    AND status = 'pending'
+    AND created_at < NOW() - INTERVAL '30 minutes';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Hold tickets and capacity for a checkout, returning the pending order's id.
+-- The event row is locked so concurrent checkouts can't oversell.
+CREATE OR REPLACE FUNCTION reserve_ticket_order(
+  p_event_id UUID,
+  p_ticket_type_id UUID,
+  p_user_id UUID,
+  p_quantity INTEGER,
+  p_amount_cents INTEGER DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  evt RECORD;
+  ticket RECORD;
+  has_offer BOOLEAN;
+  going_heads INTEGER;
+  held_heads INTEGER;
+  pending_heads INTEGER;
+  order_amount INTEGER;
+  new_id UUID;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Tickets can only be reserved through checkout';
+  END IF;
+
+  SELECT id, status, rsvp_deadline, max_capacity, COALESCE(max_guests_per_rsvp, 0) AS max_guests
+  INTO evt
+  FROM events
+  WHERE id = p_event_id
+  FOR UPDATE;
+
+  IF evt.id IS NULL THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  SELECT * INTO ticket
+  FROM event_ticket_types
+  WHERE id = p_ticket_type_id AND event_id = p_event_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ticket type not found';
+  END IF;
+
+  PERFORM expire_waitlist_offers(p_event_id);
+  PERFORM expire_pending_ticket_orders(p_event_id);
+
+  SELECT EXISTS (
+    SELECT 1 FROM event_waitlist
+    WHERE event_id = p_event_id AND user_id = p_user_id AND offer_expires_at > NOW()
+  ) INTO has_offer;
+
+  -- Same window as RSVPs, except for a spot held on the waitlist
+  IF NOT has_offer AND (
+    evt.status IN ('pending', 'completed', 'cancelled') OR
+    (evt.rsvp_deadline IS NOT NULL AND evt.rsvp_deadline <= NOW())
+  ) THEN
+    RAISE EXCEPTION 'Ticket sales are closed for this event';
+  END IF;
+
+  IF p_quantity < 1 OR p_quantity - 1 > evt.max_guests THEN
+    RAISE EXCEPTION 'This event allows at most % guest(s) per RSVP', evt.max_guests;
+  END IF;
+
+  IF ticket.kind = 'member' AND NOT is_section_member(ticket.section_id, p_user_id) THEN
+    RAISE EXCEPTION 'This ticket is only for section members';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM event_ticket_orders
+    WHERE event_id = p_event_id AND user_id = p_user_id AND status IN ('pending', 'paid', 'refunding')
+  ) THEN
+    RAISE EXCEPTION 'You already have a ticket for this event';
+  END IF;
+
+  IF ticket.quantity IS NOT NULL AND ticket.sold_count + p_quantity > ticket.quantity THEN
+    RAISE EXCEPTION 'Only % % ticket(s) left', GREATEST(ticket.quantity - ticket.sold_count, 0), ticket.name;
+  END IF;
+
+  -- Headcount, as in promote_from_waitlist; the buyer's own held spot is theirs to use
+  IF evt.max_capacity IS NOT NULL THEN
+    SELECT COALESCE(SUM(1 + COALESCE(guest_count, 0)), 0) INTO going_heads
+    FROM event_rsvps
+    WHERE event_id = p_event_id AND status = 'going' AND user_id <> p_user_id;
+
+    SELECT COALESCE(SUM(1 + COALESCE(guest_count, 0)), 0) INTO held_heads
+    FROM event_waitlist
+    WHERE event_id = p_event_id AND offer_expires_at IS NOT NULL AND user_id <> p_user_id;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO pending_heads
+    FROM event_ticket_orders
+    WHERE event_id = p_event_id AND status = 'pending';
+
+    IF going_heads + held_heads + pending_heads + p_quantity > evt.max_capacity THEN
+      RAISE EXCEPTION 'This event is full';
+    END IF;
+  END IF;
+
+  IF ticket.kind = 'free' THEN
+    order_amount := 0;
+  ELSIF ticket.kind = 'donation' THEN
+    order_amount := COALESCE(p_amount_cents, ticket.price_cents * p_quantity);
+    IF order_amount < ticket.price_cents * p_quantity THEN
+      RAISE EXCEPTION 'The minimum for % is % per ticket', ticket.name, ticket.price_cents;
+    END IF;
+  ELSE
+    order_amount := ticket.price_cents * p_quantity;
+  END IF;
+
+  INSERT INTO event_ticket_orders (event_id, ticket_type_id, user_id, quantity, amount_cents, currency)
+  VALUES (p_event_id, p_ticket_type_id, p_user_id, p_quantity, order_amount, ticket.currency)
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Mark a reserved order paid and RSVP its buyer (and guests) as going
+CREATE OR REPLACE FUNCTION complete_ticket_order(
+  p_order_id UUID,
+  p_provider VARCHAR DEFAULT NULL,
+  p_payment_id TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  ord RECORD;
+  new_rsvp_id UUID;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Orders can only be completed through checkout';
+  END IF;
+
+  SELECT * INTO ord FROM event_ticket_orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR ord.status <> 'pending' THEN
+    RAISE EXCEPTION 'Order is not awaiting payment';
+  END IF;
+
+  UPDATE event_ticket_orders SET
+    status = 'paid',
+    provider = p_provider,
+    provider_payment_id = p_payment_id,
+    paid_at = NOW(),
+    updated_at = NOW()
+  WHERE id = p_order_id;
+
+  PERFORM set_config('app.ticket_checkout', 'on', true);
+
+  INSERT INTO event_rsvps (event_id, user_id, status, guest_count)
+  VALUES (ord.event_id, ord.user_id, 'going', ord.quantity - 1)
+  ON CONFLICT (event_id, user_id) DO UPDATE SET
+    status = 'going',
+    guest_count = EXCLUDED.guest_count,
+    updated_at = NOW()
+  RETURNING id INTO new_rsvp_id;
+
+  PERFORM set_config('app.ticket_checkout', '', true);
+
+  UPDATE event_ticket_orders SET rsvp_id = new_rsvp_id WHERE id = p_order_id;
+
+  DELETE FROM event_waitlist
+  WHERE event_id = ord.event_id AND user_id = ord.user_id;
+
+  RETURN new_rsvp_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A checkout whose payment didn't go through releases its hold
+CREATE OR REPLACE FUNCTION fail_ticket_order(p_order_id UUID)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Orders can only be updated through checkout';
+  END IF;
+
+  UPDATE event_ticket_orders SET
+    status = 'failed',
+    updated_at = NOW()
+  WHERE id = p_order_id AND status = 'pending';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Claim a paid order for refunding before the provider is asked for the money
+-- back, so concurrent refund requests can't both refund it. Returns false when
+-- the order isn't paid (already refunded, or another request has claimed it).
+CREATE OR REPLACE FUNCTION claim_ticket_order_refund(p_order_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Orders can only be refunded through checkout';
+  END IF;
+
+  UPDATE event_ticket_orders SET
+    status = 'refunding',
+    updated_at = NOW()
+  WHERE id = p_order_id AND status = 'paid';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The provider refused the refund: the order is paid again and can be retried
+CREATE OR REPLACE FUNCTION release_ticket_order_refund(p_order_id UUID)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Orders can only be refunded through checkout';
+  END IF;
+
+  UPDATE event_ticket_orders SET
+    status = 'paid',
+    updated_at = NOW()
+  WHERE id = p_order_id AND status = 'refunding';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record a refund for an order claimed by claim_ticket_order_refund. Dropping the
+-- RSVP to "not going" frees its spots, which promotes the waitlist through
+-- trigger_promote_waitlist_on_rsvp_change.
+CREATE OR REPLACE FUNCTION refund_ticket_order(
+  p_order_id UUID,
+  p_refund_id TEXT DEFAULT NULL,
+  p_refunded_by UUID DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  ord RECORD;
+  event_title TEXT;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Orders can only be refunded through checkout';
+  END IF;
+
+  SELECT * INTO ord FROM event_ticket_orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR ord.status <> 'refunding' THEN
+    RAISE EXCEPTION 'Order is not being refunded';
+  END IF;
+
+  UPDATE event_ticket_orders SET
+    status = 'refunded',
+    provider_refund_id = p_refund_id,
+    refunded_at = NOW(),
+    refunded_by = p_refunded_by,
+    updated_at = NOW()
+  WHERE id = p_order_id;
+
+  UPDATE event_rsvps SET
+    status = 'not_going',
+    guest_count = 0,
+    updated_at = NOW()
+  WHERE event_id = ord.event_id AND user_id = ord.user_id AND status = 'going';
+
+  -- Refunds the buyer asked for don't need telling
+  IF p_refunded_by IS DISTINCT FROM ord.user_id THEN
+    SELECT title INTO event_title FROM events WHERE id = ord.event_id;
+
+    PERFORM create_notification(
+      ord.user_id,
+      'ticket_refunded',
+      'Your ticket was refunded',
+      'Your ticket for "' || event_title || '" was refunded',
+      ord.event_id
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- WAITLIST PROMOTION
+-- ============================================================================
+
+-- As in 20240110000026_rsvp_guests.sql, but ticketed events always hold the spot:
+-- the next person in line claims it by buying a ticket
+CREATE OR REPLACE FUNCTION promote_from_waitlist(p_event_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  evt RECORD;
+  next_entry RECORD;
+  is_ticketed BOOLEAN;
+  going_heads INTEGER;
+  held_heads INTEGER;
+  open_spots INTEGER;
+  promoted INTEGER := 0;
+BEGIN
+  SELECT id, title, max_capacity, waitlist_enabled, auto_confirm_waitlist,
+         COALESCE(waitlist_claim_hours, 24) AS claim_hours, date, status, rsvp_deadline
+  INTO evt
+  FROM events
+  WHERE id = p_event_id;
+
+  IF evt.id IS NULL OR evt.max_capacity IS NULL OR NOT COALESCE(evt.waitlist_enabled, false) THEN
+    RETURN 0;
+  END IF;
+
+  -- Nothing to promote into once the event has started or is closed
+  IF evt.date <= NOW() OR evt.status IN ('completed', 'cancelled') THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM expire_waitlist_offers(p_event_id);
+
+  -- Once RSVPs close the line is frozen: confirming anyone would trip the RSVP
+  -- window check and roll back the change that freed the spot
+  IF evt.status = 'pending' OR (evt.rsvp_deadline IS NOT NULL AND evt.rsvp_deadline <= NOW()) THEN
+    RETURN 0;
+  END IF;
+
+  SELECT EXISTS (SELECT 1 FROM event_ticket_types WHERE event_id = p_event_id) INTO is_ticketed;
+
+  SELECT COALESCE(SUM(1 + COALESCE(guest_count, 0)), 0) INTO going_heads
+  FROM event_rsvps
+  WHERE event_id = p_event_id AND status = 'going';
+
+  SELECT COALESCE(SUM(1 + COALESCE(guest_count, 0)), 0) INTO held_heads
+  FROM event_waitlist
+  WHERE event_id = p_event_id AND offer_expires_at IS NOT NULL;
+
+  open_spots := evt.max_capacity - going_heads - held_heads;
+
+  WHILE open_spots > 0 LOOP
+    SELECT user_id, 1 + COALESCE(guest_count, 0) AS heads INTO next_entry
+    FROM event_waitlist
+    WHERE event_id = p_event_id AND offer_expires_at IS NULL
+    ORDER BY position ASC
+    LIMIT 1;
+
+    EXIT WHEN NOT FOUND;
+    EXIT WHEN next_entry.heads > open_spots;
+
+    IF COALESCE(evt.auto_confirm_waitlist, true) AND NOT is_ticketed THEN
+      PERFORM confirm_from_waitlist(p_event_id, next_entry.user_id);
+    ELSE
+      UPDATE event_waitlist SET
+        offer_expires_at = NOW() + make_interval(hours => evt.claim_hours),
+        notified_at = NOW()
+      WHERE event_id = p_event_id AND user_id = next_entry.user_id;
+
+      PERFORM create_notification(
+        next_entry.user_id,
+        'waitlist_offer',
+        'A spot opened up!',
+        'A spot at "' || evt.title || '" is being held for you. Claim it within '
+          || evt.claim_hours || ' hour' || CASE WHEN evt.claim_hours = 1 THEN '' ELSE 's' END
+          || CASE WHEN is_ticketed THEN ' by getting a ticket.' ELSE '.' END,
+        p_event_id
+      );
+    END IF;
+
+    promoted := promoted + 1;
+    open_spots := open_spots - next_entry.heads;
+  END LOOP;
+
+  RETURN promoted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- PERMISSIONS
+-- ============================================================================
+
+-- Checkout and refunds go through the API with the service role; a request with
+-- the anon key and no session has no auth.uid() either, so the checks above
+-- aren't enough on their own
+REVOKE EXECUTE ON FUNCTION expire_pending_ticket_orders(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reserve_ticket_order(UUID, UUID, UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_ticket_order(UUID, VARCHAR, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fail_ticket_order(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_ticket_order_refund(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_ticket_order_refund(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund_ticket_order(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- TIMESTAMPS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION update_event_ticketing_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_event_ticket_types_updated_at ON event_ticket_types;
+CREATE TRIGGER update_event_ticket_types_updated_at
+  BEFORE UPDATE ON event_ticket_types
+  FOR EACH ROW
+  EXECUTE FUNCTION update_event_ticketing_updated_at();
+
+COMMENT ON TABLE event_ticket_types IS 'Tickets a host sells for an event; an event with any is ticketed';
+COMMENT ON COLUMN event_ticket_types.kind IS 'free, paid, donation (pay what you want, price_cents is the minimum) or member (for members of section_id)';
+COMMENT ON COLUMN event_ticket_types.sold_count IS 'Tickets in paid orders and pending checkouts, kept up to date by trigger';
+COMMENT ON TABLE event_ticket_orders IS 'Ticket purchases, written by the checkout API; a paid order is tied to the RSVP it pays for';
+COMMENT ON COLUMN event_ticket_orders.quantity IS 'Tickets in the order: the buyer plus their guests';
+COMMENT ON COLUMN event_ticket_orders.provider IS 'Payment provider that took the payment (src/lib/payments.ts); NULL for free tickets';
@@ -0,0 +1,214 @@
+-- Migration: Direct Messages
+-- Direct messages used to be 'private' channels created by whichever page the
+-- "Message" button was on, named "DM: <other person>" or a fun two-word name.
+-- Two people clicking at once got two channels, the other person saw their own
+-- name as the title, and there was no way to add a third person.
+--
+-- DMs are now their own channel type. A DM's participants are fixed: dm_key is
+-- their sorted user ids, so one set of people has exactly one conversation, and
+-- start_conversation() is the only way to open one. Titles and avatars are worked
+-- out per viewer from the other participants (src/lib/directMessages.ts).
+
+-- ============================================================================
+-- CHANNEL TYPE
+-- ============================================================================
+
+ALTER TABLE channels
+DROP CONSTRAINT IF EXISTS channels_type_check;
+
+ALTER TABLE channels
+ADD CONSTRAINT channels_type_check CHECK (type IN ('public', 'private', 'event', 'project', 'section', 'dm'));
+
+-- Sorted, comma separated participant ids; only set for DMs
+ALTER TABLE channels
+ADD COLUMN IF NOT EXISTS dm_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_channels_dm_key ON channels(dm_key);
+
+ALTER TABLE channels
+DROP CONSTRAINT IF EXISTS channels_dm_key_check;
+
+ALTER TABLE channels
+ADD CONSTRAINT channels_dm_key_check CHECK ((type = 'dm') = (dm_key IS NOT NULL));
+
+-- Most people in one conversation; bigger groups should be a channel
+CREATE OR REPLACE FUNCTION max_dm_participants()
+RETURNS INTEGER AS $$
+  SELECT 9;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Clients can't insert DMs themselves (they could pick someone else's dm_key);
+-- start_conversation runs as the table owner, which RLS doesn't apply to
+DROP POLICY IF EXISTS "Authenticated users can create channels" ON channels;
+CREATE POLICY "Authenticated users can create channels" ON channels
+  FOR INSERT WITH CHECK (auth.uid() = created_by AND type <> 'dm');
+
+-- ============================================================================
+-- START A CONVERSATION
+-- ============================================================================
+-- Returns the DM between the caller and p_user_ids, creating it if needed. Safe
+-- to call concurrently: whoever loses the insert race gets the winner's channel.
+-- Everyone is a plain 'member', so nobody can add or remove people afterwards
+-- (channel_members policies only let owners/admins manage members, and
+-- protect_dm_member_roles() keeps anyone from promoting themselves). Anyone who
+-- left is added back when the conversation is started again.
+
+CREATE OR REPLACE FUNCTION start_conversation(p_user_ids UUID[])
+RETURNS UUID AS $$
+DECLARE
+  participants UUID[];
+  participant_count INTEGER;
+  conversation_key TEXT;
+  conversation_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You need to be signed in';
+  END IF;
+
+  SELECT array_agg(DISTINCT u ORDER BY u) INTO participants
+  FROM unnest(array_append(p_user_ids, auth.uid())) AS u
+  WHERE u IS NOT NULL;
+
+  participant_count := COALESCE(array_length(participants, 1), 0);
+
+  IF participant_count < 2 THEN
+    RAISE EXCEPTION 'Choose someone to message';
+  END IF;
+
+  IF participant_count > max_dm_participants() THEN
+    RAISE EXCEPTION 'A conversation can have at most % people', max_dm_participants();
+  END IF;
+
+  IF (SELECT COUNT(*) FROM profiles WHERE id = ANY(participants)) <> participant_count THEN
+    RAISE EXCEPTION 'Some of these people could not be found';
+  END IF;
+
+  conversation_key := array_to_string(participants, ',');
+
+  SELECT id INTO conversation_id FROM channels WHERE dm_key = conversation_key;
+
+  IF conversation_id IS NULL THEN
+    INSERT INTO channels (name, type, dm_key, created_by)
+    VALUES ('Direct message', 'dm', conversation_key, auth.uid())
+    ON CONFLICT (dm_key) DO NOTHING
+    RETURNING id INTO conversation_id;
+
+    IF conversation_id IS NULL THEN
+      SELECT id INTO conversation_id FROM channels WHERE dm_key = conversation_key;
+    END IF;
+  END IF;
+
+  INSERT INTO channel_members (channel_id, user_id, role)
+  SELECT conversation_id, u, 'member'
+  FROM unnest(participants) AS u
+  ON CONFLICT (channel_id, user_id) DO NOTHING;
+
+  RETURN conversation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- DMs keep their participant set: nobody renames them into a channel or
+-- changes who is in them by editing the row
+CREATE OR REPLACE FUNCTION protect_dm_channels()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.type = 'dm' AND (NEW.type <> 'dm' OR NEW.dm_key IS DISTINCT FROM OLD.dm_key) THEN
+    RAISE EXCEPTION 'Direct messages can''t be changed into channels';
+  END IF;
+  IF OLD.type <> 'dm' AND NEW.type = 'dm' THEN
+    RAISE EXCEPTION 'Use start_conversation to create direct messages';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_dm_channels ON channels;
+CREATE TRIGGER trigger_protect_dm_channels
+  BEFORE UPDATE ON channels
+  FOR EACH ROW EXECUTE FUNCTION protect_dm_channels();
+
+-- Members can update their own membership (muting, read markers), but in a DM
+-- that must not make them an owner or admin who can manage the participants
+CREATE OR REPLACE FUNCTION protect_dm_member_roles()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+     AND auth.uid() IS NOT NULL
+     AND EXISTS (SELECT 1 FROM channels WHERE id = NEW.channel_id AND type = 'dm') THEN
+    RAISE EXCEPTION 'Everyone in a direct message has the same role';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_protect_dm_member_roles ON channel_members;
+CREATE TRIGGER trigger_protect_dm_member_roles
+  BEFORE UPDATE OF role ON channel_members
+  FOR EACH ROW EXECUTE FUNCTION protect_dm_member_roles();
+
+-- ============================================================================
+-- CONVERT LEGACY DMS
+-- ============================================================================
+-- Old DMs are private channels named "DM: ..." or described as "Direct message
+-- with ...". Duplicates for the same people are merged into the oldest one.
+
+CREATE TEMP TABLE legacy_dms ON COMMIT DROP AS
+SELECT
+  c.id,
+  c.created_at,
+  (
+    SELECT string_agg(cm.user_id::text, ',' ORDER BY cm.user_id)
+    FROM channel_members cm
+    WHERE cm.channel_id = c.id
+  ) AS conversation_key,
+  (SELECT COUNT(*) FROM channel_members cm WHERE cm.channel_id = c.id) AS member_count
+FROM channels c
+WHERE c.type = 'private'
+  AND (c.name LIKE 'DM: %' OR c.description LIKE 'Direct message with %');
+
+DELETE FROM legacy_dms
+WHERE member_count < 2
+  OR member_count > max_dm_participants()
+  OR conversation_key IN (SELECT dm_key FROM channels WHERE dm_key IS NOT NULL);
+
+ALTER TABLE legacy_dms ADD COLUMN keeper_id UUID;
+
+UPDATE legacy_dms l
+SET keeper_id = (
+  SELECT k.id FROM legacy_dms k
+  WHERE k.conversation_key = l.conversation_key
+  ORDER BY k.created_at, k.id
+  LIMIT 1
+);
+
+UPDATE channel_messages m
+SET channel_id = l.keeper_id
+FROM legacy_dms l
+WHERE m.channel_id = l.id AND l.id <> l.keeper_id;
+
+DELETE FROM channels
+WHERE id IN (SELECT id FROM legacy_dms WHERE id <> keeper_id);
+
+ALTER TABLE channels DISABLE TRIGGER trigger_protect_dm_channels;
+
+UPDATE channels c
+SET type = 'dm',
+    dm_key = l.conversation_key,
+    name = 'Direct message',
+    description = NULL,
+    last_message_at = (SELECT MAX(created_at) FROM channel_messages WHERE channel_id = c.id)
+FROM legacy_dms l
+WHERE c.id = l.id AND l.id = l.keeper_id;
+
+ALTER TABLE channels ENABLE TRIGGER trigger_protect_dm_channels;
+
+UPDATE channel_members
+SET role = 'member'
+WHERE channel_id IN (SELECT id FROM channels WHERE type = 'dm');
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN channels.dm_key IS 'For direct messages: the participants'' user ids, sorted and comma separated';
+COMMENT ON FUNCTION start_conversation IS 'Find or create the direct message between the caller and the given users';
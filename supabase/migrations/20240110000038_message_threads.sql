@@ -0,0 +1,115 @@
+-- Migration: Message Threads
+-- Replies to a channel message (parent_message_id) form a thread shown in a side
+-- panel. A reply stays out of the main timeline unless it was also sent to the
+-- channel. The parent keeps its reply count and who replied last, so the
+-- timeline can show "3 replies" with avatars without loading the thread.
+--
+-- The original update_thread_count trigger ran as the replier, whose UPDATE on
+-- someone else's message was filtered out by RLS, so counts never moved. It is
+-- SECURITY DEFINER now and also recounts when a reply is deleted.
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+ALTER TABLE channel_messages
+ADD COLUMN IF NOT EXISTS also_sent_to_channel BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE channel_messages
+ADD COLUMN IF NOT EXISTS last_reply_at TIMESTAMPTZ;
+
+-- Most recent repliers first, up to three, for the avatars on the parent
+ALTER TABLE channel_messages
+ADD COLUMN IF NOT EXISTS last_reply_user_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- Only replies can also be sent to the channel
+ALTER TABLE channel_messages
+DROP CONSTRAINT IF EXISTS channel_messages_thread_reply_check;
+
+ALTER TABLE channel_messages
+ADD CONSTRAINT channel_messages_thread_reply_check CHECK (
+  parent_message_id IS NOT NULL OR also_sent_to_channel = false
+);
+
+CREATE INDEX IF NOT EXISTS idx_channel_messages_thread
+  ON channel_messages(parent_message_id, created_at)
+  WHERE parent_message_id IS NOT NULL;
+
+-- ============================================================================
+-- THREAD SUMMARY ON THE PARENT
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION refresh_thread_summary(p_parent_id UUID)
+RETURNS void AS $$
+BEGIN
+  UPDATE channel_messages
+  SET thread_count = summary.reply_count,
+      last_reply_at = summary.last_reply_at,
+      last_reply_user_ids = summary.user_ids
+  FROM (
+    SELECT
+      COUNT(*)::INTEGER AS reply_count,
+      MAX(created_at) AS last_reply_at,
+      COALESCE((
+        SELECT array_agg(recent.user_id ORDER BY recent.replied_at DESC)
+        FROM (
+          SELECT user_id, MAX(created_at) AS replied_at
+          FROM channel_messages
+          WHERE parent_message_id = p_parent_id AND deleted_at IS NULL
+          GROUP BY user_id
+          ORDER BY replied_at DESC
+          LIMIT 3
+        ) recent
+      ), '{}') AS user_ids
+    FROM channel_messages
+    WHERE parent_message_id = p_parent_id AND deleted_at IS NULL
+  ) summary
+  WHERE channel_messages.id = p_parent_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Threads only go one level deep, within one channel
+CREATE OR REPLACE FUNCTION update_thread_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.parent_message_id IS NOT NULL THEN
+      IF EXISTS (
+        SELECT 1 FROM channel_messages
+        WHERE id = NEW.parent_message_id
+        AND (channel_id <> NEW.channel_id OR parent_message_id IS NOT NULL)
+      ) THEN
+        RAISE EXCEPTION 'Replies must be to a message in the same channel';
+      END IF;
+      PERFORM refresh_thread_summary(NEW.parent_message_id);
+    END IF;
+  ELSIF NEW.parent_message_id IS NOT NULL AND NEW.deleted_at IS DISTINCT FROM OLD.deleted_at THEN
+    PERFORM refresh_thread_summary(NEW.parent_message_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_update_thread_count ON channel_messages;
+CREATE TRIGGER trigger_update_thread_count
+  AFTER INSERT OR UPDATE OF deleted_at ON channel_messages
+  FOR EACH ROW EXECUTE FUNCTION update_thread_count();
+
+-- Backfill existing threads
+DO $$
+DECLARE
+  parent_id UUID;
+BEGIN
+  FOR parent_id IN
+    SELECT DISTINCT parent_message_id FROM channel_messages WHERE parent_message_id IS NOT NULL
+  LOOP
+    PERFORM refresh_thread_summary(parent_id);
+  END LOOP;
+END $$;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN channel_messages.also_sent_to_channel IS 'Thread reply that is also shown in the channel timeline';
+COMMENT ON COLUMN channel_messages.last_reply_user_ids IS 'Up to three most recent repliers, newest first (maintained by update_thread_count)';
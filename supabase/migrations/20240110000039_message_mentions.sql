@@ -0,0 +1,128 @@
+-- Migration: Message Mentions
+-- Mentions are written into message content as @[Name](user-id) tokens (see
+-- src/lib/mentions.ts) and the ids go in channel_messages.mentioned_user_ids.
+-- @channel and @here set mention_scope instead:
+--   - 'channel': every member of the channel
+--   - 'here':    members who had the channel open in the last 10 minutes
+-- Each person called out gets a row in message_mentions, their mentions inbox.
+-- Mentions are worked out when a message is sent; editing it later doesn't
+-- notify anyone new.
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+ALTER TABLE channel_messages
+ADD COLUMN IF NOT EXISTS mention_scope VARCHAR(10) CHECK (mention_scope IN ('channel', 'here'));
+
+CREATE INDEX IF NOT EXISTS idx_channel_messages_mentioned_users
+  ON channel_messages USING gin(mentioned_user_ids);
+
+-- ============================================================================
+-- MENTIONS INBOX
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS message_mentions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES channel_messages(id) ON DELETE CASCADE,
+  channel_id UUID NOT NULL REFERENCES channels(id) ON DELETE CASCADE,
+  -- Who was mentioned, and by whom
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  mentioned_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind VARCHAR(10) NOT NULL CHECK (kind IN ('user', 'channel', 'here')),
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(message_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_mentions_user ON message_mentions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_message_mentions_unread ON message_mentions(user_id) WHERE read_at IS NULL;
+
+ALTER TABLE message_mentions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are created by the trigger below; people only read and dismiss their own
+DROP POLICY IF EXISTS "Users can view their own mentions" ON message_mentions;
+CREATE POLICY "Users can view their own mentions"
+  ON message_mentions FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own mentions" ON message_mentions;
+CREATE POLICY "Users can update their own mentions"
+  ON message_mentions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own mentions" ON message_mentions;
+CREATE POLICY "Users can delete their own mentions"
+  ON message_mentions FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- RECORD MENTIONS
+-- ============================================================================
+
+-- Whether someone can read a channel: public, or a member who isn't banned
+CREATE OR REPLACE FUNCTION can_read_channel(p_channel_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM channels WHERE id = p_channel_id AND type = 'public'
+  ) OR EXISTS (
+    SELECT 1 FROM channel_members
+    WHERE channel_id = p_channel_id AND user_id = p_user_id AND is_banned = false
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Keep only mentions of other people who can read the channel
+CREATE OR REPLACE FUNCTION clean_message_mentions()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.mentioned_user_ids := COALESCE((
+    SELECT array_agg(DISTINCT u)
+    FROM unnest(NEW.mentioned_user_ids) AS u
+    WHERE u <> NEW.user_id AND can_read_channel(NEW.channel_id, u)
+  ), '{}');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_clean_message_mentions ON channel_messages;
+CREATE TRIGGER trigger_clean_message_mentions
+  BEFORE INSERT ON channel_messages
+  FOR EACH ROW EXECUTE FUNCTION clean_message_mentions();
+
+CREATE OR REPLACE FUNCTION record_message_mentions()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Direct mentions first, so they win over @channel/@here for the same person
+  INSERT INTO message_mentions (message_id, channel_id, user_id, mentioned_by, kind)
+  SELECT NEW.id, NEW.channel_id, u, NEW.user_id, 'user'
+  FROM unnest(NEW.mentioned_user_ids) AS u
+  ON CONFLICT (message_id, user_id) DO NOTHING;
+
+  IF NEW.mention_scope IS NOT NULL THEN
+    INSERT INTO message_mentions (message_id, channel_id, user_id, mentioned_by, kind)
+    SELECT NEW.id, NEW.channel_id, cm.user_id, NEW.user_id, NEW.mention_scope
+    FROM channel_members cm
+    WHERE cm.channel_id = NEW.channel_id
+      AND cm.user_id <> NEW.user_id
+      AND cm.is_banned = false
+      AND cm.notifications_enabled = true
+      AND (NEW.mention_scope = 'channel' OR cm.last_read_at > NOW() - INTERVAL '10 minutes')
+    ON CONFLICT (message_id, user_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_record_message_mentions ON channel_messages;
+CREATE TRIGGER trigger_record_message_mentions
+  AFTER INSERT ON channel_messages
+  FOR EACH ROW EXECUTE FUNCTION record_message_mentions();
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE message_mentions IS 'Mentions inbox: one row per person called out in a message';
+COMMENT ON COLUMN channel_messages.mention_scope IS '@channel (every member) or @here (members active in the last 10 minutes)';
@@ -0,0 +1,137 @@
+-- Migration: Channel Read State
+-- channel_members.last_read_at is the read marker for each member of a chat.
+-- mark_channel_read() is the only thing that moves it. The client calls it as
+-- messages scroll into view, and it only moves forward. It also:
+--   - records message_read_receipts for the messages it passed over
+--   - marks mentions in those messages as read
+-- get_unread_counts() returns every chat's unread and mention counts in one call,
+-- for the chats sidebar and the header badge.
+-- Unread messages are the ones shown in the channel timeline (not thread-only
+-- replies) from other people. Your own messages never count.
+-- Realtime on channel_members (see 20240110000004) keeps the badge in sync
+-- across tabs.
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_channel_messages_channel_created
+  ON channel_messages(channel_id, created_at)
+  WHERE deleted_at IS NULL;
+
+-- ============================================================================
+-- UNREAD COUNTS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_unread_counts()
+RETURNS TABLE (channel_id UUID, unread_count INTEGER, mention_count INTEGER) AS $$
+  SELECT
+    cm.channel_id,
+    (
+      SELECT COUNT(*)::INTEGER
+      FROM channel_messages m
+      WHERE m.channel_id = cm.channel_id
+        AND m.created_at > cm.last_read_at
+        AND m.user_id <> cm.user_id
+        AND m.deleted_at IS NULL
+        AND (m.parent_message_id IS NULL OR m.also_sent_to_channel = true)
+    ),
+    (
+      SELECT COUNT(*)::INTEGER
+      FROM message_mentions mm
+      JOIN channel_messages m ON m.id = mm.message_id
+      WHERE mm.channel_id = cm.channel_id
+        AND mm.user_id = cm.user_id
+        AND mm.read_at IS NULL
+        AND m.deleted_at IS NULL
+    )
+  FROM channel_members cm
+  JOIN channels c ON c.id = cm.channel_id
+  WHERE cm.user_id = auth.uid()
+    AND cm.is_banned = false
+    AND c.is_archived = false;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- MARK READ
+-- ============================================================================
+
+-- Move the caller's read marker up to p_read_at (never back, never past now).
+-- Returns the marker after the call, or NULL if the caller isn't a member.
+CREATE OR REPLACE FUNCTION mark_channel_read(
+  p_channel_id UUID,
+  p_read_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_read_at TIMESTAMPTZ := LEAST(COALESCE(p_read_at, NOW()), NOW());
+  v_previous TIMESTAMPTZ;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You need to be signed in';
+  END IF;
+
+  SELECT last_read_at INTO v_previous
+  FROM channel_members
+  WHERE channel_id = p_channel_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_previous IS NOT NULL AND v_read_at <= v_previous THEN
+    RETURN v_previous;
+  END IF;
+
+  INSERT INTO message_read_receipts (message_id, user_id, read_at)
+  SELECT m.id, v_user_id, NOW()
+  FROM channel_messages m
+  WHERE m.channel_id = p_channel_id
+    AND m.created_at > COALESCE(v_previous, '-infinity'::TIMESTAMPTZ)
+    AND m.created_at <= v_read_at
+    AND m.user_id <> v_user_id
+    AND m.deleted_at IS NULL
+  ON CONFLICT (message_id, user_id) DO NOTHING;
+
+  -- Mentions in thread-only replies stay unread until the thread is opened
+  UPDATE message_mentions mm
+  SET read_at = NOW()
+  FROM channel_messages m
+  WHERE mm.message_id = m.id
+    AND mm.user_id = v_user_id
+    AND mm.channel_id = p_channel_id
+    AND mm.read_at IS NULL
+    AND m.created_at <= v_read_at
+    AND (m.parent_message_id IS NULL OR m.also_sent_to_channel = true);
+
+  UPDATE channel_members
+  SET last_read_at = v_read_at
+  WHERE channel_id = p_channel_id AND user_id = v_user_id;
+
+  RETURN v_read_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Opening a thread reads every mention in it
+CREATE OR REPLACE FUNCTION mark_thread_read(p_parent_message_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE message_mentions mm
+  SET read_at = NOW()
+  FROM channel_messages m
+  WHERE mm.message_id = m.id
+    AND mm.user_id = auth.uid()
+    AND mm.read_at IS NULL
+    AND (m.id = p_parent_message_id OR m.parent_message_id = p_parent_message_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON FUNCTION get_unread_counts IS 'Unread message and mention counts for each of the caller''s chats';
+COMMENT ON FUNCTION mark_channel_read IS 'Move the caller''s read marker forward, recording read receipts and reading mentions';
+COMMENT ON FUNCTION mark_thread_read IS 'Mark the caller''s mentions in a thread as read';